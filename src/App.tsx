@@ -5,6 +5,9 @@ import { HelmetProvider } from 'react-helmet-async';
 import { AuthProvider } from './contexts/AuthContext';
 import { LoadingProvider } from './contexts/LoadingContext';
 import { ServicesProvider } from './contexts/ServicesContext';
+import { CartProvider } from './contexts/CartContext';
+import { AdminProvider } from './contexts/AdminContext';
+import { OrganizationProvider } from './contexts/OrganizationContext';
 import ErrorBoundary from './components/ErrorBoundary';
 import AppContent from './components/AppContent';
 
@@ -16,9 +19,15 @@ function App() {
           <BrowserRouter>
             <LoadingProvider>
               <AuthProvider>
-                <ServicesProvider>
-                  <AppContent />
-                </ServicesProvider>
+                <AdminProvider>
+                  <OrganizationProvider>
+                    <ServicesProvider>
+                      <CartProvider>
+                        <AppContent />
+                      </CartProvider>
+                    </ServicesProvider>
+                  </OrganizationProvider>
+                </AdminProvider>
               </AuthProvider>
             </LoadingProvider>
           </BrowserRouter>
@@ -13,6 +13,7 @@ import WashAndIronItems from './order/items/WashAndIronItems';
 import DryCleaningItems from './order/items/DryCleaningItems';
 import RepairItems from './order/items/RepairItems';
 import EazyBagItems from './order/items/EazyBagItems';
+import CarpetCleaning from './order/CarpetCleaning';
 import AddressSelection from './order/AddressSelection';
 import SchedulePickup from './order/SchedulePickup';
 import OrderConfirmation from './order/OrderConfirmation';
@@ -34,10 +35,12 @@ import Services from './pages/Services';
 import LoginForm from './auth/LoginForm';
 import RegisterForm from './auth/RegisterForm';
 import AuthCallback from './auth/AuthCallback';
+import ResetPassword from './auth/ResetPassword';
 import Profile from './account/Profile';
 import Orders from './account/Orders';
 import Settings from './account/Settings';
 import Quotes from './account/Quotes';
+import PickupPlans from './account/PickupPlans';
 import Business from './pages/business/Business';
 import BusinessRegistration from './pages/business/BusinessRegistration';
 import BusinessSuccess from './pages/business/BusinessSuccess';
@@ -45,8 +48,16 @@ import BusinessDashboard from './pages/business/BusinessDashboard';
 import BusinessBilling from './pages/business/BusinessBilling';
 import BusinessTeam from './pages/business/BusinessTeam';
 import BusinessReports from './pages/business/BusinessReports';
+import BusinessGuard from './pages/business/BusinessGuard';
 import AdminLogin from './admin/AdminLogin';
 import Dashboard from './admin/Dashboard';
+import AdminOrders from './admin/Orders';
+import AdminSettings from './admin/Settings';
+import AdminUsers from './admin/Users';
+import AdminQuotes from './admin/Quotes';
+import AdminBusinesses from './admin/Businesses';
+import AdminBilling from './admin/Billing';
+import AdminGuard from './admin/AdminGuard';
 import SEO from './SEO';
 
 const HomePage = () => (
@@ -94,10 +105,13 @@ const AppContent: React.FC = () => {
           <Route path="/business" element={<Business />} />
           <Route path="/business/register" element={<BusinessRegistration />} />
           <Route path="/business/success" element={<BusinessSuccess />} />
-          <Route path="/business/dashboard" element={<BusinessDashboard />} />
-          <Route path="/business/billing" element={<BusinessBilling />} />
-          <Route path="/business/team" element={<BusinessTeam />} />
-          <Route path="/business/reports" element={<BusinessReports />} />
+          <Route path="/business/dashboard" element={<BusinessGuard><BusinessDashboard /></BusinessGuard>} />
+          <Route path="/business/billing" element={<BusinessGuard><BusinessBilling /></BusinessGuard>} />
+          <Route path="/business/team" element={<BusinessGuard><BusinessTeam /></BusinessGuard>} />
+          <Route
+            path="/business/reports"
+            element={<BusinessGuard roles={['owner', 'admin', 'viewer']}><BusinessReports /></BusinessGuard>}
+          />
           
           {/* Order Flow Routes */}
           <Route path="/order/service" element={<ServiceSelection />} />
@@ -105,6 +119,7 @@ const AppContent: React.FC = () => {
           <Route path="/order/items/dry-cleaning" element={<DryCleaningItems />} />
           <Route path="/order/items/repairs" element={<RepairItems />} />
           <Route path="/order/items/easy-bag" element={<EazyBagItems />} />
+          <Route path="/order/items/carpet-cleaning" element={<CarpetCleaning />} />
           <Route path="/order/address" element={<AddressSelection />} />
           <Route path="/order/schedule" element={<SchedulePickup />} />
           <Route path="/order/confirmation" element={<OrderConfirmation />} />
@@ -116,16 +131,42 @@ const AppContent: React.FC = () => {
           <Route path="/login" element={<LoginForm />} />
           <Route path="/register" element={<RegisterForm />} />
           <Route path="/auth/callback" element={<AuthCallback />} />
+          <Route path="/reset-password" element={<ResetPassword />} />
           
           {/* Account Routes */}
           <Route path="/account/profile" element={<Profile />} />
           <Route path="/account/orders" element={<Orders />} />
+          <Route path="/account/pickups" element={<PickupPlans />} />
           <Route path="/account/quotes" element={<Quotes />} />
           <Route path="/account/settings" element={<Settings />} />
           
           {/* Admin Routes */}
           <Route path="/admin/login" element={<AdminLogin />} />
-          <Route path="/admin/dashboard" element={<Dashboard />} />
+          <Route path="/admin/dashboard" element={<AdminGuard><Dashboard /></AdminGuard>} />
+          <Route
+            path="/admin/orders"
+            element={<AdminGuard permission="orders.read"><AdminOrders /></AdminGuard>}
+          />
+          <Route
+            path="/admin/quotes"
+            element={<AdminGuard permission="quotes.read"><AdminQuotes /></AdminGuard>}
+          />
+          <Route
+            path="/admin/businesses"
+            element={<AdminGuard permission="businesses.read"><AdminBusinesses /></AdminGuard>}
+          />
+          <Route
+            path="/admin/billing"
+            element={<AdminGuard permission="billing.read"><AdminBilling /></AdminGuard>}
+          />
+          <Route
+            path="/admin/users"
+            element={<AdminGuard permission="users.read"><AdminUsers /></AdminGuard>}
+          />
+          <Route
+            path="/admin/settings"
+            element={<AdminGuard superAdminOnly><AdminSettings /></AdminGuard>}
+          />
           
           {/* Support & Legal Pages */}
           <Route path="/support" element={<Support />} />
@@ -3,6 +3,7 @@ import { motion, useAnimation, AnimatePresence } from 'framer-motion';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { Home, Info, DollarSign, MessageSquare, Menu, X, ChevronRight, User, Mail, Package, ShoppingBag, Building2, LogOut, AlertTriangle } from 'lucide-react';
 import Logo from './Logo';
+import NotificationBell from './NotificationBell';
 import { useAuth } from '../contexts/AuthContext';
 
 interface HeaderProps {
@@ -143,6 +144,8 @@ const Header: React.FC<HeaderProps> = ({ scrollY }) => {
                 <span>Order Now</span>
               </motion.button>
 
+              <NotificationBell />
+
               {user ? (
                 <div className="relative">
                   <motion.button
@@ -1,11 +1,34 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { motion } from 'framer-motion';
-import { Download, Smartphone, Check, Calendar } from 'lucide-react';
+import { Download, Smartphone, Check, Calendar, MapPin } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import Logo from './Logo';
+import ServiceAreaWaitlist from './ServiceAreaWaitlist';
+import { supabase } from '../lib/supabase';
 
 const Hero: React.FC = () => {
   const navigate = useNavigate();
+  const [postalCode, setPostalCode] = useState('');
+  const [checkingArea, setCheckingArea] = useState(false);
+  const [coverage, setCoverage] = useState<{ postalCode: string; city: string | null } | null>(null);
+
+  const handleCheckPostalCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCheckingArea(true);
+
+    try {
+      const { data, error } = await supabase.rpc('lookup_service_area', {
+        p_postal_code: postalCode
+      });
+
+      if (error) throw error;
+      setCoverage({ postalCode: postalCode.trim().toUpperCase(), city: data as string | null });
+    } catch (error) {
+      console.error('Error checking postal code:', error);
+    } finally {
+      setCheckingArea(false);
+    }
+  };
 
   return (
     <section 
@@ -145,6 +168,49 @@ const Hero: React.FC = () => {
               Schedule a Pickup
             </motion.button>
           </motion.div>
+
+          <motion.div
+            className="max-w-xl mx-auto md:mx-0 mb-8"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.8, delay: 0.8 }}
+          >
+            <form onSubmit={handleCheckPostalCode} className="flex gap-2 mb-4">
+              <div className="relative flex-1">
+                <MapPin className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+                <input
+                  type="text"
+                  value={postalCode}
+                  onChange={(e) => {
+                    setPostalCode(e.target.value);
+                    setCoverage(null);
+                  }}
+                  className="w-full pl-10 pr-4 py-3 rounded-xl border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200 transition-all duration-300"
+                  placeholder="Do we deliver to you? e.g. 1011 AB"
+                  required
+                />
+              </div>
+              <motion.button
+                type="submit"
+                disabled={checkingArea}
+                className="px-6 py-3 bg-gray-900 text-white rounded-xl font-medium transition-all duration-300 disabled:bg-gray-400"
+                whileHover={{ scale: checkingArea ? 1 : 1.05 }}
+                whileTap={{ scale: checkingArea ? 1 : 0.95 }}
+              >
+                {checkingArea ? 'Checking...' : 'Check'}
+              </motion.button>
+            </form>
+
+            {coverage?.city && (
+              <p className="flex items-center text-green-700 text-left">
+                <Check className="w-5 h-5 mr-2" />
+                Good news, we pick up and deliver in {coverage.city}!
+              </p>
+            )}
+            {coverage && !coverage.city && (
+              <ServiceAreaWaitlist postalCode={coverage.postalCode} />
+            )}
+          </motion.div>
           
           <motion.div
             className="flex flex-col sm:flex-row items-center justify-center md:justify-start gap-6 text-gray-600"
@@ -0,0 +1,145 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { Bell } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+
+interface Notification {
+  id: string;
+  title: string;
+  body: string | null;
+  link: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+const NotificationBell: React.FC = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [open, setOpen] = useState(false);
+
+  const userId = user?.id;
+
+  const fetchNotifications = useCallback(async () => {
+    if (!userId) return;
+
+    const { data, error } = await supabase
+      .from('notifications')
+      .select('id, title, body, link, read_at, created_at')
+      .order('created_at', { ascending: false })
+      .limit(10);
+
+    if (error) {
+      console.error('Error fetching notifications:', error);
+      return;
+    }
+
+    setNotifications((data || []) as unknown as Notification[]);
+  }, [userId]);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    fetchNotifications();
+
+    const channel = supabase
+      .channel(`notifications-${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'notifications',
+          filter: `user_id=eq.${userId}`
+        },
+        () => fetchNotifications()
+      )
+      .subscribe();
+
+    return () => {
+      channel.unsubscribe();
+    };
+  }, [userId, fetchNotifications]);
+
+  const unread = notifications.filter(notification => !notification.read_at);
+
+  const handleOpen = async () => {
+    setOpen(!open);
+
+    if (!open && unread.length > 0) {
+      const { error } = await supabase.rpc('mark_notifications_read', {
+        p_ids: unread.map(notification => notification.id)
+      });
+      if (error) {
+        console.error('Error marking notifications read:', error);
+      }
+    }
+  };
+
+  const handleClose = () => {
+    setOpen(false);
+    // Drop the unread dots only once the list is closed
+    fetchNotifications();
+  };
+
+  if (!user) return null;
+
+  return (
+    <div className="relative">
+      <motion.button
+        onClick={open ? handleClose : handleOpen}
+        className="relative p-3 text-white hover:bg-white/10 rounded-full transition-all duration-300"
+        whileHover={{ scale: 1.05 }}
+        whileTap={{ scale: 0.95 }}
+        aria-label="Notifications"
+      >
+        <Bell className="w-5 h-5" />
+        {unread.length > 0 && (
+          <span className="absolute top-1 right-1 min-w-[18px] h-[18px] px-1 rounded-full bg-red-500 text-white text-xs flex items-center justify-center">
+            {unread.length}
+          </span>
+        )}
+      </motion.button>
+
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 10 }}
+            className="absolute right-0 mt-2 w-80 bg-white rounded-xl shadow-lg py-2 z-50"
+          >
+            {notifications.length === 0 ? (
+              <p className="px-4 py-3 text-sm text-gray-600">No notifications yet</p>
+            ) : (
+              notifications.map(notification => (
+                <button
+                  key={notification.id}
+                  onClick={() => {
+                    handleClose();
+                    if (notification.link) navigate(notification.link);
+                  }}
+                  className="w-full px-4 py-3 text-left hover:bg-gray-50"
+                >
+                  <div className="flex items-center gap-2">
+                    {!notification.read_at && <span className="w-2 h-2 rounded-full bg-blue-600 flex-shrink-0" />}
+                    <span className="font-medium text-gray-900">{notification.title}</span>
+                  </div>
+                  {notification.body && <div className="text-sm text-gray-600">{notification.body}</div>}
+                  <div className="text-xs text-gray-400 mt-1">
+                    {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                  </div>
+                </button>
+              ))
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default NotificationBell;
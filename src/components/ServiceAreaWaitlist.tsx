@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Bell, Check, Mail } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { supabase } from '../lib/supabase';
+
+interface ServiceAreaWaitlistProps {
+  postalCode: string;
+}
+
+const ServiceAreaWaitlist: React.FC<ServiceAreaWaitlistProps> = ({ postalCode }) => {
+  const { user } = useAuth();
+  const [email, setEmail] = useState(user?.email ?? '');
+  const [loading, setLoading] = useState(false);
+  const [joined, setJoined] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+
+    try {
+      const { error: waitlistError } = await supabase.rpc('join_service_area_waitlist', {
+        p_email: email,
+        p_postal_code: postalCode
+      });
+
+      if (waitlistError) throw waitlistError;
+      setJoined(true);
+    } catch (err) {
+      console.error('Error joining waitlist:', err);
+      setError('Could not sign you up, please check your email address');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="p-6 rounded-xl bg-yellow-50 text-left">
+      <div className="flex items-center mb-2">
+        <Bell className="w-5 h-5 text-yellow-600 mr-2" />
+        <h3 className="font-bold text-gray-900">We don't deliver to {postalCode} yet</h3>
+      </div>
+
+      {joined ? (
+        <p className="flex items-center text-green-700">
+          <Check className="w-5 h-5 mr-2" />
+          Thanks! We'll let you know when we launch in your area.
+        </p>
+      ) : (
+        <>
+          <p className="text-gray-600 mb-4">
+            Leave your email and we'll notify you when we launch here.
+          </p>
+          <form onSubmit={handleSubmit} className="flex flex-col sm:flex-row gap-3">
+            <div className="relative flex-1">
+              <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="w-full pl-10 pr-4 py-3 rounded-xl border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200 transition-all duration-300"
+                placeholder="you@example.com"
+                required
+              />
+            </div>
+            <motion.button
+              type="submit"
+              disabled={loading}
+              className="px-6 py-3 bg-blue-600 text-white rounded-xl font-medium shadow-lg hover:shadow-xl transition-all duration-300 disabled:bg-gray-400"
+              whileHover={{ scale: loading ? 1 : 1.05 }}
+              whileTap={{ scale: loading ? 1 : 0.95 }}
+            >
+              {loading ? 'Saving...' : 'Notify Me'}
+            </motion.button>
+          </form>
+          {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ServiceAreaWaitlist;
@@ -1,45 +1,15 @@
 import React from 'react';
 import { motion } from 'framer-motion';
 import { useNavigate } from 'react-router-dom';
-import { Package, Shirt, Wind, Scissors, ArrowRight } from 'lucide-react';
-
-const services = [
-  {
-    id: 'easy-bag',
-    name: 'Eazyy Bag',
-    icon: Package,
-    description: 'Weight-based washing perfect for regular laundry',
-    color: 'bg-blue-600',
-    lightColor: 'bg-blue-50'
-  },
-  {
-    id: 'wash-iron',
-    name: 'Wash & Iron',
-    icon: Shirt,
-    description: 'Professional cleaning and pressing for individual items',
-    color: 'bg-purple-600',
-    lightColor: 'bg-purple-50'
-  },
-  {
-    id: 'dry-cleaning',
-    name: 'Dry Cleaning',
-    icon: Wind,
-    description: 'Specialized cleaning for delicate garments',
-    color: 'bg-emerald-600',
-    lightColor: 'bg-emerald-50'
-  },
-  {
-    id: 'repairs',
-    name: 'Repairs',
-    icon: Scissors,
-    description: 'Expert mending and alterations services',
-    color: 'bg-amber-600',
-    lightColor: 'bg-amber-50'
-  }
-];
+import { ArrowRight } from 'lucide-react';
+import { useServices } from '../contexts/ServicesContext';
+import { getServiceIcon } from '../lib/serviceIcons';
 
 const WhatEazyyOffers: React.FC = () => {
   const navigate = useNavigate();
+  const { services, getFromPrice } = useServices();
+
+  const activeServices = services.filter(service => service.status !== false);
 
   return (
     <section className="py-12 sm:py-24 bg-gradient-to-b from-white to-blue-50">
@@ -59,29 +29,39 @@ const WhatEazyyOffers: React.FC = () => {
         </motion.div>
 
         <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
-          {services.map((service, index) => (
-            <motion.div
-              key={service.id}
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              transition={{ duration: 0.5, delay: index * 0.1 }}
-              className={`${service.lightColor} rounded-2xl p-6`}
-            >
-              <div className={`w-14 h-14 ${service.color} rounded-xl flex items-center justify-center text-white mb-4`}>
-                <service.icon size={28} />
-              </div>
-              <h3 className="text-xl font-bold text-gray-900 mb-2">{service.name}</h3>
-              <p className="text-gray-600 mb-4">{service.description}</p>
-              <motion.button
-                onClick={() => navigate(`/order/items/${service.id}`)}
-                className="text-blue-600 font-medium flex items-center hover:text-blue-700"
-                whileHover={{ x: 5 }}
+          {activeServices.map((service, index) => {
+            const Icon = getServiceIcon(service.icon);
+            const fromPrice = getFromPrice(service.service_identifier);
+
+            return (
+              <motion.div
+                key={service.id}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ duration: 0.5, delay: index * 0.1 }}
+                className={`${service.color_scheme?.secondary || 'bg-blue-50'} rounded-2xl p-6`}
               >
-                Learn More
-                <ArrowRight className="w-5 h-5 ml-1" />
-              </motion.button>
-            </motion.div>
-          ))}
+                <div className={`w-14 h-14 ${service.color_scheme?.primary || 'bg-blue-600'} rounded-xl flex items-center justify-center text-white mb-4`}>
+                  <Icon size={28} />
+                </div>
+                <h3 className="text-xl font-bold text-gray-900 mb-2">{service.name}</h3>
+                <p className="text-gray-600 mb-2">{service.short_description}</p>
+                {fromPrice !== null && (
+                  <p className="text-gray-900 font-medium mb-4">
+                    From €{fromPrice.toFixed(2)} {service.price_unit}
+                  </p>
+                )}
+                <motion.button
+                  onClick={() => navigate(`/order/items/${service.service_identifier}`)}
+                  className="text-blue-600 font-medium flex items-center hover:text-blue-700"
+                  whileHover={{ x: 5 }}
+                >
+                  Learn More
+                  <ArrowRight className="w-5 h-5 ml-1" />
+                </motion.button>
+              </motion.div>
+            );
+          })}
         </div>
       </div>
     </section>
@@ -1,7 +1,7 @@
 import React from 'react';
 import { motion } from 'framer-motion';
 import { useNavigate } from 'react-router-dom';
-import { User, Package, Settings, LogOut, FileText } from 'lucide-react';
+import { User, Package, Settings, LogOut, FileText, Repeat } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 
 interface AccountLayoutProps {
@@ -16,6 +16,7 @@ const AccountLayout: React.FC<AccountLayoutProps> = ({ children, activeTab }) =>
   const tabs = [
     { id: 'profile', label: 'Profile', icon: User },
     { id: 'orders', label: 'Orders', icon: Package },
+    { id: 'pickups', label: 'Pickup Plans', icon: Repeat },
     { id: 'quotes', label: 'Quotes', icon: FileText },
     { id: 'settings', label: 'Settings', icon: Settings }
   ];
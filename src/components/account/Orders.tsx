@@ -1,12 +1,28 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { format } from 'date-fns';
-import { Package, Clock, MapPin, Search, Filter, ChevronDown, ChevronUp } from 'lucide-react';
+import { Package, Clock, MapPin, Search, Filter, ChevronDown, ChevronUp, CreditCard, Repeat } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 import { supabase } from '../../lib/supabase';
 import type { Order } from '../../lib/supabase';
+import { ORDER_STATUSES, getOrderStatusColor, getOrderStatusLabel } from '../../lib/orderStatus';
+import { settlementLabel } from '../../lib/weighing';
+import type { OrderSettlement } from '../../lib/weighing';
 import AccountLayout from './AccountLayout';
 
+// Orders placed before pickup and delivery addresses were split only have a
+// shipping address, which is where we picked up as well
+type CustomerOrder = Order & {
+  pickup_address: string | null;
+  payment_status: string;
+  payment_method: string | null;
+  pickup_plan_id: string | null;
+};
+
+// Orders from a pickup plan are created unpaid and are paid from here
+const isAwaitingPayment = (order: CustomerOrder) =>
+  order.status === 'pending' && order.payment_status === 'pending' && order.payment_method !== 'invoice';
+
 interface OrderFilters {
   status: string;
   dateRange: string;
@@ -14,7 +30,8 @@ interface OrderFilters {
 
 const Orders: React.FC = () => {
   const { user } = useAuth();
-  const [orders, setOrders] = useState<Order[]>([]);
+  const [orders, setOrders] = useState<CustomerOrder[]>([]);
+  const [settlements, setSettlements] = useState<{ [orderId: string]: OrderSettlement }>({});
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [filters, setFilters] = useState<OrderFilters>({
@@ -23,6 +40,8 @@ const Orders: React.FC = () => {
   });
   const [showFilters, setShowFilters] = useState(false);
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
+  const [payingOrderId, setPayingOrderId] = useState<string | null>(null);
+  const [paymentError, setPaymentError] = useState<{ orderId: string; message: string } | null>(null);
 
   useEffect(() => {
     const fetchOrders = async () => {
@@ -36,7 +55,18 @@ const Orders: React.FC = () => {
           .order('created_at', { ascending: sortOrder === 'asc' });
 
         if (error) throw error;
-        setOrders(data || []);
+        setOrders((data || []) as CustomerOrder[]);
+
+        // Weighed bags that came out heavier or lighter than estimated
+        const { data: settlementData, error: settlementError } = await supabase
+          .from('order_settlements')
+          .select('id, order_id, kind, amount, status');
+
+        if (settlementError) throw settlementError;
+        setSettlements(Object.fromEntries(
+          ((settlementData || []) as unknown as (OrderSettlement & { order_id: string })[])
+            .map(settlement => [settlement.order_id, settlement])
+        ));
       } catch (error) {
         console.error('Error fetching orders:', error);
       } finally {
@@ -47,29 +77,34 @@ const Orders: React.FC = () => {
     fetchOrders();
   }, [user, sortOrder]);
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'pending':
-        return 'bg-yellow-100 text-yellow-800';
-      case 'processing':
-        return 'bg-blue-100 text-blue-800';
-      case 'shipped':
-        return 'bg-purple-100 text-purple-800';
-      case 'delivered':
-        return 'bg-green-100 text-green-800';
-      case 'cancelled':
-        return 'bg-red-100 text-red-800';
-      default:
-        return 'bg-gray-100 text-gray-800';
+  const handlePay = async (order: CustomerOrder) => {
+    try {
+      setPayingOrderId(order.id);
+      setPaymentError(null);
+
+      // Mollie offers every method when none is chosen
+      const { data, error } = await supabase.functions.invoke('create-payment', {
+        body: { orderId: order.id }
+      });
+
+      if (error) throw error;
+      if (!data?.checkoutUrl) throw new Error('No checkout URL received');
+
+      window.location.href = data.checkoutUrl;
+    } catch (error) {
+      console.error('Error starting payment:', error);
+      setPaymentError({ orderId: order.id, message: 'Failed to start the payment' });
+      setPayingOrderId(null);
     }
   };
 
-  const filterOrders = (order: Order) => {
+  const filterOrders = (order: CustomerOrder) => {
     // Search filter
     const searchMatch = 
       order.order_number.toLowerCase().includes(searchTerm.toLowerCase()) ||
       order.status.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      order.shipping_address.toLowerCase().includes(searchTerm.toLowerCase());
+      order.shipping_address.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      (order.pickup_address ?? '').toLowerCase().includes(searchTerm.toLowerCase());
 
     // Status filter
     const statusMatch = filters.status === 'all' || order.status === filters.status;
@@ -156,11 +191,9 @@ const Orders: React.FC = () => {
                     className="w-full px-4 py-2 rounded-lg border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200"
                   >
                     <option value="all">All Statuses</option>
-                    <option value="pending">Pending</option>
-                    <option value="processing">Processing</option>
-                    <option value="shipped">Shipped</option>
-                    <option value="delivered">Delivered</option>
-                    <option value="cancelled">Cancelled</option>
+                    {ORDER_STATUSES.map(status => (
+                      <option key={status} value={status}>{getOrderStatusLabel(status)}</option>
+                    ))}
                   </select>
                 </div>
 
@@ -200,7 +233,11 @@ const Orders: React.FC = () => {
           </div>
         ) : (
           <div className="space-y-6">
-            {filteredOrders.map((order) => (
+            {filteredOrders.map((order) => {
+              const settlement = settlements[order.id];
+              const topUpDue = settlement?.kind === 'top_up' && settlement.status !== 'paid';
+
+              return (
               <motion.div
                 key={order.id}
                 initial={{ opacity: 0, y: 20 }}
@@ -218,14 +255,29 @@ const Orders: React.FC = () => {
                         </span>
                       </div>
                     </div>
-                    <div className={`px-3 py-1 rounded-full text-sm font-medium ${getStatusColor(order.status)}`}>
-                      {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
+                    <div className="flex items-center gap-2">
+                      {order.pickup_plan_id && (
+                        <div className="flex items-center px-3 py-1 rounded-full text-sm font-medium bg-blue-50 text-blue-700">
+                          <Repeat className="w-4 h-4 mr-1" />
+                          Recurring
+                        </div>
+                      )}
+                      <div className={`px-3 py-1 rounded-full text-sm font-medium ${getOrderStatusColor(order.status)}`}>
+                        {getOrderStatusLabel(order.status)}
+                      </div>
                     </div>
                   </div>
 
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     <div>
-                      <div className="text-sm font-medium text-gray-700 mb-2">Shipping Address</div>
+                      <div className="text-sm font-medium text-gray-700 mb-2">Pickup Address</div>
+                      <div className="flex items-start">
+                        <MapPin className="w-5 h-5 text-gray-400 mt-0.5 mr-2" />
+                        <div className="text-gray-900">{order.pickup_address ?? order.shipping_address}</div>
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-sm font-medium text-gray-700 mb-2">Delivery Address</div>
                       <div className="flex items-start">
                         <MapPin className="w-5 h-5 text-gray-400 mt-0.5 mr-2" />
                         <div>
@@ -250,10 +302,44 @@ const Orders: React.FC = () => {
                         €{order.total_amount.toFixed(2)}
                       </div>
                     </div>
+
+                    {settlement && (
+                      <div className="flex justify-between items-center mt-2 text-sm">
+                        <div className="text-gray-600">Weight adjustment</div>
+                        <div className={topUpDue ? 'text-amber-700 font-medium' : 'text-gray-900'}>
+                          {settlementLabel(settlement)}
+                        </div>
+                      </div>
+                    )}
+
+                    {paymentError && paymentError.orderId === order.id && (
+                      <div className="mt-4 p-4 bg-red-50 text-red-700 rounded-xl">{paymentError.message}</div>
+                    )}
+
+                    {(isAwaitingPayment(order) || topUpDue) && (
+                      <div className="mt-4 flex flex-wrap items-center justify-between gap-4">
+                        <p className="text-sm text-gray-600">
+                          {topUpDue
+                            ? 'Your bag weighed more than estimated. Please pay the difference.'
+                            : 'We confirm the pickup once this order is paid.'}
+                        </p>
+                        <motion.button
+                          onClick={() => handlePay(order)}
+                          disabled={payingOrderId === order.id}
+                          className="flex items-center px-6 py-2 bg-blue-600 text-white rounded-xl font-medium disabled:opacity-50"
+                          whileHover={{ scale: 1.05 }}
+                          whileTap={{ scale: 0.95 }}
+                        >
+                          <CreditCard className="w-5 h-5 mr-2" />
+                          {payingOrderId === order.id ? 'Redirecting...' : 'Pay Now'}
+                        </motion.button>
+                      </div>
+                    )}
                   </div>
                 </div>
               </motion.div>
-            ))}
+              );
+            })}
           </div>
         )}
       </div>
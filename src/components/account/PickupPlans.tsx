@@ -0,0 +1,422 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
+import { Repeat, Calendar, Pause, Play, SkipForward, Pencil, X, AlertCircle } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useServices } from '../../contexts/ServicesContext';
+import { supabase } from '../../lib/supabase';
+import {
+  PICKUP_PLAN_FREQUENCIES,
+  PICKUP_PLAN_STATUSES,
+  PICKUP_PLAN_TIMES,
+  WEEKDAYS,
+  formatPickupDate,
+  formatPickupWindow,
+  nextPickupOnWeekday,
+  pickupAfterSkip
+} from '../../lib/pickupPlans';
+import type { PickupPlan, PickupPlanFrequency, PickupPlanItem, UpcomingPlanOrder } from '../../lib/pickupPlans';
+import AccountLayout from './AccountLayout';
+
+interface PlanForm {
+  frequency: PickupPlanFrequency;
+  weekday: number;
+  pickup_time: string;
+  items: PickupPlanItem[];
+}
+
+const PickupPlans: React.FC = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { services, items } = useServices();
+  const [plans, setPlans] = useState<PickupPlan[]>([]);
+  const [upcomingOrders, setUpcomingOrders] = useState<UpcomingPlanOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<PlanForm | null>(null);
+  const [actionPlanId, setActionPlanId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<{ planId: string; message: string } | null>(null);
+
+  const userId = user?.id;
+
+  const fetchPlans = useCallback(async () => {
+    if (!userId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('pickup_plans')
+        .select('*')
+        .match({ user_id: userId })
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      // Cancelled plans are kept below the ones that still run
+      const rows = (data || []) as unknown as PickupPlan[];
+
+      // Pickups of the coming days are orders already, next_pickup_on is the one after
+      const { data: orderData, error: ordersError } = await supabase
+        .from('orders')
+        .select('id, order_number, pickup_plan_id, payment_status, pickup_slot:delivery_slots!pickup_slot_id(starts_at)')
+        .filter('pickup_plan_id', 'in', `(${rows.map(plan => plan.id).join(',')})`)
+        .filter('status', 'in', '(pending,confirmed)');
+
+      if (ordersError) throw ordersError;
+
+      setUpcomingOrders((orderData || []) as unknown as UpcomingPlanOrder[]);
+      setPlans([
+        ...rows.filter(plan => plan.status !== 'cancelled'),
+        ...rows.filter(plan => plan.status === 'cancelled')
+      ]);
+    } catch (error) {
+      console.error('Error fetching pickup plans:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    fetchPlans();
+  }, [fetchPlans]);
+
+  // Every change goes through a function that checks the plan is the caller's
+  const runAction = async (plan: PickupPlan, fn: string, params: Record<string, unknown>) => {
+    try {
+      setActionPlanId(plan.id);
+      setActionError(null);
+
+      const { error } = await supabase.rpc(fn, { p_plan_id: plan.id, ...params });
+
+      if (error) {
+        setActionError({ planId: plan.id, message: error.message });
+        return false;
+      }
+
+      await fetchPlans();
+      return true;
+    } catch (error) {
+      console.error('Error updating pickup plan:', error);
+      setActionError({ planId: plan.id, message: 'Failed to update the pickup plan' });
+      return false;
+    } finally {
+      setActionPlanId(null);
+    }
+  };
+
+  const handleCancel = (plan: PickupPlan) => {
+    if (!window.confirm('Cancel this pickup plan? The next pickup is cancelled as well, unless it has been paid.')) {
+      return;
+    }
+    runAction(plan, 'set_pickup_plan_status', { p_status: 'cancelled' });
+  };
+
+  const startEditing = (plan: PickupPlan) => {
+    setEditingId(plan.id);
+    setActionError(null);
+    setForm({
+      frequency: plan.frequency,
+      weekday: plan.weekday,
+      pickup_time: plan.pickup_time.slice(0, 5),
+      items: plan.items.map(line => ({ ...line }))
+    });
+  };
+
+  const setLineQuantity = (itemId: string, quantity: number) => {
+    setForm(prev => prev && {
+      ...prev,
+      items: prev.items.map(line => line.item_id === itemId ? { ...line, quantity } : line)
+    });
+  };
+
+  const handleSave = async (plan: PickupPlan) => {
+    if (!form) return;
+
+    const saved = await runAction(plan, 'update_pickup_plan', {
+      p_frequency: form.frequency,
+      p_weekday: form.weekday,
+      p_pickup_time: form.pickup_time,
+      // Lines set to zero are left out of future pickups
+      p_items: form.items.filter(line => line.quantity > 0)
+    });
+
+    if (saved) {
+      setEditingId(null);
+      setForm(null);
+    }
+  };
+
+  const itemName = (itemId: string) => items.find(item => item.id === itemId)?.name ?? 'Item no longer available';
+
+  const serviceName = (identifier: string) =>
+    services.find(service => service.service_identifier === identifier)?.name ?? identifier;
+
+  return (
+    <AccountLayout activeTab="pickups">
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <h2 className="text-2xl font-bold text-gray-900">Pickup Plans</h2>
+
+          <motion.button
+            onClick={() => navigate('/order/service')}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-xl"
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+          >
+            <Calendar className="w-5 h-5 mr-2" />
+            Schedule a Pickup
+          </motion.button>
+        </div>
+
+        {loading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full mx-auto mb-4" />
+            <p className="text-gray-600">Loading pickup plans...</p>
+          </div>
+        ) : plans.length === 0 ? (
+          <div className="text-center py-12">
+            <Repeat className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No Pickup Plans</h3>
+            <p className="text-gray-600">
+              Choose to repeat a pickup every week or every two weeks when you schedule an order
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {plans.map((plan) => {
+              const status = PICKUP_PLAN_STATUSES.find(option => option.id === plan.status);
+              const busy = actionPlanId === plan.id;
+              const editing = editingId === plan.id && form;
+              const isOpen = plan.status !== 'cancelled';
+              const upcomingOrder = upcomingOrders.find(order => order.pickup_plan_id === plan.id);
+              const skipTitle = upcomingOrder
+                ? `Cancels order #${upcomingOrder.order_number}; the pickup after that is on ${formatPickupDate(plan.next_pickup_on)}`
+                : `The next pickup moves to ${formatPickupDate(pickupAfterSkip(plan.next_pickup_on, plan.frequency))}`;
+
+              return (
+                <motion.div
+                  key={plan.id}
+                  className="bg-white rounded-xl shadow-lg overflow-hidden"
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                >
+                  <div className="p-6">
+                    <div className="flex flex-wrap gap-4 items-start justify-between mb-4">
+                      <div>
+                        <div className="text-lg font-semibold text-gray-900">{serviceName(plan.service_identifier)}</div>
+                        <div className="text-sm text-gray-600">
+                          {PICKUP_PLAN_FREQUENCIES.find(option => option.id === plan.frequency)?.label} on{' '}
+                          {WEEKDAYS[plan.weekday - 1]}, {formatPickupWindow(plan.pickup_time)}
+                          {plan.express ? ' · Express' : ''}
+                        </div>
+                      </div>
+                      <div className={`px-3 py-1 rounded-full text-sm font-medium ${status?.className ?? 'bg-gray-100 text-gray-700'}`}>
+                        {status?.label ?? plan.status}
+                      </div>
+                    </div>
+
+                    {isOpen && (
+                      <div className="flex items-center gap-2 text-sm text-gray-700 mb-4">
+                        <Calendar className="w-4 h-4 text-gray-400" />
+                        {upcomingOrder?.pickup_slot
+                          ? `Next pickup ${formatPickupDate(upcomingOrder.pickup_slot.starts_at)}, order #${upcomingOrder.order_number}`
+                          : plan.status === 'paused'
+                            ? 'Paused, no pickups are scheduled'
+                            : `Next pickup ${formatPickupDate(plan.next_pickup_on)}`}
+                      </div>
+                    )}
+
+                    {isOpen && plan.last_error && (
+                      <div className="flex items-start gap-2 p-4 mb-4 bg-yellow-50 text-yellow-800 rounded-xl text-sm">
+                        <AlertCircle className="w-5 h-5 flex-shrink-0" />
+                        The last pickup could not be scheduled: {plan.last_error}
+                      </div>
+                    )}
+
+                    {editing ? (
+                      <div className="space-y-4">
+                        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">Repeat</label>
+                            <select
+                              value={form.frequency}
+                              onChange={(e) => setForm({ ...form, frequency: e.target.value as PickupPlanFrequency })}
+                              className="w-full px-4 py-2 rounded-lg border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200"
+                            >
+                              {PICKUP_PLAN_FREQUENCIES.map(option => (
+                                <option key={option.id} value={option.id}>{option.label}</option>
+                              ))}
+                            </select>
+                          </div>
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">Day</label>
+                            <select
+                              value={form.weekday}
+                              onChange={(e) => setForm({ ...form, weekday: Number(e.target.value) })}
+                              className="w-full px-4 py-2 rounded-lg border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200"
+                            >
+                              {WEEKDAYS.map((day, index) => (
+                                <option key={day} value={index + 1}>{day}</option>
+                              ))}
+                            </select>
+                          </div>
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">Pickup Window</label>
+                            <select
+                              value={form.pickup_time}
+                              onChange={(e) => setForm({ ...form, pickup_time: e.target.value })}
+                              className="w-full px-4 py-2 rounded-lg border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200"
+                            >
+                              {PICKUP_PLAN_TIMES.map(time => (
+                                <option key={time} value={time}>{formatPickupWindow(time)}</option>
+                              ))}
+                            </select>
+                          </div>
+                        </div>
+
+                        <div>
+                          <div className="text-sm font-medium text-gray-700 mb-2">Items</div>
+                          <div className="space-y-2">
+                            {form.items.map(line => (
+                              <div key={line.item_id} className="flex items-center justify-between gap-4">
+                                <span className="text-gray-900">{itemName(line.item_id)}</span>
+                                <input
+                                  type="number"
+                                  min={0}
+                                  max={100}
+                                  value={line.quantity}
+                                  onChange={(e) => setLineQuantity(line.item_id, Math.max(0, Math.min(100, Number(e.target.value) || 0)))}
+                                  className="w-24 px-3 py-2 rounded-lg border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200"
+                                />
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      </div>
+                    ) : (
+                      <div>
+                        <div className="text-sm font-medium text-gray-700 mb-2">Items</div>
+                        <ul className="space-y-1">
+                          {plan.items.map(line => (
+                            <li key={line.item_id} className="flex justify-between text-gray-900">
+                              <span>{itemName(line.item_id)}</span>
+                              <span className="text-gray-600">× {line.quantity}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+
+                    {isOpen && (
+                      <p className="mt-4 text-sm text-gray-500">
+                        {plan.on_account
+                          ? 'Each pickup is added to the monthly invoice of your business account.'
+                          : 'We create each pickup three days ahead and ask you to pay it from your orders.'}
+                      </p>
+                    )}
+
+                    {actionError?.planId === plan.id && (
+                      <div className="mt-6 p-4 bg-red-50 text-red-700 rounded-xl">{actionError.message}</div>
+                    )}
+
+                    {isOpen && (
+                      <div className="mt-6 flex flex-wrap gap-3">
+                        {editing ? (
+                          <>
+                            <motion.button
+                              onClick={() => handleSave(plan)}
+                              disabled={busy || !form.items.some(line => line.quantity > 0)}
+                              className="px-6 py-2 bg-blue-600 text-white rounded-xl font-medium disabled:opacity-50"
+                              whileHover={{ scale: 1.05 }}
+                              whileTap={{ scale: 0.95 }}
+                            >
+                              Save Changes
+                            </motion.button>
+                            <motion.button
+                              onClick={() => {
+                                setEditingId(null);
+                                setForm(null);
+                              }}
+                              className="px-6 py-2 bg-gray-100 text-gray-700 rounded-xl font-medium"
+                              whileHover={{ scale: 1.05 }}
+                              whileTap={{ scale: 0.95 }}
+                            >
+                              Cancel
+                            </motion.button>
+                          </>
+                        ) : (
+                          <>
+                            {plan.status === 'active' && (
+                              <motion.button
+                                onClick={() => runAction(plan, 'set_pickup_plan_status', { p_status: 'paused' })}
+                                disabled={busy}
+                                className="flex items-center px-4 py-2 bg-gray-100 text-gray-700 rounded-xl font-medium disabled:opacity-50"
+                                whileHover={{ scale: 1.05 }}
+                                whileTap={{ scale: 0.95 }}
+                              >
+                                <Pause className="w-4 h-4 mr-2" />
+                                Pause
+                              </motion.button>
+                            )}
+                            {plan.status === 'paused' && (
+                              <motion.button
+                                onClick={() => runAction(plan, 'set_pickup_plan_status', { p_status: 'active' })}
+                                disabled={busy}
+                                title={`Pickups start again on ${formatPickupDate(nextPickupOnWeekday(plan.weekday, new Date()))}`}
+                                className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-xl font-medium disabled:opacity-50"
+                                whileHover={{ scale: 1.05 }}
+                                whileTap={{ scale: 0.95 }}
+                              >
+                                <Play className="w-4 h-4 mr-2" />
+                                Resume
+                              </motion.button>
+                            )}
+                            {plan.status !== 'paused' && (
+                              <motion.button
+                                onClick={() => runAction(plan, 'skip_next_pickup', {})}
+                                disabled={busy}
+                                title={skipTitle}
+                                className="flex items-center px-4 py-2 bg-gray-100 text-gray-700 rounded-xl font-medium disabled:opacity-50"
+                                whileHover={{ scale: 1.05 }}
+                                whileTap={{ scale: 0.95 }}
+                              >
+                                <SkipForward className="w-4 h-4 mr-2" />
+                                Skip Next Pickup
+                              </motion.button>
+                            )}
+                            <motion.button
+                              onClick={() => startEditing(plan)}
+                              disabled={busy}
+                              className="flex items-center px-4 py-2 bg-gray-100 text-gray-700 rounded-xl font-medium disabled:opacity-50"
+                              whileHover={{ scale: 1.05 }}
+                              whileTap={{ scale: 0.95 }}
+                            >
+                              <Pencil className="w-4 h-4 mr-2" />
+                              Edit
+                            </motion.button>
+                            <motion.button
+                              onClick={() => handleCancel(plan)}
+                              disabled={busy}
+                              className="flex items-center px-4 py-2 bg-red-50 text-red-700 rounded-xl font-medium disabled:opacity-50"
+                              whileHover={{ scale: 1.05 }}
+                              whileTap={{ scale: 0.95 }}
+                            >
+                              <X className="w-4 h-4 mr-2" />
+                              Cancel Plan
+                            </motion.button>
+                          </>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                </motion.div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </AccountLayout>
+  );
+};
+
+export default PickupPlans;
@@ -1,26 +1,36 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useNavigate } from 'react-router-dom';
-import { Camera, Clock, Search, Filter, ChevronDown, ChevronUp, ArrowRight } from 'lucide-react';
+import { Camera, Clock, Search, Filter, ChevronDown, ChevronUp, ArrowRight, Lock } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
+import { useCart } from '../../contexts/CartContext';
+import { useServices } from '../../contexts/ServicesContext';
 import { supabase } from '../../lib/supabase';
+import { getQuoteStatus } from '../../lib/quoteSla';
 import AccountLayout from './AccountLayout';
 
 interface Quote {
   id: string;
   item_name: string;
   description: string;
-  status: 'pending' | 'quoted' | 'accepted' | 'declined';
+  status: 'pending' | 'quoted' | 'accepted' | 'declined' | 'expired';
   urgency: 'standard' | 'express';
   created_at: string;
   suggested_price?: number;
   image_url: string[];
+  expires_at: string | null;
+  staff_note: string | null;
+  service_identifier: string | null;
+  declined_reason: string | null;
 }
 
 const Quotes: React.FC = () => {
   const navigate = useNavigate();
   const { user } = useAuth();
+  const { cart, addQuote } = useCart();
+  const { services } = useServices();
   const [quotes, setQuotes] = useState<Quote[]>([]);
+  const [orderedQuoteIds, setOrderedQuoteIds] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [filters, setFilters] = useState({
@@ -28,6 +38,11 @@ const Quotes: React.FC = () => {
     dateRange: 'all'
   });
   const [showFilters, setShowFilters] = useState(false);
+  const [chosenServices, setChosenServices] = useState<{ [quoteId: string]: string }>({});
+  const [decliningId, setDecliningId] = useState<string | null>(null);
+  const [declineReason, setDeclineReason] = useState('');
+  const [actionQuoteId, setActionQuoteId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<{ quoteId: string; message: string } | null>(null);
 
   useEffect(() => {
     if (user) {
@@ -45,6 +60,16 @@ const Quotes: React.FC = () => {
 
       if (error) throw error;
       setQuotes(data || []);
+
+      // Accepted quotes that made it into a paid order or an order on account are done
+      const { data: orderedLines, error: orderedError } = await supabase
+        .from('order_items')
+        .select('quote_id, orders!inner(payment_status, payment_method)')
+        .filter('quote_id', 'not.is', null)
+        .or('payment_status.eq.paid,payment_method.eq.invoice', { referencedTable: 'orders' });
+
+      if (orderedError) throw orderedError;
+      setOrderedQuoteIds(((orderedLines || []) as unknown as { quote_id: string }[]).map(line => line.quote_id));
     } catch (error) {
       console.error('Error fetching quotes:', error);
     } finally {
@@ -52,6 +77,68 @@ const Quotes: React.FC = () => {
     }
   };
 
+  const handleAccept = async (quote: Quote) => {
+    const service = quote.service_identifier ?? chosenServices[quote.id] ?? cart.service;
+    if (!service || !quote.suggested_price) return;
+
+    // A draft covers a single service, so other items would be dropped
+    const replacesCart = cart.service !== service && Object.keys(cart.items).length > 0;
+    if (replacesCart && !window.confirm('Your current order is for another service. Replace it with this item?')) {
+      return;
+    }
+
+    try {
+      setActionQuoteId(quote.id);
+      setActionError(null);
+
+      const { error } = await supabase.rpc('accept_quote', { p_quote_id: quote.id });
+
+      if (error) {
+        setActionError({ quoteId: quote.id, message: error.message });
+        fetchQuotes();
+        return;
+      }
+
+      addQuote(service, {
+        id: quote.id,
+        name: quote.item_name,
+        price: Number(quote.suggested_price)
+      });
+      navigate('/order/address');
+    } catch (error) {
+      console.error('Error accepting quote:', error);
+      setActionError({ quoteId: quote.id, message: 'Failed to accept the quote' });
+    } finally {
+      setActionQuoteId(null);
+    }
+  };
+
+  const handleDecline = async (quote: Quote) => {
+    try {
+      setActionQuoteId(quote.id);
+      setActionError(null);
+
+      const { error } = await supabase.rpc('decline_quote', {
+        p_quote_id: quote.id,
+        p_reason: declineReason.trim()
+      });
+
+      if (error) {
+        setActionError({ quoteId: quote.id, message: error.message });
+        return;
+      }
+
+      setDecliningId(null);
+      setDeclineReason('');
+      fetchQuotes();
+    } catch (error) {
+      console.error('Error declining quote:', error);
+      setActionError({ quoteId: quote.id, message: 'Failed to decline the quote' });
+    } finally {
+      setActionQuoteId(null);
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'pending':
@@ -62,6 +149,8 @@ const Quotes: React.FC = () => {
         return 'bg-green-100 text-green-800';
       case 'declined':
         return 'bg-red-100 text-red-800';
+      case 'expired':
+        return 'bg-gray-200 text-gray-700';
       default:
         return 'bg-gray-100 text-gray-800';
     }
@@ -74,7 +163,7 @@ const Quotes: React.FC = () => {
       quote.description.toLowerCase().includes(searchTerm.toLowerCase());
 
     // Status filter
-    const statusMatch = filters.status === 'all' || quote.status === filters.status;
+    const statusMatch = filters.status === 'all' || getQuoteStatus(quote, new Date(), orderedQuoteIds.includes(quote.id)) === filters.status;
 
     // Date range filter
     let dateMatch = true;
@@ -150,6 +239,7 @@ const Quotes: React.FC = () => {
                     <option value="quoted">Quoted</option>
                     <option value="accepted">Accepted</option>
                     <option value="declined">Declined</option>
+                    <option value="expired">Expired</option>
                   </select>
                 </div>
 
@@ -189,7 +279,12 @@ const Quotes: React.FC = () => {
           </div>
         ) : (
           <div className="space-y-6">
-            {filteredQuotes.map((quote) => (
+            {filteredQuotes.map((quote) => {
+              const status = getQuoteStatus(quote, new Date(), orderedQuoteIds.includes(quote.id));
+              const busy = actionQuoteId === quote.id;
+              const acceptService = quote.service_identifier ?? chosenServices[quote.id] ?? cart.service;
+
+              return (
               <motion.div
                 key={quote.id}
                 className="bg-white rounded-xl shadow-lg overflow-hidden"
@@ -207,8 +302,8 @@ const Quotes: React.FC = () => {
                         </span>
                       </div>
                     </div>
-                    <div className={`px-3 py-1 rounded-full text-sm font-medium ${getStatusColor(quote.status)}`}>
-                      {quote.status.charAt(0).toUpperCase() + quote.status.slice(1)}
+                    <div className={`px-3 py-1 rounded-full text-sm font-medium ${getStatusColor(status)}`}>
+                      {status.charAt(0).toUpperCase() + status.slice(1)}
                     </div>
                   </div>
 
@@ -222,8 +317,19 @@ const Quotes: React.FC = () => {
                           <div className="text-2xl font-bold text-gray-900">
                             €{quote.suggested_price.toFixed(2)}
                           </div>
+                          {quote.expires_at && (
+                            <div className="text-sm text-gray-600 mt-1">
+                              Valid until {new Date(quote.expires_at).toLocaleDateString()}
+                            </div>
+                          )}
+                          {quote.staff_note && (
+                            <p className="text-sm text-gray-700 mt-2">{quote.staff_note}</p>
+                          )}
                         </div>
                       )}
+                      {status === 'declined' && quote.declined_reason && (
+                        <p className="text-sm text-gray-600 mt-4">You declined: {quote.declined_reason}</p>
+                      )}
                     </div>
 
                     {quote.image_url && quote.image_url.length > 0 && (
@@ -240,30 +346,105 @@ const Quotes: React.FC = () => {
                     )}
                   </div>
 
-                  {quote.status === 'quoted' && (
-                    <div className="mt-6 flex flex-wrap gap-4">
-                      <motion.button
-                        onClick={() => navigate(`/order/accept-quote/${quote.id}`)}
-                        className="px-6 py-2 bg-blue-600 text-white rounded-xl font-medium flex items-center"
-                        whileHover={{ scale: 1.05 }}
-                        whileTap={{ scale: 0.95 }}
-                      >
-                        Accept Quote
-                        <ArrowRight className="w-4 h-4 ml-2" />
-                      </motion.button>
-                      <motion.button
-                        onClick={() => navigate(`/order/decline-quote/${quote.id}`)}
-                        className="px-6 py-2 bg-gray-100 text-gray-700 rounded-xl font-medium"
-                        whileHover={{ scale: 1.05 }}
-                        whileTap={{ scale: 0.95 }}
-                      >
-                        Decline
-                      </motion.button>
+                  {actionError?.quoteId === quote.id && (
+                    <div className="mt-6 p-4 bg-red-50 text-red-700 rounded-xl">{actionError.message}</div>
+                  )}
+
+                  {status === 'expired' && (
+                    <div className="mt-6 flex items-center text-sm text-gray-600">
+                      <Lock className="w-4 h-4 mr-2" />
+                      This quote has expired. Request a new quote if you still need this item cleaned.
                     </div>
                   )}
+
+                  {(status === 'quoted' || (status === 'accepted' && !orderedQuoteIds.includes(quote.id))) && (
+                    decliningId === quote.id ? (
+                      <div className="mt-6 space-y-4">
+                        <label className="block text-sm font-medium text-gray-700">
+                          Why are you declining this quote?
+                        </label>
+                        <textarea
+                          value={declineReason}
+                          onChange={(e) => setDeclineReason(e.target.value)}
+                          rows={3}
+                          placeholder="E.g. the price is higher than expected"
+                          className="w-full px-4 py-2 rounded-xl border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200"
+                        />
+                        <div className="flex flex-wrap gap-4">
+                          <motion.button
+                            onClick={() => handleDecline(quote)}
+                            disabled={busy || !declineReason.trim()}
+                            className="px-6 py-2 bg-red-600 text-white rounded-xl font-medium disabled:opacity-50"
+                            whileHover={{ scale: 1.05 }}
+                            whileTap={{ scale: 0.95 }}
+                          >
+                            Decline Quote
+                          </motion.button>
+                          <motion.button
+                            onClick={() => {
+                              setDecliningId(null);
+                              setDeclineReason('');
+                            }}
+                            className="px-6 py-2 bg-gray-100 text-gray-700 rounded-xl font-medium"
+                            whileHover={{ scale: 1.05 }}
+                            whileTap={{ scale: 0.95 }}
+                          >
+                            Cancel
+                          </motion.button>
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="mt-6 space-y-4">
+                        {!quote.service_identifier && (
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                              Add to which service?
+                            </label>
+                            <select
+                              value={acceptService ?? ''}
+                              onChange={(e) => setChosenServices(prev => ({ ...prev, [quote.id]: e.target.value }))}
+                              className="w-full sm:w-auto px-4 py-2 rounded-lg border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200"
+                            >
+                              <option value="" disabled>Choose a service</option>
+                              {services.map(service => (
+                                <option key={service.service_identifier} value={service.service_identifier}>
+                                  {service.name}
+                                </option>
+                              ))}
+                            </select>
+                          </div>
+                        )}
+                        <div className="flex flex-wrap gap-4">
+                          <motion.button
+                            onClick={() => handleAccept(quote)}
+                            disabled={busy || !acceptService}
+                            className="px-6 py-2 bg-blue-600 text-white rounded-xl font-medium flex items-center disabled:opacity-50"
+                            whileHover={{ scale: 1.05 }}
+                            whileTap={{ scale: 0.95 }}
+                          >
+                            {status === 'accepted' ? 'Continue to Checkout' : 'Accept Quote'}
+                            <ArrowRight className="w-4 h-4 ml-2" />
+                          </motion.button>
+                          <motion.button
+                            onClick={() => {
+                              setDecliningId(quote.id);
+                              setDeclineReason('');
+                              setActionError(null);
+                            }}
+                            className="px-6 py-2 bg-gray-100 text-gray-700 rounded-xl font-medium"
+                            whileHover={{ scale: 1.05 }}
+                            whileTap={{ scale: 0.95 }}
+                          >
+                            Decline
+                          </motion.button>
+                        </div>
+                      </div>
+                    )
+                  )}
                 </div>
               </motion.div>
-            ))}
+              );
+            })}
           </div>
         )}
       </div>
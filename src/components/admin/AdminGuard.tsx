@@ -0,0 +1,50 @@
+import React from 'react';
+import { Navigate, Link } from 'react-router-dom';
+import { Loader, ShieldOff } from 'lucide-react';
+import { useAdmin } from '../../contexts/AdminContext';
+import type { AdminPermission } from '../../lib/adminPermissions';
+
+interface AdminGuardProps {
+  children: React.ReactNode;
+  permission?: AdminPermission;
+  superAdminOnly?: boolean;
+}
+
+// Hides admin pages in the browser; RLS and the admin functions enforce the
+// same permissions on the data itself
+const AdminGuard: React.FC<AdminGuardProps> = ({ children, permission, superAdminOnly }) => {
+  const { admin, loading, isSuperAdmin, can } = useAdmin();
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader className="w-8 h-8 text-blue-600 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!admin) {
+    return <Navigate to="/admin/login" replace />;
+  }
+
+  if ((superAdminOnly && !isSuperAdmin) || (permission && !can(permission))) {
+    return (
+      <div className="min-h-screen flex items-center justify-center px-4">
+        <div className="text-center max-w-md">
+          <ShieldOff className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">No access</h1>
+          <p className="text-gray-600 mb-6">
+            Your admin account does not have access to this section. Ask a super admin if you need it.
+          </p>
+          <Link to="/admin/dashboard" className="text-blue-600 hover:text-blue-700 font-medium">
+            Back to the dashboard
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+};
+
+export default AdminGuard;
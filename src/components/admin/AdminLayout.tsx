@@ -9,9 +9,13 @@ import {
   LogOut,
   Building2,
   FileText,
-  CreditCard
+  CreditCard,
+  Tag
 } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
+import { useAdmin } from '../../contexts/AdminContext';
+import type { AdminPermission } from '../../lib/adminPermissions';
 
 interface AdminLayoutProps {
   children: React.ReactNode;
@@ -21,17 +25,23 @@ interface AdminLayoutProps {
 const AdminLayout: React.FC<AdminLayoutProps> = ({ children, activeTab }) => {
   const navigate = useNavigate();
   const { signOut } = useAuth();
+  const { can, isSuperAdmin } = useAdmin();
 
-  const tabs = [
+  const tabs: { id: string; label: string; icon: LucideIcon; permission?: AdminPermission }[] = [
     { id: 'dashboard', label: 'Dashboard', icon: LayoutDashboard },
-    { id: 'users', label: 'Users', icon: Users },
-    { id: 'orders', label: 'Orders', icon: Package },
-    { id: 'businesses', label: 'Businesses', icon: Building2 },
-    { id: 'reports', label: 'Reports', icon: FileText },
-    { id: 'billing', label: 'Billing', icon: CreditCard },
+    { id: 'users', label: 'Users', icon: Users, permission: 'users.read' },
+    { id: 'orders', label: 'Orders', icon: Package, permission: 'orders.read' },
+    { id: 'quotes', label: 'Quotes', icon: Tag, permission: 'quotes.read' },
+    { id: 'businesses', label: 'Businesses', icon: Building2, permission: 'businesses.read' },
+    { id: 'reports', label: 'Reports', icon: FileText, permission: 'reports.read' },
+    { id: 'billing', label: 'Billing', icon: CreditCard, permission: 'billing.read' },
     { id: 'settings', label: 'Settings', icon: Settings }
   ];
 
+  const visibleTabs = tabs.filter(tab =>
+    tab.id === 'settings' ? isSuperAdmin : !tab.permission || can(tab.permission)
+  );
+
   const handleSignOut = async () => {
     try {
       await signOut();
@@ -49,7 +59,7 @@ const AdminLayout: React.FC<AdminLayoutProps> = ({ children, activeTab }) => {
           <div className="lg:w-64">
             <div className="bg-white rounded-2xl shadow-lg p-6">
               <nav className="space-y-2">
-                {tabs.map((tab) => (
+                {visibleTabs.map((tab) => (
                   <motion.button
                     key={tab.id}
                     onClick={() => navigate(`/admin/${tab.id}`)}
@@ -2,12 +2,15 @@ import React, { useState } from 'react';
 import { motion } from 'framer-motion';
 import { useNavigate } from 'react-router-dom';
 import { Mail, Lock, Loader } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../contexts/AuthContext';
+import { useAdmin } from '../../contexts/AdminContext';
 import Logo from '../Logo';
 
 const AdminLogin: React.FC = () => {
   const navigate = useNavigate();
   const { signIn } = useAuth();
+  const { refreshAdmin } = useAdmin();
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
@@ -20,9 +23,31 @@ const AdminLogin: React.FC = () => {
 
     try {
       await signIn(email, password);
-      navigate('/admin/dashboard');
     } catch (err) {
       setError('Invalid email or password');
+      setLoading(false);
+      return;
+    }
+
+    try {
+      // An open invitation for this email turns the account into an admin
+      const { error: inviteError } = await supabase.rpc('accept_admin_invitation');
+      if (inviteError) throw inviteError;
+
+      const { data: isAdmin, error: adminError } = await supabase.rpc('is_admin');
+      if (adminError) throw adminError;
+
+      if (!isAdmin) {
+        await supabase.auth.signOut();
+        setError('This account does not have access to the admin area');
+        return;
+      }
+
+      await refreshAdmin();
+      navigate('/admin/dashboard');
+    } catch (err) {
+      console.error('Error checking admin access:', err);
+      setError('Failed to check your admin access');
     } finally {
       setLoading(false);
     }
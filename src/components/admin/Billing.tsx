@@ -0,0 +1,277 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { format } from 'date-fns';
+import { Loader, Download, CheckCircle2 } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useAdmin } from '../../contexts/AdminContext';
+import { INVOICE_STATUSES, downloadInvoicePdf } from '../../lib/invoices';
+import type { Invoice } from '../../lib/invoices';
+import AdminLayout from './AdminLayout';
+import PriceLists from './PriceLists';
+
+const sections = [
+  { id: 'invoices', label: 'Invoices' },
+  { id: 'price-lists', label: 'Price lists' }
+];
+
+const statusFilters = [
+  ...INVOICE_STATUSES.map(({ id, label }) => ({ id, label })),
+  { id: 'all', label: 'All' }
+];
+
+const Billing: React.FC = () => {
+  const { can } = useAdmin();
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [section, setSection] = useState('invoices');
+  const [status, setStatus] = useState('open');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [payingId, setPayingId] = useState<string | null>(null);
+  const [reference, setReference] = useState('');
+
+  const canWrite = can('billing.write');
+
+  const fetchInvoices = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      let query = supabase.from('invoices').select('*');
+
+      if (status !== 'all') {
+        query = query.match({ status });
+      }
+
+      const { data, error: invoicesError } = await query
+        .order('issue_date', { ascending: false })
+        .order('invoice_number', { ascending: false });
+
+      if (invoicesError) throw invoicesError;
+      setInvoices((data || []) as unknown as Invoice[]);
+    } catch (err) {
+      console.error('Error fetching invoices:', err);
+      setError('Failed to load invoices');
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    fetchInvoices();
+  }, [fetchInvoices]);
+
+  const handleDownload = async (invoice: Invoice) => {
+    try {
+      setBusyId(invoice.id);
+      setError(null);
+      await downloadInvoicePdf(invoice);
+    } catch (err) {
+      console.error('Error downloading invoice:', err);
+      setError(err instanceof Error ? err.message : 'Failed to download the invoice');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  // For payments that arrive by bank transfer instead of through Mollie
+  const handleMarkPaid = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!payingId) return;
+
+    try {
+      setBusyId(payingId);
+      setError(null);
+
+      const { error: paidError } = await supabase.rpc('mark_invoice_paid', {
+        p_invoice_id: payingId,
+        p_reference: reference
+      });
+
+      if (paidError) {
+        setError(paidError.message);
+        return;
+      }
+
+      setPayingId(null);
+      setReference('');
+      await fetchInvoices();
+    } catch (err) {
+      console.error('Error marking invoice paid:', err);
+      setError('Failed to book the payment');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const statusClass = (invoiceStatus: string) =>
+    INVOICE_STATUSES.find(option => option.id === invoiceStatus)?.className ?? 'bg-gray-100 text-gray-700';
+
+  return (
+    <AdminLayout activeTab="billing">
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Billing</h1>
+          <p className="text-gray-600">Monthly invoices, payments and contract rates of business customers</p>
+        </div>
+
+        <div className="flex gap-6 border-b border-gray-200">
+          {sections.map(option => (
+            <button
+              key={option.id}
+              onClick={() => setSection(option.id)}
+              className={`pb-3 text-sm font-medium border-b-2 -mb-px ${
+                section === option.id
+                  ? 'border-blue-600 text-blue-600'
+                  : 'border-transparent text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {section === 'price-lists' ? (
+          <PriceLists />
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-2">
+              {statusFilters.map(filter => (
+                <button
+                  key={filter.id}
+                  onClick={() => setStatus(filter.id)}
+                  className={`px-4 py-2 rounded-lg text-sm font-medium ${
+                    status === filter.id
+                      ? 'bg-blue-600 text-white'
+                      : 'border border-gray-300 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {filter.label}
+                </button>
+              ))}
+            </div>
+
+            {error && (
+              <div className="p-4 bg-red-50 text-red-700 rounded-xl">{error}</div>
+            )}
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-left">
+                <thead>
+                  <tr className="border-b border-gray-200">
+                    <th className="py-3 px-4 text-sm font-medium text-gray-600">Invoice</th>
+                    <th className="py-3 px-4 text-sm font-medium text-gray-600">Customer</th>
+                    <th className="py-3 px-4 text-sm font-medium text-gray-600">Period</th>
+                    <th className="py-3 px-4 text-sm font-medium text-gray-600">Due</th>
+                    <th className="py-3 px-4 text-sm font-medium text-gray-600 text-right">Total</th>
+                    <th className="py-3 px-4 text-sm font-medium text-gray-600">Status</th>
+                    <th className="py-3 px-4" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {loading ? (
+                    <tr>
+                      <td colSpan={7} className="py-12">
+                        <Loader className="w-8 h-8 text-blue-600 animate-spin mx-auto" />
+                      </td>
+                    </tr>
+                  ) : invoices.length === 0 ? (
+                    <tr>
+                      <td colSpan={7} className="py-12 text-center text-gray-600">
+                        No invoices here
+                      </td>
+                    </tr>
+                  ) : (
+                    invoices.map(invoice => (
+                      <React.Fragment key={invoice.id}>
+                        <motion.tr
+                          className="border-b border-gray-100"
+                          initial={{ opacity: 0 }}
+                          animate={{ opacity: 1 }}
+                        >
+                          <td className="py-3 px-4 font-medium text-gray-900">{invoice.invoice_number}</td>
+                          <td className="py-3 px-4 text-gray-600">{invoice.customer_name}</td>
+                          <td className="py-3 px-4 text-gray-600">{format(new Date(invoice.period_start), 'MMM yyyy')}</td>
+                          <td className="py-3 px-4 text-gray-600">{format(new Date(invoice.due_date), 'MMM d, yyyy')}</td>
+                          <td className="py-3 px-4 text-gray-900 text-right">€{Number(invoice.total_amount).toFixed(2)}</td>
+                          <td className="py-3 px-4">
+                            <span className={`px-3 py-1 rounded-full text-sm font-medium capitalize ${statusClass(invoice.status)}`}>
+                              {invoice.status}
+                            </span>
+                            {invoice.paid_at && (
+                              <div className="text-xs text-gray-500 mt-1">
+                                {format(new Date(invoice.paid_at), 'MMM d')} · {invoice.payment_method?.replace('_', ' ')}
+                              </div>
+                            )}
+                          </td>
+                          <td className="py-3 px-4">
+                            <div className="flex items-center justify-end gap-2">
+                              {canWrite && invoice.status !== 'paid' && (
+                                <button
+                                  onClick={() => {
+                                    setPayingId(payingId === invoice.id ? null : invoice.id);
+                                    setReference('');
+                                  }}
+                                  className="flex items-center px-3 py-1 text-sm text-green-700 hover:bg-green-50 rounded-lg"
+                                >
+                                  <CheckCircle2 className="w-4 h-4 mr-1" />
+                                  Mark paid
+                                </button>
+                              )}
+                              <button
+                                onClick={() => handleDownload(invoice)}
+                                disabled={busyId === invoice.id}
+                                className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg disabled:opacity-50"
+                                title="Download PDF"
+                              >
+                                <Download className="w-4 h-4" />
+                              </button>
+                            </div>
+                          </td>
+                        </motion.tr>
+                        {payingId === invoice.id && (
+                          <tr className="border-b border-gray-100 bg-gray-50">
+                            <td colSpan={7} className="py-3 px-4">
+                              <form onSubmit={handleMarkPaid} className="flex flex-wrap items-center gap-3">
+                                <span className="text-sm text-gray-600">
+                                  Bank transfer of €{Number(invoice.total_amount).toFixed(2)} received
+                                </span>
+                                <input
+                                  type="text"
+                                  value={reference}
+                                  onChange={(e) => setReference(e.target.value)}
+                                  placeholder="Bank reference (optional)"
+                                  className="flex-1 min-w-[200px] px-3 py-2 rounded-lg border border-gray-300 text-sm"
+                                />
+                                <button
+                                  type="submit"
+                                  disabled={busyId === invoice.id}
+                                  className="px-4 py-2 bg-green-600 text-white rounded-lg text-sm disabled:bg-gray-400"
+                                >
+                                  Book payment
+                                </button>
+                                <button
+                                  type="button"
+                                  onClick={() => setPayingId(null)}
+                                  className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg text-sm"
+                                >
+                                  Cancel
+                                </button>
+                              </form>
+                            </td>
+                          </tr>
+                        )}
+                      </React.Fragment>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </AdminLayout>
+  );
+};
+
+export default Billing;
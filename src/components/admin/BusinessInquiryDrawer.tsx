@@ -0,0 +1,367 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { format } from 'date-fns';
+import { X, Mail, Phone } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useAdmin } from '../../contexts/AdminContext';
+
+export type InquiryStatus = 'new' | 'contacted' | 'approved' | 'rejected';
+
+export interface AdminInquiry {
+  id: string;
+  company_name: string;
+  business_type: string;
+  contact_name: string;
+  email: string;
+  phone: string;
+  additional_info: string | null;
+  requirements: { frequency?: string; description?: string } | null;
+  status: InquiryStatus;
+  assigned_to: string | null;
+  admin_notes: string | null;
+  organization_id: string | null;
+  status_changed_at: string | null;
+  created_at: string;
+}
+
+export interface SalesOwner {
+  auth_id: string;
+  email: string;
+}
+
+interface BusinessInquiryDrawerProps {
+  inquiry: AdminInquiry | null;
+  salesOwners: SalesOwner[];
+  onClose: () => void;
+  onChange: () => void;
+}
+
+const BusinessInquiryDrawer: React.FC<BusinessInquiryDrawerProps> = ({ inquiry, salesOwners, onClose, onChange }) => {
+  const { can } = useAdmin();
+  const [status, setStatus] = useState<InquiryStatus>('new');
+  const [assignedTo, setAssignedTo] = useState('');
+  const [notes, setNotes] = useState('');
+  const [contractPrices, setContractPrices] = useState(false);
+  const [newListName, setNewListName] = useState('');
+  const [newListDiscount, setNewListDiscount] = useState('0');
+  const [newListFrom, setNewListFrom] = useState('');
+  const [newListUntil, setNewListUntil] = useState('');
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const inquiryId = inquiry?.id;
+  const canWrite = can('businesses.write');
+  // Contract prices are saved as the organisation's price list
+  const canSetPrices = can('billing.write');
+
+  const initialStatus = inquiry?.status ?? 'new';
+  const initialAssignedTo = inquiry?.assigned_to ?? '';
+  const initialNotes = inquiry?.admin_notes ?? '';
+  const companyName = inquiry?.company_name ?? '';
+
+  // The form follows the stored inquiry, also after it has been saved
+  useEffect(() => {
+    setStatus(initialStatus);
+    setAssignedTo(initialAssignedTo);
+    setNotes(initialNotes);
+  }, [inquiryId, initialStatus, initialAssignedTo, initialNotes]);
+
+  useEffect(() => {
+    setContractPrices(false);
+    setNewListName(`${companyName} contract`);
+    setNewListDiscount('0');
+    setNewListFrom(format(new Date(), 'yyyy-MM-dd'));
+    setNewListUntil('');
+    setError(null);
+    setMessage(null);
+  }, [inquiryId, companyName]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!inquiry) return;
+
+    try {
+      setWorking(true);
+      setError(null);
+      setMessage(null);
+
+      const { error: updateError } = await supabase.rpc('update_business_inquiry', {
+        p_inquiry_id: inquiry.id,
+        p_status: status,
+        p_assigned_to: assignedTo || null,
+        p_notes: notes
+      });
+
+      if (updateError) {
+        setError(updateError.message);
+        return;
+      }
+
+      setMessage('Inquiry updated');
+      onChange();
+    } catch (err) {
+      console.error('Error updating inquiry:', err);
+      setError('Failed to update the inquiry');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleApprove = async () => {
+    if (!inquiry) return;
+
+    try {
+      setWorking(true);
+      setError(null);
+      setMessage(null);
+
+      // The function onboards the business and mails the contact their invitation
+      const { data, error: approveError } = await supabase.functions.invoke('approve-business', {
+        body: { inquiryId: inquiry.id }
+      });
+
+      if (approveError) throw approveError;
+      if (data?.error) throw new Error(data.error);
+
+      setMessage(data?.mailSent
+        ? `Approved. ${inquiry.email} has been invited as owner.`
+        : `Approved, but the invitation email could not be sent to ${inquiry.email}.`);
+      onChange();
+
+      if (contractPrices) {
+        const { error: priceListError } = await supabase.rpc('save_price_list', {
+          p_price_list_id: null,
+          p_organization_id: data.organization.id,
+          p_name: newListName,
+          p_discount_percent: Number(newListDiscount),
+          p_valid_from: newListFrom || null,
+          p_valid_until: newListUntil || null,
+          p_items: []
+        });
+
+        if (priceListError) {
+          setError(`The contract prices could not be saved: ${priceListError.message}. Add them under Price lists.`);
+        }
+      }
+    } catch (err) {
+      console.error('Error approving inquiry:', err);
+      setError((err as { message?: string }).message ?? 'Failed to approve the inquiry');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const isClosed = inquiry?.status === 'approved' || inquiry?.status === 'rejected';
+
+  return (
+    <AnimatePresence>
+      {inquiry && (
+        <>
+          <motion.div
+            className="fixed inset-0 bg-black/30 z-40"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+          />
+          <motion.aside
+            className="fixed top-0 right-0 bottom-0 w-full max-w-xl bg-white shadow-2xl z-50 overflow-y-auto"
+            initial={{ x: '100%' }}
+            animate={{ x: 0 }}
+            exit={{ x: '100%' }}
+            transition={{ type: 'spring', stiffness: 300, damping: 30 }}
+          >
+            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+              <div>
+                <h2 className="text-xl font-bold text-gray-900">{inquiry.company_name}</h2>
+                <p className="text-sm text-gray-600">
+                  {inquiry.contact_name} · registered {format(new Date(inquiry.created_at), 'MMM d, yyyy')}
+                </p>
+              </div>
+              <button onClick={onClose} className="p-2 rounded-lg hover:bg-gray-100" aria-label="Close">
+                <X className="w-5 h-5 text-gray-600" />
+              </button>
+            </div>
+
+            <div className="p-6 space-y-8">
+              {error && (
+                <div className="p-4 bg-red-50 text-red-700 rounded-xl">{error}</div>
+              )}
+              {message && (
+                <div className="p-4 bg-green-50 text-green-700 rounded-xl">{message}</div>
+              )}
+
+              <section>
+                <h3 className="font-semibold text-gray-900 mb-2">Contact</h3>
+                <div className="space-y-1 text-sm text-gray-700">
+                  <div className="flex items-center">
+                    <Mail className="w-4 h-4 mr-2 text-gray-400" />
+                    <a href={`mailto:${inquiry.email}`} className="hover:underline">{inquiry.email}</a>
+                  </div>
+                  <div className="flex items-center">
+                    <Phone className="w-4 h-4 mr-2 text-gray-400" />
+                    <a href={`tel:${inquiry.phone}`} className="hover:underline">{inquiry.phone}</a>
+                  </div>
+                </div>
+              </section>
+
+              <section>
+                <h3 className="font-semibold text-gray-900 mb-2">Requirements</h3>
+                <dl className="grid grid-cols-2 gap-y-2 text-sm">
+                  <dt className="text-gray-600">Business type</dt>
+                  <dd className="text-gray-900 capitalize">{inquiry.business_type}</dd>
+                  <dt className="text-gray-600">Frequency</dt>
+                  <dd className="text-gray-900">{inquiry.requirements?.frequency || '—'}</dd>
+                </dl>
+                {inquiry.additional_info && (
+                  <p className="text-gray-700 whitespace-pre-line mt-4">{inquiry.additional_info}</p>
+                )}
+              </section>
+
+              <form onSubmit={handleSave} className="space-y-4">
+                <h3 className="font-semibold text-gray-900">Pipeline</h3>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Status</label>
+                    <select
+                      value={status}
+                      onChange={(e) => setStatus(e.target.value as InquiryStatus)}
+                      disabled={!canWrite || inquiry.status === 'approved'}
+                      className="w-full px-4 py-2 rounded-lg border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200"
+                    >
+                      <option value="new">New</option>
+                      <option value="contacted">Contacted</option>
+                      <option value="rejected">Rejected</option>
+                      {inquiry.status === 'approved' && <option value="approved">Approved</option>}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Sales owner</label>
+                    <select
+                      value={assignedTo}
+                      onChange={(e) => setAssignedTo(e.target.value)}
+                      disabled={!canWrite}
+                      className="w-full px-4 py-2 rounded-lg border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200"
+                    >
+                      <option value="">Unassigned</option>
+                      {salesOwners.map(owner => (
+                        <option key={owner.auth_id} value={owner.auth_id}>{owner.email}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                  <textarea
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    disabled={!canWrite}
+                    rows={3}
+                    placeholder="E.g. call notes and what was agreed"
+                    className="w-full px-4 py-2 rounded-lg border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200"
+                  />
+                </div>
+                {canWrite && (
+                  <motion.button
+                    type="submit"
+                    disabled={working}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50"
+                    whileHover={{ scale: working ? 1 : 1.05 }}
+                    whileTap={{ scale: working ? 1 : 0.95 }}
+                  >
+                    Save
+                  </motion.button>
+                )}
+              </form>
+
+              {canWrite && !isClosed && (
+                <section className="space-y-4">
+                  <h3 className="font-semibold text-gray-900">Approve</h3>
+                  <p className="text-sm text-gray-600">
+                    Creates the organisation and invites {inquiry.email} as its owner.
+                  </p>
+                  {canSetPrices && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Prices</label>
+                      <select
+                        value={contractPrices ? 'contract' : 'standard'}
+                        onChange={(e) => setContractPrices(e.target.value === 'contract')}
+                        className="w-full px-4 py-2 rounded-lg border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200"
+                      >
+                        <option value="standard">Standard business prices</option>
+                        <option value="contract">Contract discount…</option>
+                      </select>
+                    </div>
+                  )}
+                  {canSetPrices && contractPrices && (
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="col-span-2">
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                        <input
+                          type="text"
+                          value={newListName}
+                          onChange={(e) => setNewListName(e.target.value)}
+                          className="w-full px-4 py-2 rounded-lg border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Discount (%)</label>
+                        <input
+                          type="number"
+                          min="0"
+                          max="100"
+                          step="0.5"
+                          value={newListDiscount}
+                          onChange={(e) => setNewListDiscount(e.target.value)}
+                          className="w-full px-4 py-2 rounded-lg border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200"
+                        />
+                      </div>
+                      <div />
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Valid from</label>
+                        <input
+                          type="date"
+                          value={newListFrom}
+                          onChange={(e) => setNewListFrom(e.target.value)}
+                          className="w-full px-4 py-2 rounded-lg border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Valid until</label>
+                        <input
+                          type="date"
+                          value={newListUntil}
+                          onChange={(e) => setNewListUntil(e.target.value)}
+                          className="w-full px-4 py-2 rounded-lg border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200"
+                        />
+                      </div>
+                    </div>
+                  )}
+                  <motion.button
+                    onClick={handleApprove}
+                    disabled={working}
+                    className="px-4 py-2 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 disabled:opacity-50"
+                    whileHover={{ scale: working ? 1 : 1.05 }}
+                    whileTap={{ scale: working ? 1 : 0.95 }}
+                  >
+                    Approve and Invite Owner
+                  </motion.button>
+                </section>
+              )}
+
+              {inquiry.status === 'approved' && (
+                <p className="text-sm text-gray-600">
+                  Onboarded{inquiry.status_changed_at && ` on ${format(new Date(inquiry.status_changed_at), 'MMM d, yyyy')}`}.
+                  The contact joins the organisation the next time they sign in with {inquiry.email}.
+                </p>
+              )}
+            </div>
+          </motion.aside>
+        </>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default BusinessInquiryDrawer;
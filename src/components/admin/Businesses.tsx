@@ -0,0 +1,203 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { format } from 'date-fns';
+import { Loader } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import AdminLayout from './AdminLayout';
+import BusinessInquiryDrawer from './BusinessInquiryDrawer';
+import type { AdminInquiry, SalesOwner } from './BusinessInquiryDrawer';
+
+const statusFilters = [
+  { id: 'new', label: 'New' },
+  { id: 'contacted', label: 'Contacted' },
+  { id: 'approved', label: 'Approved' },
+  { id: 'rejected', label: 'Rejected' },
+  { id: 'all', label: 'All' }
+];
+
+const statusColors: { [status: string]: string } = {
+  new: 'bg-blue-100 text-blue-800',
+  contacted: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-gray-100 text-gray-700'
+};
+
+const Businesses: React.FC = () => {
+  const [inquiries, setInquiries] = useState<AdminInquiry[]>([]);
+  const [salesOwners, setSalesOwners] = useState<SalesOwner[]>([]);
+  const [status, setStatus] = useState('new');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [selectedInquiry, setSelectedInquiry] = useState<AdminInquiry | null>(null);
+
+  const fetchInquiries = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      let query = supabase.from('business_inquiries').select('*');
+
+      if (status !== 'all') {
+        query = query.match({ status });
+      }
+
+      const { data, error: inquiriesError } = await query.order('created_at', { ascending: false });
+
+      if (inquiriesError) throw inquiriesError;
+      setInquiries((data || []) as unknown as AdminInquiry[]);
+    } catch (err) {
+      console.error('Error fetching business inquiries:', err);
+      setError('Failed to load business inquiries');
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    fetchInquiries();
+  }, [fetchInquiries]);
+
+  useEffect(() => {
+    const fetchSalesOwners = async () => {
+      const { data, error: ownersError } = await supabase.rpc('list_sales_owners');
+
+      if (ownersError) {
+        console.error('Error fetching sales owners:', ownersError);
+        return;
+      }
+
+      setSalesOwners((data || []) as unknown as SalesOwner[]);
+    };
+
+    fetchSalesOwners();
+  }, []);
+
+  const ownerEmail = (authId: string | null) =>
+    salesOwners.find(owner => owner.auth_id === authId)?.email;
+
+  // The drawer keeps showing an inquiry that moved out of the current filter
+  useEffect(() => {
+    if (!selectedId) {
+      setSelectedInquiry(null);
+      return;
+    }
+
+    const listed = inquiries.find(inquiry => inquiry.id === selectedId);
+    if (listed) {
+      setSelectedInquiry(listed);
+      return;
+    }
+
+    const fetchSelected = async () => {
+      const { data, error: inquiryError } = await supabase
+        .from('business_inquiries')
+        .select('*')
+        .match({ id: selectedId })
+        .maybeSingle();
+
+      if (inquiryError) {
+        console.error('Error fetching business inquiry:', inquiryError);
+        return;
+      }
+
+      setSelectedInquiry(data as unknown as AdminInquiry | null);
+    };
+
+    fetchSelected();
+  }, [selectedId, inquiries]);
+
+  return (
+    <AdminLayout activeTab="businesses">
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Businesses</h1>
+          <p className="text-gray-600">Follow up business registrations and onboard new partners</p>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {statusFilters.map(filter => (
+            <button
+              key={filter.id}
+              onClick={() => setStatus(filter.id)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium ${
+                status === filter.id
+                  ? 'bg-blue-600 text-white'
+                  : 'border border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {filter.label}
+            </button>
+          ))}
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-50 text-red-700 rounded-xl">{error}</div>
+        )}
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-left">
+            <thead>
+              <tr className="border-b border-gray-200">
+                <th className="py-3 px-4 text-sm font-medium text-gray-600">Company</th>
+                <th className="py-3 px-4 text-sm font-medium text-gray-600">Type</th>
+                <th className="py-3 px-4 text-sm font-medium text-gray-600">Sales Owner</th>
+                <th className="py-3 px-4 text-sm font-medium text-gray-600">Status</th>
+                <th className="py-3 px-4 text-sm font-medium text-gray-600">Registered</th>
+              </tr>
+            </thead>
+            <tbody>
+              {loading ? (
+                <tr>
+                  <td colSpan={5} className="py-12">
+                    <Loader className="w-8 h-8 text-blue-600 animate-spin mx-auto" />
+                  </td>
+                </tr>
+              ) : inquiries.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="py-12 text-center text-gray-600">
+                    No inquiries here
+                  </td>
+                </tr>
+              ) : (
+                inquiries.map(inquiry => (
+                  <motion.tr
+                    key={inquiry.id}
+                    onClick={() => setSelectedId(inquiry.id)}
+                    className="border-b border-gray-100 hover:bg-gray-50 cursor-pointer"
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                  >
+                    <td className="py-3 px-4">
+                      <div className="text-gray-900">{inquiry.company_name}</div>
+                      <div className="text-sm text-gray-500">{inquiry.contact_name} · {inquiry.email}</div>
+                    </td>
+                    <td className="py-3 px-4 text-gray-600 capitalize">{inquiry.business_type}</td>
+                    <td className="py-3 px-4 text-gray-600">{ownerEmail(inquiry.assigned_to) ?? '—'}</td>
+                    <td className="py-3 px-4">
+                      <span className={`px-3 py-1 rounded-full text-sm font-medium capitalize ${statusColors[inquiry.status]}`}>
+                        {inquiry.status}
+                      </span>
+                    </td>
+                    <td className="py-3 px-4 text-gray-600">
+                      {format(new Date(inquiry.created_at), 'MMM d, yyyy')}
+                    </td>
+                  </motion.tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <BusinessInquiryDrawer
+        inquiry={selectedInquiry}
+        salesOwners={salesOwners}
+        onClose={() => setSelectedId(null)}
+        onChange={fetchInquiries}
+      />
+    </AdminLayout>
+  );
+};
+
+export default Businesses;
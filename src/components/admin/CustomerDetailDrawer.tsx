@@ -0,0 +1,490 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { format } from 'date-fns';
+import { X, Package, FileText, MapPin, MessageSquare, Clock, Loader, Shield } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useAdmin } from '../../contexts/AdminContext';
+import { getOrderStatusColor, getOrderStatusLabel } from '../../lib/orderStatus';
+
+interface CustomerDetails {
+  id: string;
+  email: string;
+  created_at: string;
+  last_sign_in_at: string | null;
+  blocked: boolean;
+  first_name: string | null;
+  last_name: string | null;
+  phone: string | null;
+  postal_code: string | null;
+  preferences: {
+    notifications?: { [channel: string]: boolean };
+    language?: string;
+  };
+  merged_into: string | null;
+  orders: {
+    id: string;
+    order_number: string;
+    status: string;
+    payment_status: string;
+    total_amount: number;
+    created_at: string;
+    estimated_delivery: string;
+  }[];
+  quotes: {
+    id: string;
+    item_name: string;
+    status: string;
+    suggested_price: number | null;
+    created_at: string;
+  }[];
+  addresses: {
+    id: string;
+    name: string;
+    address: string;
+    is_default: boolean;
+  }[];
+  notes: {
+    id: string;
+    body: string;
+    author_email: string | null;
+    created_at: string;
+  }[];
+  audit: {
+    id: string;
+    action: string;
+    details: { [key: string]: unknown };
+    actor_email: string | null;
+    created_at: string;
+  }[];
+}
+
+interface CustomerDetailDrawerProps {
+  customerId: string | null;
+  onClose: () => void;
+  onChange: () => void;
+}
+
+const auditLabels: { [action: string]: string } = {
+  block: 'Blocked',
+  unblock: 'Unblocked',
+  reset_password: 'Password reset sent',
+  note_added: 'Note added',
+  merged_away: 'Merged into another account',
+  merged_into: 'Another account merged into this one'
+};
+
+const Section: React.FC<{ title: string; icon: LucideIcon; children: React.ReactNode }> = ({
+  title,
+  icon: Icon,
+  children
+}) => (
+  <section>
+    <h3 className="flex items-center font-semibold text-gray-900 mb-3">
+      <Icon className="w-5 h-5 mr-2 text-gray-400" />
+      {title}
+    </h3>
+    {children}
+  </section>
+);
+
+const CustomerDetailDrawer: React.FC<CustomerDetailDrawerProps> = ({ customerId, onClose, onChange }) => {
+  const { can } = useAdmin();
+  const [customer, setCustomer] = useState<CustomerDetails | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [working, setWorking] = useState(false);
+  const [note, setNote] = useState('');
+  const [mergeEmail, setMergeEmail] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const canWrite = can('users.write');
+
+  const fetchCustomer = useCallback(async () => {
+    if (!customerId) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data, error: customerError } = await supabase.rpc('get_customer_details', {
+        p_user_id: customerId
+      });
+
+      if (customerError) throw customerError;
+
+      setCustomer(data as unknown as CustomerDetails);
+    } catch (err) {
+      console.error('Error fetching customer details:', err);
+      setError('Failed to load customer details');
+    } finally {
+      setLoading(false);
+    }
+  }, [customerId]);
+
+  useEffect(() => {
+    setCustomer(null);
+    setNote('');
+    setMergeEmail('');
+    setMessage(null);
+    fetchCustomer();
+  }, [fetchCustomer]);
+
+  // Runs an action, then reloads so the audit trail shows it right away
+  const runAction = async (action: () => Promise<void>, successMessage: string) => {
+    try {
+      setWorking(true);
+      setError(null);
+      setMessage(null);
+
+      await action();
+
+      setMessage(successMessage);
+      await fetchCustomer();
+      onChange();
+    } catch (err) {
+      console.error('Error updating customer:', err);
+      // Database and function errors explain what went wrong
+      setError((err as { message?: string }).message ?? 'Action failed');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const invokeAccountAction = async (action: 'block' | 'unblock' | 'reset_password', reason?: string) => {
+    if (!customer) return;
+
+    const { data, error: invokeError } = await supabase.functions.invoke('admin-users', {
+      body: { action, userId: customer.id, reason }
+    });
+
+    if (invokeError) throw invokeError;
+    if (data?.error) throw new Error(data.error);
+  };
+
+  const handleAddNote = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!customer || !note.trim()) return;
+
+    runAction(async () => {
+      const { error: noteError } = await supabase.rpc('add_customer_note', {
+        p_user_id: customer.id,
+        p_body: note
+      });
+      if (noteError) throw noteError;
+      setNote('');
+    }, 'Note added');
+  };
+
+  const handleMerge = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!customer) return;
+
+    const email = mergeEmail.trim().toLowerCase();
+    const { data: matches, error: searchError } = await supabase.rpc('search_customers', {
+      p_search: email,
+      p_limit: 10,
+      p_offset: 0
+    });
+
+    if (searchError) {
+      console.error('Error looking up merge target:', searchError);
+      setError('Failed to look up the account to keep');
+      return;
+    }
+
+    const target = ((matches || []) as unknown as { id: string; email: string }[])
+      .find(match => match.email.toLowerCase() === email);
+
+    if (!target) {
+      setError(`No customer account found for ${email}`);
+      return;
+    }
+
+    if (!window.confirm(
+      `Move all orders, addresses and quotes of ${customer.email} to ${target.email}? ` +
+      `${customer.email} will be blocked afterwards.`
+    )) {
+      return;
+    }
+
+    runAction(async () => {
+      const { error: mergeError } = await supabase.rpc('merge_customers', {
+        p_source_id: customer.id,
+        p_target_id: target.id
+      });
+      if (mergeError) throw mergeError;
+
+      // The duplicate should not be used to sign in any more
+      await invokeAccountAction('block', `Merged into ${target.email}`);
+      setMergeEmail('');
+    }, 'Account merged');
+  };
+
+  const name = customer ? [customer.first_name, customer.last_name].filter(Boolean).join(' ') : '';
+
+  return (
+    <AnimatePresence>
+      {customerId && (
+        <>
+          <motion.div
+            className="fixed inset-0 bg-black/30 z-40"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+          />
+          <motion.aside
+            className="fixed top-0 right-0 bottom-0 w-full max-w-xl bg-white shadow-2xl z-50 overflow-y-auto"
+            initial={{ x: '100%' }}
+            animate={{ x: 0 }}
+            exit={{ x: '100%' }}
+            transition={{ type: 'spring', stiffness: 300, damping: 30 }}
+          >
+            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+              <div>
+                <h2 className="text-xl font-bold text-gray-900">{name || customer?.email || 'Customer'}</h2>
+                {customer && (
+                  <p className="text-sm text-gray-600">
+                    {customer.email} · joined {format(new Date(customer.created_at), 'MMM d, yyyy')}
+                  </p>
+                )}
+              </div>
+              <button onClick={onClose} className="p-2 rounded-lg hover:bg-gray-100" aria-label="Close">
+                <X className="w-5 h-5 text-gray-600" />
+              </button>
+            </div>
+
+            {loading && !customer ? (
+              <div className="flex justify-center py-12">
+                <Loader className="w-8 h-8 text-blue-600 animate-spin" />
+              </div>
+            ) : !customer ? (
+              error && <div className="m-6 p-4 bg-red-50 text-red-700 rounded-xl">{error}</div>
+            ) : (
+              <div className="p-6 space-y-8">
+                {error && (
+                  <div className="p-4 bg-red-50 text-red-700 rounded-xl">{error}</div>
+                )}
+                {message && (
+                  <div className="p-4 bg-green-50 text-green-700 rounded-xl">{message}</div>
+                )}
+
+                {/* Account */}
+                <Section title="Account" icon={Shield}>
+                  <div className="flex flex-wrap gap-2 mb-4">
+                    {customer.blocked ? (
+                      <span className="px-3 py-1 rounded-full text-sm font-medium bg-red-100 text-red-800">Blocked</span>
+                    ) : (
+                      <span className="px-3 py-1 rounded-full text-sm font-medium bg-green-100 text-green-800">Active</span>
+                    )}
+                    {customer.merged_into && (
+                      <span className="px-3 py-1 rounded-full text-sm font-medium bg-gray-100 text-gray-700">
+                        Merged into another account
+                      </span>
+                    )}
+                  </div>
+                  <dl className="grid grid-cols-2 gap-y-2 text-sm mb-4">
+                    <dt className="text-gray-600">Phone</dt>
+                    <dd className="text-gray-900">{customer.phone ?? '—'}</dd>
+                    <dt className="text-gray-600">Postal code</dt>
+                    <dd className="text-gray-900">{customer.postal_code ?? '—'}</dd>
+                    <dt className="text-gray-600">Last sign-in</dt>
+                    <dd className="text-gray-900">
+                      {customer.last_sign_in_at ? format(new Date(customer.last_sign_in_at), 'MMM d, yyyy HH:mm') : '—'}
+                    </dd>
+                    <dt className="text-gray-600">Language</dt>
+                    <dd className="text-gray-900 uppercase">{customer.preferences.language ?? '—'}</dd>
+                    <dt className="text-gray-600">Notifications</dt>
+                    <dd className="text-gray-900 capitalize">
+                      {Object.entries(customer.preferences.notifications ?? {})
+                        .filter(([, enabled]) => enabled)
+                        .map(([channel]) => channel)
+                        .join(', ') || 'None'}
+                    </dd>
+                  </dl>
+
+                  {canWrite && (
+                    <div className="flex flex-wrap gap-2">
+                      <button
+                        onClick={() => runAction(
+                          () => invokeAccountAction(customer.blocked ? 'unblock' : 'block'),
+                          customer.blocked ? 'Customer unblocked' : 'Customer blocked'
+                        )}
+                        disabled={working}
+                        className={`px-4 py-2 rounded-lg font-medium disabled:opacity-50 ${
+                          customer.blocked
+                            ? 'bg-blue-600 text-white hover:bg-blue-700'
+                            : 'bg-red-50 text-red-600 hover:bg-red-100'
+                        }`}
+                      >
+                        {customer.blocked ? 'Unblock' : 'Block'}
+                      </button>
+                      <button
+                        onClick={() => runAction(
+                          () => invokeAccountAction('reset_password'),
+                          `Password reset email sent to ${customer.email}`
+                        )}
+                        disabled={working}
+                        className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 font-medium hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        Send Password Reset
+                      </button>
+                    </div>
+                  )}
+                </Section>
+
+                {/* Orders */}
+                <Section title={`Orders (${customer.orders.length})`} icon={Package}>
+                  {customer.orders.length === 0 ? (
+                    <p className="text-sm text-gray-600">No orders yet</p>
+                  ) : (
+                    <div className="divide-y divide-gray-100">
+                      {customer.orders.map(order => (
+                        <div key={order.id} className="flex items-center justify-between py-2 text-sm">
+                          <div>
+                            <div className="font-medium text-gray-900">{order.order_number}</div>
+                            <div className="text-gray-500">
+                              {format(new Date(order.created_at), 'MMM d, yyyy')} · delivery{' '}
+                              {format(new Date(order.estimated_delivery), 'MMM d, HH:mm')}
+                            </div>
+                          </div>
+                          <div className="text-right">
+                            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getOrderStatusColor(order.status)}`}>
+                              {getOrderStatusLabel(order.status)}
+                            </span>
+                            <div className="text-gray-600 mt-1">
+                              €{Number(order.total_amount).toFixed(2)} · {order.payment_status}
+                            </div>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </Section>
+
+                {/* Quotes */}
+                <Section title={`Quotes (${customer.quotes.length})`} icon={FileText}>
+                  {customer.quotes.length === 0 ? (
+                    <p className="text-sm text-gray-600">No quote requests</p>
+                  ) : (
+                    <div className="divide-y divide-gray-100">
+                      {customer.quotes.map(quote => (
+                        <div key={quote.id} className="flex justify-between py-2 text-sm">
+                          <span className="text-gray-900">{quote.item_name}</span>
+                          <span className="text-gray-600 capitalize">
+                            {quote.status}
+                            {quote.suggested_price !== null && ` · €${Number(quote.suggested_price).toFixed(2)}`}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </Section>
+
+                {/* Addresses */}
+                <Section title="Addresses" icon={MapPin}>
+                  {customer.addresses.length === 0 ? (
+                    <p className="text-sm text-gray-600">No saved addresses</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {customer.addresses.map(address => (
+                        <div key={address.id} className="text-sm">
+                          <span className="font-medium text-gray-900">{address.name}</span>
+                          {address.is_default && <span className="text-gray-500"> (default)</span>}
+                          <div className="text-gray-600">{address.address}</div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </Section>
+
+                {/* Notes */}
+                <Section title="Internal Notes" icon={MessageSquare}>
+                  {canWrite && (
+                    <form onSubmit={handleAddNote} className="flex gap-2 mb-4">
+                      <input
+                        type="text"
+                        value={note}
+                        onChange={(e) => setNote(e.target.value)}
+                        placeholder="Add a note for the team"
+                        className="flex-1 px-4 py-2 rounded-lg border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200"
+                      />
+                      <button
+                        type="submit"
+                        disabled={working || !note.trim()}
+                        className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        Add
+                      </button>
+                    </form>
+                  )}
+                  <div className="space-y-3">
+                    {customer.notes.map(customerNote => (
+                      <div key={customerNote.id} className="text-sm">
+                        <div className="text-gray-900">{customerNote.body}</div>
+                        <div className="text-gray-500">
+                          {customerNote.author_email ?? 'Unknown'} ·{' '}
+                          {format(new Date(customerNote.created_at), 'MMM d, yyyy HH:mm')}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </Section>
+
+                {/* Merge */}
+                {canWrite && !customer.merged_into && (
+                  <section>
+                    <h3 className="font-semibold text-gray-900 mb-1">Merge Duplicate Account</h3>
+                    <p className="text-sm text-gray-600 mb-3">
+                      Moves everything from this account to the account with the email below.
+                    </p>
+                    <form onSubmit={handleMerge} className="flex gap-2">
+                      <input
+                        type="email"
+                        value={mergeEmail}
+                        onChange={(e) => setMergeEmail(e.target.value)}
+                        required
+                        placeholder="Email of the account to keep"
+                        className="flex-1 px-4 py-2 rounded-lg border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200"
+                      />
+                      <button
+                        type="submit"
+                        disabled={working}
+                        className="px-4 py-2 rounded-lg bg-red-50 text-red-600 font-medium hover:bg-red-100 disabled:opacity-50"
+                      >
+                        Merge
+                      </button>
+                    </form>
+                  </section>
+                )}
+
+                {/* Audit */}
+                <Section title="Audit Trail" icon={Clock}>
+                  {customer.audit.length === 0 ? (
+                    <p className="text-sm text-gray-600">No admin actions yet</p>
+                  ) : (
+                    <ol className="space-y-3">
+                      {customer.audit.map(entry => (
+                        <li key={entry.id} className="text-sm">
+                          <div className="text-gray-900">{auditLabels[entry.action] ?? entry.action}</div>
+                          <div className="text-gray-500">
+                            {entry.actor_email ?? 'System'} ·{' '}
+                            {format(new Date(entry.created_at), 'MMM d, yyyy HH:mm')}
+                            {typeof entry.details.reason === 'string' && ` · ${entry.details.reason}`}
+                          </div>
+                        </li>
+                      ))}
+                    </ol>
+                  )}
+                </Section>
+              </div>
+            )}
+          </motion.aside>
+        </>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default CustomerDetailDrawer;
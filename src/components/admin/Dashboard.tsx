@@ -1,84 +1,349 @@
-import React from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { motion } from 'framer-motion';
-import { Package, Users, Building2, TrendingUp } from 'lucide-react';
+import { format, addDays, parseISO, startOfDay, subDays } from 'date-fns';
+import { Package, Users, Building2, TrendingUp, Loader } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useAdmin } from '../../contexts/AdminContext';
 import AdminLayout from './AdminLayout';
 
+interface PeriodMetrics {
+  period: 'current' | 'previous';
+  order_count: number;
+  active_customers: number;
+  business_partners: number;
+  gross_revenue: number;
+}
+
+interface DailyStats {
+  day: string;
+  order_count: number;
+  revenue: number;
+}
+
+interface ServiceStats {
+  service_identifier: string;
+  service_name: string;
+  order_count: number;
+  revenue: number;
+}
+
+type MetricKey = 'order_count' | 'active_customers' | 'business_partners' | 'gross_revenue';
+
+const PRESETS = [7, 30, 90];
+
+const currency = new Intl.NumberFormat('nl-NL', { style: 'currency', currency: 'EUR' });
+
+const formatChange = (current: number, previous: number) => {
+  if (previous === 0) return current === 0 ? '0%' : 'New';
+  const change = ((current - previous) / previous) * 100;
+  return `${change > 0 ? '+' : ''}${change.toFixed(0)}%`;
+};
+
+const metricCards: {
+  key: MetricKey;
+  title: string;
+  icon: LucideIcon;
+  color: string;
+  lightColor: string;
+  format: (value: number) => string;
+}[] = [
+  {
+    key: 'order_count',
+    title: 'Total Orders',
+    icon: Package,
+    color: 'bg-blue-600',
+    lightColor: 'bg-blue-50',
+    format: value => value.toLocaleString('nl-NL')
+  },
+  {
+    key: 'active_customers',
+    title: 'Active Customers',
+    icon: Users,
+    color: 'bg-green-600',
+    lightColor: 'bg-green-50',
+    format: value => value.toLocaleString('nl-NL')
+  },
+  {
+    key: 'business_partners',
+    title: 'Business Partners',
+    icon: Building2,
+    color: 'bg-purple-600',
+    lightColor: 'bg-purple-50',
+    format: value => value.toLocaleString('nl-NL')
+  },
+  {
+    key: 'gross_revenue',
+    title: 'Revenue',
+    icon: TrendingUp,
+    color: 'bg-amber-600',
+    lightColor: 'bg-amber-50',
+    format: value => currency.format(value)
+  }
+];
+
+const DailyChart: React.FC<{ days: DailyStats[] }> = ({ days }) => {
+  const maxRevenue = Math.max(1, ...days.map(day => day.revenue));
+
+  return (
+    <div className="flex items-end h-48 gap-1">
+      {days.map(day => (
+        <div
+          key={day.day}
+          className="flex-1 h-full flex flex-col justify-end group relative"
+        >
+          <div
+            className="bg-blue-600 rounded-t group-hover:bg-blue-700 transition-colors"
+            style={{ height: `${(day.revenue / maxRevenue) * 100}%`, minHeight: day.order_count > 0 ? 2 : 0 }}
+          />
+          <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 hidden group-hover:block whitespace-nowrap bg-gray-900 text-white text-xs rounded-lg px-2 py-1 z-10">
+            {format(parseISO(day.day), 'MMM d')} · {day.order_count} orders · {currency.format(day.revenue)}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
 const Dashboard: React.FC = () => {
-  const stats = [
-    {
-      title: "Total Orders",
-      value: "486",
-      change: "+12%",
-      icon: Package,
-      color: "bg-blue-600",
-      lightColor: "bg-blue-50"
-    },
-    {
-      title: "Active Users",
-      value: "2,486",
-      change: "+8%",
-      icon: Users,
-      color: "bg-green-600",
-      lightColor: "bg-green-50"
-    },
-    {
-      title: "Business Partners",
-      value: "48",
-      change: "+2%",
-      icon: Building2,
-      color: "bg-purple-600",
-      lightColor: "bg-purple-50"
-    },
-    {
-      title: "Revenue",
-      value: "€24,486",
-      change: "+18%",
-      icon: TrendingUp,
-      color: "bg-amber-600",
-      lightColor: "bg-amber-50"
+  const { can } = useAdmin();
+  // Every figure on the dashboard is derived from paid orders
+  const canSeeRevenue = can('billing.read');
+  const [range, setRange] = useState(() => ({
+    from: format(subDays(new Date(), 29), 'yyyy-MM-dd'),
+    to: format(new Date(), 'yyyy-MM-dd')
+  }));
+  const [metrics, setMetrics] = useState<PeriodMetrics[]>([]);
+  const [daily, setDaily] = useState<DailyStats[]>([]);
+  const [services, setServices] = useState<ServiceStats[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchMetrics = useCallback(async () => {
+    if (!canSeeRevenue) {
+      setLoading(false);
+      return;
     }
-  ];
+    if (!range.from || !range.to || range.from > range.to) return;
+
+    try {
+      setError(null);
+
+      // Date inputs are in the admin's local time, the end day is inclusive
+      const params = {
+        p_from: startOfDay(parseISO(range.from)).toISOString(),
+        p_to: addDays(startOfDay(parseISO(range.to)), 1).toISOString()
+      };
+
+      const [
+        { data: metricsData, error: metricsError },
+        { data: dailyData, error: dailyError },
+        { data: servicesData, error: servicesError }
+      ] = await Promise.all([
+        supabase.rpc('get_dashboard_metrics', params),
+        supabase.rpc('get_daily_order_stats', params),
+        supabase.rpc('get_service_breakdown', params)
+      ]);
+
+      if (metricsError) throw metricsError;
+      if (dailyError) throw dailyError;
+      if (servicesError) throw servicesError;
+
+      // Postgres numerics arrive as strings
+      setMetrics(((metricsData || []) as unknown as PeriodMetrics[]).map(row => ({
+        ...row,
+        order_count: Number(row.order_count),
+        active_customers: Number(row.active_customers),
+        business_partners: Number(row.business_partners),
+        gross_revenue: Number(row.gross_revenue)
+      })));
+      setDaily(((dailyData || []) as unknown as DailyStats[]).map(row => ({
+        ...row,
+        order_count: Number(row.order_count),
+        revenue: Number(row.revenue)
+      })));
+      setServices(((servicesData || []) as unknown as ServiceStats[]).map(row => ({
+        ...row,
+        order_count: Number(row.order_count),
+        revenue: Number(row.revenue)
+      })));
+    } catch (err) {
+      console.error('Error fetching dashboard metrics:', err);
+      setError('Failed to load dashboard metrics');
+    } finally {
+      setLoading(false);
+    }
+  }, [range, canSeeRevenue]);
+
+  useEffect(() => {
+    fetchMetrics();
+  }, [fetchMetrics]);
+
+  // New and paid orders change every number on the page; bursts of changes
+  // are collapsed into one refetch
+  useEffect(() => {
+    if (!canSeeRevenue) return;
+
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+
+    const channel = supabase
+      .channel('admin-dashboard')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'orders'
+        },
+        () => {
+          clearTimeout(timeout);
+          timeout = setTimeout(fetchMetrics, 1000);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      clearTimeout(timeout);
+      channel.unsubscribe();
+    };
+  }, [fetchMetrics, canSeeRevenue]);
+
+  const selectPreset = (days: number) => {
+    setRange({
+      from: format(subDays(new Date(), days - 1), 'yyyy-MM-dd'),
+      to: format(new Date(), 'yyyy-MM-dd')
+    });
+  };
+
+  const current = metrics.find(row => row.period === 'current');
+  const previous = metrics.find(row => row.period === 'previous');
+  const totalRevenue = services.reduce((sum, service) => sum + service.revenue, 0);
 
   return (
     <AdminLayout activeTab="dashboard">
       <div className="space-y-6">
-        <div className="flex justify-between items-center mb-8">
+        <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-4 mb-8">
           <div>
             <h1 className="text-2xl font-bold text-gray-900">Dashboard</h1>
             <p className="text-gray-600">Overview of your business metrics</p>
           </div>
+
+          {canSeeRevenue && (
+            <div className="flex flex-wrap items-center gap-2">
+              {PRESETS.map(days => (
+                <button
+                  key={days}
+                  onClick={() => selectPreset(days)}
+                  className="px-3 py-2 rounded-lg border border-gray-300 text-sm text-gray-700 hover:bg-gray-50"
+                >
+                  {days} days
+                </button>
+              ))}
+              <input
+                type="date"
+                value={range.from}
+                max={range.to}
+                onChange={(e) => setRange(prev => ({ ...prev, from: e.target.value }))}
+                className="px-2 py-2 rounded-lg border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200"
+                aria-label="From"
+              />
+              <input
+                type="date"
+                value={range.to}
+                min={range.from}
+                onChange={(e) => setRange(prev => ({ ...prev, to: e.target.value }))}
+                className="px-2 py-2 rounded-lg border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200"
+                aria-label="Until"
+              />
+            </div>
+          )}
         </div>
 
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-          {stats.map((stat, index) => (
-            <motion.div
-              key={stat.title}
-              className={`${stat.lightColor} rounded-2xl p-6`}
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              transition={{ duration: 0.4, delay: index * 0.1 }}
-            >
-              <div className="flex items-center justify-between mb-4">
-                <div className={`${stat.color} w-12 h-12 rounded-xl flex items-center justify-center text-white`}>
-                  <stat.icon size={24} />
-                </div>
-                <span className="text-sm font-medium text-green-600">
-                  {stat.change}
-                </span>
+        {error && (
+          <div className="p-4 bg-red-50 text-red-700 rounded-xl">{error}</div>
+        )}
+
+        {!canSeeRevenue ? (
+          <div className="p-4 bg-gray-50 text-gray-700 rounded-xl">
+            The dashboard figures need the View billing permission.
+          </div>
+        ) : loading ? (
+          <div className="flex justify-center py-12">
+            <Loader className="w-8 h-8 text-blue-600 animate-spin" />
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+              {metricCards.map((stat, index) => {
+                const value = current?.[stat.key] ?? 0;
+                const previousValue = previous?.[stat.key] ?? 0;
+
+                return (
+                  <motion.div
+                    key={stat.key}
+                    className={`${stat.lightColor} rounded-2xl p-6`}
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ duration: 0.4, delay: index * 0.1 }}
+                  >
+                    <div className="flex items-center justify-between mb-4">
+                      <div className={`${stat.color} w-12 h-12 rounded-xl flex items-center justify-center text-white`}>
+                        <stat.icon size={24} />
+                      </div>
+                      <span
+                        className={`text-sm font-medium ${value < previousValue ? 'text-red-600' : 'text-green-600'}`}
+                        title={`Previous period: ${stat.format(previousValue)}`}
+                      >
+                        {formatChange(value, previousValue)}
+                      </span>
+                    </div>
+                    <h3 className="text-gray-600 text-sm mb-1">{stat.title}</h3>
+                    <p className="text-2xl font-bold text-gray-900">{stat.format(value)}</p>
+                  </motion.div>
+                );
+              })}
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <div className="lg:col-span-2 bg-white rounded-2xl border border-gray-200 p-6">
+                <h2 className="font-semibold text-gray-900 mb-1">Daily Revenue</h2>
+                <p className="text-sm text-gray-600 mb-6">Paid orders per day</p>
+                <DailyChart days={daily} />
+                {daily.length > 0 && (
+                  <div className="flex justify-between mt-2 text-xs text-gray-500">
+                    <span>{format(parseISO(daily[0].day), 'MMM d')}</span>
+                    <span>{format(parseISO(daily[daily.length - 1].day), 'MMM d')}</span>
+                  </div>
+                )}
               </div>
-              <h3 className="text-gray-600 text-sm mb-1">{stat.title}</h3>
-              <p className="text-2xl font-bold text-gray-900">{stat.value}</p>
-            </motion.div>
-          ))}
-        </div>
 
-        {/* Content Placeholder */}
-        <div className="text-center py-12">
-          <p className="text-gray-600">Dashboard content coming soon...</p>
-        </div>
+              <div className="bg-white rounded-2xl border border-gray-200 p-6">
+                <h2 className="font-semibold text-gray-900 mb-6">Revenue by Service</h2>
+                <div className="space-y-4">
+                  {services.map(service => (
+                    <div key={service.service_identifier}>
+                      <div className="flex justify-between text-sm mb-1">
+                        <span className="text-gray-900">{service.service_name}</span>
+                        <span className="text-gray-600">
+                          {service.order_count} · {currency.format(service.revenue)}
+                        </span>
+                      </div>
+                      <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                        <div
+                          className="h-full bg-blue-600 rounded-full"
+                          style={{ width: `${totalRevenue > 0 ? (service.revenue / totalRevenue) * 100 : 0}%` }}
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </>
+        )}
       </div>
     </AdminLayout>
   );
 };
 
-export default Dashboard;
\ No newline at end of file
+export default Dashboard;
@@ -0,0 +1,493 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { format } from 'date-fns';
+import QRCode from 'qrcode';
+import { X, MapPin, CreditCard, Package, Clock, Loader, QrCode, Scale } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import type { Order, OrderItem } from '../../lib/supabase';
+import { useAdmin } from '../../contexts/AdminContext';
+import { getNextOrderStatuses, getOrderStatusColor, getOrderStatusLabel } from '../../lib/orderStatus';
+import { formatQuantity, settlementLabel } from '../../lib/weighing';
+import type { OrderSettlement, PricingUnit } from '../../lib/weighing';
+import { formatDimensions } from '../../lib/carpets';
+import type { CarpetDimensions } from '../../lib/carpets';
+
+interface AddressDetails {
+  floor?: string;
+  door_code?: string;
+  courier_instructions?: string;
+}
+
+type OrderDetail = Order & {
+  pickup_address: string | null;
+  pickup_details: AddressDetails | null;
+  delivery_details: AddressDetails | null;
+  qr_code: string | null;
+  is_express: boolean;
+  express_surcharge: number;
+};
+
+type OrderLine = OrderItem & {
+  pricing_unit: PricingUnit;
+  estimated_quantity: number | null;
+  estimated_subtotal: number | null;
+  weighed_at: string | null;
+  dimensions: CarpetDimensions | null;
+};
+
+// Bags are weighed at the facility, between pickup and ready
+const WEIGHING_STATUSES = ['picked_up', 'processing'];
+
+interface StatusChange {
+  id: string;
+  from_status: string | null;
+  to_status: string;
+  note: string | null;
+  created_at: string;
+}
+
+interface OrderDetailDrawerProps {
+  orderId: string | null;
+  onClose: () => void;
+  onStatusChange: () => void;
+}
+
+const AddressBlock: React.FC<{ title: string; address: string | null; details: AddressDetails | null }> = ({
+  title,
+  address,
+  details
+}) => (
+  <div>
+    <div className="text-sm font-medium text-gray-700 mb-1">{title}</div>
+    <div className="flex items-start">
+      <MapPin className="w-4 h-4 text-gray-400 mt-1 mr-2 flex-shrink-0" />
+      <div className="text-sm">
+        <div className="text-gray-900">{address ?? '—'}</div>
+        {details?.floor && <div className="text-gray-600">Floor: {details.floor}</div>}
+        {details?.door_code && <div className="text-gray-600">Door code: {details.door_code}</div>}
+        {details?.courier_instructions && (
+          <div className="text-gray-500 mt-1">{details.courier_instructions}</div>
+        )}
+      </div>
+    </div>
+  </div>
+);
+
+const OrderDetailDrawer: React.FC<OrderDetailDrawerProps> = ({ orderId, onClose, onStatusChange }) => {
+  const { can } = useAdmin();
+  const [order, setOrder] = useState<OrderDetail | null>(null);
+  const [items, setItems] = useState<OrderLine[]>([]);
+  const [settlement, setSettlement] = useState<OrderSettlement | null>(null);
+  const [weights, setWeights] = useState<{ [orderItemId: string]: string }>({});
+  const [history, setHistory] = useState<StatusChange[]>([]);
+  const [qrImage, setQrImage] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [updating, setUpdating] = useState(false);
+  const [note, setNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchOrder = useCallback(async () => {
+    if (!orderId) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [
+        { data: orderData, error: orderError },
+        { data: itemsData, error: itemsError },
+        { data: historyData, error: historyError },
+        { data: settlementData, error: settlementError }
+      ] = await Promise.all([
+        supabase.from('orders').select('*').match({ id: orderId }).single(),
+        supabase.from('order_items').select('*').match({ order_id: orderId }),
+        supabase
+          .from('order_status_history')
+          .select('id, from_status, to_status, note, created_at')
+          .match({ order_id: orderId })
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('order_settlements')
+          .select('id, kind, amount, status, failure_reason')
+          .match({ order_id: orderId })
+          .maybeSingle()
+      ]);
+
+      if (orderError) throw orderError;
+      if (itemsError) throw itemsError;
+      if (historyError) throw historyError;
+      if (settlementError) throw settlementError;
+
+      setOrder(orderData as unknown as OrderDetail);
+      setItems((itemsData || []) as unknown as OrderLine[]);
+      setSettlement(settlementData as unknown as OrderSettlement | null);
+      setHistory((historyData || []) as unknown as StatusChange[]);
+    } catch (err) {
+      console.error('Error fetching order details:', err);
+      setError('Failed to load order details');
+    } finally {
+      setLoading(false);
+    }
+  }, [orderId]);
+
+  useEffect(() => {
+    setOrder(null);
+    setNote('');
+    setWeights({});
+    fetchOrder();
+  }, [fetchOrder]);
+
+  useEffect(() => {
+    if (!order?.qr_code) {
+      setQrImage(null);
+      return;
+    }
+
+    QRCode.toDataURL(order.qr_code, { width: 200, margin: 1 })
+      .then(setQrImage)
+      .catch(err => console.error('Error generating QR code:', err));
+  }, [order?.qr_code]);
+
+  const handleTransition = async (status: string) => {
+    if (!order) return;
+
+    try {
+      setUpdating(true);
+      setError(null);
+
+      const { error: transitionError } = await supabase.rpc('transition_order_status', {
+        p_order_id: order.id,
+        p_status: status,
+        p_note: note.trim() || null
+      });
+
+      if (transitionError) {
+        // The database explains why a transition is not allowed
+        setError(transitionError.message);
+        return;
+      }
+
+      setNote('');
+      await fetchOrder();
+      onStatusChange();
+    } catch (err) {
+      console.error('Error updating order status:', err);
+      setError('Failed to update the order status');
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  // Without weights the function only retries a refund that failed
+  const handleRecordWeight = async (retryRefund = false) => {
+    if (!order) return;
+
+    try {
+      setUpdating(true);
+      setError(null);
+
+      const { data, error: invokeError } = await supabase.functions.invoke('record-order-weight', {
+        body: {
+          orderId: order.id,
+          weights: retryRefund
+            ? undefined
+            : unweighedLines.map(line => ({ order_item_id: line.id, weight_kg: Number(weights[line.id]) }))
+        }
+      });
+
+      if (invokeError) throw invokeError;
+      if (data?.error) throw new Error(data.error);
+
+      setWeights({});
+      await fetchOrder();
+      onStatusChange();
+    } catch (err) {
+      console.error('Error recording weight:', err);
+      setError(err instanceof Error ? err.message : 'Failed to record the weight');
+      await fetchOrder();
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const nextStatuses = order
+    ? getNextOrderStatuses(order.status, order.payment_status === 'paid' || order.payment_method === 'invoice')
+    : [];
+  const unweighedLines = items.filter(line => line.pricing_unit === 'kg' && !line.weighed_at);
+  const canWeigh = !!order && can('orders.write') && unweighedLines.length > 0 && WEIGHING_STATUSES.includes(order.status);
+  const weightsComplete = unweighedLines.every(line => Number(weights[line.id]) > 0);
+
+  return (
+    <AnimatePresence>
+      {orderId && (
+        <>
+          <motion.div
+            className="fixed inset-0 bg-black/30 z-40"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+          />
+          <motion.aside
+            className="fixed top-0 right-0 bottom-0 w-full max-w-xl bg-white shadow-2xl z-50 overflow-y-auto"
+            initial={{ x: '100%' }}
+            animate={{ x: 0 }}
+            exit={{ x: '100%' }}
+            transition={{ type: 'spring', stiffness: 300, damping: 30 }}
+          >
+            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+              <div>
+                <h2 className="text-xl font-bold text-gray-900">
+                  {order ? `Order ${order.order_number}` : 'Order'}
+                </h2>
+                {order && (
+                  <p className="text-sm text-gray-600">
+                    Placed {format(new Date(order.created_at), 'MMM d, yyyy HH:mm')}
+                  </p>
+                )}
+              </div>
+              <button onClick={onClose} className="p-2 rounded-lg hover:bg-gray-100" aria-label="Close">
+                <X className="w-5 h-5 text-gray-600" />
+              </button>
+            </div>
+
+            {loading && !order ? (
+              <div className="flex justify-center py-12">
+                <Loader className="w-8 h-8 text-blue-600 animate-spin" />
+              </div>
+            ) : !order ? (
+              error && <div className="m-6 p-4 bg-red-50 text-red-700 rounded-xl">{error}</div>
+            ) : (
+              <div className="p-6 space-y-8">
+                {error && (
+                  <div className="p-4 bg-red-50 text-red-700 rounded-xl">{error}</div>
+                )}
+
+                {/* Status */}
+                <section>
+                  <div className="flex items-center justify-between mb-4">
+                    <span className={`px-3 py-1 rounded-full text-sm font-medium ${getOrderStatusColor(order.status)}`}>
+                      {getOrderStatusLabel(order.status)}
+                    </span>
+                    {order.is_express && (
+                      <span className="px-3 py-1 rounded-full text-sm font-medium bg-amber-100 text-amber-800">
+                        Express
+                      </span>
+                    )}
+                  </div>
+
+                  {nextStatuses.length > 0 && !can('orders.write') && (
+                    <p className="text-sm text-gray-500">You can view this order but not change its status.</p>
+                  )}
+
+                  {nextStatuses.length > 0 && can('orders.write') && (
+                    <div className="space-y-3">
+                      <input
+                        type="text"
+                        value={note}
+                        onChange={(e) => setNote(e.target.value)}
+                        placeholder="Note for the history (optional)"
+                        className="w-full px-4 py-2 rounded-lg border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200"
+                      />
+                      <div className="flex flex-wrap gap-2">
+                        {nextStatuses.map(status => (
+                          <motion.button
+                            key={status}
+                            onClick={() => handleTransition(status)}
+                            disabled={updating}
+                            className={`px-4 py-2 rounded-lg font-medium disabled:opacity-50 ${
+                              status === 'cancelled'
+                                ? 'bg-red-50 text-red-600 hover:bg-red-100'
+                                : 'bg-blue-600 text-white hover:bg-blue-700'
+                            }`}
+                            whileHover={{ scale: updating ? 1 : 1.05 }}
+                            whileTap={{ scale: updating ? 1 : 0.95 }}
+                          >
+                            {status === 'cancelled' ? 'Cancel Order' : `Mark as ${getOrderStatusLabel(status)}`}
+                          </motion.button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </section>
+
+                {/* Items */}
+                <section>
+                  <h3 className="flex items-center font-semibold text-gray-900 mb-3">
+                    <Package className="w-5 h-5 mr-2 text-gray-400" />
+                    Items
+                  </h3>
+                  <div className="divide-y divide-gray-100">
+                    {items.map(item => (
+                      <div key={item.id} className="py-2 text-sm">
+                        <div className="flex justify-between">
+                          <span className="text-gray-900">
+                            {formatQuantity(item.quantity, item.pricing_unit)} {item.product_name}
+                          </span>
+                          <span className="text-gray-600">€{Number(item.subtotal).toFixed(2)}</span>
+                        </div>
+                        {item.dimensions && (
+                          <div className="text-gray-500">{formatDimensions(item.dimensions)}</div>
+                        )}
+                        {item.pricing_unit === 'kg' && item.estimated_quantity != null && (
+                          <div className="text-gray-500">
+                            {item.weighed_at
+                              ? `Weighed ${format(new Date(item.weighed_at), 'MMM d, HH:mm')} · estimated ${formatQuantity(item.estimated_quantity, 'kg')}, €${Number(item.estimated_subtotal).toFixed(2)}`
+                              : 'Estimated weight, not weighed yet'}
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+
+                  {canWeigh && (
+                    <div className="mt-4 p-4 bg-gray-50 rounded-xl space-y-3">
+                      <div className="flex items-center text-sm font-medium text-gray-900">
+                        <Scale className="w-4 h-4 mr-2 text-gray-400" />
+                        Record the weight
+                      </div>
+                      {unweighedLines.map(line => (
+                        <label key={line.id} className="flex items-center justify-between gap-4 text-sm">
+                          <span className="text-gray-700">{line.product_name}</span>
+                          <span className="flex items-center gap-2">
+                            <input
+                              type="number"
+                              min={0.01}
+                              max={200}
+                              step={0.01}
+                              value={weights[line.id] ?? ''}
+                              onChange={(e) => setWeights(prev => ({ ...prev, [line.id]: e.target.value }))}
+                              className="w-24 px-3 py-2 rounded-lg border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200"
+                            />
+                            kg
+                          </span>
+                        </label>
+                      ))}
+                      <p className="text-xs text-gray-500">
+                        The customer is refunded or asked to pay the difference with the estimate.
+                      </p>
+                      <motion.button
+                        onClick={() => handleRecordWeight()}
+                        disabled={updating || !weightsComplete}
+                        className="px-4 py-2 rounded-lg font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                        whileHover={{ scale: updating ? 1 : 1.05 }}
+                        whileTap={{ scale: updating ? 1 : 0.95 }}
+                      >
+                        Save Weight
+                      </motion.button>
+                    </div>
+                  )}
+                </section>
+
+                {/* Addresses */}
+                <section className="space-y-4">
+                  <AddressBlock title="Pickup" address={order.pickup_address} details={order.pickup_details} />
+                  <AddressBlock title="Delivery" address={order.shipping_address} details={order.delivery_details} />
+                  <div className="text-sm text-gray-600">
+                    Customer: {order.customer_name} · {order.email}{order.phone ? ` · ${order.phone}` : ''}
+                  </div>
+                  {order.special_instructions && (
+                    <div className="text-sm text-gray-600">Note: {order.special_instructions}</div>
+                  )}
+                </section>
+
+                {/* Payment */}
+                <section>
+                  <h3 className="flex items-center font-semibold text-gray-900 mb-3">
+                    <CreditCard className="w-5 h-5 mr-2 text-gray-400" />
+                    Payment
+                  </h3>
+                  <dl className="grid grid-cols-2 gap-y-2 text-sm">
+                    <dt className="text-gray-600">Status</dt>
+                    <dd className="text-gray-900 capitalize">{order.payment_status}</dd>
+                    <dt className="text-gray-600">Method</dt>
+                    <dd className="text-gray-900">{order.payment_method ?? '—'}</dd>
+                    <dt className="text-gray-600">Transaction</dt>
+                    <dd className="text-gray-900 break-all">{order.transaction_id ?? '—'}</dd>
+                    <dt className="text-gray-600">Subtotal</dt>
+                    <dd className="text-gray-900">€{Number(order.subtotal).toFixed(2)}</dd>
+                    {Number(order.express_surcharge) > 0 && (
+                      <>
+                        <dt className="text-gray-600">Express surcharge</dt>
+                        <dd className="text-gray-900">€{Number(order.express_surcharge).toFixed(2)}</dd>
+                      </>
+                    )}
+                    <dt className="text-gray-600">VAT</dt>
+                    <dd className="text-gray-900">€{Number(order.tax).toFixed(2)}</dd>
+                    <dt className="text-gray-600 font-medium">Total</dt>
+                    <dd className="text-gray-900 font-medium">€{Number(order.total_amount).toFixed(2)}</dd>
+                    {settlement && (
+                      <>
+                        <dt className="text-gray-600">Weight adjustment</dt>
+                        <dd className="text-gray-900">
+                          {settlement.status === 'failed' ? `€${Number(settlement.amount).toFixed(2)} refund failed` : settlementLabel(settlement)}
+                          {settlement.failure_reason && (
+                            <div className="text-gray-500">{settlement.failure_reason}</div>
+                          )}
+                        </dd>
+                      </>
+                    )}
+                  </dl>
+                  {settlement?.kind === 'refund' && settlement.status !== 'refunded' && can('orders.write') && (
+                    <motion.button
+                      onClick={() => handleRecordWeight(true)}
+                      disabled={updating}
+                      className="mt-3 px-4 py-2 rounded-lg font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                      whileHover={{ scale: updating ? 1 : 1.05 }}
+                      whileTap={{ scale: updating ? 1 : 0.95 }}
+                    >
+                      Retry Refund
+                    </motion.button>
+                  )}
+                </section>
+
+                {/* QR label */}
+                {order.qr_code && (
+                  <section>
+                    <h3 className="flex items-center font-semibold text-gray-900 mb-3">
+                      <QrCode className="w-5 h-5 mr-2 text-gray-400" />
+                      QR Label
+                    </h3>
+                    <div className="flex flex-col sm:flex-row gap-4">
+                      {qrImage && (
+                        <img src={qrImage} alt={`QR code for order ${order.order_number}`} className="w-40 h-40" />
+                      )}
+                      <pre className="flex-1 p-3 bg-gray-50 rounded-lg text-xs text-gray-700 overflow-x-auto">
+                        {JSON.stringify(JSON.parse(order.qr_code), null, 2)}
+                      </pre>
+                    </div>
+                  </section>
+                )}
+
+                {/* History */}
+                <section>
+                  <h3 className="flex items-center font-semibold text-gray-900 mb-3">
+                    <Clock className="w-5 h-5 mr-2 text-gray-400" />
+                    History
+                  </h3>
+                  <ol className="space-y-3">
+                    {history.map(change => (
+                      <li key={change.id} className="text-sm">
+                        <div className="text-gray-900">
+                          {change.from_status
+                            ? `${getOrderStatusLabel(change.from_status)} → ${getOrderStatusLabel(change.to_status)}`
+                            : `Created as ${getOrderStatusLabel(change.to_status)}`}
+                        </div>
+                        <div className="text-gray-500">
+                          {format(new Date(change.created_at), 'MMM d, yyyy HH:mm')}
+                          {change.note && ` · ${change.note}`}
+                        </div>
+                      </li>
+                    ))}
+                  </ol>
+                </section>
+              </div>
+            )}
+          </motion.aside>
+        </>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default OrderDetailDrawer;
@@ -0,0 +1,312 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { format, addDays, parseISO, startOfDay } from 'date-fns';
+import { Search, ChevronUp, ChevronDown, ChevronLeft, ChevronRight, Loader } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { ORDER_STATUSES, getOrderStatusColor, getOrderStatusLabel } from '../../lib/orderStatus';
+import AdminLayout from './AdminLayout';
+import OrderDetailDrawer from './OrderDetailDrawer';
+
+interface OrderRow {
+  id: string;
+  order_number: string;
+  customer_name: string;
+  email: string;
+  status: string;
+  payment_status: string;
+  total_amount: number;
+  created_at: string;
+  estimated_delivery: string;
+}
+
+type SortColumn = 'created_at' | 'order_number' | 'customer_name' | 'total_amount' | 'status';
+
+interface OrderFilters {
+  status: string;
+  paymentStatus: string;
+  from: string;
+  to: string;
+}
+
+const PAGE_SIZE = 25;
+
+const columns: { id: SortColumn; label: string }[] = [
+  { id: 'order_number', label: 'Order' },
+  { id: 'created_at', label: 'Placed' },
+  { id: 'customer_name', label: 'Customer' },
+  { id: 'status', label: 'Status' },
+  { id: 'total_amount', label: 'Total' }
+];
+
+const Orders: React.FC = () => {
+  const [orders, setOrders] = useState<OrderRow[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [search, setSearch] = useState('');
+  const [filters, setFilters] = useState<OrderFilters>({
+    status: 'all',
+    paymentStatus: 'all',
+    from: '',
+    to: ''
+  });
+  const [sort, setSort] = useState<{ column: SortColumn; ascending: boolean }>({
+    column: 'created_at',
+    ascending: false
+  });
+  const [selectedOrderId, setSelectedOrderId] = useState<string | null>(null);
+
+  // Only query once typing pauses
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setSearch(searchTerm.trim());
+      setPage(0);
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
+
+  const fetchOrders = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      let query = supabase
+        .from('orders')
+        .select(
+          'id, order_number, customer_name, email, status, payment_status, total_amount, created_at, estimated_delivery',
+          { count: 'exact' }
+        );
+
+      if (filters.status !== 'all') {
+        query = query.match({ status: filters.status });
+      }
+      if (filters.paymentStatus !== 'all') {
+        query = query.match({ payment_status: filters.paymentStatus });
+      }
+      // Date inputs are in the admin's local time
+      if (filters.from) {
+        query = query.gte('created_at', startOfDay(parseISO(filters.from)).toISOString());
+      }
+      if (filters.to) {
+        query = query.lt('created_at', addDays(startOfDay(parseISO(filters.to)), 1).toISOString());
+      }
+      if (search) {
+        // Commas and parentheses would break the or() filter syntax
+        const term = search.replace(/[,()]/g, ' ');
+        query = query.or(
+          `order_number.ilike.%${term}%,customer_name.ilike.%${term}%,email.ilike.%${term}%`
+        );
+      }
+
+      const { data, error: ordersError, count } = await query
+        .order(sort.column, { ascending: sort.ascending })
+        .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+
+      if (ordersError) throw ordersError;
+
+      setOrders((data || []) as unknown as OrderRow[]);
+      setTotal(count ?? 0);
+    } catch (err) {
+      console.error('Error fetching orders:', err);
+      setError('Failed to load orders');
+    } finally {
+      setLoading(false);
+    }
+  }, [filters, search, sort, page]);
+
+  useEffect(() => {
+    fetchOrders();
+  }, [fetchOrders]);
+
+  const updateFilter = (changes: Partial<OrderFilters>) => {
+    setFilters(prev => ({ ...prev, ...changes }));
+    setPage(0);
+  };
+
+  const toggleSort = (column: SortColumn) => {
+    setSort(prev => ({
+      column,
+      ascending: prev.column === column ? !prev.ascending : column !== 'created_at'
+    }));
+    setPage(0);
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <AdminLayout activeTab="orders">
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Orders</h1>
+          <p className="text-gray-600">Track and move orders through pickup, cleaning and delivery</p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+          <div className="relative md:col-span-2">
+            <input
+              type="text"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              placeholder="Search order number, customer or email..."
+              className="w-full pl-10 pr-4 py-2 rounded-lg border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200"
+            />
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+          </div>
+
+          <select
+            value={filters.status}
+            onChange={(e) => updateFilter({ status: e.target.value })}
+            className="px-4 py-2 rounded-lg border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200"
+          >
+            <option value="all">All Statuses</option>
+            {ORDER_STATUSES.map(status => (
+              <option key={status} value={status}>{getOrderStatusLabel(status)}</option>
+            ))}
+          </select>
+
+          <select
+            value={filters.paymentStatus}
+            onChange={(e) => updateFilter({ paymentStatus: e.target.value })}
+            className="px-4 py-2 rounded-lg border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200"
+          >
+            <option value="all">All Payments</option>
+            <option value="pending">Pending</option>
+            <option value="paid">Paid</option>
+            <option value="failed">Failed</option>
+            <option value="refunded">Refunded</option>
+          </select>
+
+          <div className="flex gap-2">
+            <input
+              type="date"
+              value={filters.from}
+              onChange={(e) => updateFilter({ from: e.target.value })}
+              className="w-full px-2 py-2 rounded-lg border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200"
+              aria-label="Placed from"
+            />
+            <input
+              type="date"
+              value={filters.to}
+              onChange={(e) => updateFilter({ to: e.target.value })}
+              className="w-full px-2 py-2 rounded-lg border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200"
+              aria-label="Placed until"
+            />
+          </div>
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-50 text-red-700 rounded-xl">{error}</div>
+        )}
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-left">
+            <thead>
+              <tr className="border-b border-gray-200">
+                {columns.map(column => (
+                  <th key={column.id} className="py-3 px-4 text-sm font-medium text-gray-600">
+                    <button
+                      onClick={() => toggleSort(column.id)}
+                      className="flex items-center hover:text-gray-900"
+                    >
+                      {column.label}
+                      {sort.column === column.id && (
+                        sort.ascending
+                          ? <ChevronUp className="w-4 h-4 ml-1" />
+                          : <ChevronDown className="w-4 h-4 ml-1" />
+                      )}
+                    </button>
+                  </th>
+                ))}
+                <th className="py-3 px-4 text-sm font-medium text-gray-600">Payment</th>
+                <th className="py-3 px-4 text-sm font-medium text-gray-600">Delivery</th>
+              </tr>
+            </thead>
+            <tbody>
+              {loading ? (
+                <tr>
+                  <td colSpan={7} className="py-12">
+                    <Loader className="w-8 h-8 text-blue-600 animate-spin mx-auto" />
+                  </td>
+                </tr>
+              ) : orders.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="py-12 text-center text-gray-600">
+                    No orders match these filters
+                  </td>
+                </tr>
+              ) : (
+                orders.map(order => (
+                  <motion.tr
+                    key={order.id}
+                    onClick={() => setSelectedOrderId(order.id)}
+                    className="border-b border-gray-100 hover:bg-gray-50 cursor-pointer"
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                  >
+                    <td className="py-3 px-4 font-medium text-gray-900">{order.order_number}</td>
+                    <td className="py-3 px-4 text-gray-600">
+                      {format(new Date(order.created_at), 'MMM d, yyyy HH:mm')}
+                    </td>
+                    <td className="py-3 px-4">
+                      <div className="text-gray-900">{order.customer_name}</div>
+                      <div className="text-sm text-gray-500">{order.email}</div>
+                    </td>
+                    <td className="py-3 px-4">
+                      <span className={`px-3 py-1 rounded-full text-sm font-medium ${getOrderStatusColor(order.status)}`}>
+                        {getOrderStatusLabel(order.status)}
+                      </span>
+                    </td>
+                    <td className="py-3 px-4 text-gray-900">€{Number(order.total_amount).toFixed(2)}</td>
+                    <td className="py-3 px-4 text-gray-600 capitalize">{order.payment_status}</td>
+                    <td className="py-3 px-4 text-gray-600">
+                      {format(new Date(order.estimated_delivery), 'MMM d, HH:mm')}
+                    </td>
+                  </motion.tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-600">
+            {total === 0
+              ? 'No orders'
+              : `${page * PAGE_SIZE + 1}–${Math.min((page + 1) * PAGE_SIZE, total)} of ${total} orders`}
+          </p>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setPage(prev => prev - 1)}
+              disabled={page === 0}
+              className="p-2 rounded-lg border border-gray-300 text-gray-600 disabled:opacity-40"
+              aria-label="Previous page"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <span className="text-sm text-gray-600">
+              Page {page + 1} of {pageCount}
+            </span>
+            <button
+              onClick={() => setPage(prev => prev + 1)}
+              disabled={page + 1 >= pageCount}
+              className="p-2 rounded-lg border border-gray-300 text-gray-600 disabled:opacity-40"
+              aria-label="Next page"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <OrderDetailDrawer
+        orderId={selectedOrderId}
+        onClose={() => setSelectedOrderId(null)}
+        onStatusChange={fetchOrders}
+      />
+    </AdminLayout>
+  );
+};
+
+export default Orders;
@@ -0,0 +1,441 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { format } from 'date-fns';
+import { Loader, Plus, Edit, Trash2, X } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useAdmin } from '../../contexts/AdminContext';
+
+interface PriceList {
+  id: string;
+  organization_id: string | null;
+  name: string;
+  discount_percent: number;
+  valid_from: string;
+  valid_until: string | null;
+  organizations: { name: string } | null;
+}
+
+interface PriceListItem {
+  price_list_id: string;
+  item_id: string;
+  price: number;
+}
+
+interface CatalogItem {
+  id: string;
+  name: string;
+  price: number;
+}
+
+interface PriceListForm {
+  id: string | null;
+  organization_id: string;
+  name: string;
+  discount_percent: string;
+  valid_from: string;
+  valid_until: string;
+  items: { item_id: string; price: string }[];
+}
+
+const emptyForm = (): PriceListForm => ({
+  id: null,
+  organization_id: '',
+  name: '',
+  discount_percent: '0',
+  valid_from: format(new Date(), 'yyyy-MM-dd'),
+  valid_until: '',
+  items: []
+});
+
+const listStatus = (list: PriceList) => {
+  const today = format(new Date(), 'yyyy-MM-dd');
+  if (list.valid_from > today) return { label: 'Scheduled', className: 'bg-blue-100 text-blue-800' };
+  if (list.valid_until && list.valid_until < today) return { label: 'Expired', className: 'bg-gray-100 text-gray-700' };
+  return { label: 'Active', className: 'bg-green-100 text-green-800' };
+};
+
+// Contract rates for business customers; effective_item_price() in the
+// database decides which list applies to an order
+const PriceLists: React.FC = () => {
+  const { can } = useAdmin();
+  const [lists, setLists] = useState<PriceList[]>([]);
+  const [listItems, setListItems] = useState<PriceListItem[]>([]);
+  const [organizations, setOrganizations] = useState<{ id: string; name: string }[]>([]);
+  const [catalog, setCatalog] = useState<CatalogItem[]>([]);
+  const [form, setForm] = useState<PriceListForm | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canWrite = can('billing.write');
+
+  const fetchPriceLists = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [
+        { data: listRows, error: listsError },
+        { data: itemRows, error: itemsError },
+        { data: organizationRows, error: organizationsError },
+        { data: catalogRows, error: catalogError }
+      ] = await Promise.all([
+        supabase
+          .from('price_lists')
+          .select('*, organizations(name)')
+          .order('organization_id', { ascending: true, nullsFirst: true })
+          .order('valid_from', { ascending: false }),
+        supabase.from('price_list_items').select('*'),
+        supabase.from('organizations').select('id, name').order('name'),
+        supabase
+          .from('items')
+          .select('id, name, price')
+          .match({ status: true, is_custom_price: false })
+          .order('name')
+      ]);
+
+      if (listsError) throw listsError;
+      if (itemsError) throw itemsError;
+      if (organizationsError) throw organizationsError;
+      if (catalogError) throw catalogError;
+
+      setLists(((listRows || []) as unknown as PriceList[]).map(list => ({
+        ...list,
+        discount_percent: Number(list.discount_percent)
+      })));
+      setListItems(((itemRows || []) as unknown as PriceListItem[]).map(row => ({ ...row, price: Number(row.price) })));
+      setOrganizations((organizationRows || []) as unknown as { id: string; name: string }[]);
+      setCatalog(((catalogRows || []) as unknown as CatalogItem[])
+        .filter(item => item.price !== null)
+        .map(item => ({ ...item, price: Number(item.price) })));
+    } catch (err) {
+      console.error('Error fetching price lists:', err);
+      setError('Failed to load price lists');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPriceLists();
+  }, [fetchPriceLists]);
+
+  const startEditing = (list: PriceList) => {
+    setForm({
+      id: list.id,
+      organization_id: list.organization_id ?? '',
+      name: list.name,
+      discount_percent: String(list.discount_percent),
+      valid_from: list.valid_from,
+      valid_until: list.valid_until ?? '',
+      items: listItems
+        .filter(row => row.price_list_id === list.id)
+        .map(row => ({ item_id: row.item_id, price: row.price.toFixed(2) }))
+    });
+  };
+
+  const updateForm = (changes: Partial<PriceListForm>) =>
+    setForm(prev => (prev ? { ...prev, ...changes } : prev));
+
+  const updateFormItem = (index: number, changes: Partial<PriceListForm['items'][number]>) =>
+    setForm(prev => (prev
+      ? { ...prev, items: prev.items.map((row, i) => (i === index ? { ...row, ...changes } : row)) }
+      : prev));
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      const { error: saveError } = await supabase.rpc('save_price_list', {
+        p_price_list_id: form.id,
+        p_organization_id: form.organization_id || null,
+        p_name: form.name,
+        p_discount_percent: Number(form.discount_percent || 0),
+        p_valid_from: form.valid_from,
+        p_valid_until: form.valid_until || null,
+        p_items: form.items
+          .filter(row => row.item_id)
+          .map(row => ({ item_id: row.item_id, price: Number(row.price) }))
+      });
+
+      if (saveError) {
+        setError(saveError.message);
+        return;
+      }
+
+      setForm(null);
+      await fetchPriceLists();
+    } catch (err) {
+      console.error('Error saving price list:', err);
+      setError('Failed to save the price list');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (list: PriceList) => {
+    if (!window.confirm(`Delete the price list "${list.name}"? Orders placed after this use the other lists or catalog prices.`)) return;
+
+    const { error: deleteError } = await supabase.rpc('delete_price_list', { p_price_list_id: list.id });
+
+    if (deleteError) {
+      setError(deleteError.message);
+      return;
+    }
+
+    await fetchPriceLists();
+  };
+
+  const usedItemIds = new Set(form?.items.map(row => row.item_id) ?? []);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <p className="text-gray-600">
+          The default list sets the business rate for every organisation; an organisation's own list applies on top of it
+        </p>
+        {canWrite && !form && (
+          <button
+            onClick={() => setForm(emptyForm())}
+            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            New price list
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 text-red-700 rounded-xl">{error}</div>
+      )}
+
+      <AnimatePresence>
+        {form && (
+          <motion.form
+            onSubmit={handleSave}
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            className="border border-gray-200 rounded-xl p-6 overflow-hidden"
+          >
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-semibold text-gray-900">
+                {form.id ? 'Edit price list' : 'New price list'}
+              </h2>
+              <button type="button" onClick={() => setForm(null)} className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+              <label className="text-sm text-gray-600 lg:col-span-2">
+                Name
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => updateForm({ name: e.target.value })}
+                  required
+                  className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-300"
+                />
+              </label>
+              <label className="text-sm text-gray-600">
+                Customer
+                <select
+                  value={form.organization_id}
+                  onChange={(e) => updateForm({ organization_id: e.target.value })}
+                  className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-300"
+                >
+                  <option value="">Default (all businesses)</option>
+                  {organizations.map(organization => (
+                    <option key={organization.id} value={organization.id}>{organization.name}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-sm text-gray-600">
+                Valid from
+                <input
+                  type="date"
+                  value={form.valid_from}
+                  onChange={(e) => updateForm({ valid_from: e.target.value })}
+                  required
+                  className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-300"
+                />
+              </label>
+              <label className="text-sm text-gray-600">
+                Valid until
+                <input
+                  type="date"
+                  value={form.valid_until}
+                  min={form.valid_from}
+                  onChange={(e) => updateForm({ valid_until: e.target.value })}
+                  className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-300"
+                />
+              </label>
+              <label className="text-sm text-gray-600">
+                Discount on other items (%)
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.01"
+                  value={form.discount_percent}
+                  onChange={(e) => updateForm({ discount_percent: e.target.value })}
+                  className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-300"
+                />
+              </label>
+            </div>
+
+            <div className="mt-6">
+              <h3 className="text-sm font-medium text-gray-900 mb-2">Fixed prices (excl. VAT)</h3>
+              <div className="space-y-2">
+                {form.items.map((row, index) => {
+                  const catalogPrice = catalog.find(item => item.id === row.item_id)?.price;
+                  return (
+                    <div key={index} className="flex flex-wrap items-center gap-3">
+                      <select
+                        value={row.item_id}
+                        onChange={(e) => updateFormItem(index, { item_id: e.target.value })}
+                        required
+                        className="flex-1 min-w-[200px] px-3 py-2 rounded-lg border border-gray-300 text-sm"
+                      >
+                        <option value="">Choose an item</option>
+                        {catalog
+                          .filter(item => item.id === row.item_id || !usedItemIds.has(item.id))
+                          .map(item => (
+                            <option key={item.id} value={item.id}>{item.name}</option>
+                          ))}
+                      </select>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={row.price}
+                        onChange={(e) => updateFormItem(index, { price: e.target.value })}
+                        required
+                        className="w-32 px-3 py-2 rounded-lg border border-gray-300 text-sm"
+                      />
+                      <span className="text-xs text-gray-500 w-28">
+                        {catalogPrice !== undefined && `catalog €${catalogPrice.toFixed(2)}`}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => updateForm({ items: form.items.filter((_, i) => i !== index) })}
+                        className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+              <button
+                type="button"
+                onClick={() => updateForm({ items: [...form.items, { item_id: '', price: '' }] })}
+                className="mt-2 flex items-center text-sm text-blue-600 hover:text-blue-700"
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add item price
+              </button>
+            </div>
+
+            <div className="flex gap-3 mt-6">
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm disabled:bg-gray-400"
+              >
+                {saving ? 'Saving...' : 'Save price list'}
+              </button>
+              <button
+                type="button"
+                onClick={() => setForm(null)}
+                className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-lg text-sm"
+              >
+                Cancel
+              </button>
+            </div>
+          </motion.form>
+        )}
+      </AnimatePresence>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left">
+          <thead>
+            <tr className="border-b border-gray-200">
+              <th className="py-3 px-4 text-sm font-medium text-gray-600">Price list</th>
+              <th className="py-3 px-4 text-sm font-medium text-gray-600">Customer</th>
+              <th className="py-3 px-4 text-sm font-medium text-gray-600 text-right">Discount</th>
+              <th className="py-3 px-4 text-sm font-medium text-gray-600 text-right">Fixed prices</th>
+              <th className="py-3 px-4 text-sm font-medium text-gray-600">Valid</th>
+              <th className="py-3 px-4 text-sm font-medium text-gray-600">Status</th>
+              <th className="py-3 px-4" />
+            </tr>
+          </thead>
+          <tbody>
+            {loading ? (
+              <tr>
+                <td colSpan={7} className="py-12">
+                  <Loader className="w-8 h-8 text-blue-600 animate-spin mx-auto" />
+                </td>
+              </tr>
+            ) : lists.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="py-12 text-center text-gray-600">
+                  No price lists yet, every customer pays catalog prices
+                </td>
+              </tr>
+            ) : (
+              lists.map(list => {
+                const status = listStatus(list);
+                return (
+                  <tr key={list.id} className="border-b border-gray-100">
+                    <td className="py-3 px-4 font-medium text-gray-900">{list.name}</td>
+                    <td className="py-3 px-4 text-gray-600">{list.organizations?.name ?? 'Default (all businesses)'}</td>
+                    <td className="py-3 px-4 text-gray-600 text-right">{list.discount_percent > 0 ? `${list.discount_percent}%` : '—'}</td>
+                    <td className="py-3 px-4 text-gray-600 text-right">
+                      {listItems.filter(row => row.price_list_id === list.id).length}
+                    </td>
+                    <td className="py-3 px-4 text-gray-600">
+                      {format(new Date(list.valid_from), 'MMM d, yyyy')} – {list.valid_until ? format(new Date(list.valid_until), 'MMM d, yyyy') : 'open-ended'}
+                    </td>
+                    <td className="py-3 px-4">
+                      <span className={`px-3 py-1 rounded-full text-sm font-medium ${status.className}`}>
+                        {status.label}
+                      </span>
+                    </td>
+                    <td className="py-3 px-4">
+                      {canWrite && (
+                        <div className="flex items-center justify-end gap-2">
+                          <button
+                            onClick={() => startEditing(list)}
+                            className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg"
+                            title="Edit"
+                          >
+                            <Edit className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(list)}
+                            className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                            title="Delete"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default PriceLists;
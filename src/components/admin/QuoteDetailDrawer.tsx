@@ -0,0 +1,264 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { format, addDays, endOfDay, parseISO } from 'date-fns';
+import { X, Zap } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useAdmin } from '../../contexts/AdminContext';
+import { getQuoteSla } from '../../lib/quoteSla';
+
+export interface AdminQuote {
+  id: string;
+  user_id: string | null;
+  item_name: string;
+  description: string;
+  image_url: string[] | null;
+  suggested_price: number | null;
+  status: 'pending' | 'quoted' | 'accepted' | 'declined' | 'expired';
+  urgency: 'standard' | 'express';
+  created_at: string;
+  respond_by: string;
+  quoted_at: string | null;
+  expires_at: string | null;
+  staff_note: string | null;
+  accepted_at: string | null;
+  declined_at: string | null;
+  declined_reason: string | null;
+}
+
+interface QuoteDetailDrawerProps {
+  quote: AdminQuote | null;
+  customerName?: string;
+  now: Date;
+  onClose: () => void;
+  onQuoted: () => void;
+}
+
+const DEFAULT_VALIDITY_DAYS = 7;
+
+const QuoteDetailDrawer: React.FC<QuoteDetailDrawerProps> = ({ quote, customerName, now, onClose, onQuoted }) => {
+  const { can } = useAdmin();
+  const [price, setPrice] = useState('');
+  const [expiresOn, setExpiresOn] = useState('');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [enlargedImage, setEnlargedImage] = useState<string | null>(null);
+
+  const quoteId = quote?.id;
+
+  useEffect(() => {
+    setPrice('');
+    setExpiresOn(format(addDays(new Date(), DEFAULT_VALIDITY_DAYS), 'yyyy-MM-dd'));
+    setNote('');
+    setError(null);
+    setEnlargedImage(null);
+  }, [quoteId]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!quote) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      const { error: quoteError } = await supabase.rpc('quote_price', {
+        p_quote_id: quote.id,
+        p_price: Number(price),
+        // Quotes stay valid until the end of the chosen day
+        p_expires_at: endOfDay(parseISO(expiresOn)).toISOString(),
+        p_note: note.trim() || null
+      });
+
+      if (quoteError) {
+        setError(quoteError.message);
+        return;
+      }
+
+      onQuoted();
+    } catch (err) {
+      console.error('Error pricing quote:', err);
+      setError('Failed to send the quote');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const sla = quote ? getQuoteSla(quote.respond_by, now) : null;
+
+  return (
+    <AnimatePresence>
+      {quote && (
+        <>
+          <motion.div
+            className="fixed inset-0 bg-black/30 z-40"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={onClose}
+          />
+          <motion.aside
+            className="fixed top-0 right-0 bottom-0 w-full max-w-xl bg-white shadow-2xl z-50 overflow-y-auto"
+            initial={{ x: '100%' }}
+            animate={{ x: 0 }}
+            exit={{ x: '100%' }}
+            transition={{ type: 'spring', stiffness: 300, damping: 30 }}
+          >
+            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+              <div>
+                <h2 className="text-xl font-bold text-gray-900">{quote.item_name}</h2>
+                <p className="text-sm text-gray-600">
+                  {customerName || 'Customer'} · requested {format(new Date(quote.created_at), 'MMM d, yyyy HH:mm')}
+                </p>
+              </div>
+              <button onClick={onClose} className="p-2 rounded-lg hover:bg-gray-100" aria-label="Close">
+                <X className="w-5 h-5 text-gray-600" />
+              </button>
+            </div>
+
+            <div className="p-6 space-y-8">
+              <div className="flex flex-wrap gap-2">
+                {quote.urgency === 'express' && (
+                  <span className="flex items-center px-3 py-1 rounded-full text-sm font-medium bg-amber-100 text-amber-800">
+                    <Zap className="w-4 h-4 mr-1" />
+                    Express
+                  </span>
+                )}
+                {quote.status === 'pending' && sla && (
+                  <span className={`px-3 py-1 rounded-full text-sm font-medium ${sla.color}`}>
+                    {sla.label} · reply by {format(new Date(quote.respond_by), 'HH:mm')}
+                  </span>
+                )}
+                {quote.status !== 'pending' && (
+                  <span className="px-3 py-1 rounded-full text-sm font-medium bg-gray-100 text-gray-800 capitalize">
+                    {quote.status}
+                  </span>
+                )}
+              </div>
+
+              <section>
+                <h3 className="font-semibold text-gray-900 mb-2">Description</h3>
+                <p className="text-gray-700 whitespace-pre-line">{quote.description}</p>
+              </section>
+
+              {quote.image_url && quote.image_url.length > 0 && (
+                <section>
+                  <h3 className="font-semibold text-gray-900 mb-2">Photos</h3>
+                  <div className="grid grid-cols-3 gap-2">
+                    {quote.image_url.map((image, index) => (
+                      <button key={image} onClick={() => setEnlargedImage(image)}>
+                        <img
+                          src={image}
+                          alt={`${quote.item_name} - Image ${index + 1}`}
+                          className="w-full h-32 object-cover rounded-lg"
+                        />
+                      </button>
+                    ))}
+                  </div>
+                  {enlargedImage && (
+                    <button onClick={() => setEnlargedImage(null)} className="mt-2 w-full">
+                      <img src={enlargedImage} alt={quote.item_name} className="w-full rounded-lg" />
+                    </button>
+                  )}
+                </section>
+              )}
+
+              {quote.status === 'pending' ? (
+                can('quotes.write') ? (
+                  <form onSubmit={handleSubmit} className="space-y-4">
+                    <h3 className="font-semibold text-gray-900">Send a Price</h3>
+                    {error && (
+                      <div className="p-4 bg-red-50 text-red-700 rounded-xl">{error}</div>
+                    )}
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Price (€, incl. VAT)</label>
+                        <input
+                          type="number"
+                          min="0.01"
+                          step="0.01"
+                          value={price}
+                          onChange={(e) => setPrice(e.target.value)}
+                          required
+                          className="w-full px-4 py-2 rounded-lg border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Valid until</label>
+                        <input
+                          type="date"
+                          value={expiresOn}
+                          min={format(new Date(), 'yyyy-MM-dd')}
+                          onChange={(e) => setExpiresOn(e.target.value)}
+                          required
+                          className="w-full px-4 py-2 rounded-lg border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200"
+                        />
+                      </div>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Note for the customer</label>
+                      <textarea
+                        value={note}
+                        onChange={(e) => setNote(e.target.value)}
+                        rows={3}
+                        placeholder="E.g. what the price includes"
+                        className="w-full px-4 py-2 rounded-lg border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200"
+                      />
+                    </div>
+                    <motion.button
+                      type="submit"
+                      disabled={saving}
+                      className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50"
+                      whileHover={{ scale: saving ? 1 : 1.05 }}
+                      whileTap={{ scale: saving ? 1 : 0.95 }}
+                    >
+                      Send Quote
+                    </motion.button>
+                  </form>
+                ) : (
+                  <p className="text-sm text-gray-500">You can view this quote but not price it.</p>
+                )
+              ) : (
+                <section>
+                  <h3 className="font-semibold text-gray-900 mb-2">Quote</h3>
+                  <dl className="grid grid-cols-2 gap-y-2 text-sm">
+                    <dt className="text-gray-600">Price</dt>
+                    <dd className="text-gray-900">
+                      {quote.suggested_price !== null ? `€${Number(quote.suggested_price).toFixed(2)}` : '—'}
+                    </dd>
+                    <dt className="text-gray-600">Sent</dt>
+                    <dd className="text-gray-900">
+                      {quote.quoted_at ? format(new Date(quote.quoted_at), 'MMM d, yyyy HH:mm') : '—'}
+                    </dd>
+                    <dt className="text-gray-600">Valid until</dt>
+                    <dd className="text-gray-900">
+                      {quote.expires_at ? format(new Date(quote.expires_at), 'MMM d, yyyy') : '—'}
+                    </dd>
+                    <dt className="text-gray-600">Note</dt>
+                    <dd className="text-gray-900">{quote.staff_note ?? '—'}</dd>
+                    {quote.accepted_at && (
+                      <>
+                        <dt className="text-gray-600">Accepted</dt>
+                        <dd className="text-gray-900">{format(new Date(quote.accepted_at), 'MMM d, yyyy HH:mm')}</dd>
+                      </>
+                    )}
+                    {quote.declined_at && (
+                      <>
+                        <dt className="text-gray-600">Declined</dt>
+                        <dd className="text-gray-900">{format(new Date(quote.declined_at), 'MMM d, yyyy HH:mm')}</dd>
+                        <dt className="text-gray-600">Reason</dt>
+                        <dd className="text-gray-900">{quote.declined_reason ?? '—'}</dd>
+                      </>
+                    )}
+                  </dl>
+                </section>
+              )}
+            </div>
+          </motion.aside>
+        </>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default QuoteDetailDrawer;
@@ -0,0 +1,201 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { format } from 'date-fns';
+import { Camera, Loader, Zap } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { getQuoteSla } from '../../lib/quoteSla';
+import AdminLayout from './AdminLayout';
+import QuoteDetailDrawer from './QuoteDetailDrawer';
+import type { AdminQuote } from './QuoteDetailDrawer';
+
+const statusFilters = [
+  { id: 'pending', label: 'Waiting for a price' },
+  { id: 'quoted', label: 'Quoted' },
+  { id: 'accepted', label: 'Accepted' },
+  { id: 'declined', label: 'Declined' },
+  { id: 'expired', label: 'Expired' },
+  { id: 'all', label: 'All' }
+];
+
+const Quotes: React.FC = () => {
+  const [quotes, setQuotes] = useState<AdminQuote[]>([]);
+  const [customerNames, setCustomerNames] = useState<{ [userId: string]: string }>({});
+  const [status, setStatus] = useState('pending');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(() => new Date());
+  const [selectedQuote, setSelectedQuote] = useState<AdminQuote | null>(null);
+
+  // Keeps the SLA timers current
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 30000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const fetchQuotes = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      let query = supabase.from('custom_price_quotes').select('*');
+
+      if (status !== 'all') {
+        query = query.match({ status });
+      }
+
+      // Open requests are worked through by deadline, the rest newest first
+      const { data, error: quotesError } = await (status === 'pending'
+        ? query.order('respond_by', { ascending: true })
+        : query.order('created_at', { ascending: false }));
+
+      if (quotesError) throw quotesError;
+
+      const rows = (data || []) as unknown as AdminQuote[];
+      setQuotes(rows);
+
+      const userIds = [...new Set(rows.flatMap(quote => (quote.user_id ? [quote.user_id] : [])))];
+      if (userIds.length > 0) {
+        const { data: profiles, error: profilesError } = await supabase
+          .from('profiles')
+          .select('id, first_name, last_name')
+          .filter('id', 'in', `(${userIds.join(',')})`);
+
+        if (profilesError) throw profilesError;
+
+        setCustomerNames(Object.fromEntries(
+          ((profiles || []) as unknown as { id: string; first_name: string | null; last_name: string | null }[])
+            .map(profile => [profile.id, [profile.first_name, profile.last_name].filter(Boolean).join(' ')])
+        ));
+      }
+    } catch (err) {
+      console.error('Error fetching quotes:', err);
+      setError('Failed to load quotes');
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    fetchQuotes();
+  }, [fetchQuotes]);
+
+  const overdueCount = quotes.filter(quote =>
+    quote.status === 'pending' && getQuoteSla(quote.respond_by, now).overdue
+  ).length;
+
+  return (
+    <AdminLayout activeTab="quotes">
+      <div className="space-y-6">
+        <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Quotes</h1>
+            <p className="text-gray-600">Price custom requests within the 2 hour promise</p>
+          </div>
+          {overdueCount > 0 && (
+            <span className="px-3 py-1 rounded-full text-sm font-medium bg-red-100 text-red-800">
+              {overdueCount} overdue
+            </span>
+          )}
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {statusFilters.map(filter => (
+            <button
+              key={filter.id}
+              onClick={() => setStatus(filter.id)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium ${
+                status === filter.id
+                  ? 'bg-blue-600 text-white'
+                  : 'border border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {filter.label}
+            </button>
+          ))}
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-50 text-red-700 rounded-xl">{error}</div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader className="w-8 h-8 text-blue-600 animate-spin" />
+          </div>
+        ) : quotes.length === 0 ? (
+          <div className="text-center py-12 text-gray-600">No quotes here</div>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {quotes.map(quote => {
+              const sla = getQuoteSla(quote.respond_by, now);
+
+              return (
+                <motion.button
+                  key={quote.id}
+                  onClick={() => setSelectedQuote(quote)}
+                  className="w-full flex items-center gap-4 py-4 text-left hover:bg-gray-50 rounded-lg px-2"
+                  initial={{ opacity: 0 }}
+                  animate={{ opacity: 1 }}
+                >
+                  {quote.image_url && quote.image_url.length > 0 ? (
+                    <img
+                      src={quote.image_url[0]}
+                      alt={quote.item_name}
+                      className="w-16 h-16 rounded-lg object-cover flex-shrink-0"
+                    />
+                  ) : (
+                    <div className="w-16 h-16 rounded-lg bg-gray-100 flex items-center justify-center flex-shrink-0">
+                      <Camera className="w-6 h-6 text-gray-400" />
+                    </div>
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-gray-900 truncate">{quote.item_name}</span>
+                      {quote.urgency === 'express' && (
+                        <span className="flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+                          <Zap className="w-3 h-3 mr-1" />
+                          Express
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-sm text-gray-500 truncate">
+                      {(quote.user_id && customerNames[quote.user_id]) || 'Customer'} ·{' '}
+                      {format(new Date(quote.created_at), 'MMM d, HH:mm')}
+                    </div>
+                  </div>
+                  <div className="text-right flex-shrink-0">
+                    {quote.status === 'pending' ? (
+                      <span className={`px-3 py-1 rounded-full text-sm font-medium ${sla.color}`}>
+                        {sla.label}
+                      </span>
+                    ) : (
+                      <>
+                        <div className="text-sm font-medium text-gray-900 capitalize">{quote.status}</div>
+                        {quote.suggested_price !== null && (
+                          <div className="text-sm text-gray-600">€{Number(quote.suggested_price).toFixed(2)}</div>
+                        )}
+                      </>
+                    )}
+                  </div>
+                </motion.button>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <QuoteDetailDrawer
+        quote={selectedQuote}
+        customerName={selectedQuote?.user_id ? customerNames[selectedQuote.user_id] : undefined}
+        now={now}
+        onClose={() => setSelectedQuote(null)}
+        onQuoted={() => {
+          setSelectedQuote(null);
+          fetchQuotes();
+        }}
+      />
+    </AdminLayout>
+  );
+};
+
+export default Quotes;
@@ -0,0 +1,344 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { format } from 'date-fns';
+import { Loader, Mail, Trash2, UserPlus, X } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { useAdmin } from '../../contexts/AdminContext';
+import { ADMIN_PERMISSIONS } from '../../lib/adminPermissions';
+import type { AdminRole } from '../../lib/adminPermissions';
+import AdminLayout from './AdminLayout';
+
+type Permissions = { [permission: string]: boolean };
+
+interface AdminAccount {
+  id: string;
+  auth_id: string;
+  email: string;
+  role: AdminRole;
+  permissions: Permissions;
+  created_at: string;
+}
+
+interface AdminInvitation {
+  id: string;
+  email: string;
+  role: AdminRole;
+  permissions: Permissions;
+  created_at: string;
+  expires_at: string;
+}
+
+const roleLabels: { [role in AdminRole]: string } = {
+  admin: 'Admin',
+  super_admin: 'Super Admin'
+};
+
+const PermissionCheckboxes: React.FC<{
+  role: AdminRole;
+  permissions: Permissions;
+  onChange: (permissions: Permissions) => void;
+}> = ({ role, permissions, onChange }) => (
+  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+    {ADMIN_PERMISSIONS.map(permission => (
+      <label key={permission.id} className="flex items-center text-sm text-gray-700">
+        <input
+          type="checkbox"
+          // Super admins have every permission
+          checked={role === 'super_admin' || permissions[permission.id] === true}
+          disabled={role === 'super_admin'}
+          onChange={(e) => onChange({ ...permissions, [permission.id]: e.target.checked })}
+          className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+        />
+        {permission.label}
+      </label>
+    ))}
+  </div>
+);
+
+// Unchecked permissions are left out instead of stored as false
+const cleanPermissions = (permissions: Permissions) =>
+  Object.fromEntries(Object.entries(permissions).filter(([, granted]) => granted));
+
+const Settings: React.FC = () => {
+  const { user } = useAuth();
+  const { refreshAdmin } = useAdmin();
+  const [admins, setAdmins] = useState<AdminAccount[]>([]);
+  const [invitations, setInvitations] = useState<AdminInvitation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ id: string; role: AdminRole; permissions: Permissions } | null>(null);
+  const [invite, setInvite] = useState<{ email: string; role: AdminRole; permissions: Permissions }>({
+    email: '',
+    role: 'admin',
+    permissions: {}
+  });
+
+  const fetchAdmins = useCallback(async () => {
+    try {
+      const [
+        { data: adminsData, error: adminsError },
+        { data: invitationsData, error: invitationsError }
+      ] = await Promise.all([
+        supabase.rpc('list_admin_users'),
+        supabase
+          .from('admin_invitations')
+          .select('id, email, role, permissions, created_at, expires_at')
+          .is('accepted_at', null)
+          .order('created_at', { ascending: false })
+      ]);
+
+      if (adminsError) throw adminsError;
+      if (invitationsError) throw invitationsError;
+
+      setAdmins((adminsData || []) as unknown as AdminAccount[]);
+      setInvitations((invitationsData || []) as unknown as AdminInvitation[]);
+    } catch (err) {
+      console.error('Error fetching admins:', err);
+      setError('Failed to load admins');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchAdmins();
+  }, [fetchAdmins]);
+
+  // The database explains why a change is not allowed, e.g. for the last super admin
+  const runAction = async (action: () => PromiseLike<{ error: { message: string } | null }>) => {
+    try {
+      setSaving(true);
+      setError(null);
+
+      const { error: actionError } = await action();
+      if (actionError) {
+        setError(actionError.message);
+        return false;
+      }
+
+      await fetchAdmins();
+      return true;
+    } catch (err) {
+      console.error('Error updating admins:', err);
+      setError('Failed to update admins');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const invited = await runAction(() =>
+      supabase.rpc('invite_admin', {
+        p_email: invite.email,
+        p_role: invite.role,
+        p_permissions: cleanPermissions(invite.permissions)
+      })
+    );
+
+    if (invited) {
+      setInvite({ email: '', role: 'admin', permissions: {} });
+    }
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+
+    const saved = await runAction(() =>
+      supabase.rpc('update_admin_user', {
+        p_admin_id: editing.id,
+        p_role: editing.role,
+        p_permissions: cleanPermissions(editing.permissions)
+      })
+    );
+
+    if (saved) {
+      setEditing(null);
+      // Super admins may have changed their own role
+      await refreshAdmin();
+    }
+  };
+
+  const handleRemove = async (admin: AdminAccount) => {
+    if (!window.confirm(`Remove admin access for ${admin.email}?`)) return;
+    await runAction(() => supabase.rpc('remove_admin_user', { p_admin_id: admin.id }));
+  };
+
+  const handleRevoke = async (invitation: AdminInvitation) => {
+    await runAction(() => supabase.rpc('revoke_admin_invitation', { p_invitation_id: invitation.id }));
+  };
+
+  return (
+    <AdminLayout activeTab="settings">
+      <div className="space-y-8">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Settings</h1>
+          <p className="text-gray-600">Manage who can access the admin area and what they can do</p>
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-50 text-red-700 rounded-xl">{error}</div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader className="w-8 h-8 text-blue-600 animate-spin" />
+          </div>
+        ) : (
+          <>
+            <section>
+              <h2 className="font-semibold text-gray-900 mb-4">Admins</h2>
+              <div className="divide-y divide-gray-100 border border-gray-200 rounded-xl">
+                {admins.map(admin => (
+                  <div key={admin.id} className="p-4">
+                    <div className="flex items-center justify-between gap-4">
+                      <div>
+                        <div className="font-medium text-gray-900">
+                          {admin.email}
+                          {admin.auth_id === user?.id && <span className="text-gray-500 font-normal"> (you)</span>}
+                        </div>
+                        <div className="text-sm text-gray-500">
+                          {roleLabels[admin.role]} · since {format(new Date(admin.created_at), 'MMM d, yyyy')}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <button
+                          onClick={() =>
+                            setEditing(editing?.id === admin.id
+                              ? null
+                              : { id: admin.id, role: admin.role, permissions: admin.permissions })
+                          }
+                          className="px-3 py-2 rounded-lg border border-gray-300 text-sm text-gray-700 hover:bg-gray-50"
+                        >
+                          {editing?.id === admin.id ? 'Close' : 'Edit'}
+                        </button>
+                        {admin.auth_id !== user?.id && (
+                          <button
+                            onClick={() => handleRemove(admin)}
+                            disabled={saving}
+                            className="p-2 rounded-lg text-red-600 hover:bg-red-50 disabled:opacity-50"
+                            aria-label={`Remove ${admin.email}`}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    </div>
+
+                    {editing?.id === admin.id && (
+                      <div className="mt-4 space-y-4">
+                        <select
+                          value={editing.role}
+                          onChange={(e) => setEditing({ ...editing, role: e.target.value as AdminRole })}
+                          className="px-4 py-2 rounded-lg border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200"
+                        >
+                          <option value="admin">{roleLabels.admin}</option>
+                          <option value="super_admin">{roleLabels.super_admin}</option>
+                        </select>
+                        <PermissionCheckboxes
+                          role={editing.role}
+                          permissions={editing.permissions}
+                          onChange={(permissions) => setEditing({ ...editing, permissions })}
+                        />
+                        <motion.button
+                          onClick={handleSave}
+                          disabled={saving}
+                          className="px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50"
+                          whileHover={{ scale: saving ? 1 : 1.05 }}
+                          whileTap={{ scale: saving ? 1 : 0.95 }}
+                        >
+                          Save Changes
+                        </motion.button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </section>
+
+            <section>
+              <h2 className="font-semibold text-gray-900 mb-1">Invite an Admin</h2>
+              <p className="text-sm text-gray-600 mb-4">
+                The invitation is accepted when they sign in at the admin login with this email address.
+                It expires after 7 days.
+              </p>
+              <form onSubmit={handleInvite} className="space-y-4">
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <div className="relative flex-1">
+                    <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+                    <input
+                      type="email"
+                      value={invite.email}
+                      onChange={(e) => setInvite(prev => ({ ...prev, email: e.target.value }))}
+                      required
+                      placeholder="colleague@eazyy.app"
+                      className="w-full pl-10 pr-4 py-2 rounded-lg border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200"
+                    />
+                  </div>
+                  <select
+                    value={invite.role}
+                    onChange={(e) => setInvite(prev => ({ ...prev, role: e.target.value as AdminRole }))}
+                    className="px-4 py-2 rounded-lg border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200"
+                  >
+                    <option value="admin">{roleLabels.admin}</option>
+                    <option value="super_admin">{roleLabels.super_admin}</option>
+                  </select>
+                </div>
+                <PermissionCheckboxes
+                  role={invite.role}
+                  permissions={invite.permissions}
+                  onChange={(permissions) => setInvite(prev => ({ ...prev, permissions }))}
+                />
+                <motion.button
+                  type="submit"
+                  disabled={saving}
+                  className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 disabled:opacity-50"
+                  whileHover={{ scale: saving ? 1 : 1.05 }}
+                  whileTap={{ scale: saving ? 1 : 0.95 }}
+                >
+                  <UserPlus className="w-4 h-4 mr-2" />
+                  Send Invitation
+                </motion.button>
+              </form>
+            </section>
+
+            {invitations.length > 0 && (
+              <section>
+                <h2 className="font-semibold text-gray-900 mb-4">Open Invitations</h2>
+                <div className="divide-y divide-gray-100 border border-gray-200 rounded-xl">
+                  {invitations.map(invitation => (
+                    <div key={invitation.id} className="p-4 flex items-center justify-between">
+                      <div>
+                        <div className="font-medium text-gray-900">{invitation.email}</div>
+                        <div className="text-sm text-gray-500">
+                          {roleLabels[invitation.role]} ·{' '}
+                          {new Date(invitation.expires_at) < new Date()
+                            ? 'expired'
+                            : `expires ${format(new Date(invitation.expires_at), 'MMM d, yyyy')}`}
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => handleRevoke(invitation)}
+                        disabled={saving}
+                        className="p-2 rounded-lg text-gray-500 hover:bg-gray-100 disabled:opacity-50"
+                        aria-label={`Revoke invitation for ${invitation.email}`}
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </section>
+            )}
+          </>
+        )}
+      </div>
+    </AdminLayout>
+  );
+};
+
+export default Settings;
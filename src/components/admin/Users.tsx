@@ -0,0 +1,203 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { motion } from 'framer-motion';
+import { format } from 'date-fns';
+import { Search, ChevronLeft, ChevronRight, Loader } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import AdminLayout from './AdminLayout';
+import CustomerDetailDrawer from './CustomerDetailDrawer';
+
+interface CustomerRow {
+  id: string;
+  email: string;
+  first_name: string | null;
+  last_name: string | null;
+  phone: string | null;
+  postal_code: string | null;
+  created_at: string;
+  blocked: boolean;
+  merged_into: string | null;
+  order_count: number;
+  last_order_at: string | null;
+  total_count: number;
+}
+
+const PAGE_SIZE = 25;
+
+const Users: React.FC = () => {
+  const [customers, setCustomers] = useState<CustomerRow[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [search, setSearch] = useState('');
+  const [selectedCustomerId, setSelectedCustomerId] = useState<string | null>(null);
+
+  // Only query once typing pauses
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setSearch(searchTerm.trim());
+      setPage(0);
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
+
+  const fetchCustomers = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data, error: customersError } = await supabase.rpc('search_customers', {
+        p_search: search || null,
+        p_limit: PAGE_SIZE,
+        p_offset: page * PAGE_SIZE
+      });
+
+      if (customersError) throw customersError;
+
+      const rows = (data || []) as unknown as CustomerRow[];
+      setCustomers(rows);
+      setTotal(rows.length > 0 ? Number(rows[0].total_count) : 0);
+    } catch (err) {
+      console.error('Error fetching customers:', err);
+      setError('Failed to load customers');
+    } finally {
+      setLoading(false);
+    }
+  }, [search, page]);
+
+  useEffect(() => {
+    fetchCustomers();
+  }, [fetchCustomers]);
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <AdminLayout activeTab="users">
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Users</h1>
+          <p className="text-gray-600">Look up customers, their orders and their account history</p>
+        </div>
+
+        <div className="relative">
+          <input
+            type="text"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            placeholder="Search name, email, phone or postal code..."
+            className="w-full pl-10 pr-4 py-2 rounded-lg border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200"
+          />
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-50 text-red-700 rounded-xl">{error}</div>
+        )}
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-left">
+            <thead>
+              <tr className="border-b border-gray-200">
+                <th className="py-3 px-4 text-sm font-medium text-gray-600">Customer</th>
+                <th className="py-3 px-4 text-sm font-medium text-gray-600">Phone</th>
+                <th className="py-3 px-4 text-sm font-medium text-gray-600">Postal Code</th>
+                <th className="py-3 px-4 text-sm font-medium text-gray-600">Orders</th>
+                <th className="py-3 px-4 text-sm font-medium text-gray-600">Last Order</th>
+                <th className="py-3 px-4 text-sm font-medium text-gray-600">Joined</th>
+              </tr>
+            </thead>
+            <tbody>
+              {loading ? (
+                <tr>
+                  <td colSpan={6} className="py-12">
+                    <Loader className="w-8 h-8 text-blue-600 animate-spin mx-auto" />
+                  </td>
+                </tr>
+              ) : customers.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="py-12 text-center text-gray-600">
+                    No customers match this search
+                  </td>
+                </tr>
+              ) : (
+                customers.map(customer => (
+                  <motion.tr
+                    key={customer.id}
+                    onClick={() => setSelectedCustomerId(customer.id)}
+                    className="border-b border-gray-100 hover:bg-gray-50 cursor-pointer"
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                  >
+                    <td className="py-3 px-4">
+                      <div className="flex items-center gap-2 text-gray-900">
+                        {[customer.first_name, customer.last_name].filter(Boolean).join(' ') || '—'}
+                        {customer.blocked && (
+                          <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                            Blocked
+                          </span>
+                        )}
+                        {customer.merged_into && (
+                          <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                            Merged
+                          </span>
+                        )}
+                      </div>
+                      <div className="text-sm text-gray-500">{customer.email}</div>
+                    </td>
+                    <td className="py-3 px-4 text-gray-600">{customer.phone ?? '—'}</td>
+                    <td className="py-3 px-4 text-gray-600">{customer.postal_code ?? '—'}</td>
+                    <td className="py-3 px-4 text-gray-900">{customer.order_count}</td>
+                    <td className="py-3 px-4 text-gray-600">
+                      {customer.last_order_at ? format(new Date(customer.last_order_at), 'MMM d, yyyy') : '—'}
+                    </td>
+                    <td className="py-3 px-4 text-gray-600">
+                      {format(new Date(customer.created_at), 'MMM d, yyyy')}
+                    </td>
+                  </motion.tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-600">
+            {total === 0
+              ? 'No customers'
+              : `${page * PAGE_SIZE + 1}–${Math.min((page + 1) * PAGE_SIZE, total)} of ${total} customers`}
+          </p>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setPage(prev => prev - 1)}
+              disabled={page === 0}
+              className="p-2 rounded-lg border border-gray-300 text-gray-600 disabled:opacity-40"
+              aria-label="Previous page"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <span className="text-sm text-gray-600">
+              Page {page + 1} of {pageCount}
+            </span>
+            <button
+              onClick={() => setPage(prev => prev + 1)}
+              disabled={page + 1 >= pageCount}
+              className="p-2 rounded-lg border border-gray-300 text-gray-600 disabled:opacity-40"
+              aria-label="Next page"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <CustomerDetailDrawer
+        customerId={selectedCustomerId}
+        onClose={() => setSelectedCustomerId(null)}
+        onChange={fetchCustomers}
+      />
+    </AdminLayout>
+  );
+};
+
+export default Users;
@@ -26,9 +26,9 @@ const AuthCallback: React.FC = () => {
       }
 
       if (session) {
-        // If we have order data, return to the order flow
-        if (orderData && returnTo) {
-          navigate(returnTo, { state: JSON.parse(orderData) });
+        // Return to the page that asked for sign-in, e.g. the order flow
+        if (returnTo) {
+          navigate(returnTo, { state: orderData ? JSON.parse(orderData) : undefined });
         } else {
           // Otherwise go to homepage
           navigate('/');
@@ -38,8 +38,8 @@ const LoginForm: React.FC = () => {
       localStorage.removeItem('returnTo');
       localStorage.removeItem('orderData');
 
-      if (returnTo && orderData) {
-        navigate(returnTo, { state: JSON.parse(orderData) });
+      if (returnTo) {
+        navigate(returnTo, { state: orderData ? JSON.parse(orderData) : undefined });
       } else {
         // Redirect to homepage by default
         navigate('/');
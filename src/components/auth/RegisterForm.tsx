@@ -5,19 +5,13 @@ import { Mail, Lock, User, Loader, AlertCircle, Eye, EyeOff, Phone } from 'lucid
 import { useAuth } from '../../contexts/AuthContext';
 import AuthLayout from './AuthLayout';
 import { z } from 'zod';
+import { passwordSchema } from '../../lib/password';
 
 // Validation schemas
 const emailSchema = z
   .string()
   .email('Invalid email address');
 
-const passwordSchema = z
-  .string()
-  .min(8, 'Password must be at least 8 characters')
-  .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
-  .regex(/[a-z]/, 'Password must contain at least one lowercase letter')
-  .regex(/[0-9]/, 'Password must contain at least one number');
-
 interface FormData {
   email: string;
   password: string;
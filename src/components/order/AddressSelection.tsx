@@ -1,33 +1,58 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { useNavigate, useLocation } from 'react-router-dom';
+import { useNavigate } from 'react-router-dom';
 import { Search, Plus, ArrowLeft, ArrowRight, Info } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
+import { useCart } from '../../contexts/CartContext';
 import { supabase } from '../../lib/supabase';
+import { formatAddress, parseGeocodeResult } from '../../lib/address';
+import ServiceAreaWaitlist from '../ServiceAreaWaitlist';
 import usePlacesAutocomplete, { getGeocode, getLatLng } from 'use-places-autocomplete';
 
 interface Address {
   id: string;
   name: string;
   street: string;
+  house_number: string | null;
+  house_number_addition: string | null;
   city: string;
   postal_code: string;
+  floor: string | null;
+  door_code: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  place_id: string | null;
+  courier_instructions: string | null;
   is_default?: boolean;
 }
 
+const emptyAddress = {
+  name: '',
+  street: '',
+  house_number: '',
+  house_number_addition: '',
+  city: '',
+  postal_code: '',
+  floor: '',
+  door_code: '',
+  courier_instructions: '',
+  latitude: null as number | null,
+  longitude: null as number | null,
+  place_id: null as string | null
+};
+
 const AddressSelection: React.FC = () => {
   const navigate = useNavigate();
-  const location = useLocation();
   const { user } = useAuth();
+  const { cart, loading: cartLoading, setAddresses } = useCart();
   const [selectedAddress, setSelectedAddress] = useState<string | null>(null);
+  const [deliveryAddress, setDeliveryAddress] = useState<string | null>(null);
+  const [sameAddress, setSameAddress] = useState(true);
   const [showNewAddressForm, setShowNewAddressForm] = useState(false);
-  const [newAddress, setNewAddress] = useState({
-    name: '',
-    street: '',
-    city: '',
-    postal_code: ''
-  });
+  const [newAddress, setNewAddress] = useState(emptyAddress);
   const [savedAddresses, setSavedAddresses] = useState<Address[]>([]);
+  // City serving each postal code we looked up, null when outside our areas
+  const [coverage, setCoverage] = useState<{ [postalCode: string]: string | null }>({});
 
   const {
     ready,
@@ -44,12 +69,50 @@ const AddressSelection: React.FC = () => {
 
   const [showSuggestions, setShowSuggestions] = useState(false);
 
+  // Nothing to deliver without items, e.g. after the draft was paid on another device
+  useEffect(() => {
+    if (!cartLoading && Object.keys(cart.items).length === 0) {
+      navigate('/order/service', { replace: true });
+    }
+  }, [cartLoading, cart.items, navigate]);
+
+  const pickup = savedAddresses.find(addr => addr.id === selectedAddress);
+  const delivery = sameAddress ? pickup : savedAddresses.find(addr => addr.id === deliveryAddress);
+  const pickupPostalCode = pickup?.postal_code;
+  const deliveryPostalCode = delivery?.postal_code;
+
+  // Only addresses inside one of our service areas can be used for an order
+  useEffect(() => {
+    const unchecked = [pickupPostalCode, deliveryPostalCode].filter(
+      (postalCode): postalCode is string => !!postalCode && !(postalCode in coverage)
+    );
+    if (unchecked.length === 0) return;
+
+    const checkServiceArea = async (postalCode: string) => {
+      const { data, error } = await supabase.rpc('lookup_service_area', {
+        p_postal_code: postalCode
+      });
+
+      if (error) {
+        console.error('Error checking service area:', error);
+        return;
+      }
+      setCoverage(prev => ({ ...prev, [postalCode]: data as string | null }));
+    };
+
+    unchecked.forEach(checkServiceArea);
+  }, [pickupPostalCode, deliveryPostalCode, coverage]);
+
+  const uncoveredPostalCode = [pickupPostalCode, deliveryPostalCode].find(
+    postalCode => !!postalCode && coverage[postalCode] === null
+  );
+
   // Fetch saved addresses when component mounts
   useEffect(() => {
-    if (user) {
+    if (user && !cartLoading) {
       fetchSavedAddresses();
     }
-  }, [user]);
+  }, [user, cartLoading]);
 
   const fetchSavedAddresses = async () => {
     try {
@@ -63,11 +126,19 @@ const AddressSelection: React.FC = () => {
 
       if (addresses) {
         setSavedAddresses(addresses);
-        // If there's a default address, select it automatically
-        const defaultAddress = addresses.find(addr => addr.is_default);
+        // Keep the addresses from the draft, otherwise select the default one
+        const saved = addresses as unknown as Address[];
+        const defaultAddress = saved.find(addr => addr.id === cart.pickup_address?.id)
+          ?? saved.find(addr => addr.is_default);
         if (defaultAddress) {
           setSelectedAddress(defaultAddress.id);
         }
+
+        const draftDelivery = saved.find(addr => addr.id === cart.delivery_address?.id);
+        if (draftDelivery && draftDelivery.id !== defaultAddress?.id) {
+          setSameAddress(false);
+          setDeliveryAddress(draftDelivery.id);
+        }
       }
     } catch (error) {
       console.error('Error fetching addresses:', error);
@@ -86,8 +157,16 @@ const AddressSelection: React.FC = () => {
             user_id: user.id,
             name: newAddress.name,
             street: newAddress.street,
+            house_number: newAddress.house_number,
+            house_number_addition: newAddress.house_number_addition || null,
             city: newAddress.city,
             postal_code: newAddress.postal_code,
+            floor: newAddress.floor || null,
+            door_code: newAddress.door_code || null,
+            courier_instructions: newAddress.courier_instructions || null,
+            latitude: newAddress.latitude,
+            longitude: newAddress.longitude,
+            place_id: newAddress.place_id,
             is_default: savedAddresses.length === 0 // Make default if first address
           }
         ])
@@ -99,6 +178,8 @@ const AddressSelection: React.FC = () => {
       setSavedAddresses(prev => [...prev, data]);
       setSelectedAddress(data.id);
       setShowNewAddressForm(false);
+      setNewAddress(emptyAddress);
+      setValue('', false);
       clearSuggestions();
     } catch (error) {
       console.error('Error saving address:', error);
@@ -112,58 +193,36 @@ const AddressSelection: React.FC = () => {
 
     try {
       const results = await getGeocode({ placeId: suggestion.place_id });
-      const { lat, lng } = await getLatLng(results[0]);
-      
-      const addressComponents = results[0].address_components;
-      let streetNumber = '';
-      let route = '';
-      let city = '';
-      let postalCode = '';
-
-      for (const component of addressComponents) {
-        const types = component.types;
-        if (types.includes('street_number')) {
-          streetNumber = component.long_name;
-        } else if (types.includes('route')) {
-          route = component.long_name;
-        } else if (types.includes('locality')) {
-          city = component.long_name;
-        } else if (types.includes('postal_code')) {
-          postalCode = component.long_name;
-        }
-      }
+      const location = await getLatLng(results[0]);
+      const geocoded = parseGeocodeResult(results[0], location);
 
-      setNewAddress({
-        ...newAddress,
-        street: `${route} ${streetNumber}`.trim(),
-        city,
-        postal_code: postalCode
-      });
+      setNewAddress(prev => ({ ...prev, ...geocoded }));
     } catch (error) {
       console.error('Error:', error);
     }
   };
 
+  const canContinue = !!pickup && !!delivery
+    && !!coverage[pickup.postal_code] && !!coverage[delivery.postal_code];
+
+  const toCartAddress = (address: Address) => ({
+    id: address.id,
+    street: address.street,
+    house_number: address.house_number,
+    house_number_addition: address.house_number_addition,
+    city: address.city,
+    postal_code: address.postal_code
+  });
+
   const handleContinue = () => {
-    if (selectedAddress) {
-      const address = savedAddresses.find(addr => addr.id === selectedAddress);
-      if (address) {
-        navigate('/order/schedule', {
-          state: { 
-            ...location.state,
-            address: {
-              street: address.street,
-              city: address.city,
-              postal_code: address.postal_code
-            }
-          }
-        });
-      }
+    if (canContinue && pickup && delivery) {
+      setAddresses(toCartAddress(pickup), toCartAddress(delivery));
+      navigate('/order/schedule');
     }
   };
 
   const handleBack = () => {
-    navigate('/order/service', { state: location.state });
+    navigate(cart.service ? `/order/items/${cart.service}` : '/order/service');
   };
 
   const setDefaultAddress = async (addressId: string) => {
@@ -215,13 +274,17 @@ const AddressSelection: React.FC = () => {
       >
         <div className="text-center mb-12">
           <h1 className="text-3xl sm:text-4xl font-bold text-gray-900 mb-4">
-            Select Delivery Address
+            Select Pickup & Delivery Address
           </h1>
           <p className="text-lg text-gray-600">
-            Choose where you'd like your clean laundry delivered
+            Choose where we collect your laundry and where you'd like it delivered
           </p>
         </div>
 
+        {savedAddresses.length > 0 && !showNewAddressForm && (
+          <h2 className="text-xl font-bold text-gray-900 mb-4">Pickup Address</h2>
+        )}
+
         {savedAddresses.length > 0 && !showNewAddressForm && (
           <div className="space-y-4 mb-8">
             {savedAddresses.map((address) => (
@@ -237,129 +300,165 @@ const AddressSelection: React.FC = () => {
                 whileTap={{ scale: 0.98 }}
               >
                 <div className="flex items-center justify-between">
-                  <div>
-                    <div className="flex items-center">
-                      <h3 className="text-lg font-bold">{address.name}</h3>
-                      {address.is_default && (
-                        <span className={`ml-2 text-sm ${
-                          selectedAddress === address.id ? 'text-white/80' : 'text-blue-600'
-                        }`}>
-                          (Default)
-                        </span>
-                      )}
-                    </div>
-                    <p className={selectedAddress === address.id ? 'text-white/90' : 'text-gray-600'}>
-                      {address.street}, {address.city} {address.postal_code}
-                    </p>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        setDefaultAddress(address.id);
-                      }}
-                      className={`px-3 py-1 rounded-lg text-sm ${
-                        selectedAddress === address.id
-                          ? 'bg-white/20 text-white'
-                          : 'bg-blue-100 text-blue-600'
-                      }`}
-                    >
-                      Set Default
-                    </button>
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        deleteAddress(address.id);
-                      }}
-                      className={`px-3 py-1 rounded-lg text-sm ${
-                        selectedAddress === address.id
-                          ? 'bg-white/20 text-white'
-                          : 'bg-red-100 text-red-600'
-                      }`}
-                    >
-                      Delete
-                    </button>
+                <div>
+                  <div className="flex items-center">
+                    <h3 className="text-lg font-bold">{address.name}</h3>
+                    {address.is_default && (
+                      <span className={`ml-2 text-sm ${
+                        selectedAddress === address.id ? 'text-white/80' : 'text-blue-600'
+                      }`}>
+                        (Default)
+                      </span>
+                    )}
                   </div>
+                  <p className={selectedAddress === address.id ? 'text-white/90' : 'text-gray-600'}>
+                    {formatAddress(address)}
+                  </p>
+                  {address.courier_instructions && (
+                    <p className={`text-sm mt-1 ${
+                      selectedAddress === address.id ? 'text-white/80' : 'text-gray-500'
+                    }`}>
+                      {address.courier_instructions}
+                    </p>
+                  )}
                 </div>
-              </motion.button>
-            ))}
-          </div>
-        )}
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setDefaultAddress(address.id);
+                    }}
+                    className={`px-3 py-1 rounded-lg text-sm ${
+                      selectedAddress === address.id
+                        ? 'bg-white/20 text-white'
+                        : 'bg-blue-100 text-blue-600'
+                    }`}
+                  >
+                    Set Default
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      deleteAddress(address.id);
+                    }}
+                    className={`px-3 py-1 rounded-lg text-sm ${
+                      selectedAddress === address.id
+                        ? 'bg-white/20 text-white'
+                        : 'bg-red-100 text-red-600'
+                    }`}
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            </motion.button>
+          ))}
+        </div>
+      )}
+
+      {(showNewAddressForm || savedAddresses.length === 0) ? (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="bg-white rounded-xl shadow-lg p-6 mb-8"
+        >
+          <h3 className="text-xl font-bold text-gray-900 mb-6">Add New Address</h3>
+          <form onSubmit={handleAddressSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Address Name
+              </label>
+              <input
+                type="text"
+                value={newAddress.name}
+                onChange={(e) => setNewAddress({ ...newAddress, name: e.target.value })}
+                className="w-full px-4 py-3 rounded-xl border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200 transition-all duration-300"
+                placeholder="e.g., Home, Office"
+                required
+              />
+            </div>
 
-        {(showNewAddressForm || savedAddresses.length === 0) ? (
-          <motion.div
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            className="bg-white rounded-xl shadow-lg p-6 mb-8"
-          >
-            <h3 className="text-xl font-bold text-gray-900 mb-6">Add New Address</h3>
-            <form onSubmit={handleAddressSubmit} className="space-y-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Address Name
-                </label>
+            <div className="relative">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Search Address
+              </label>
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
                 <input
                   type="text"
-                  value={newAddress.name}
-                  onChange={(e) => setNewAddress({ ...newAddress, name: e.target.value })}
-                  className="w-full px-4 py-3 rounded-xl border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200 transition-all duration-300"
-                  placeholder="e.g., Home, Office"
-                  required
+                  value={value}
+                  onChange={(e) => {
+                    setValue(e.target.value);
+                    setShowSuggestions(true);
+                  }}
+                  disabled={!ready}
+                  className="w-full pl-10 pr-4 py-3 rounded-xl border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200 transition-all duration-300"
+                  placeholder="Start typing your address..."
                 />
               </div>
 
-              <div className="relative">
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Search Address
-                </label>
-                <div className="relative">
-                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
-                  <input
-                    type="text"
-                    value={value}
-                    onChange={(e) => {
-                      setValue(e.target.value);
-                      setShowSuggestions(true);
-                    }}
-                    disabled={!ready}
-                    className="w-full pl-10 pr-4 py-3 rounded-xl border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200 transition-all duration-300"
-                    placeholder="Start typing your address..."
-                  />
-                </div>
-
-                {status === "OK" && showSuggestions && (
-                  <motion.div
-                    initial={{ opacity: 0, y: -10 }}
-                    animate={{ opacity: 1, y: 0 }}
-                    className="absolute z-10 w-full mt-1 bg-white rounded-xl shadow-lg border border-gray-200 max-h-60 overflow-auto"
-                  >
-                    {data.map((suggestion) => (
-                      <div
-                        key={suggestion.place_id}
-                        className="px-4 py-3 hover:bg-gray-50 cursor-pointer"
-                        onClick={() => handleSelect(suggestion)}
-                      >
-                        <p className="text-gray-900">{suggestion.description}</p>
-                      </div>
-                    ))}
-                  </motion.div>
-                )}
-              </div>
+              {status === "OK" && showSuggestions && (
+                <motion.div
+                  initial={{ opacity: 0, y: -10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  className="absolute z-10 w-full mt-1 bg-white rounded-xl shadow-lg border border-gray-200 max-h-60 overflow-auto"
+                >
+                  {data.map((suggestion) => (
+                    <div
+                      key={suggestion.place_id}
+                      className="px-4 py-3 hover:bg-gray-50 cursor-pointer"
+                      onClick={() => handleSelect(suggestion)}
+                    >
+                      <p className="text-gray-900">{suggestion.description}</p>
+                    </div>
+                  ))}
+                </motion.div>
+              )}
+            </div>
 
-              <div>
+            <div className="grid grid-cols-4 gap-4">
+              <div className="col-span-2">
                 <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Street Address
+                  Street
                 </label>
                 <input
                   type="text"
                   value={newAddress.street}
                   onChange={(e) => setNewAddress({ ...newAddress, street: e.target.value })}
                   className="w-full px-4 py-3 rounded-xl border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200 transition-all duration-300"
-                  placeholder="Enter street address"
+                  placeholder="Enter street name"
                   required
                 />
               </div>
 
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    House Number
+                  </label>
+                  <input
+                    type="text"
+                    value={newAddress.house_number}
+                    onChange={(e) => setNewAddress({ ...newAddress, house_number: e.target.value })}
+                    className="w-full px-4 py-3 rounded-xl border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200 transition-all duration-300"
+                    placeholder="12"
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Addition
+                  </label>
+                  <input
+                    type="text"
+                    value={newAddress.house_number_addition}
+                    onChange={(e) => setNewAddress({ ...newAddress, house_number_addition: e.target.value })}
+                    className="w-full px-4 py-3 rounded-xl border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200 transition-all duration-300"
+                    placeholder="A"
+                  />
+                </div>
+              </div>
+
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -390,6 +489,47 @@ const AddressSelection: React.FC = () => {
                 </div>
               </div>
 
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Floor
+                  </label>
+                  <input
+                    type="text"
+                    value={newAddress.floor}
+                    onChange={(e) => setNewAddress({ ...newAddress, floor: e.target.value })}
+                    className="w-full px-4 py-3 rounded-xl border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200 transition-all duration-300"
+                    placeholder="e.g., 3rd floor"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Door Code
+                  </label>
+                  <input
+                    type="text"
+                    value={newAddress.door_code}
+                    onChange={(e) => setNewAddress({ ...newAddress, door_code: e.target.value })}
+                    className="w-full px-4 py-3 rounded-xl border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200 transition-all duration-300"
+                    placeholder="Optional"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Instructions for the Courier
+                </label>
+                <textarea
+                  value={newAddress.courier_instructions}
+                  onChange={(e) => setNewAddress({ ...newAddress, courier_instructions: e.target.value })}
+                  className="w-full px-4 py-3 rounded-xl border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200 transition-all duration-300"
+                  rows={3}
+                  placeholder="e.g., Side entrance next to the bakery, ring the top bell"
+                />
+              </div>
+
               <div className="flex justify-end space-x-4 pt-4">
                 {savedAddresses.length > 0 && (
                   <motion.button
@@ -427,6 +567,52 @@ const AddressSelection: React.FC = () => {
           </motion.button>
         )}
 
+        {savedAddresses.length > 0 && !showNewAddressForm && (
+          <div className="bg-white rounded-xl shadow p-6 mb-8">
+            <label className="flex items-center cursor-pointer">
+              <input
+                type="checkbox"
+                checked={sameAddress}
+                onChange={(e) => setSameAddress(e.target.checked)}
+                className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+              />
+              <span className="ml-2 text-gray-700">Deliver to the same address</span>
+            </label>
+
+            {!sameAddress && (
+              <div className="mt-6">
+                <h2 className="text-xl font-bold text-gray-900 mb-4">Delivery Address</h2>
+                <div className="space-y-3">
+                  {savedAddresses.map((address) => (
+                    <motion.button
+                      key={address.id}
+                      onClick={() => setDeliveryAddress(address.id)}
+                      className={`w-full p-4 rounded-xl text-left transition-all duration-300 ${
+                        deliveryAddress === address.id
+                          ? 'bg-green-600 text-white shadow-lg'
+                          : 'bg-gray-50 hover:bg-gray-100 text-gray-800'
+                      }`}
+                      whileHover={{ scale: 1.02 }}
+                      whileTap={{ scale: 0.98 }}
+                    >
+                      <h3 className="font-bold">{address.name}</h3>
+                      <p className={deliveryAddress === address.id ? 'text-white/90' : 'text-gray-600'}>
+                        {formatAddress(address)}
+                      </p>
+                    </motion.button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {uncoveredPostalCode && (
+          <div className="mb-8">
+            <ServiceAreaWaitlist postalCode={uncoveredPostalCode} />
+          </div>
+        )}
+
         <div className="flex justify-between items-center">
           <motion.button
             onClick={handleBack}
@@ -441,13 +627,13 @@ const AddressSelection: React.FC = () => {
           <motion.button
             onClick={handleContinue}
             className={`flex items-center px-6 py-3 rounded-xl font-medium transition-all duration-300 ${
-              selectedAddress
+              canContinue
                 ? 'bg-blue-600 text-white shadow-lg hover:shadow-xl'
                 : 'bg-gray-200 text-gray-400 cursor-not-allowed'
             }`}
-            whileHover={selectedAddress ? { scale: 1.05 } : {}}
-            whileTap={selectedAddress ? { scale: 0.95 } : {}}
-            disabled={!selectedAddress}
+            whileHover={canContinue ? { scale: 1.05 } : {}}
+            whileTap={canContinue ? { scale: 0.95 } : {}}
+            disabled={!canContinue}
           >
             Continue
             <ArrowRight className="w-5 h-5 ml-2" />
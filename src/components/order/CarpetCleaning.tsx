@@ -1,20 +1,78 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { useNavigate } from 'react-router-dom';
-import { ArrowLeft, ArrowRight, Ruler } from 'lucide-react';
+import { ArrowLeft, ArrowRight, Ruler, Plus, Trash2, Loader, Layers } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useServices } from '../../contexts/ServicesContext';
+import { useCart } from '../../contexts/CartContext';
+import {
+  MIN_CARPET_SIDE,
+  MAX_CARPET_SIDE,
+  isValidCarpetSide,
+  carpetArea,
+  carpetPrice,
+  formatDimensions
+} from '../../lib/carpets';
+import type { CarpetMaterial } from '../../lib/carpets';
+
+const SERVICE = 'carpet-cleaning';
 
 const CarpetCleaning: React.FC = () => {
   const navigate = useNavigate();
+  const { services, loading: servicesLoading, getServiceItems } = useServices();
+  const { cart, addCarpet, setItemQuantity } = useCart();
+  const [materials, setMaterials] = useState<CarpetMaterial[]>([]);
+  const [loadingMaterials, setLoadingMaterials] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [typeId, setTypeId] = useState<string | null>(null);
+  const [materialId, setMaterialId] = useState<string | null>(null);
   const [length, setLength] = useState<number>(0);
   const [width, setWidth] = useState<number>(0);
-  const [price, setPrice] = useState<number>(0);
 
-  const PRICE_PER_SQM = 12.99;
+  const service = services.find(s => s.service_identifier === SERVICE);
+  const color = service?.color_scheme?.primary || 'bg-rose-600';
+  const lightColor = service?.color_scheme?.secondary || 'bg-rose-50';
+
+  // Carpet types are the m² items of the service, at the customer's own rates
+  const carpetTypes = getServiceItems(SERVICE).filter(
+    item => item.pricing_unit === 'm2' && item.status === true && item.price !== null
+  );
 
   useEffect(() => {
-    const area = length * width;
-    setPrice(area * PRICE_PER_SQM);
-  }, [length, width]);
+    const fetchMaterials = async () => {
+      try {
+        const { data, error: materialsError } = await supabase
+          .from('carpet_materials')
+          .select('id, name, description, surcharge_per_m2')
+          .order('sequence');
+
+        if (materialsError) throw materialsError;
+        setMaterials((data || []) as unknown as CarpetMaterial[]);
+      } catch (err) {
+        console.error('Error fetching carpet materials:', err);
+        setError('We could not load the carpet materials. Please refresh the page.');
+      } finally {
+        setLoadingMaterials(false);
+      }
+    };
+
+    fetchMaterials();
+  }, []);
+
+  const carpetType = carpetTypes.find(item => item.id === typeId) ?? carpetTypes[0];
+  const material = materials.find(m => m.id === materialId) ?? materials[0];
+
+  const validSize = isValidCarpetSide(length) && isValidCarpetSide(width);
+  const area = carpetArea(length, width);
+  const rate = Number(carpetType?.price ?? 0);
+  const surcharge = Number(material?.surcharge_per_m2 ?? 0);
+  const price = validSize ? carpetPrice(area, rate, surcharge) : 0;
+  const canAdd = validSize && !!carpetType && !!material;
+
+  const carpets = cart.service === SERVICE
+    ? Object.values(cart.items).filter(item => item.dimensions)
+    : [];
+  const totalAmount = carpets.reduce((sum, item) => sum + (item.price || 0), 0);
 
   const handleInputChange = (
     value: string,
@@ -23,9 +81,31 @@ const CarpetCleaning: React.FC = () => {
     const numValue = parseFloat(value);
     if (!isNaN(numValue) && numValue >= 0) {
       setter(numValue);
+    } else if (value === '') {
+      setter(0);
     }
   };
 
+  const handleAddCarpet = () => {
+    if (!canAdd) return;
+
+    addCarpet(SERVICE, {
+      item_id: carpetType.id,
+      name: carpetType.name,
+      price,
+      dimensions: {
+        length_m: length,
+        width_m: width,
+        material_id: material.id,
+        material: material.name
+      }
+    });
+    setLength(0);
+    setWidth(0);
+  };
+
+  const loading = servicesLoading || loadingMaterials;
+
   return (
     <div className="min-h-screen pt-24 pb-12 px-4 sm:px-6 lg:px-8 bg-gradient-to-b from-gray-50 to-white">
       <motion.div
@@ -36,82 +116,198 @@ const CarpetCleaning: React.FC = () => {
       >
         <div className="text-center mb-12">
           <h1 className="text-3xl sm:text-4xl font-bold text-gray-900 mb-4">
-            Carpet Cleaning
+            {service?.name || 'Carpet Cleaning'}
           </h1>
           <p className="text-lg text-gray-600">
             Enter your carpet dimensions for an instant price calculation
           </p>
         </div>
 
-        <div className="bg-white rounded-2xl shadow-lg p-6 sm:p-8 mb-8">
-          <div className="flex flex-col sm:flex-row gap-6 mb-8">
-            <div className="flex-1">
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Length (meters)
-              </label>
-              <div className="relative">
-                <input
-                  type="number"
-                  value={length || ''}
-                  onChange={(e) => handleInputChange(e.target.value, setLength)}
-                  min="0"
-                  step="0.1"
-                  className="w-full px-4 py-3 rounded-xl border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200 transition-all duration-300"
-                  placeholder="Enter length"
-                />
-                <Ruler className="absolute right-4 top-1/2 transform -translate-y-1/2 text-gray-400" />
-              </div>
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader className="w-8 h-8 text-blue-600 animate-spin" />
+          </div>
+        ) : error || carpetTypes.length === 0 || materials.length === 0 ? (
+          <div className="p-4 bg-red-50 text-red-700 rounded-xl text-center mb-8">
+            {error || 'Carpet cleaning is not available right now.'}
+          </div>
+        ) : (
+          <div className="bg-white rounded-2xl shadow-lg p-6 sm:p-8 mb-8">
+            <h2 className="text-lg font-bold text-gray-900 mb-4">Carpet Type</h2>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-8">
+              {carpetTypes.map(item => (
+                <motion.button
+                  key={item.id}
+                  onClick={() => setTypeId(item.id)}
+                  className={`p-4 rounded-xl text-left transition-all duration-200 ${
+                    carpetType?.id === item.id
+                      ? `${color} text-white`
+                      : 'bg-gray-50 text-gray-900 hover:bg-gray-100'
+                  }`}
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                >
+                  <div className="font-medium">{item.name}</div>
+                  <div className="text-sm opacity-80">€{Number(item.price).toFixed(2)} / m²</div>
+                </motion.button>
+              ))}
             </div>
 
-            <div className="flex-1">
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Width (meters)
-              </label>
-              <div className="relative">
-                <input
-                  type="number"
-                  value={width || ''}
-                  onChange={(e) => handleInputChange(e.target.value, setWidth)}
-                  min="0"
-                  step="0.1"
-                  className="w-full px-4 py-3 rounded-xl border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200 transition-all duration-300"
-                  placeholder="Enter width"
-                />
-                <Ruler className="absolute right-4 top-1/2 transform -translate-y-1/2 text-gray-400" />
-              </div>
+            <h2 className="text-lg font-bold text-gray-900 mb-4">Material</h2>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-4 mb-8">
+              {materials.map(m => (
+                <motion.button
+                  key={m.id}
+                  onClick={() => setMaterialId(m.id)}
+                  className={`p-4 rounded-xl text-left transition-all duration-200 ${
+                    material?.id === m.id
+                      ? `${color} text-white`
+                      : 'bg-gray-50 text-gray-900 hover:bg-gray-100'
+                  }`}
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                >
+                  <div className="font-medium">{m.name}</div>
+                  <div className="text-sm opacity-80">
+                    {Number(m.surcharge_per_m2) > 0
+                      ? `+ €${Number(m.surcharge_per_m2).toFixed(2)} / m²`
+                      : 'No surcharge'}
+                  </div>
+                </motion.button>
+              ))}
             </div>
-          </div>
 
-          <div className="bg-gray-50 rounded-xl p-6">
-            <div className="flex justify-between items-center mb-4">
-              <span className="text-gray-600">Area</span>
-              <span className="font-medium text-gray-900">
-                {(length * width).toFixed(2)} m²
-              </span>
-            </div>
-            <div className="flex justify-between items-center mb-4">
-              <span className="text-gray-600">Price per m²</span>
-              <span className="font-medium text-gray-900">
-                ${PRICE_PER_SQM.toFixed(2)}
-              </span>
+            <div className="flex flex-col sm:flex-row gap-6 mb-2">
+              <div className="flex-1">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Length (meters)
+                </label>
+                <div className="relative">
+                  <input
+                    type="number"
+                    value={length || ''}
+                    onChange={(e) => handleInputChange(e.target.value, setLength)}
+                    min={MIN_CARPET_SIDE}
+                    max={MAX_CARPET_SIDE}
+                    step="0.1"
+                    className="w-full px-4 py-3 rounded-xl border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200 transition-all duration-300"
+                    placeholder="Enter length"
+                  />
+                  <Ruler className="absolute right-4 top-1/2 transform -translate-y-1/2 text-gray-400" />
+                </div>
+              </div>
+
+              <div className="flex-1">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Width (meters)
+                </label>
+                <div className="relative">
+                  <input
+                    type="number"
+                    value={width || ''}
+                    onChange={(e) => handleInputChange(e.target.value, setWidth)}
+                    min={MIN_CARPET_SIDE}
+                    max={MAX_CARPET_SIDE}
+                    step="0.1"
+                    className="w-full px-4 py-3 rounded-xl border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200 transition-all duration-300"
+                    placeholder="Enter width"
+                  />
+                  <Ruler className="absolute right-4 top-1/2 transform -translate-y-1/2 text-gray-400" />
+                </div>
+              </div>
             </div>
-            <div className="border-t border-gray-200 pt-4">
-              <div className="flex justify-between items-center">
-                <span className="text-lg font-medium text-gray-900">
-                  Total Price
+            <p className={`text-sm mb-8 ${length > 0 && width > 0 && !validSize ? 'text-red-600' : 'text-gray-500'}`}>
+              Each side must measure between {MIN_CARPET_SIDE} and {MAX_CARPET_SIDE} meters.
+            </p>
+
+            <div className="bg-gray-50 rounded-xl p-6">
+              <div className="flex justify-between items-center mb-4">
+                <span className="text-gray-600">Area</span>
+                <span className="font-medium text-gray-900">
+                  {validSize ? area.toFixed(2) : '0.00'} m²
                 </span>
-                <span className="text-2xl font-bold text-blue-600">
-                  ${price.toFixed(2)}
+              </div>
+              <div className="flex justify-between items-center mb-4">
+                <span className="text-gray-600">Price per m²</span>
+                <span className="font-medium text-gray-900">
+                  €{rate.toFixed(2)}
                 </span>
               </div>
+              {surcharge > 0 && (
+                <div className="flex justify-between items-center mb-4">
+                  <span className="text-gray-600">{material?.name} surcharge per m²</span>
+                  <span className="font-medium text-gray-900">
+                    €{surcharge.toFixed(2)}
+                  </span>
+                </div>
+              )}
+              <div className="border-t border-gray-200 pt-4">
+                <div className="flex justify-between items-center">
+                  <span className="text-lg font-medium text-gray-900">
+                    Total Price
+                  </span>
+                  <span className="text-2xl font-bold text-blue-600">
+                    €{price.toFixed(2)}
+                  </span>
+                </div>
+              </div>
             </div>
+
+            <motion.button
+              onClick={handleAddCarpet}
+              className={`mt-6 w-full flex items-center justify-center px-6 py-3 rounded-xl font-medium transition-all duration-300 ${
+                canAdd
+                  ? `${color} text-white shadow-lg hover:shadow-xl`
+                  : 'bg-gray-200 text-gray-400 cursor-not-allowed'
+              }`}
+              whileHover={canAdd ? { scale: 1.02 } : {}}
+              whileTap={canAdd ? { scale: 0.98 } : {}}
+              disabled={!canAdd}
+            >
+              <Plus className="w-5 h-5 mr-2" />
+              Add Carpet
+            </motion.button>
           </div>
-        </div>
+        )}
+
+        {carpets.length > 0 && (
+          <div className={`${lightColor} rounded-2xl shadow-lg p-6 sm:p-8 mb-8`}>
+            <h2 className="text-lg font-bold text-gray-900 mb-4">Your Carpets</h2>
+            <div className="divide-y divide-gray-200">
+              {carpets.map(item => (
+                <div key={item.id} className="flex items-center justify-between py-3">
+                  <div className="flex items-center">
+                    <Layers className="w-5 h-5 text-gray-400 mr-3" />
+                    <div>
+                      <div className="font-medium text-gray-900">{item.name}</div>
+                      <div className="text-sm text-gray-600">{item.dimensions && formatDimensions(item.dimensions)}</div>
+                    </div>
+                  </div>
+                  <div className="flex items-center">
+                    <span className="font-medium text-gray-900 mr-4">€{Number(item.price).toFixed(2)}</span>
+                    <motion.button
+                      onClick={() => setItemQuantity(SERVICE, item, 0)}
+                      className="p-2 text-gray-400 hover:text-red-600"
+                      whileHover={{ scale: 1.1 }}
+                      whileTap={{ scale: 0.9 }}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </motion.button>
+                  </div>
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-between items-center pt-4 border-t border-gray-200">
+              <span className="text-lg font-medium text-gray-900">Total</span>
+              <span className="text-xl font-bold text-gray-900">€{totalAmount.toFixed(2)}</span>
+            </div>
+          </div>
+        )}
 
         {/* Navigation */}
         <div className="flex justify-between items-center">
           <motion.button
-            onClick={() => navigate('/order/items')}
+            onClick={() => navigate('/order/service')}
             className="flex items-center px-6 py-3 text-gray-600 hover:text-gray-900 transition-colors"
             whileHover={{ x: -5 }}
             whileTap={{ scale: 0.95 }}
@@ -121,15 +317,15 @@ const CarpetCleaning: React.FC = () => {
           </motion.button>
 
           <motion.button
-            onClick={() => navigate('/order/schedule')}
+            onClick={() => carpets.length > 0 && navigate('/order/address')}
             className={`flex items-center px-6 py-3 rounded-xl font-medium transition-all duration-300 ${
-              length > 0 && width > 0
+              carpets.length > 0
                 ? 'bg-blue-600 text-white shadow-lg hover:shadow-xl'
                 : 'bg-gray-200 text-gray-400 cursor-not-allowed'
             }`}
-            whileHover={length > 0 && width > 0 ? { scale: 1.05 } : {}}
-            whileTap={length > 0 && width > 0 ? { scale: 0.95 } : {}}
-            disabled={length === 0 || width === 0}
+            whileHover={carpets.length > 0 ? { scale: 1.05 } : {}}
+            whileTap={carpets.length > 0 ? { scale: 0.95 } : {}}
+            disabled={carpets.length === 0}
           >
             Continue
             <ArrowRight className="w-5 h-5 ml-2" />
@@ -140,4 +336,4 @@ const CarpetCleaning: React.FC = () => {
   );
 };
 
-export default CarpetCleaning;
\ No newline at end of file
+export default CarpetCleaning;
@@ -1,6 +1,6 @@
 import React, { useState, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useLocation } from 'react-router-dom';
 import { Camera, Upload, X, ArrowLeft, ArrowRight, Clock, Info } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../contexts/AuthContext';
@@ -14,6 +14,7 @@ interface CustomPriceRequest {
 
 const CustomPriceRequest: React.FC = () => {
   const navigate = useNavigate();
+  const location = useLocation();
   const { user } = useAuth();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [request, setRequest] = useState<CustomPriceRequest>({
@@ -138,6 +139,8 @@ const CustomPriceRequest: React.FC = () => {
           urgency: request.urgency,
           image_url: imageUrls,
           user_id: user.id,
+          // The service the customer came from, so an accepted quote joins that order
+          service_identifier: location.state?.service ?? null,
           status: 'pending'
         })
         .select()
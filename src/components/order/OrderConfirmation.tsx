@@ -1,20 +1,24 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { motion } from 'framer-motion';
 import { useNavigate, useLocation } from 'react-router-dom';
-import { CreditCard, Calendar, Clock, MapPin, Printer, Loader } from 'lucide-react';
+import { CreditCard, Calendar, Clock, MapPin, Printer, Loader, FileText, Repeat } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
+import { useCart } from '../../contexts/CartContext';
+import { useServices } from '../../contexts/ServicesContext';
+import { useOrganization } from '../../contexts/OrganizationContext';
+import type { CartItem } from '../../contexts/CartContext';
 import { supabase } from '../../lib/supabase';
-
-interface OrderItem {
-  id: string;
-  name: string;
-  price: number;
-  quantity: number;
-}
+import { formatAddress } from '../../lib/address';
+import { PICKUP_PLAN_FREQUENCIES } from '../../lib/pickupPlans';
+import type { PickupPlanFrequency } from '../../lib/pickupPlans';
+import type { Order } from '../../lib/supabase';
 
 interface OrderDetails {
   service: string;
-  items: { [key: string]: OrderItem };
+  items: { [key: string]: CartItem };
+  pickup_slot_id: string;
+  delivery_slot_id: string;
+  express: boolean;
   pickup_date: string;
   delivery_date: string;
   pickup_address: string;
@@ -22,180 +26,168 @@ interface OrderDetails {
   pickup_option: string;
   delivery_option: string;
   special_instructions?: string;
+  repeat?: PickupPlanFrequency | null;
 }
 
 const OrderConfirmation: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
-  const { user } = useAuth();
+  const { user, loading: authLoading } = useAuth();
+  const { cart, loading: cartLoading, setOrderId } = useCart();
+  const { services } = useServices();
+  const { orderingOrganizationId, loading: organizationLoading } = useOrganization();
   const [loading, setLoading] = useState(false);
-  const [orderSaved, setOrderSaved] = useState(false);
+  const [order, setOrder] = useState<Order | null>(null);
+  const savingOrder = useRef(false);
   const [error, setError] = useState<string | null>(null);
-  const [orderNumber, setOrderNumber] = useState('');
-  const [selectedPaymentMethod, setSelectedPaymentMethod] = useState<'credit_card' | 'ideal' | 'bancontact'>('credit_card');
+  const [selectedPaymentMethod, setSelectedPaymentMethod] = useState<'credit_card' | 'ideal' | 'bancontact' | 'invoice'>('credit_card');
   
-  const orderDetails = location.state as OrderDetails;
+  const orderDetails = useMemo<OrderDetails | null>(() => {
+    if (!cart.service || !cart.pickup_address || !cart.delivery_address || !cart.schedule) return null;
+
+    return {
+      service: cart.service,
+      items: cart.items,
+      ...cart.schedule,
+      pickup_address: formatAddress(cart.pickup_address),
+      delivery_address: formatAddress(cart.delivery_address)
+    };
+  }, [cart]);
 
-  // Calculate totals
-  const subtotal = Object.values(orderDetails?.items || {}).reduce(
-    (sum, item) => sum + (item.price * item.quantity),
-    0
-  );
+  const service = services.find(s => s.service_identifier === cart.service);
+  const turnaroundHours = orderDetails?.express
+    ? service?.express_turnaround_hours
+    : service?.turnaround_hours;
 
-  const tax = subtotal * 0.21; // 21% VAT
-  const shippingFee = 0; // Free shipping
-  const totalAmount = subtotal + tax + shippingFee;
+  // Totals are computed by the database when the order is created
+  const subtotal = Number(order?.subtotal ?? 0);
+  const expressSurcharge = Number(order?.express_surcharge ?? 0);
+  const tax = Number(order?.tax ?? 0);
+  const shippingFee = Number(order?.shipping_fee ?? 0);
+  const totalAmount = Number(order?.total_amount ?? 0);
 
-  // Generate unique order number
-  useEffect(() => {
-    const generateOrderNumber = async () => {
-      let isUnique = false;
-      let newOrderNumber = '';
-      let attempts = 0;
-      const maxAttempts = 10;
-      
-      while (!isUnique && attempts < maxAttempts) {
-        attempts++;
-        // Generate a random 6-digit number
-        const randomNum = Math.floor(Math.random() * 900000) + 100000;
-        newOrderNumber = `EZY${randomNum}`;
-        
-        try {
-          // Check if this order number already exists
-          const { data, error } = await supabase
-            .from('orders')
-            .select('order_number')
-            .eq('order_number', newOrderNumber);
-          
-          if (error) throw error;
-          
-          if (!data || data.length === 0) {
-            isUnique = true;
-            setOrderNumber(newOrderNumber);
-          }
-        } catch (err) {
-          console.error('Error checking order number:', err);
-          // If we hit an error, generate a timestamp-based fallback
-          const timestamp = Date.now().toString().slice(-6);
-          setOrderNumber(`EZY${timestamp}`);
-          break;
-        }
-      }
-      
-      // If we couldn't generate a unique number after max attempts, use timestamp
-      if (!isUnique) {
-        const timestamp = Date.now().toString().slice(-6);
-        setOrderNumber(`EZY${timestamp}`);
-      }
-    };
+  // Bags are charged at the estimated weight and settled once weighed
+  const hasWeighedItems = Object.values(cart.items).some(item => item.pricing_unit === 'kg');
 
-    if (!orderNumber) {
-      generateOrderNumber();
-    }
-  }, [orderNumber]);
+  // create_order only attributes orders to an organisation the customer may order for
+  const isBusinessOrder = Boolean((order as (Order & { organization_id: string | null }) | null)?.organization_id);
 
-  // Check authentication and redirect if needed
+  // Check authentication and redirect if needed; the draft itself is kept by the cart
   useEffect(() => {
-    if (!user && !loading) {
-      // Store current location and order data
-      const returnPath = location.pathname;
-      const orderData = location.state;
-      
-      // Save to localStorage for persistence
-      localStorage.setItem('returnTo', returnPath);
-      if (orderData) {
-        localStorage.setItem('orderData', JSON.stringify(orderData));
-      }
-      
-      // Redirect to login
+    if (!user && !authLoading) {
       navigate('/login', { 
         state: { 
-          returnTo: returnPath,
-          orderData 
+          returnTo: location.pathname
         }
       });
     }
-  }, [user, loading, navigate, location]);
+  }, [user, authLoading, navigate, location]);
+
+  // Send the customer back to the step that is still missing
+  useEffect(() => {
+    if (!user || cartLoading || orderDetails) return;
+    navigate(cart.pickup_address ? '/order/schedule' : '/order/service', { replace: true });
+  }, [user, cartLoading, orderDetails, cart.pickup_address, navigate]);
 
   // Save order when component mounts
   useEffect(() => {
     const initializeOrder = async () => {
-      if (!user || orderSaved || !orderNumber || !orderDetails) return;
+      if (!user || cartLoading || organizationLoading || order || savingOrder.current || !orderDetails) return;
+
+      savingOrder.current = true;
 
       try {
+        // Reuse the order created from this draft on an earlier visit if it is still unpaid
+        // and was not already placed on the monthly invoice
+        if (cart.order_id) {
+          const { data: existingOrder } = await supabase
+            .from('orders')
+            .select('*')
+            .match({ id: cart.order_id })
+            .maybeSingle();
+
+          const existing = existingOrder as (Order & { organization_id: string | null }) | null;
+          if (
+            existing?.payment_status === 'pending'
+            && existing.payment_method !== 'invoice'
+            && existing.organization_id === orderingOrganizationId
+          ) {
+            setOrder(existingOrder as Order);
+            return;
+          }
+        }
+
         await saveOrder();
       } catch (err) {
         console.error('Failed to initialize order:', err);
         setError(err instanceof Error ? err.message : 'Failed to initialize order');
+      } finally {
+        savingOrder.current = false;
       }
     };
 
     initializeOrder();
-  }, [user, orderSaved, orderNumber, orderDetails]);
+  }, [user, cartLoading, organizationLoading, order, orderDetails, cart.order_id, orderingOrganizationId]);
 
   const saveOrder = async () => {
-    if (!user || !orderDetails || !orderNumber) {
+    if (!user || !orderDetails) {
       throw new Error('Missing required data');
     }
 
-    try {
-      // Insert order
-      const { data: orderData, error: orderError } = await supabase
-        .from('orders')
-        .insert({
-          order_number: orderNumber,
-          user_id: user.id,
-          customer_name: `${user.user_metadata.first_name || ''} ${user.user_metadata.last_name || ''}`.trim(),
-          email: user.email,
-          phone: user.user_metadata.phone,
-          shipping_address: orderDetails.delivery_address,
-          shipping_method: orderDetails.delivery_option,
-          estimated_delivery: orderDetails.delivery_date,
-          special_instructions: orderDetails.special_instructions,
-          subtotal,
-          tax,
-          shipping_fee: shippingFee,
-          total_amount: totalAmount,
-          status: 'pending',
-          payment_status: 'pending'
-        })
-        .select()
-        .single();
+    savingOrder.current = true;
 
-      if (orderError) throw orderError;
+    try {
+      // The order of an earlier version of this draft would keep its slots
+      // reserved; it is only cancelled while it is still unpaid
+      const replacedOrderIds = [cart.abandoned_order_id, cart.order_id].filter(Boolean);
+      for (const replacedOrderId of replacedOrderIds) {
+        const { error: cancelError } = await supabase.rpc('cancel_abandoned_order', { p_order_id: replacedOrderId });
+        if (cancelError) console.error('Error cancelling replaced order:', cancelError);
+      }
 
-      // Generate UUIDs for items that don't have them
-      const orderItems = Object.values(orderDetails.items).map(item => {
-        // If the item.id is not a valid UUID, generate one
-        const itemId = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(item.id) 
-          ? item.id 
-          : crypto.randomUUID();
-
-        return {
-          order_id: orderData.id,
-          product_id: itemId,
-          product_name: item.name,
-          quantity: item.quantity,
-          unit_price: item.price,
-          subtotal: item.price * item.quantity
-        };
+      // Prices, VAT and totals are read from the items and quotes tables by the database
+      const { data, error: orderError } = await supabase.rpc('create_order', {
+        p_order: {
+          items: Object.values(orderDetails.items).map(item => {
+            if (item.quote_id) return { quote_id: item.quote_id };
+            if (item.dimensions) {
+              return {
+                item_id: item.item_id,
+                length_m: item.dimensions.length_m,
+                width_m: item.dimensions.width_m,
+                material_id: item.dimensions.material_id
+              };
+            }
+            return { item_id: item.id, quantity: item.quantity };
+          }),
+          service: orderDetails.service,
+          pickup_address_id: cart.pickup_address?.id,
+          delivery_address_id: cart.delivery_address?.id,
+          pickup_slot_id: orderDetails.pickup_slot_id,
+          delivery_slot_id: orderDetails.delivery_slot_id,
+          express: orderDetails.express,
+          delivery_option: orderDetails.delivery_option,
+          special_instructions: orderDetails.special_instructions,
+          organization_id: orderingOrganizationId
+        }
       });
 
-      const { error: itemsError } = await supabase
-        .from('order_items')
-        .insert(orderItems);
-
-      if (itemsError) throw itemsError;
+      if (orderError) throw orderError;
 
-      setOrderSaved(true);
+      const savedOrder = data as Order;
+      setOrder(savedOrder);
+      setOrderId(savedOrder.id);
+      return savedOrder;
     } catch (err) {
       console.error('Error saving order:', err);
       throw err;
+    } finally {
+      savingOrder.current = false;
     }
   };
 
   const handlePayment = async () => {
-    if (!orderNumber || !orderDetails) {
+    if (!orderDetails) {
       setError('Missing required data');
       return;
     }
@@ -205,30 +197,43 @@ const OrderConfirmation: React.FC = () => {
 
     try {
       // Ensure order is saved first
-      if (!orderSaved) {
-        await saveOrder();
+      const paymentOrder = order ?? await saveOrder();
+
+      // The plan starts once this order is paid or placed on invoice
+      if (orderDetails.repeat) {
+        const { error: planError } = await supabase.rpc('create_pickup_plan', {
+          p_order_id: paymentOrder.id,
+          p_frequency: orderDetails.repeat,
+          p_pickup_address_id: cart.pickup_address?.id,
+          p_delivery_address_id: cart.delivery_address?.id
+        });
+
+        if (planError) throw planError;
       }
 
-      // Update order with payment method and status
-      const { error: updateError } = await supabase
-        .from('orders')
-        .update({ 
-          status: 'processing',
-          payment_status: 'paid',
-          payment_method: selectedPaymentMethod
-        })
-        .eq('order_number', orderNumber);
-
-      if (updateError) throw updateError;
-
-      // Navigate to success page
-      navigate('/order/success', {
-        state: {
-          orderNumber,
-          totalAmount,
-          estimatedDelivery: orderDetails.delivery_date
+      if (selectedPaymentMethod === 'invoice') {
+        const { error: accountError } = await supabase.rpc('place_order_on_account', {
+          p_order_id: paymentOrder.id
+        });
+
+        if (accountError) throw accountError;
+
+        navigate(`/order/success?order=${encodeURIComponent(paymentOrder.order_number)}`);
+        return;
+      }
+
+      // Payment status is only ever set by the Mollie webhook
+      const { data, error: paymentError } = await supabase.functions.invoke('create-payment', {
+        body: {
+          orderId: paymentOrder.id,
+          method: selectedPaymentMethod
         }
       });
+
+      if (paymentError) throw paymentError;
+      if (!data?.checkoutUrl) throw new Error('No checkout URL received');
+
+      window.location.href = data.checkoutUrl;
     } catch (error) {
       console.error('Payment error:', error);
       setError(error instanceof Error ? error.message : 'Payment processing failed');
@@ -236,8 +241,8 @@ const OrderConfirmation: React.FC = () => {
     }
   };
 
-  // Show loading state while checking authentication
-  if (!user) {
+  // Show loading state while checking authentication and loading the draft
+  if (!user || !orderDetails) {
     return (
       <div className="min-h-screen pt-24 pb-12 px-4 sm:px-6 lg:px-8 bg-gradient-to-b from-gray-50 to-white">
         <div className="max-w-2xl mx-auto text-center">
@@ -281,7 +286,12 @@ const OrderConfirmation: React.FC = () => {
       >
         {/* Order Details */}
         <div className="bg-white rounded-2xl shadow-lg p-6 mb-8">
-          <h2 className="text-xl font-bold text-gray-900 mb-6">Order Details</h2>
+          <div className="flex justify-between items-center mb-6">
+            <h2 className="text-xl font-bold text-gray-900">Order Details</h2>
+            {order && (
+              <span className="text-sm text-gray-600">Order #{order.order_number}</span>
+            )}
+          </div>
           
           <div className="space-y-4">
             <div className="flex justify-between items-center py-3 border-b border-gray-100">
@@ -304,6 +314,30 @@ const OrderConfirmation: React.FC = () => {
               </span>
             </div>
 
+            {orderDetails?.repeat && (
+              <div className="flex justify-between items-center py-3 border-b border-gray-100">
+                <div className="flex items-center">
+                  <Repeat className="w-5 h-5 text-gray-400 mr-3" />
+                  <span className="text-gray-600">Repeat</span>
+                </div>
+                <span className="font-medium text-gray-900">
+                  {PICKUP_PLAN_FREQUENCIES.find(option => option.id === orderDetails.repeat)?.label}
+                </span>
+              </div>
+            )}
+
+            {service && turnaroundHours != null && (
+              <div className="flex justify-between items-center py-3 border-b border-gray-100">
+                <div className="flex items-center">
+                  <Clock className="w-5 h-5 text-gray-400 mr-3" />
+                  <span className="text-gray-600">Turnaround</span>
+                </div>
+                <span className="font-medium text-gray-900">
+                  {orderDetails?.express ? 'Express, ' : ''}at least {turnaroundHours} hours ({service.name})
+                </span>
+              </div>
+            )}
+
             <div className="flex justify-between items-center py-3 border-b border-gray-100">
               <div className="flex items-center">
                 <MapPin className="w-5 h-5 text-gray-400 mr-3" />
@@ -326,7 +360,10 @@ const OrderConfirmation: React.FC = () => {
                 <span className="text-gray-600">Total Items</span>
               </div>
               <span className="font-medium text-gray-900">
-                {Object.values(orderDetails?.items || {}).reduce((sum, item) => sum + item.quantity, 0)} items
+                {Object.values(orderDetails?.items || {}).reduce(
+                  (sum, item) => sum + (item.pricing_unit === 'kg' ? 1 : item.quantity),
+                  0
+                )} items
               </span>
             </div>
 
@@ -337,18 +374,29 @@ const OrderConfirmation: React.FC = () => {
                   <span>Subtotal</span>
                   <span>€{subtotal.toFixed(2)}</span>
                 </div>
+                {expressSurcharge > 0 && (
+                  <div className="flex justify-between text-gray-600">
+                    <span>Express surcharge</span>
+                    <span>€{expressSurcharge.toFixed(2)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between text-gray-600">
                   <span>VAT (21%)</span>
                   <span>€{tax.toFixed(2)}</span>
                 </div>
                 <div className="flex justify-between text-gray-600">
                   <span>Shipping</span>
-                  <span>Free</span>
+                  <span>{shippingFee > 0 ? `€${shippingFee.toFixed(2)}` : 'Free'}</span>
                 </div>
                 <div className="flex justify-between items-center pt-4 border-t border-gray-100">
                   <span className="text-lg font-bold text-gray-900">Total</span>
                   <span className="text-2xl font-bold text-gray-900">€{totalAmount.toFixed(2)}</span>
                 </div>
+                {hasWeighedItems && (
+                  <p className="text-sm text-gray-500">
+                    Bags are charged at your estimated weight. We weigh them at our facility and refund or charge the difference.
+                  </p>
+                )}
               </div>
             </div>
           </div>
@@ -357,7 +405,7 @@ const OrderConfirmation: React.FC = () => {
         {/* Payment Method Selection */}
         <div className="bg-white rounded-2xl shadow-lg p-6 mb-8">
           <h3 className="text-lg font-bold text-gray-900 mb-4">Select Payment Method</h3>
-          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div className={`grid grid-cols-1 gap-4 ${isBusinessOrder ? 'sm:grid-cols-2 lg:grid-cols-4' : 'sm:grid-cols-3'}`}>
             <motion.button
               onClick={() => setSelectedPaymentMethod('credit_card')}
               className={`p-4 rounded-xl text-left transition-all duration-200 ${
@@ -413,6 +461,24 @@ const OrderConfirmation: React.FC = () => {
                 <span>Bancontact</span>
               </div>
             </motion.button>
+
+            {isBusinessOrder && (
+              <motion.button
+                onClick={() => setSelectedPaymentMethod('invoice')}
+                className={`p-4 rounded-xl text-left transition-all duration-200 ${
+                  selectedPaymentMethod === 'invoice'
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-50 text-gray-900 hover:bg-gray-100'
+                }`}
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+              >
+                <div className="flex items-center">
+                  <FileText className="w-5 h-5 mr-2" />
+                  <span>Monthly invoice</span>
+                </div>
+              </motion.button>
+            )}
           </div>
         </div>
 
@@ -430,10 +496,10 @@ const OrderConfirmation: React.FC = () => {
 
           <motion.button
             onClick={handlePayment}
-            disabled={loading}
+            disabled={loading || !order}
             className="w-full sm:w-auto flex items-center justify-center px-6 py-3 bg-blue-600 text-white rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 disabled:bg-gray-400 disabled:cursor-not-allowed"
-            whileHover={{ scale: loading ? 1 : 1.05 }}
-            whileTap={{ scale: loading ? 1 : 0.95 }}
+            whileHover={{ scale: loading || !order ? 1 : 1.05 }}
+            whileTap={{ scale: loading || !order ? 1 : 0.95 }}
           >
             <CreditCard className="w-5 h-5 mr-2" />
             {loading ? (
@@ -441,6 +507,8 @@ const OrderConfirmation: React.FC = () => {
                 <div className="animate-spin rounded-full h-5 w-5 border-2 border-white border-t-transparent mr-2" />
                 Processing...
               </div>
+            ) : selectedPaymentMethod === 'invoice' ? (
+              'Place Order'
             ) : (
               'Pay Now'
             )}
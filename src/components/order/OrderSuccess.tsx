@@ -1,52 +1,120 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
-import { useLocation, useNavigate } from 'react-router-dom';
-import { CheckCircle2, Calendar, Package, MapPin, ArrowRight } from 'lucide-react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { CheckCircle2, Calendar, Package, MapPin, ArrowRight, XCircle } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
+import { useCart } from '../../contexts/CartContext';
+import type { Order } from '../../lib/supabase';
 
-interface LocationState {
-  orderNumber: string;
-  totalAmount: number;
-  estimatedDelivery: string;
-  paymentId?: string;
-}
+type PlacedOrder = Order & { pickup_address: string | null };
 
 const OrderSuccess: React.FC = () => {
-  const location = useLocation();
   const navigate = useNavigate();
-  const state = location.state as LocationState;
+  const [searchParams] = useSearchParams();
+  const orderNumber = searchParams.get('order');
+  const [order, setOrder] = useState<PlacedOrder | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { cart, clearCart } = useCart();
 
   useEffect(() => {
-    if (!state?.orderNumber) {
+    if (!orderNumber) {
       navigate('/');
       return;
     }
 
-    const updateOrderStatus = async () => {
+    const fetchOrder = async () => {
       try {
-        const { error } = await supabase
+        const { data, error } = await supabase
           .from('orders')
-          .update({ 
-            status: 'processing',
-            payment_status: 'paid'
-          })
-          .eq('order_number', state.orderNumber);
-
-        if (error) {
-          console.error('Error updating order status:', error);
-        }
+          .select('*')
+          .eq('order_number', orderNumber)
+          .maybeSingle();
+
+        if (error) throw error;
+        setOrder(data);
       } catch (error) {
-        console.error('Error in updateOrderStatus:', error);
+        console.error('Error fetching order:', error);
+      } finally {
+        setLoading(false);
       }
     };
 
-    updateOrderStatus();
-  }, [state?.orderNumber, navigate]);
+    fetchOrder();
+
+    // The Mollie webhook may land after the customer is redirected back
+    const channel = supabase
+      .channel(`order-${orderNumber}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'orders',
+          filter: `order_number=eq.${orderNumber}`
+        },
+        (payload) => setOrder(payload.new as PlacedOrder)
+      )
+      .subscribe();
+
+    return () => {
+      channel.unsubscribe();
+    };
+  }, [orderNumber, navigate]);
+
+  // Business orders on the monthly invoice are placed without paying upfront
+  const onInvoice = order?.payment_method === 'invoice';
+  const placed = order?.payment_status === 'paid' || onInvoice;
+
+  // The draft is done once the order made from it is paid or placed on invoice
+  useEffect(() => {
+    if (placed && order?.id === cart.order_id) {
+      clearCart();
+    }
+  }, [placed, order?.id, cart.order_id, clearCart]);
 
-  if (!state?.orderNumber) {
+  if (!orderNumber) {
     return null;
   }
 
+  if (loading || !order || (order.payment_status === 'pending' && !onInvoice)) {
+    return (
+      <div className="min-h-screen pt-24 pb-12 px-4 sm:px-6 lg:px-8 bg-gradient-to-b from-gray-50 to-white">
+        <div className="max-w-2xl mx-auto text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-4 border-blue-600 border-t-transparent mx-auto mb-4"></div>
+          <p className="text-gray-600">
+            {loading ? 'Loading your order...' : 'Confirming your payment...'}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!placed) {
+    return (
+      <div className="min-h-screen pt-24 pb-12 px-4 sm:px-6 lg:px-8 bg-gradient-to-b from-gray-50 to-white">
+        <div className="max-w-2xl mx-auto text-center">
+          <div className="bg-red-50 rounded-lg p-8">
+            <XCircle className="w-12 h-12 text-red-600 mx-auto mb-4" />
+            <h2 className="text-2xl font-bold text-red-700 mb-4">
+              Payment Not Completed
+            </h2>
+            <p className="text-red-600 mb-6">
+              We could not confirm the payment for order {order.order_number}. You have not been charged.
+            </p>
+            <motion.button
+              onClick={() => navigate('/account/orders')}
+              className="px-6 py-3 bg-red-600 text-white rounded-xl font-medium"
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+            >
+              View Orders
+            </motion.button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen pt-24 pb-12 px-4 sm:px-6 lg:px-8 bg-gradient-to-b from-gray-50 to-white">
       <div className="max-w-3xl mx-auto">
@@ -55,10 +123,12 @@ const OrderSuccess: React.FC = () => {
             <CheckCircle2 className="w-10 h-10 text-green-600" />
           </div>
           <h1 className="text-3xl font-bold text-gray-900 mb-4">
-            Payment Successful!
+            {onInvoice ? 'Order Placed!' : 'Payment Successful!'}
           </h1>
           <p className="text-lg text-gray-600">
-            Thank you for your order. Your laundry is in good hands!
+            {onInvoice
+              ? 'Thank you for your order. It will be billed on your monthly business invoice.'
+              : 'Thank you for your order. Your laundry is in good hands!'}
           </p>
         </div>
 
@@ -71,7 +141,25 @@ const OrderSuccess: React.FC = () => {
                 <Package className="w-5 h-5 text-gray-400 mr-3" />
                 <span className="text-gray-600">Order Number</span>
               </div>
-              <span className="font-medium text-gray-900">{state.orderNumber}</span>
+              <span className="font-medium text-gray-900">{order.order_number}</span>
+            </div>
+
+            <div className="flex items-center justify-between py-3 border-b border-gray-100">
+              <div className="flex items-center">
+                <MapPin className="w-5 h-5 text-gray-400 mr-3" />
+                <span className="text-gray-600">Pickup Address</span>
+              </div>
+              <span className="font-medium text-gray-900 text-right">
+                {order.pickup_address ?? order.shipping_address}
+              </span>
+            </div>
+
+            <div className="flex items-center justify-between py-3 border-b border-gray-100">
+              <div className="flex items-center">
+                <MapPin className="w-5 h-5 text-gray-400 mr-3" />
+                <span className="text-gray-600">Delivery Address</span>
+              </div>
+              <span className="font-medium text-gray-900 text-right">{order.shipping_address}</span>
             </div>
 
             <div className="flex items-center justify-between py-3 border-b border-gray-100">
@@ -80,7 +168,7 @@ const OrderSuccess: React.FC = () => {
                 <span className="text-gray-600">Estimated Delivery</span>
               </div>
               <span className="font-medium text-gray-900">
-                {new Date(state.estimatedDelivery).toLocaleString()}
+                {new Date(order.estimated_delivery).toLocaleString()}
               </span>
             </div>
 
@@ -90,7 +178,7 @@ const OrderSuccess: React.FC = () => {
                 <span className="text-gray-600">Total Amount</span>
               </div>
               <span className="font-medium text-gray-900">
-                €{state.totalAmount.toFixed(2)}
+                €{Number(order.total_amount).toFixed(2)}
               </span>
             </div>
           </div>
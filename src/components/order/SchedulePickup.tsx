@@ -1,8 +1,13 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
-import { useNavigate, useLocation } from 'react-router-dom';
-import { format, addDays, isBefore, isAfter, setHours, setMinutes } from 'date-fns';
-import { Calendar, Clock, ArrowLeft, ArrowRight, DoorOpen, Building2, UserRound, Info } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { format, isSameDay, startOfDay, addHours } from 'date-fns';
+import { Calendar, Clock, ArrowLeft, ArrowRight, DoorOpen, Building2, UserRound, Info, Zap, Repeat } from 'lucide-react';
+import { useCart } from '../../contexts/CartContext';
+import { useServices } from '../../contexts/ServicesContext';
+import { supabase } from '../../lib/supabase';
+import { PICKUP_PLAN_FREQUENCIES } from '../../lib/pickupPlans';
+import type { PickupPlanFrequency } from '../../lib/pickupPlans';
 
 interface DeliveryOption {
   id: string;
@@ -12,27 +17,110 @@ interface DeliveryOption {
   instructions?: string[];
 }
 
+interface DeliverySlot {
+  id: string;
+  kind: 'pickup' | 'delivery';
+  starts_at: string;
+  ends_at: string;
+  cutoff_at: string;
+  capacity: number;
+  booked: number;
+  is_full: boolean;
+}
+
+// Unique days on which any of the given slots start
+const slotDays = (slots: DeliverySlot[]) =>
+  slots.reduce<Date[]>((days, slot) => {
+    const day = startOfDay(new Date(slot.starts_at));
+    return days.some(d => isSameDay(d, day)) ? days : [...days, day];
+  }, []);
+
+const formatWindow = (slot: DeliverySlot) =>
+  `${format(new Date(slot.starts_at), 'HH:mm')}–${format(new Date(slot.ends_at), 'HH:mm')}`;
+
 const SchedulePickup: React.FC = () => {
   const navigate = useNavigate();
-  const location = useLocation();
+  const { cart, loading: cartLoading, setSchedule } = useCart();
+  const { services } = useServices();
   const [pickupDate, setPickupDate] = useState<Date | null>(null);
   const [deliveryDate, setDeliveryDate] = useState<Date | null>(null);
-  const [pickupTime, setPickupTime] = useState<string>('');
-  const [deliveryTime, setDeliveryTime] = useState<string>('');
+  const [pickupSlotId, setPickupSlotId] = useState<string>('');
+  const [deliverySlotId, setDeliverySlotId] = useState<string>('');
+  const [slots, setSlots] = useState<DeliverySlot[]>([]);
+  const [slotsLoading, setSlotsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
   const [pickupOption, setPickupOption] = useState<string>('');
   const [deliveryOption, setDeliveryOption] = useState<string>('');
   const [notes, setNotes] = useState('');
+  const [express, setExpress] = useState(false);
+  const [repeat, setRepeat] = useState<PickupPlanFrequency | null>(null);
+  const restored = useRef(false);
 
-  // Get order details from location state
-  const { service, items, address } = location.state || {};
+  // Pick up where the draft left off once it has loaded
+  useEffect(() => {
+    if (cartLoading || restored.current) return;
+    restored.current = true;
 
-  // Generate available dates (next 7 days)
-  const availableDates = Array.from({ length: 7 }, (_, i) => addDays(new Date(), i + 1));
+    if (Object.keys(cart.items).length === 0) {
+      navigate('/order/service', { replace: true });
+      return;
+    }
+    if (!cart.pickup_address || !cart.delivery_address) {
+      navigate('/order/address', { replace: true });
+      return;
+    }
 
-  // Generate available time slots (17:00-22:00)
-  const timeSlots = [
-    '17:00', '18:00', '19:00', '20:00', '21:00', '22:00'
-  ];
+    const { schedule } = cart;
+    if (!schedule) return;
+
+    // Slots that are gone or full by now are dropped by the checks below
+    setPickupDate(startOfDay(new Date(schedule.pickup_date)));
+    setPickupSlotId(schedule.pickup_slot_id);
+    setDeliveryDate(startOfDay(new Date(schedule.delivery_date)));
+    setDeliverySlotId(schedule.delivery_slot_id);
+    setPickupOption(schedule.pickup_option);
+    setDeliveryOption(schedule.delivery_option);
+    setNotes(schedule.special_instructions ?? '');
+    setExpress(schedule.express ?? false);
+    setRepeat(schedule.repeat ?? null);
+  }, [cartLoading, cart, navigate]);
+
+  const pickupPostalCode = cart.pickup_address?.postal_code;
+  const deliveryPostalCode = cart.delivery_address?.postal_code;
+
+  // Pickup windows depend on the pickup address, delivery windows on the
+  // delivery address, and both on which service was chosen
+  useEffect(() => {
+    if (cartLoading || !pickupPostalCode || !deliveryPostalCode || !cart.service) return;
+
+    const loadSlots = async (postalCode: string, kind: DeliverySlot['kind']) => {
+      const { data, error: slotsError } = await supabase.rpc('get_available_slots', {
+        p_postal_code: postalCode,
+        p_service: cart.service
+      });
+
+      if (slotsError) throw slotsError;
+      return ((data ?? []) as DeliverySlot[]).filter(slot => slot.kind === kind);
+    };
+
+    const fetchSlots = async () => {
+      try {
+        setSlotsLoading(true);
+        const [pickupSlots, deliverySlots] = await Promise.all([
+          loadSlots(pickupPostalCode, 'pickup'),
+          loadSlots(deliveryPostalCode, 'delivery')
+        ]);
+        setSlots([...pickupSlots, ...deliverySlots]);
+      } catch (err) {
+        console.error('Error fetching slots:', err);
+        setError('Failed to load available time slots');
+      } finally {
+        setSlotsLoading(false);
+      }
+    };
+
+    fetchSlots();
+  }, [cartLoading, pickupPostalCode, deliveryPostalCode, cart.service]);
 
   const deliveryOptions: DeliveryOption[] = [
     {
@@ -70,59 +158,60 @@ const SchedulePickup: React.FC = () => {
     }
   ];
 
-  // Check if a time slot is available for pickup
-  const isPickupTimeAvailable = (time: string) => {
-    if (!pickupDate) return false;
-    const [hours, minutes] = time.split(':').map(Number);
-    const slotTime = setMinutes(setHours(pickupDate, hours), minutes);
-    return isAfter(slotTime, new Date());
-  };
+  const service = services.find(s => s.service_identifier === cart.service);
+  const hasExpress = service?.express_turnaround_hours != null;
+  const turnaroundHours: number = (express && hasExpress
+    ? service?.express_turnaround_hours
+    : service?.turnaround_hours) ?? 0;
 
-  // Check if a time slot is available for delivery
-  const isDeliveryTimeAvailable = (time: string) => {
-    if (!pickupDate || !deliveryDate) return false;
-    const [hours, minutes] = time.split(':').map(Number);
-    const slotTime = setMinutes(setHours(deliveryDate, hours), minutes);
-    return isAfter(slotTime, pickupDate);
-  };
+  // Quoted items and carpets are one-offs, so only catalog items can be picked up again
+  const canRepeat = Object.values(cart.items).some(item => !item.quote_id && !item.dimensions);
+
+  const pickupSlots = slots.filter(slot => slot.kind === 'pickup');
+  const deliverySlots = slots.filter(slot => slot.kind === 'delivery');
+  const pickupSlot = pickupSlots.find(slot => slot.id === pickupSlotId && !slot.is_full);
+
+  // Delivery windows open once the service's turnaround after pickup has passed
+  const isDeliverySlotAvailable = (slot: DeliverySlot) =>
+    !!pickupSlot
+    && !slot.is_full
+    && new Date(slot.starts_at) >= addHours(new Date(pickupSlot.ends_at), turnaroundHours);
+
+  const deliverySlot = deliverySlots.find(slot => slot.id === deliverySlotId && isDeliverySlotAvailable(slot));
+
+  const isPickupDateAvailable = (date: Date) =>
+    pickupSlots.some(slot => isSameDay(new Date(slot.starts_at), date) && !slot.is_full);
+
+  const isDeliveryDateAvailable = (date: Date) =>
+    deliverySlots.some(slot => isSameDay(new Date(slot.starts_at), date) && isDeliverySlotAvailable(slot));
+
+  const slotsOn = (kindSlots: DeliverySlot[], date: Date | null) =>
+    date ? kindSlots.filter(slot => isSameDay(new Date(slot.starts_at), date)) : [];
 
   const handleContinue = () => {
-    if (!pickupDate || !deliveryDate || !pickupTime || !deliveryTime || !pickupOption || !deliveryOption) {
+    if (!pickupSlot || !deliverySlot || !pickupOption || !deliveryOption) {
       return;
     }
 
-    // Combine dates and times
-    const pickup = new Date(pickupDate);
-    const [pickupHours, pickupMinutes] = pickupTime.split(':').map(Number);
-    pickup.setHours(pickupHours, pickupMinutes);
-
-    const delivery = new Date(deliveryDate);
-    const [deliveryHours, deliveryMinutes] = deliveryTime.split(':').map(Number);
-    delivery.setHours(deliveryHours, deliveryMinutes);
-
-    // Navigate to confirmation with all order details
-    navigate('/order/confirmation', {
-      state: {
-        service,
-        items,
-        pickup_date: pickup.toISOString(),
-        delivery_date: delivery.toISOString(),
-        pickup_address: `${address?.street}, ${address?.city} ${address?.postalCode}`,
-        delivery_address: `${address?.street}, ${address?.city} ${address?.postalCode}`,
-        pickup_option: pickupOption,
-        delivery_option: deliveryOption,
-        special_instructions: notes
-      }
+    setSchedule({
+      pickup_slot_id: pickupSlot.id,
+      delivery_slot_id: deliverySlot.id,
+      express: express && hasExpress,
+      pickup_date: pickupSlot.starts_at,
+      delivery_date: deliverySlot.starts_at,
+      pickup_option: pickupOption,
+      delivery_option: deliveryOption,
+      special_instructions: notes,
+      repeat: canRepeat ? repeat : null
     });
+    navigate('/order/confirmation');
   };
 
   const handleBack = () => {
-    navigate('/order/address', { 
-      state: { service, items, address } 
-    });
+    navigate('/order/address');
   };
 
-  const isNextEnabled = pickupDate && deliveryDate && pickupTime && deliveryTime && pickupOption && deliveryOption;
+  const isNextEnabled = pickupSlot && deliverySlot && pickupOption && deliveryOption;
 
   return (
     <div className="min-h-screen pt-24 pb-12 px-4 sm:px-6 lg:px-8 bg-gradient-to-b from-gray-50 to-white">
@@ -141,6 +230,23 @@ const SchedulePickup: React.FC = () => {
           </p>
         </div>
 
+        {error && (
+          <div className="mb-8 p-4 rounded-xl bg-red-50 text-red-600 text-center">
+            {error}
+          </div>
+        )}
+
+        {slotsLoading ? (
+          <div className="mb-8 text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-4 border-blue-600 border-t-transparent mx-auto mb-2"></div>
+            <p className="text-gray-600">Loading available time slots...</p>
+          </div>
+        ) : !error && slots.length === 0 && (
+          <div className="mb-8 p-4 rounded-xl bg-yellow-50 text-yellow-700 text-center">
+            There are no pickup windows available for this address right now. Please try again later.
+          </div>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
           {/* Pickup Section */}
           <div className="space-y-8">
@@ -151,17 +257,20 @@ const SchedulePickup: React.FC = () => {
               </div>
 
               <div className="grid grid-cols-3 sm:grid-cols-4 gap-2 mb-8">
-                {availableDates.map((date) => (
+                {slotDays(pickupSlots).map((date) => (
                   <motion.button
                     key={date.toISOString()}
                     onClick={() => setPickupDate(date)}
+                    disabled={!isPickupDateAvailable(date)}
                     className={`p-3 rounded-xl text-center transition-all duration-300 ${
                       pickupDate?.toDateString() === date.toDateString()
                         ? 'bg-blue-600 text-white'
-                        : 'bg-gray-50 text-gray-700 hover:bg-gray-100'
+                        : isPickupDateAvailable(date)
+                        ? 'bg-gray-50 text-gray-700 hover:bg-gray-100'
+                        : 'bg-gray-100 text-gray-400 cursor-not-allowed'
                     }`}
-                    whileHover={{ scale: 1.05 }}
-                    whileTap={{ scale: 0.95 }}
+                    whileHover={isPickupDateAvailable(date) ? { scale: 1.05 } : {}}
+                    whileTap={isPickupDateAvailable(date) ? { scale: 0.95 } : {}}
                   >
                     <div className="text-sm font-medium">
                       {format(date, 'EEE')}
@@ -180,22 +289,23 @@ const SchedulePickup: React.FC = () => {
                 </div>
 
                 <div className="grid grid-cols-3 gap-2">
-                  {timeSlots.map((time) => (
+                  {slotsOn(pickupSlots, pickupDate).map((slot) => (
                     <motion.button
-                      key={`pickup-${time}`}
-                      onClick={() => setPickupTime(time)}
-                      disabled={!isPickupTimeAvailable(time)}
+                      key={slot.id}
+                      onClick={() => setPickupSlotId(slot.id)}
+                      disabled={slot.is_full}
                       className={`p-3 rounded-xl text-center transition-all duration-300 ${
-                        pickupTime === time
+                        pickupSlot?.id === slot.id
                           ? 'bg-blue-600 text-white'
-                          : isPickupTimeAvailable(time)
+                          : !slot.is_full
                           ? 'bg-gray-50 text-gray-700 hover:bg-gray-100'
                           : 'bg-gray-100 text-gray-400 cursor-not-allowed'
                       }`}
-                      whileHover={isPickupTimeAvailable(time) ? { scale: 1.05 } : {}}
-                      whileTap={isPickupTimeAvailable(time) ? { scale: 0.95 } : {}}
+                      whileHover={!slot.is_full ? { scale: 1.05 } : {}}
+                      whileTap={!slot.is_full ? { scale: 0.95 } : {}}
                     >
-                      {time}
+                      <div>{formatWindow(slot)}</div>
+                      {slot.is_full && <div className="text-xs">Full</div>}
                     </motion.button>
                   ))}
                 </div>
@@ -256,6 +366,38 @@ const SchedulePickup: React.FC = () => {
                   ))}
                 </div>
               </div>
+
+              {canRepeat && (
+                <div className="mt-8">
+                  <div className="flex items-center mb-4">
+                    <Repeat className="w-6 h-6 text-blue-600 mr-3" />
+                    <h2 className="text-xl font-bold text-gray-900">Repeat Pickup</h2>
+                  </div>
+
+                  <div className="grid grid-cols-3 gap-3">
+                    {[{ id: null, label: 'One time' }, ...PICKUP_PLAN_FREQUENCIES].map((option) => (
+                      <motion.button
+                        key={option.id ?? 'once'}
+                        onClick={() => setRepeat(option.id)}
+                        className={`p-3 rounded-xl text-sm font-medium transition-all duration-300 ${
+                          repeat === option.id
+                            ? 'bg-blue-600 text-white'
+                            : 'bg-gray-50 text-gray-700 hover:bg-gray-100'
+                        }`}
+                        whileHover={{ scale: 1.05 }}
+                        whileTap={{ scale: 0.95 }}
+                      >
+                        {option.label}
+                      </motion.button>
+                    ))}
+                  </div>
+                  {repeat && (
+                    <p className="mt-3 text-sm text-gray-500">
+                      We pick up the same items on this weekday and time. You can pause, skip or cancel from your account.
+                    </p>
+                  )}
+                </div>
+              )}
             </div>
           </div>
 
@@ -267,21 +409,43 @@ const SchedulePickup: React.FC = () => {
                 <h2 className="text-xl font-bold text-gray-900">Delivery Date</h2>
               </div>
 
+              {service && (
+                <div className="mb-6 p-4 rounded-xl bg-green-50">
+                  <p className="text-sm text-green-800">
+                    {service.name} needs at least {turnaroundHours} hours between pickup and delivery.
+                  </p>
+                  {hasExpress && (
+                    <label className="mt-3 flex items-center cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={express}
+                        onChange={(e) => setExpress(e.target.checked)}
+                        className="h-4 w-4 text-green-600 focus:ring-green-500 border-gray-300 rounded"
+                      />
+                      <Zap className="w-4 h-4 text-green-600 ml-2 mr-1" />
+                      <span className="text-sm text-gray-700">
+                        Express in {service.express_turnaround_hours} hours (+€{Number(service.express_surcharge).toFixed(2)})
+                      </span>
+                    </label>
+                  )}
+                </div>
+              )}
+
               <div className="grid grid-cols-3 sm:grid-cols-4 gap-2 mb-8">
-                {availableDates.map((date) => (
+                {slotDays(deliverySlots).map((date) => (
                   <motion.button
                     key={date.toISOString()}
                     onClick={() => setDeliveryDate(date)}
-                    disabled={!pickupDate || isBefore(date, pickupDate)}
+                    disabled={!isDeliveryDateAvailable(date)}
                     className={`p-3 rounded-xl text-center transition-all duration-300 ${
                       deliveryDate?.toDateString() === date.toDateString()
                         ? 'bg-green-600 text-white'
-                        : !pickupDate || isBefore(date, pickupDate)
+                        : !isDeliveryDateAvailable(date)
                         ? 'bg-gray-100 text-gray-400 cursor-not-allowed'
                         : 'bg-gray-50 text-gray-700 hover:bg-gray-100'
                     }`}
-                    whileHover={pickupDate && !isBefore(date, pickupDate) ? { scale: 1.05 } : {}}
-                    whileTap={pickupDate && !isBefore(date, pickupDate) ? { scale: 0.95 } : {}}
+                    whileHover={isDeliveryDateAvailable(date) ? { scale: 1.05 } : {}}
+                    whileTap={isDeliveryDateAvailable(date) ? { scale: 0.95 } : {}}
                   >
                     <div className="text-sm font-medium">
                       {format(date, 'EEE')}
@@ -300,22 +464,23 @@ const SchedulePickup: React.FC = () => {
                 </div>
 
                 <div className="grid grid-cols-3 gap-2">
-                  {timeSlots.map((time) => (
+                  {slotsOn(deliverySlots, deliveryDate).map((slot) => (
                     <motion.button
-                      key={`delivery-${time}`}
-                      onClick={() => setDeliveryTime(time)}
-                      disabled={!isDeliveryTimeAvailable(time)}
+                      key={slot.id}
+                      onClick={() => setDeliverySlotId(slot.id)}
+                      disabled={!isDeliverySlotAvailable(slot)}
                       className={`p-3 rounded-xl text-center transition-all duration-300 ${
-                        deliveryTime === time
+                        deliverySlot?.id === slot.id
                           ? 'bg-green-600 text-white'
-                          : isDeliveryTimeAvailable(time)
+                          : isDeliverySlotAvailable(slot)
                           ? 'bg-gray-50 text-gray-700 hover:bg-gray-100'
                           : 'bg-gray-100 text-gray-400 cursor-not-allowed'
                       }`}
-                      whileHover={isDeliveryTimeAvailable(time) ? { scale: 1.05 } : {}}
-                      whileTap={isDeliveryTimeAvailable(time) ? { scale: 0.95 } : {}}
+                      whileHover={isDeliverySlotAvailable(slot) ? { scale: 1.05 } : {}}
+                      whileTap={isDeliverySlotAvailable(slot) ? { scale: 0.95 } : {}}
                     >
-                      {time}
+                      <div>{formatWindow(slot)}</div>
+                      {slot.is_full && <div className="text-xs">Full</div>}
                     </motion.button>
                   ))}
                 </div>
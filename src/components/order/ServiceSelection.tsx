@@ -1,60 +1,18 @@
 import React from 'react';
 import { motion } from 'framer-motion';
-import { Package, Shirt, Wind, Scissors, ArrowRight } from 'lucide-react';
+import { ArrowRight, Loader, Star, Check } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
-
-const services = [
-  {
-    id: 'easy-bag',
-    icon: Package,
-    title: 'Regular Laundry',
-    description: 'Professional washing and drying',
-    price: 9.99,
-    unit: 'per kg',
-    color: 'bg-blue-600',
-    lightColor: 'bg-blue-50',
-    route: '/order/items/easy-bag'
-  },
-  {
-    id: 'wash-iron',
-    icon: Shirt,
-    title: 'Wash and Iron',
-    description: 'Wash and ironing laundry',
-    price: 5.00,
-    unit: 'per kg',
-    color: 'bg-purple-600',
-    lightColor: 'bg-purple-50',
-    route: '/order/items/wash-iron'
-  },
-  {
-    id: 'dry-cleaning',
-    icon: Wind,
-    title: 'Dry Cleaning',
-    description: 'Expert care for delicate items',
-    price: 14.99,
-    unit: 'per item',
-    color: 'bg-emerald-600',
-    lightColor: 'bg-emerald-50',
-    route: '/order/items/dry-cleaning'
-  },
-  {
-    id: 'repairs',
-    icon: Scissors,
-    title: 'Repairs & Alterations',
-    description: 'Custom fits and repairs',
-    price: 19.99,
-    unit: 'per service',
-    color: 'bg-amber-600',
-    lightColor: 'bg-amber-50',
-    route: '/order/items/repairs'
-  }
-];
+import { useServices } from '../../contexts/ServicesContext';
+import { getServiceIcon } from '../../lib/serviceIcons';
 
 const ServiceSelection: React.FC = () => {
   const navigate = useNavigate();
+  const { services, loading, error, getFromPrice } = useServices();
+
+  const activeServices = services.filter(service => service.status !== false);
 
-  const handleServiceSelect = (route: string) => {
-    navigate(route);
+  const handleServiceSelect = (serviceIdentifier: string) => {
+    navigate(`/order/items/${serviceIdentifier}`);
   };
 
   return (
@@ -74,45 +32,84 @@ const ServiceSelection: React.FC = () => {
           </p>
         </div>
 
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-          {services.map((service) => (
-            <motion.div
-              key={service.id}
-              onClick={() => handleServiceSelect(service.route)}
-              className={`${service.lightColor} rounded-2xl p-6 shadow hover:shadow-lg cursor-pointer transition-all duration-300`}
-              whileHover={{ scale: 1.02 }}
-              whileTap={{ scale: 0.98 }}
-            >
-              <div className="flex items-center mb-4">
-                <div className={`w-12 h-12 ${service.color} rounded-xl flex items-center justify-center text-white`}>
-                  <service.icon className="w-6 h-6" />
-                </div>
-                <div className="ml-4">
-                  <h3 className="text-xl font-bold text-gray-900">{service.title}</h3>
-                  <p className="text-gray-600">{service.description}</p>
-                </div>
-              </div>
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader className="w-8 h-8 text-blue-600 animate-spin" />
+          </div>
+        ) : error ? (
+          <div className="p-4 bg-red-50 text-red-700 rounded-xl text-center">
+            We could not load our services. Please refresh the page.
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {activeServices.map((service) => {
+              const Icon = getServiceIcon(service.icon);
+              const fromPrice = getFromPrice(service.service_identifier);
 
-              <div className="flex items-baseline justify-between">
-                <div>
-                  <span className="text-lg font-bold text-gray-900">
-                    From €{service.price.toFixed(2)}
-                  </span>
-                  <span className="ml-2 text-sm text-gray-600">
-                    {service.unit}
-                  </span>
-                </div>
+              return (
                 <motion.div
-                  className={`${service.color} text-white px-3 py-1 rounded-lg flex items-center`}
-                  whileHover={{ x: 5 }}
+                  key={service.id}
+                  onClick={() => handleServiceSelect(service.service_identifier)}
+                  className={`${service.color_scheme?.secondary || 'bg-blue-50'} relative rounded-2xl p-6 shadow hover:shadow-lg cursor-pointer transition-all duration-300`}
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
                 >
-                  <span className="text-sm font-medium mr-1">Select</span>
-                  <ArrowRight className="w-4 h-4" />
+                  {service.is_popular && (
+                    <span className="absolute top-4 right-4 flex items-center px-2 py-1 bg-white text-yellow-600 text-xs font-medium rounded-full shadow">
+                      <Star className="w-3 h-3 mr-1 fill-current" />
+                      Popular
+                    </span>
+                  )}
+
+                  <div className="flex items-center mb-4">
+                    <div className={`w-12 h-12 ${service.color_scheme?.primary || 'bg-blue-600'} rounded-xl flex items-center justify-center text-white`}>
+                      <Icon className="w-6 h-6" />
+                    </div>
+                    <div className="ml-4">
+                      <h3 className="text-xl font-bold text-gray-900">{service.name}</h3>
+                      <p className="text-gray-600">{service.short_description}</p>
+                    </div>
+                  </div>
+
+                  {service.features?.length > 0 && (
+                    <ul className="mb-4 space-y-1">
+                      {service.features.slice(0, 3).map((feature: string) => (
+                        <li key={feature} className="flex items-center text-sm text-gray-600">
+                          <Check className="w-4 h-4 mr-2 text-green-600" />
+                          {feature}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+
+                  <div className="flex items-baseline justify-between">
+                    <div>
+                      {fromPrice !== null ? (
+                        <>
+                          <span className="text-lg font-bold text-gray-900">
+                            From €{fromPrice.toFixed(2)}
+                          </span>
+                          <span className="ml-2 text-sm text-gray-600">
+                            {service.price_unit}
+                          </span>
+                        </>
+                      ) : (
+                        <span className="text-lg font-bold text-gray-900">Price on request</span>
+                      )}
+                    </div>
+                    <motion.div
+                      className={`${service.color_scheme?.primary || 'bg-blue-600'} text-white px-3 py-1 rounded-lg flex items-center`}
+                      whileHover={{ x: 5 }}
+                    >
+                      <span className="text-sm font-medium mr-1">Select</span>
+                      <ArrowRight className="w-4 h-4" />
+                    </motion.div>
+                  </div>
                 </motion.div>
-              </div>
-            </motion.div>
-          ))}
-        </div>
+              );
+            })}
+          </div>
+        )}
 
         <div className="mt-12 flex justify-between">
           <motion.button
@@ -1,161 +1,75 @@
 import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useNavigate, useLocation } from 'react-router-dom';
-import { Search, Plus, Minus, ArrowLeft, ArrowRight, ShoppingBag, Package, Shirt, Wind, Scissors, Info } from 'lucide-react';
-
-interface Item {
-  id: string;
-  name: string;
-  price: number;
-  description?: string;
-  categoryId: string;
-  popular?: boolean;
-}
-
-interface Category {
-  id: string;
-  name: string;
-  description: string;
-  icon?: any;
-}
-
-interface ServiceInfo {
-  id: string;
-  name: string;
-  icon: any;
-  color: string;
-  lightColor: string;
-}
-
-interface SelectedItem extends Item {
-  quantity: number;
-}
-
-const services: { [key: string]: ServiceInfo } = {
-  'easy-bag': {
-    id: 'easy-bag',
-    name: 'Eazyy Bag',
-    icon: Package,
-    color: 'bg-blue-600',
-    lightColor: 'bg-blue-50'
-  },
-  'wash-iron': {
-    id: 'wash-iron',
-    name: 'Wash & Iron',
-    icon: Shirt,
-    color: 'bg-purple-600',
-    lightColor: 'bg-purple-50'
-  },
-  'dry-cleaning': {
-    id: 'dry-cleaning',
-    name: 'Dry Cleaning',
-    icon: Wind,
-    color: 'bg-emerald-600',
-    lightColor: 'bg-emerald-50'
-  },
-  'repairs': {
-    id: 'repairs',
-    name: 'Repairs',
-    icon: Scissors,
-    color: 'bg-amber-600',
-    lightColor: 'bg-amber-50'
-  }
-};
-
-const categories: { [key: string]: Category[] } = {
-  'wash-iron': [
-    { id: 'tops', name: 'Tops', description: 'Shirts, t-shirts, and blouses', icon: Shirt },
-    { id: 'bottoms', name: 'Bottoms', description: 'Pants, shorts, and skirts' },
-    { id: 'dresses', name: 'Dresses', description: 'Dresses and jumpsuits' },
-    { id: 'outerwear', name: 'Outerwear', description: 'Jackets and coats' }
-  ],
-  'dry-cleaning': [
-    { id: 'formal', name: 'Formal Wear', description: 'Suits and formal attire' },
-    { id: 'delicate', name: 'Delicate Items', description: 'Silk and wool garments' },
-    { id: 'special', name: 'Special Care', description: 'Items requiring special attention' }
-  ],
-  'repairs': [
-    { id: 'basic', name: 'Basic Repairs', description: 'Simple fixes and alterations' },
-    { id: 'advanced', name: 'Advanced Repairs', description: 'Complex repairs and modifications' }
-  ],
-  'easy-bag': [
-    { id: 'mixed', name: 'Mixed Items', description: 'All types of regular laundry' }
-  ]
-};
-
-const items: Item[] = [
-  // Tops
-  { id: 'shirt', name: 'Shirt', price: 4.99, description: 'Business or casual shirts', categoryId: 'tops', popular: true },
-  { id: 'tshirt', name: 'T-Shirt', price: 3.99, description: 'Cotton t-shirts', categoryId: 'tops', popular: true },
-  { id: 'polo', name: 'Polo Shirt', price: 4.49, description: 'Polo or golf shirts', categoryId: 'tops' },
-  { id: 'blouse', name: 'Blouse', price: 5.99, description: 'Women\'s blouses', categoryId: 'tops' },
-  
-  // Bottoms
-  { id: 'pants', name: 'Pants', price: 5.99, description: 'Regular or dress pants', categoryId: 'bottoms', popular: true },
-  { id: 'jeans', name: 'Jeans', price: 6.99, description: 'Denim jeans', categoryId: 'bottoms', popular: true },
-  { id: 'shorts', name: 'Shorts', price: 4.99, description: 'Casual shorts', categoryId: 'bottoms' },
-  { id: 'skirt', name: 'Skirt', price: 5.99, description: 'Regular or pleated skirts', categoryId: 'bottoms' },
-
-  // Formal Wear
-  { id: 'suit', name: 'Suit (2-piece)', price: 19.99, description: 'Complete suit cleaning', categoryId: 'formal', popular: true },
-  { id: 'blazer', name: 'Blazer', price: 12.99, description: 'Single blazer or jacket', categoryId: 'formal' },
-  { id: 'formal_dress', name: 'Formal Dress', price: 15.99, description: 'Evening or formal dresses', categoryId: 'formal' },
-
-  // Delicate Items
-  { id: 'silk_blouse', name: 'Silk Blouse', price: 9.99, description: 'Delicate silk tops', categoryId: 'delicate' },
-  { id: 'wool_sweater', name: 'Wool Sweater', price: 11.99, description: 'Wool or cashmere sweaters', categoryId: 'delicate', popular: true },
-  { id: 'silk_dress', name: 'Silk Dress', price: 14.99, description: 'Silk dresses', categoryId: 'delicate' }
-];
+import { Search, Plus, Minus, ArrowLeft, ShoppingBag, Info, Loader } from 'lucide-react';
+import { useServices } from '../../contexts/ServicesContext';
+import { useCart } from '../../contexts/CartContext';
+import { getServiceIcon } from '../../lib/serviceIcons';
+import type { Item } from '../../lib/supabase';
 
 const UnifiedSelection: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
+  const { services, loading, getServiceCategories, getServiceItems } = useServices();
+  const { cart, setItemQuantity } = useCart();
   const [searchTerm, setSearchTerm] = useState('');
-  const [selectedItems, setSelectedItems] = useState<{ [key: string]: SelectedItem }>({});
   const [activeCategory, setActiveCategory] = useState<string | null>(null);
   const [showInfo, setShowInfo] = useState(false);
   
   const service = location.state?.service || 'wash-iron';
-  const serviceInfo = services[service];
-  const availableCategories = categories[service] || [];
+  const serviceRow = services.find(s => s.service_identifier === service);
+  const availableCategories = getServiceCategories(service);
+  const selectedItems = cart.service === service ? cart.items : {};
 
   // Filter items based on active category and search term
-  const filteredItems = items.filter(item => {
+  const filteredItems = getServiceItems(service).filter(item => {
     const matchesSearch = item.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          item.description?.toLowerCase().includes(searchTerm.toLowerCase());
-    return (!activeCategory || item.categoryId === activeCategory) && matchesSearch;
+    return (!activeCategory || item.category_id === activeCategory) && matchesSearch;
   });
 
   // Sort items to show popular items first
   const sortedItems = [...filteredItems].sort((a, b) => {
-    if (a.popular && !b.popular) return -1;
-    if (!a.popular && b.popular) return 1;
+    if (a.is_popular && !b.is_popular) return -1;
+    if (!a.is_popular && b.is_popular) return 1;
     return 0;
   });
 
   const totalAmount = Object.values(selectedItems).reduce(
-    (sum, item) => sum + item.price * item.quantity,
+    (sum, item) => sum + (item.price || 0) * item.quantity,
     0
   );
 
   const handleQuantityChange = (item: Item, change: number) => {
-    setSelectedItems(prev => {
-      const current = prev[item.id]?.quantity || 0;
-      const newQuantity = Math.max(0, current + change);
-      
-      if (newQuantity === 0) {
-        const { [item.id]: _, ...rest } = prev;
-        return rest;
-      }
-      
-      return {
-        ...prev,
-        [item.id]: {
-          ...item,
-          quantity: newQuantity
+    if (item.is_custom_price) {
+      navigate('/order/custom-quote', {
+        state: {
+          item,
+          service,
+          returnPath: location.pathname
         }
-      };
-    });
+      });
+      return;
+    }
+
+    const current = selectedItems[item.id]?.quantity || 0;
+    setItemQuantity(service, item, Math.max(0, current + change));
+  };
+
+  if (loading || !serviceRow) {
+    return (
+      <div className="min-h-screen pt-24 flex items-center justify-center">
+        <Loader className="w-8 h-8 text-blue-600 animate-spin" />
+      </div>
+    );
+  }
+
+  const serviceInfo = {
+    name: serviceRow.name,
+    icon: getServiceIcon(serviceRow.icon),
+    color: serviceRow.color_scheme?.primary || 'bg-blue-600',
+    lightColor: serviceRow.color_scheme?.secondary || 'bg-blue-50',
+    features: (serviceRow.features || []) as string[]
   };
 
   return (
@@ -203,10 +117,9 @@ const UnifiedSelection: React.FC = () => {
                 <div className="text-gray-600">
                   <h3 className="font-medium text-gray-900 mb-2">Service Information</h3>
                   <ul className="space-y-2">
-                    <li>• Professional cleaning and care</li>
-                    <li>• 24-48 hour turnaround time</li>
-                    <li>• Free pickup and delivery</li>
-                    <li>• Satisfaction guaranteed</li>
+                    {serviceInfo.features.map((feature) => (
+                      <li key={feature}>• {feature}</li>
+                    ))}
                   </ul>
                 </div>
               </motion.div>
@@ -266,14 +179,14 @@ const UnifiedSelection: React.FC = () => {
                 animate={{ opacity: 1, scale: 1 }}
                 exit={{ opacity: 0, scale: 0.9 }}
                 className={`bg-white rounded-xl p-6 shadow-md hover:shadow-lg transition-all duration-300 ${
-                  item.popular ? 'border-2 border-blue-200' : ''
+                  item.is_popular ? 'border-2 border-blue-200' : ''
                 }`}
               >
                 <div className="flex items-center justify-between">
                   <div>
                     <div className="flex items-center">
                       <h3 className="text-lg font-semibold text-gray-900">{item.name}</h3>
-                      {item.popular && (
+                      {item.is_popular && (
                         <span className="ml-2 px-2 py-1 bg-blue-100 text-blue-700 text-xs font-medium rounded-full">
                           Popular
                         </span>
@@ -282,7 +195,11 @@ const UnifiedSelection: React.FC = () => {
                     {item.description && (
                       <p className="text-gray-600 text-sm mt-1">{item.description}</p>
                     )}
-                    <p className="text-blue-600 font-medium mt-2">€{item.price.toFixed(2)}</p>
+                    <p className="text-blue-600 font-medium mt-2">
+                      {item.is_custom_price || item.price === null
+                        ? 'Price on request'
+                        : `€${Number(item.price).toFixed(2)}`}
+                    </p>
                   </div>
                   
                   <div className="flex items-center space-x-3">
@@ -344,12 +261,7 @@ const UnifiedSelection: React.FC = () => {
               </div>
 
               <motion.button
-                onClick={() => Object.keys(selectedItems).length > 0 && navigate('/order/address', { 
-                  state: { 
-                    service,
-                    items: selectedItems
-                  }
-                })}
+                onClick={() => Object.keys(selectedItems).length > 0 && navigate('/order/address')}
                 className={`flex items-center px-6 py-3 rounded-xl font-medium transition-all duration-300 ${
                   Object.keys(selectedItems).length > 0
                     ? serviceInfo.color + ' text-white shadow-lg hover:shadow-xl'
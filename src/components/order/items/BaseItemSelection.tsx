@@ -3,6 +3,7 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { Search, Plus, Minus, ArrowLeft, ArrowRight, ShoppingBag, Info, Tag, Star, Check } from 'lucide-react';
 import { useServices } from '../../../contexts/ServicesContext';
+import { useCart } from '../../../contexts/CartContext';
 
 interface ServiceInfo {
   id: string;
@@ -19,13 +20,6 @@ interface BaseItemSelectionProps {
   serviceInfo: ServiceInfo;
 }
 
-interface SelectedItem {
-  id: string;
-  name: string;
-  price: number | null;
-  quantity: number;
-}
-
 const BaseItemSelection: React.FC<BaseItemSelectionProps> = ({
   service,
   serviceInfo
@@ -33,13 +27,16 @@ const BaseItemSelection: React.FC<BaseItemSelectionProps> = ({
   const navigate = useNavigate();
   const location = useLocation();
   const { categories, items, getServiceCategories, getCategoryItems } = useServices();
+  const { cart, setItemQuantity } = useCart();
   const [searchTerm, setSearchTerm] = useState('');
-  const [selectedItems, setSelectedItems] = useState<{ [key: string]: SelectedItem }>({});
   const [activeCategory, setActiveCategory] = useState<string | null>(null);
   const [showInfo, setShowInfo] = useState(false);
 
   const availableCategories = getServiceCategories(service);
 
+  // Items picked for another service are not part of this selection
+  const selectedItems = cart.service === service ? cart.items : {};
+
   // Filter items based on active category and search term
   const filteredItems = activeCategory 
     ? getCategoryItems(activeCategory)
@@ -56,41 +53,29 @@ const BaseItemSelection: React.FC<BaseItemSelectionProps> = ({
     0
   );
 
+  // A bag counts once, whatever it is estimated to weigh
   const totalItems = Object.values(selectedItems).reduce(
-    (sum, item) => sum + item.quantity,
+    (sum, item) => sum + (item.pricing_unit === 'kg' ? 1 : item.quantity),
     0
   );
 
+  const hasWeighedItems = Object.values(selectedItems).some(item => item.pricing_unit === 'kg');
+  const totalLabel = hasWeighedItems ? 'Estimated Total' : 'Total Amount';
+
   const handleQuantityChange = (item: any, change: number) => {
     if (item.is_custom_price) {
       navigate('/order/custom-quote', {
         state: {
           item,
+          service,
           returnPath: location.pathname
         }
       });
       return;
     }
 
-    setSelectedItems(prev => {
-      const current = prev[item.id]?.quantity || 0;
-      const newQuantity = Math.max(0, current + change);
-      
-      if (newQuantity === 0) {
-        const { [item.id]: _, ...rest } = prev;
-        return rest;
-      }
-      
-      return {
-        ...prev,
-        [item.id]: {
-          id: item.id,
-          name: item.name,
-          price: item.price,
-          quantity: newQuantity
-        }
-      };
-    });
+    const current = selectedItems[item.id]?.quantity || 0;
+    setItemQuantity(service, item, Math.max(0, current + change));
   };
 
   return (
@@ -260,6 +245,9 @@ const BaseItemSelection: React.FC<BaseItemSelectionProps> = ({
                         {item.price !== null ? (
                           <span className="text-lg font-semibold text-gray-900">
                             €{item.price.toFixed(2)}
+                            {item.pricing_unit === 'kg' && (
+                              <span className="text-sm font-normal text-gray-600"> / kg</span>
+                            )}
                           </span>
                         ) : (
                           <span className={`font-medium ${serviceInfo.color.replace('bg-', 'text-')}`}>
@@ -267,6 +255,11 @@ const BaseItemSelection: React.FC<BaseItemSelectionProps> = ({
                           </span>
                         )}
                       </div>
+                      {item.pricing_unit === 'kg' && (
+                        <p className="text-xs text-gray-500 mt-2">
+                          Estimate the weight, a full bag is about 6 kg. We weigh it at our facility and refund or charge the difference.
+                        </p>
+                      )}
                     </div>
                     
                     <div className="flex items-center space-x-3 ml-4">
@@ -286,10 +279,13 @@ const BaseItemSelection: React.FC<BaseItemSelectionProps> = ({
                             <Minus className="w-4 h-4" />
                           </motion.button>
                           
-                          <div className="w-8 text-center">
+                          <div className={`${item.pricing_unit === 'kg' ? 'w-12' : 'w-8'} text-center`}>
                             <span className="font-semibold text-gray-900">
                               {selectedItems[item.id]?.quantity || 0}
                             </span>
+                            {item.pricing_unit === 'kg' && (
+                              <span className="text-xs text-gray-500"> kg</span>
+                            )}
                           </div>
                           
                           <motion.button
@@ -350,18 +346,13 @@ const BaseItemSelection: React.FC<BaseItemSelectionProps> = ({
 
               {/* Desktop Price */}
               <div className="hidden sm:block">
-                <p className="text-sm text-gray-600">Total Amount</p>
+                <p className="text-sm text-gray-600">{totalLabel}</p>
                 <p className="text-2xl font-bold text-gray-900">€{totalAmount.toFixed(2)}</p>
               </div>
 
               {/* Continue Button */}
               <motion.button
-                onClick={() => Object.keys(selectedItems).length > 0 && navigate('/order/address', { 
-                  state: { 
-                    service,
-                    items: selectedItems
-                  }
-                })}
+                onClick={() => Object.keys(selectedItems).length > 0 && navigate('/order/address')}
                 className={`w-full sm:w-auto flex items-center justify-center px-8 py-4 rounded-xl font-medium transition-all duration-300 ${
                   Object.keys(selectedItems).length > 0
                     ? `${serviceInfo.color} text-white shadow-lg hover:shadow-xl`
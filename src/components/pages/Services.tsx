@@ -1,49 +1,15 @@
 import React from 'react';
 import { motion } from 'framer-motion';
-import { Package, Shirt, Wind, Scissors, ArrowRight } from 'lucide-react';
+import { ArrowRight } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
+import { useServices } from '../../contexts/ServicesContext';
+import { getServiceIcon } from '../../lib/serviceIcons';
 
 const Services: React.FC = () => {
   const navigate = useNavigate();
+  const { services, getFromPrice } = useServices();
 
-  const services = [
-    {
-      id: 'wash',
-      icon: Package,
-      title: 'Eazyy Bag',
-      description: 'Professional washing and folding service for your everyday laundry needs.',
-      price: 'From €2,99/item',
-      color: 'bg-blue-600',
-      lightColor: 'bg-blue-50'
-    },
-    {
-      id: 'iron',
-      icon: Shirt,
-      title: 'Wash & Iron',
-      description: 'Complete laundry service with professional pressing for a crisp finish.',
-      price: 'From €4,99/item',
-      color: 'bg-purple-600',
-      lightColor: 'bg-purple-50'
-    },
-    {
-      id: 'dry-cleaning',
-      icon: Wind,
-      title: 'Dry Cleaning',
-      description: 'Expert dry cleaning for delicate garments and special care items.',
-      price: 'From €9,99/item',
-      color: 'bg-emerald-600',
-      lightColor: 'bg-emerald-50'
-    },
-    {
-      id: 'repairs',
-      icon: Scissors,
-      title: 'Repairs & Alterations',
-      description: 'Professional mending and alteration services for your garments.',
-      price: 'From €6,99/item',
-      color: 'bg-amber-600',
-      lightColor: 'bg-amber-50'
-    }
-  ];
+  const activeServices = services.filter(service => service.status !== false);
 
   const features = [
     'Free Pickup & Delivery',
@@ -79,35 +45,43 @@ const Services: React.FC = () => {
 
         {/* Services Grid */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-8 mb-16">
-          {services.map((service, index) => (
-            <motion.div
-              key={service.id}
-              className="bg-white rounded-2xl shadow-lg overflow-hidden"
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              transition={{ duration: 0.5, delay: index * 0.1 + 0.2 }}
-            >
-              <div className={`${service.lightColor} p-6`}>
-                <div className={`w-14 h-14 ${service.color} rounded-xl flex items-center justify-center text-white mb-6`}>
-                  {React.createElement(service.icon, { size: 28 })}
-                </div>
-                <h2 className="text-2xl font-bold text-gray-900 mb-2">{service.title}</h2>
-                <p className="text-gray-600 mb-4">{service.description}</p>
-                <div className="flex items-center justify-between">
-                  <span className="text-gray-900 font-medium">{service.price}</span>
-                  <motion.button
-                    onClick={() => navigate('/order/service')}
-                    className={`flex items-center px-4 py-2 ${service.color} text-white rounded-xl`}
-                    whileHover={{ scale: 1.05 }}
-                    whileTap={{ scale: 0.95 }}
-                  >
-                    Book Now
-                    <ArrowRight className="w-4 h-4 ml-2" />
-                  </motion.button>
+          {activeServices.map((service, index) => {
+            const fromPrice = getFromPrice(service.service_identifier);
+
+            return (
+              <motion.div
+                key={service.id}
+                className="bg-white rounded-2xl shadow-lg overflow-hidden"
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ duration: 0.5, delay: index * 0.1 + 0.2 }}
+              >
+                <div className={`${service.color_scheme?.secondary || 'bg-blue-50'} p-6`}>
+                  <div className={`w-14 h-14 ${service.color_scheme?.primary || 'bg-blue-600'} rounded-xl flex items-center justify-center text-white mb-6`}>
+                    {React.createElement(getServiceIcon(service.icon), { size: 28 })}
+                  </div>
+                  <h2 className="text-2xl font-bold text-gray-900 mb-2">{service.name}</h2>
+                  <p className="text-gray-600 mb-4">{service.description}</p>
+                  <div className="flex items-center justify-between">
+                    <span className="text-gray-900 font-medium">
+                      {fromPrice !== null
+                        ? `From €${fromPrice.toFixed(2)} ${service.price_unit}`
+                        : 'Price on request'}
+                    </span>
+                    <motion.button
+                      onClick={() => navigate(`/order/items/${service.service_identifier}`)}
+                      className={`flex items-center px-4 py-2 ${service.color_scheme?.primary || 'bg-blue-600'} text-white rounded-xl`}
+                      whileHover={{ scale: 1.05 }}
+                      whileTap={{ scale: 0.95 }}
+                    >
+                      Book Now
+                      <ArrowRight className="w-4 h-4 ml-2" />
+                    </motion.button>
+                  </div>
                 </div>
-              </div>
-            </motion.div>
-          ))}
+              </motion.div>
+            );
+          })}
         </div>
 
         {/* Features */}
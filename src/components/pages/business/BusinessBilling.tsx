@@ -1,94 +1,187 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { useNavigate } from 'react-router-dom';
-import { CreditCard, Download, FileText, ChevronDown, ChevronUp, Calendar, ArrowLeft, Filter, Search } from 'lucide-react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { CreditCard, Download, FileText, ChevronDown, ChevronUp, Calendar, ArrowLeft, Filter, Search, Edit, Loader } from 'lucide-react';
+import { useOrganization } from '../../../contexts/OrganizationContext';
+import { supabase } from '../../../lib/supabase';
+import { canManageBilling } from '../../../lib/organizations';
+import { INVOICE_STATUSES, downloadInvoicePdf, vatBreakdown } from '../../../lib/invoices';
+import type { Invoice, InvoiceLine } from '../../../lib/invoices';
+import OrganizationSwitcher from './OrganizationSwitcher';
 
-interface Invoice {
-  id: string;
-  date: string;
-  amount: number;
-  status: 'paid' | 'pending' | 'overdue';
-  items: number;
-}
+const statusFilters = [
+  { id: 'all', label: 'All' },
+  ...INVOICE_STATUSES.map(({ id, label }) => ({ id, label }))
+];
 
 const BusinessBilling: React.FC = () => {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const returnedInvoice = searchParams.get('invoice');
+  const { membership, refreshMemberships } = useOrganization();
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [lines, setLines] = useState<{ [invoiceId: string]: InvoiceLine[] }>({});
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
   const [activeFilter, setActiveFilter] = useState('all');
   const [searchTerm, setSearchTerm] = useState('');
   const [showFilters, setShowFilters] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [editingDetails, setEditingDetails] = useState(false);
+  const [billingEmail, setBillingEmail] = useState('');
+  const [vatNumber, setVatNumber] = useState('');
+  const [billingAddress, setBillingAddress] = useState('');
+  const [saving, setSaving] = useState(false);
 
-  const invoices: Invoice[] = [
-    {
-      id: 'INV-2024-001',
-      date: 'Mar 1, 2024',
-      amount: 1249.99,
-      status: 'paid',
-      items: 124
-    },
-    {
-      id: 'INV-2024-002',
-      date: 'Mar 15, 2024',
-      amount: 899.50,
-      status: 'pending',
-      items: 86
-    },
-    {
-      id: 'INV-2024-003',
-      date: 'Feb 28, 2024',
-      amount: 1599.99,
-      status: 'paid',
-      items: 156
-    },
-    {
-      id: 'INV-2024-004',
-      date: 'Feb 15, 2024',
-      amount: 749.99,
-      status: 'overdue',
-      items: 72
+  const organizationId = membership?.organization_id;
+  const organization = membership?.organizations ?? null;
+  const canManage = canManageBilling(membership?.role ?? null);
+
+  const fetchBilling = useCallback(async () => {
+    if (!organizationId) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      // Orderers cannot read invoices, so they simply see an empty history
+      const { data: invoiceRows, error: invoicesError } = await supabase
+        .from('invoices')
+        .select('*')
+        .match({ organization_id: organizationId })
+        .order('issue_date', { ascending: false });
+
+      if (invoicesError) throw invoicesError;
+      setInvoices((invoiceRows || []) as unknown as Invoice[]);
+    } catch (err) {
+      console.error('Error fetching billing:', err);
+      setError('Failed to load your invoices');
+    } finally {
+      setLoading(false);
+    }
+  }, [organizationId]);
+
+  useEffect(() => {
+    fetchBilling();
+  }, [fetchBilling]);
+
+  const toggleInvoice = async (invoiceId: string) => {
+    if (expandedId === invoiceId) {
+      setExpandedId(null);
+      return;
     }
-  ];
-
-  const paymentMethods = [
-    {
-      id: 'card-1',
-      type: 'visa',
-      last4: '4242',
-      expiry: '12/25',
-      isDefault: true
-    },
-    {
-      id: 'card-2',
-      type: 'mastercard',
-      last4: '8888',
-      expiry: '09/24',
-      isDefault: false
+
+    setExpandedId(invoiceId);
+    if (lines[invoiceId]) return;
+
+    const { data, error: linesError } = await supabase
+      .from('invoice_lines')
+      .select('*')
+      .match({ invoice_id: invoiceId })
+      .order('position', { ascending: true });
+
+    if (linesError) {
+      console.error('Error fetching invoice lines:', linesError);
+      setError('Failed to load the invoice lines');
+      return;
+    }
+
+    setLines(prev => ({ ...prev, [invoiceId]: (data || []) as unknown as InvoiceLine[] }));
+  };
+
+  const handleDownload = async (invoice: Invoice) => {
+    try {
+      setBusyId(invoice.id);
+      setError(null);
+      await downloadInvoicePdf(invoice);
+    } catch (err) {
+      console.error('Error downloading invoice:', err);
+      setError(err instanceof Error ? err.message : 'Failed to download the invoice');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  // Payment status is only ever set by the Mollie webhook
+  const handlePay = async (invoice: Invoice) => {
+    try {
+      setBusyId(invoice.id);
+      setError(null);
+
+      const { data, error: paymentError } = await supabase.functions.invoke('create-invoice-payment', {
+        body: { invoiceId: invoice.id }
+      });
+
+      if (paymentError) throw paymentError;
+      if (!data?.checkoutUrl) throw new Error('No checkout URL received');
+
+      window.location.href = data.checkoutUrl;
+    } catch (err) {
+      console.error('Error paying invoice:', err);
+      setError(err instanceof Error ? err.message : 'Payment processing failed');
+      setBusyId(null);
     }
-  ];
-
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'paid':
-        return 'bg-green-100 text-green-700';
-      case 'pending':
-        return 'bg-yellow-100 text-yellow-700';
-      case 'overdue':
-        return 'bg-red-100 text-red-700';
-      default:
-        return 'bg-gray-100 text-gray-700';
+  };
+
+  const startEditingDetails = () => {
+    setBillingEmail(organization?.billing_email ?? '');
+    setVatNumber(organization?.vat_number ?? '');
+    setBillingAddress(organization?.billing_address ?? '');
+    setEditingDetails(true);
+  };
+
+  const handleSaveDetails = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!membership) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      const { error: saveError } = await supabase.rpc('update_organization_billing', {
+        p_organization_id: membership.organization_id,
+        p_billing_email: billingEmail,
+        p_vat_number: vatNumber,
+        p_billing_address: billingAddress
+      });
+
+      if (saveError) {
+        setError(saveError.message);
+        return;
+      }
+
+      setEditingDetails(false);
+      await refreshMemberships();
+    } catch (err) {
+      console.error('Error saving billing details:', err);
+      setError('Failed to save your billing details');
+    } finally {
+      setSaving(false);
     }
   };
 
+  const getStatusColor = (status: string) =>
+    INVOICE_STATUSES.find(option => option.id === status)?.className ?? 'bg-gray-100 text-gray-700';
+
   const filteredInvoices = invoices.filter(invoice => {
     const matchesFilter = activeFilter === 'all' || invoice.status === activeFilter;
-    const matchesSearch = invoice.id.toLowerCase().includes(searchTerm.toLowerCase());
+    const matchesSearch = invoice.invoice_number.toLowerCase().includes(searchTerm.toLowerCase());
     return matchesFilter && matchesSearch;
   });
 
+  const returned = returnedInvoice
+    ? invoices.find(invoice => invoice.invoice_number === returnedInvoice)
+    : undefined;
+
+  if (!membership) return null;
+
   return (
     <div className="min-h-screen pt-24 pb-12 px-4 sm:px-6 lg:px-8 bg-gradient-to-b from-gray-50 to-white">
       <div className="max-w-7xl mx-auto">
         {/* Header */}
-        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-8">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-8">
           <div>
             <div className="flex items-center gap-4">
               <motion.button
@@ -103,52 +196,103 @@ const BusinessBilling: React.FC = () => {
               </h1>
             </div>
             <p className="text-gray-600 mt-2">
-              Manage your payment methods and view invoice history
+              Delivered orders of {organization?.name ?? 'your organisation'} are billed on one invoice per month
             </p>
           </div>
-          <motion.button
-            onClick={() => navigate('/business/billing/add-payment')}
-            className="mt-4 sm:mt-0 flex items-center px-4 py-2 bg-blue-600 text-white rounded-xl"
-            whileHover={{ scale: 1.05 }}
-            whileTap={{ scale: 0.95 }}
-          >
-            <CreditCard className="w-5 h-5 mr-2" />
-            Add Payment Method
-          </motion.button>
+          <OrganizationSwitcher />
         </div>
 
-        {/* Payment Methods */}
+        {returned && (
+          <div className={`mb-6 p-4 rounded-xl ${returned.status === 'paid' ? 'bg-green-50 text-green-700' : 'bg-blue-50 text-blue-700'}`}>
+            {returned.status === 'paid'
+              ? `Thank you, invoice ${returned.invoice_number} is paid.`
+              : `We are confirming your payment for invoice ${returned.invoice_number}. This can take a minute.`}
+          </div>
+        )}
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 text-red-700 rounded-xl">{error}</div>
+        )}
+
+        {/* Billing Details */}
         <div className="bg-white rounded-2xl shadow-lg p-6 mb-8">
-          <h2 className="text-xl font-bold text-gray-900 mb-6">Payment Methods</h2>
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            {paymentMethods.map((method) => (
-              <motion.div
-                key={method.id}
-                className="flex items-center justify-between p-4 bg-gray-50 rounded-xl"
-                whileHover={{ scale: 1.02 }}
+          <div className="flex justify-between items-center mb-6">
+            <h2 className="text-xl font-bold text-gray-900">Billing Details</h2>
+            {canManage && !editingDetails && (
+              <button
+                onClick={startEditingDetails}
+                className="flex items-center text-blue-600 hover:text-blue-700"
               >
-                <div className="flex items-center">
-                  <div className="w-12 h-12 bg-blue-100 rounded-lg flex items-center justify-center">
-                    <CreditCard className="w-6 h-6 text-blue-600" />
-                  </div>
-                  <div className="ml-4">
-                    <div className="flex items-center">
-                      <span className="font-medium text-gray-900 capitalize">{method.type}</span>
-                      {method.isDefault && (
-                        <span className="ml-2 px-2 py-1 bg-blue-100 text-blue-700 text-xs rounded-full">
-                          Default
-                        </span>
-                      )}
-                    </div>
-                    <span className="text-gray-600">•••• {method.last4} | Expires {method.expiry}</span>
-                  </div>
-                </div>
-                <button className="text-gray-400 hover:text-gray-600">
-                  <ChevronDown className="w-5 h-5" />
-                </button>
-              </motion.div>
-            ))}
+                <Edit className="w-4 h-4 mr-1" />
+                Edit
+              </button>
+            )}
           </div>
+
+          {editingDetails ? (
+            <form onSubmit={handleSaveDetails} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Billing email</label>
+                <input
+                  type="email"
+                  value={billingEmail}
+                  onChange={(e) => setBillingEmail(e.target.value)}
+                  required
+                  className="w-full px-4 py-2 rounded-xl border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">VAT number</label>
+                <input
+                  type="text"
+                  value={vatNumber}
+                  onChange={(e) => setVatNumber(e.target.value)}
+                  placeholder="NL123456789B01"
+                  className="w-full px-4 py-2 rounded-xl border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200"
+                />
+              </div>
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-2">Billing address</label>
+                <textarea
+                  value={billingAddress}
+                  onChange={(e) => setBillingAddress(e.target.value)}
+                  rows={3}
+                  className="w-full px-4 py-2 rounded-xl border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200"
+                />
+              </div>
+              <div className="md:col-span-2 flex justify-end gap-3">
+                <button
+                  type="button"
+                  onClick={() => setEditingDetails(false)}
+                  className="px-4 py-2 rounded-xl text-gray-600 hover:bg-gray-100"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="px-4 py-2 rounded-xl bg-blue-600 text-white disabled:bg-gray-400"
+                >
+                  {saving ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            </form>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="p-4 bg-gray-50 rounded-xl">
+                <div className="text-sm text-gray-600">Billing email</div>
+                <div className="font-medium text-gray-900">{organization?.billing_email ?? '—'}</div>
+              </div>
+              <div className="p-4 bg-gray-50 rounded-xl">
+                <div className="text-sm text-gray-600">VAT number</div>
+                <div className="font-medium text-gray-900">{organization?.vat_number ?? '—'}</div>
+              </div>
+              <div className="p-4 bg-gray-50 rounded-xl">
+                <div className="text-sm text-gray-600">Billing address</div>
+                <div className="font-medium text-gray-900 whitespace-pre-line">{organization?.billing_address ?? '—'}</div>
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Invoices */}
@@ -186,19 +330,19 @@ const BusinessBilling: React.FC = () => {
                 className="mb-6"
               >
                 <div className="flex flex-wrap gap-2">
-                  {['all', 'paid', 'pending', 'overdue'].map((filter) => (
+                  {statusFilters.map((filter) => (
                     <motion.button
-                      key={filter}
-                      onClick={() => setActiveFilter(filter)}
-                      className={`px-4 py-2 rounded-xl capitalize ${
-                        activeFilter === filter
+                      key={filter.id}
+                      onClick={() => setActiveFilter(filter.id)}
+                      className={`px-4 py-2 rounded-xl ${
+                        activeFilter === filter.id
                           ? 'bg-blue-600 text-white'
                           : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
                       }`}
                       whileHover={{ scale: 1.05 }}
                       whileTap={{ scale: 0.95 }}
                     >
-                      {filter}
+                      {filter.label}
                     </motion.button>
                   ))}
                 </div>
@@ -206,49 +350,153 @@ const BusinessBilling: React.FC = () => {
             )}
           </AnimatePresence>
 
-          <div className="space-y-4">
-            {filteredInvoices.map((invoice) => (
-              <motion.div
-                key={invoice.id}
-                className="flex items-center justify-between p-4 bg-gray-50 rounded-xl"
-                whileHover={{ scale: 1.02 }}
-              >
-                <div className="flex items-center">
-                  <div className="w-10 h-10 bg-blue-100 rounded-lg flex items-center justify-center">
-                    <FileText className="w-5 h-5 text-blue-600" />
-                  </div>
-                  <div className="ml-4">
-                    <div className="flex items-center gap-3">
-                      <span className="font-medium text-gray-900">{invoice.id}</span>
-                      <span className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${getStatusColor(invoice.status)}`}>
-                        {invoice.status}
-                      </span>
-                    </div>
-                    <div className="text-sm text-gray-600">
-                      <Calendar className="w-4 h-4 inline mr-1" />
-                      {invoice.date} • {invoice.items} items
+          {loading ? (
+            <div className="py-12 flex justify-center">
+              <Loader className="w-8 h-8 text-blue-600 animate-spin" />
+            </div>
+          ) : filteredInvoices.length === 0 ? (
+            <div className="py-12 text-center text-gray-600">
+              {invoices.length === 0
+                ? 'No invoices yet. Your first invoice is sent at the start of the month after your first delivery.'
+                : 'No invoices match your search'}
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {filteredInvoices.map((invoice) => {
+                const expanded = expandedId === invoice.id;
+                const invoiceLines = lines[invoice.id];
+
+                return (
+                  <div key={invoice.id} className="bg-gray-50 rounded-xl">
+                    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 p-4">
+                      <button
+                        onClick={() => toggleInvoice(invoice.id)}
+                        className="flex items-center text-left"
+                      >
+                        <div className="w-10 h-10 bg-blue-100 rounded-lg flex items-center justify-center">
+                          <FileText className="w-5 h-5 text-blue-600" />
+                        </div>
+                        <div className="ml-4">
+                          <div className="flex items-center gap-3">
+                            <span className="font-medium text-gray-900">{invoice.invoice_number}</span>
+                            <span className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${getStatusColor(invoice.status)}`}>
+                              {invoice.status}
+                            </span>
+                          </div>
+                          <div className="text-sm text-gray-600">
+                            <Calendar className="w-4 h-4 inline mr-1" />
+                            {format(new Date(invoice.period_start), 'MMMM yyyy')} • Due {format(new Date(invoice.due_date), 'MMM d, yyyy')}
+                          </div>
+                        </div>
+                        {expanded
+                          ? <ChevronUp className="w-5 h-5 ml-3 text-gray-400" />
+                          : <ChevronDown className="w-5 h-5 ml-3 text-gray-400" />}
+                      </button>
+                      <div className="flex items-center gap-4">
+                        <div className="text-right">
+                          <div className="font-medium text-gray-900">€{Number(invoice.total_amount).toFixed(2)}</div>
+                          <div className="text-xs text-gray-500">incl. €{Number(invoice.vat_amount).toFixed(2)} VAT</div>
+                        </div>
+                        {canManage && invoice.status !== 'paid' && (
+                          <motion.button
+                            onClick={() => handlePay(invoice)}
+                            disabled={busyId === invoice.id}
+                            className="flex items-center px-4 py-2 rounded-xl bg-blue-600 text-white disabled:bg-gray-400"
+                            whileHover={{ scale: 1.05 }}
+                            whileTap={{ scale: 0.95 }}
+                          >
+                            <CreditCard className="w-4 h-4 mr-2" />
+                            Pay
+                          </motion.button>
+                        )}
+                        <motion.button
+                          onClick={() => handleDownload(invoice)}
+                          disabled={busyId === invoice.id}
+                          className="p-2 rounded-xl bg-gray-100 text-gray-600 hover:bg-gray-200 disabled:opacity-50"
+                          whileHover={{ scale: 1.05 }}
+                          whileTap={{ scale: 0.95 }}
+                          title="Download PDF"
+                        >
+                          {busyId === invoice.id
+                            ? <Loader className="w-5 h-5 animate-spin" />
+                            : <Download className="w-5 h-5" />}
+                        </motion.button>
+                      </div>
                     </div>
+
+                    <AnimatePresence>
+                      {expanded && (
+                        <motion.div
+                          initial={{ height: 0, opacity: 0 }}
+                          animate={{ height: 'auto', opacity: 1 }}
+                          exit={{ height: 0, opacity: 0 }}
+                          className="overflow-hidden"
+                        >
+                          <div className="px-4 pb-4">
+                            {!invoiceLines ? (
+                              <Loader className="w-6 h-6 text-blue-600 animate-spin mx-auto" />
+                            ) : (
+                              <>
+                                <table className="w-full text-left text-sm">
+                                  <thead>
+                                    <tr className="border-b border-gray-200 text-gray-600">
+                                      <th className="py-2 pr-4 font-medium">Delivered</th>
+                                      <th className="py-2 pr-4 font-medium">Order</th>
+                                      <th className="py-2 pr-4 font-medium">Description</th>
+                                      <th className="py-2 pr-4 font-medium text-right">Qty</th>
+                                      <th className="py-2 font-medium text-right">Amount</th>
+                                    </tr>
+                                  </thead>
+                                  <tbody>
+                                    {invoiceLines.map(line => (
+                                      <tr key={line.id} className="border-b border-gray-100">
+                                        <td className="py-2 pr-4 text-gray-600">
+                                          {line.delivered_on ? format(new Date(line.delivered_on), 'MMM d') : '—'}
+                                        </td>
+                                        <td className="py-2 pr-4 text-gray-600">{line.order_number}</td>
+                                        <td className="py-2 pr-4 text-gray-900">{line.description}</td>
+                                        <td className="py-2 pr-4 text-right text-gray-600">{line.quantity}</td>
+                                        <td className="py-2 text-right text-gray-900">€{Number(line.net_amount).toFixed(2)}</td>
+                                      </tr>
+                                    ))}
+                                  </tbody>
+                                </table>
+                                <div className="mt-4 ml-auto max-w-xs space-y-1 text-sm">
+                                  <div className="flex justify-between text-gray-600">
+                                    <span>Subtotal excl. VAT</span>
+                                    <span>€{Number(invoice.subtotal).toFixed(2)}</span>
+                                  </div>
+                                  {vatBreakdown(invoiceLines).map(({ rate, net, vat }) => (
+                                    <div key={rate} className="flex justify-between text-gray-600">
+                                      <span>VAT {Math.round(rate * 100)}% over €{net.toFixed(2)}</span>
+                                      <span>€{vat.toFixed(2)}</span>
+                                    </div>
+                                  ))}
+                                  <div className="flex justify-between font-medium text-gray-900 pt-1 border-t border-gray-200">
+                                    <span>Total</span>
+                                    <span>€{Number(invoice.total_amount).toFixed(2)}</span>
+                                  </div>
+                                  {invoice.paid_at && (
+                                    <div className="text-green-700 pt-1">
+                                      Paid on {format(new Date(invoice.paid_at), 'MMM d, yyyy')}
+                                    </div>
+                                  )}
+                                </div>
+                              </>
+                            )}
+                          </div>
+                        </motion.div>
+                      )}
+                    </AnimatePresence>
                   </div>
-                </div>
-                <div className="flex items-center gap-4">
-                  <div className="text-right">
-                    <div className="font-medium text-gray-900">€{invoice.amount.toFixed(2)}</div>
-                  </div>
-                  <motion.button
-                    className="p-2 rounded-xl bg-gray-100 text-gray-600 hover:bg-gray-200"
-                    whileHover={{ scale: 1.05 }}
-                    whileTap={{ scale: 0.95 }}
-                  >
-                    <Download className="w-5 h-5" />
-                  </motion.button>
-                </div>
-              </motion.div>
-            ))}
-          </div>
+                );
+              })}
+            </div>
+          )}
         </div>
       </div>
     </div>
   );
 };
 
-export default BusinessBilling;
\ No newline at end of file
+export default BusinessBilling;
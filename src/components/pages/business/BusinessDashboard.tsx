@@ -1,110 +1,176 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { motion } from 'framer-motion';
 import { useNavigate } from 'react-router-dom';
-import { Package, Calendar, Clock, CreditCard, ChevronRight, ArrowRight, TrendingUp, Users, Bell, FileText, Settings } from 'lucide-react';
+import { format, formatDistanceToNow, startOfMonth } from 'date-fns';
+import { Package, Calendar, Clock, CreditCard, ArrowRight, TrendingUp, Users, Bell, FileText, Settings, Loader } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import { useOrganization } from '../../../contexts/OrganizationContext';
+import { supabase } from '../../../lib/supabase';
+import { canOrder } from '../../../lib/organizations';
+import { getOrderStatusColor, getOrderStatusLabel } from '../../../lib/orderStatus';
+import OrganizationSwitcher from './OrganizationSwitcher';
+
+interface Slot {
+  starts_at: string;
+  ends_at: string;
+}
+
+interface OpenOrder {
+  id: string;
+  order_number: string;
+  status: string;
+  total_amount: number;
+  pickup_slot: Slot | null;
+  delivery_slot: Slot | null;
+}
+
+interface MonthOrder {
+  total_amount: number;
+  status: string;
+  payment_status: string;
+  payment_method: string | null;
+}
+
+interface Notification {
+  id: string;
+  title: string;
+  body: string | null;
+  link: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+// Orders between payment and delivery; pending orders are unpaid drafts
+const OPEN_STATUSES = ['confirmed', 'picked_up', 'processing', 'ready'];
+
+const currency = new Intl.NumberFormat('nl-NL', { style: 'currency', currency: 'EUR' });
+
+const slotLabel = (slot: Slot | null) =>
+  slot ? `${format(new Date(slot.starts_at), 'MMM d, HH:mm')}–${format(new Date(slot.ends_at), 'HH:mm')}` : '—';
 
 const BusinessDashboard: React.FC = () => {
   const navigate = useNavigate();
-  const [activeTab, setActiveTab] = useState('overview');
+  const { membership } = useOrganization();
+  const [openOrders, setOpenOrders] = useState<OpenOrder[]>([]);
+  const [monthSpend, setMonthSpend] = useState(0);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const organizationId = membership?.organization_id;
+  const role = membership?.role ?? null;
+
+  // Owners, admins and viewers see every order of the organisation, orderers
+  // only their own; RLS decides which rows come back
+  const fetchDashboard = useCallback(async () => {
+    if (!organizationId) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [
+        { data: openRows, error: openError },
+        { data: monthRows, error: monthError },
+        { data: notificationRows, error: notificationsError },
+        { count: unread, error: unreadError }
+      ] = await Promise.all([
+        supabase
+          .from('orders')
+          .select('id, order_number, status, total_amount, pickup_slot:delivery_slots!pickup_slot_id(starts_at, ends_at), delivery_slot:delivery_slots!delivery_slot_id(starts_at, ends_at)')
+          .match({ organization_id: organizationId })
+          .filter('status', 'in', `(${OPEN_STATUSES.join(',')})`)
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('orders')
+          .select('total_amount, status, payment_status, payment_method')
+          .match({ organization_id: organizationId })
+          .gte('created_at', startOfMonth(new Date()).toISOString()),
+        supabase
+          .from('notifications')
+          .select('id, title, body, link, read_at, created_at')
+          .order('created_at', { ascending: false })
+          .limit(5),
+        supabase
+          .from('notifications')
+          .select('id', { count: 'exact', head: true })
+          .is('read_at', null)
+      ]);
+
+      if (openError) throw openError;
+      if (monthError) throw monthError;
+      if (notificationsError) throw notificationsError;
+      if (unreadError) throw unreadError;
+
+      setOpenOrders((openRows || []) as unknown as OpenOrder[]);
+
+      // Counted the same way as the reports: paid or placed on the monthly invoice
+      setMonthSpend(((monthRows || []) as unknown as MonthOrder[])
+        .filter(order => order.status !== 'cancelled'
+          && (order.payment_status === 'paid' || order.payment_method === 'invoice'))
+        .reduce((sum, order) => sum + Number(order.total_amount), 0));
+
+      setNotifications((notificationRows || []) as unknown as Notification[]);
+      setUnreadCount(unread ?? 0);
+    } catch (err) {
+      console.error('Error fetching dashboard:', err);
+      setError('Failed to load your dashboard');
+    } finally {
+      setLoading(false);
+    }
+  }, [organizationId]);
+
+  useEffect(() => {
+    fetchDashboard();
+  }, [fetchDashboard]);
 
-  const stats = [
+  const now = new Date();
+  const upcomingPickups = openOrders
+    .filter(order => order.status === 'confirmed' && order.pickup_slot && new Date(order.pickup_slot.ends_at) > now)
+    .sort((a, b) => new Date(a.pickup_slot!.starts_at).getTime() - new Date(b.pickup_slot!.starts_at).getTime());
+  const nextPickup = upcomingPickups[0]?.pickup_slot ?? null;
+
+  const stats: { title: string; value: string; detail?: string; icon: LucideIcon; color: string; lightColor: string }[] = [
     {
-      title: "Active Orders",
-      value: "12",
-      change: "+2",
-      trend: "up",
+      title: 'Open Orders',
+      value: openOrders.length.toString(),
       icon: Package,
-      color: "bg-blue-600",
-      lightColor: "bg-blue-50"
+      color: 'bg-blue-600',
+      lightColor: 'bg-blue-50'
     },
     {
-      title: "Monthly Volume",
-      value: "486 kg",
-      change: "+12%",
-      trend: "up",
+      title: 'Spend This Month',
+      value: currency.format(monthSpend),
       icon: TrendingUp,
-      color: "bg-green-600",
-      lightColor: "bg-green-50"
-    },
-    {
-      title: "Team Members",
-      value: "8",
-      change: "+1",
-      trend: "up",
-      icon: Users,
-      color: "bg-purple-600",
-      lightColor: "bg-purple-50"
+      color: 'bg-green-600',
+      lightColor: 'bg-green-50'
     },
     {
-      title: "Next Pickup",
-      value: "Today",
-      time: "17:00",
+      title: 'Upcoming Pickups',
+      value: upcomingPickups.length.toString(),
+      detail: nextPickup ? `next ${format(new Date(nextPickup.starts_at), 'EEE d MMM, HH:mm')}` : undefined,
       icon: Clock,
-      color: "bg-amber-600",
-      lightColor: "bg-amber-50"
-    }
-  ];
-
-  const recentOrders = [
-    {
-      id: "ORD-2024-001",
-      status: "Processing",
-      items: "24 items",
-      pickup: "Mar 12, 17:00",
-      delivery: "Mar 13, 17:00"
-    },
-    {
-      id: "ORD-2024-002",
-      status: "Scheduled",
-      items: "36 items",
-      pickup: "Mar 13, 17:00",
-      delivery: "Mar 14, 17:00"
+      color: 'bg-amber-600',
+      lightColor: 'bg-amber-50'
     },
     {
-      id: "ORD-2024-003",
-      status: "Completed",
-      items: "18 items",
-      pickup: "Mar 11, 17:00",
-      delivery: "Mar 12, 17:00"
+      title: 'Unread Notifications',
+      value: unreadCount.toString(),
+      icon: Bell,
+      color: 'bg-purple-600',
+      lightColor: 'bg-purple-50'
     }
   ];
 
-  const notifications = [
-    {
-      id: 1,
-      title: "Order Ready for Pickup",
-      message: "Order #ORD-2024-001 is ready for pickup",
-      time: "5 min ago",
-      type: "info"
-    },
-    {
-      id: 2,
-      title: "New Team Member Added",
-      message: "Sarah Johnson has been added to your team",
-      time: "1 hour ago",
-      type: "success"
-    },
-    {
-      id: 3,
-      title: "Monthly Report Available",
-      message: "Your February 2024 report is now available",
-      time: "2 hours ago",
-      type: "info"
-    }
-  ];
+  const quickActions = [
+    { icon: FileText, title: 'View Reports', link: '/business/reports', visible: role !== 'orderer' },
+    { icon: CreditCard, title: 'Billing & Invoices', link: '/business/billing', visible: true },
+    { icon: Users, title: 'Team Management', link: '/business/team', visible: true },
+    { icon: Settings, title: 'Account Settings', link: '/account/settings', visible: true }
+  ].filter(action => action.visible);
 
-  const getStatusColor = (status: string) => {
-    switch (status.toLowerCase()) {
-      case 'processing':
-        return 'bg-blue-100 text-blue-700';
-      case 'scheduled':
-        return 'bg-purple-100 text-purple-700';
-      case 'completed':
-        return 'bg-green-100 text-green-700';
-      default:
-        return 'bg-gray-100 text-gray-700';
-    }
-  };
+  if (!membership) return null;
 
   return (
     <div className="min-h-screen pt-24 pb-12 px-4 sm:px-6 lg:px-8 bg-gradient-to-b from-gray-50 to-white">
@@ -116,147 +182,132 @@ const BusinessDashboard: React.FC = () => {
               Business Dashboard
             </h1>
             <p className="text-gray-600">
-              Welcome back, Hotel Metropolis
+              Welcome back, {membership.organizations?.name ?? 'your organisation'}
             </p>
           </div>
-          <div className="flex items-center gap-4 mt-4 sm:mt-0">
-            <motion.button
-              onClick={() => navigate('/business/schedule')}
-              className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-xl"
-              whileHover={{ scale: 1.05 }}
-              whileTap={{ scale: 0.95 }}
-            >
-              <Calendar className="w-5 h-5 mr-2" />
-              Schedule Pickup
-            </motion.button>
-            <motion.button
-              className="p-2 rounded-xl bg-gray-100 text-gray-600 relative"
-              whileHover={{ scale: 1.05 }}
-              whileTap={{ scale: 0.95 }}
-            >
-              <Bell className="w-5 h-5" />
-              <span className="absolute -top-1 -right-1 w-4 h-4 bg-red-500 text-white text-xs rounded-full flex items-center justify-center">
-                3
-              </span>
-            </motion.button>
+          <div className="flex flex-wrap items-center gap-4 mt-4 sm:mt-0">
+            <OrganizationSwitcher />
+            {canOrder(role) && (
+              <motion.button
+                onClick={() => navigate('/order/service')}
+                className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-xl"
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+              >
+                <Calendar className="w-5 h-5 mr-2" />
+                Schedule Pickup
+              </motion.button>
+            )}
           </div>
         </div>
 
-        {/* Stats Grid */}
-        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
-          {stats.map((stat) => (
-            <motion.div
-              key={stat.title}
-              className={`${stat.lightColor} rounded-2xl p-6`}
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              whileHover={{ scale: 1.02 }}
-            >
-              <div className="flex items-center justify-between mb-4">
-                <div className={`${stat.color} w-12 h-12 rounded-xl flex items-center justify-center text-white`}>
-                  <stat.icon size={24} />
-                </div>
-                {stat.change && (
-                  <span className={`text-sm font-medium ${
-                    stat.trend === 'up' ? 'text-green-600' : 'text-red-600'
-                  }`}>
-                    {stat.change}
-                  </span>
-                )}
-              </div>
-              <h3 className="text-gray-600 text-sm mb-1">{stat.title}</h3>
-              <div className="flex items-baseline">
-                <p className="text-2xl font-bold text-gray-900">{stat.value}</p>
-                {stat.time && (
-                  <span className="ml-2 text-gray-600">{stat.time}</span>
-                )}
-              </div>
-            </motion.div>
-          ))}
-        </div>
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 text-red-700 rounded-xl">{error}</div>
+        )}
 
-        {/* Main Content */}
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
-          {/* Recent Orders */}
-          <div className="lg:col-span-2">
-            <div className="bg-white rounded-2xl shadow-lg p-6">
-              <div className="flex items-center justify-between mb-6">
-                <h2 className="text-xl font-bold text-gray-900">Recent Orders</h2>
-                <motion.button
-                  onClick={() => navigate('/business/orders')}
-                  className="text-blue-600 font-medium flex items-center"
-                  whileHover={{ x: 5 }}
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader className="w-8 h-8 text-blue-600 animate-spin" />
+          </div>
+        ) : (
+          <>
+            {/* Stats Grid */}
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+              {stats.map((stat) => (
+                <motion.div
+                  key={stat.title}
+                  className={`${stat.lightColor} rounded-2xl p-6`}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  whileHover={{ scale: 1.02 }}
                 >
-                  View All
-                  <ChevronRight className="w-4 h-4 ml-1" />
-                </motion.button>
-              </div>
-              <div className="space-y-4">
-                {recentOrders.map((order) => (
-                  <motion.div
-                    key={order.id}
-                    className="flex items-center justify-between p-4 bg-gray-50 rounded-xl"
-                    whileHover={{ scale: 1.02 }}
-                  >
-                    <div>
-                      <div className="flex items-center gap-3 mb-1">
-                        <span className="font-medium text-gray-900">{order.id}</span>
-                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(order.status)}`}>
-                          {order.status}
-                        </span>
-                      </div>
-                      <span className="text-sm text-gray-600">{order.items}</span>
-                    </div>
-                    <div className="text-right">
-                      <div className="text-sm text-gray-600">Pickup: {order.pickup}</div>
-                      <div className="text-sm text-gray-600">Delivery: {order.delivery}</div>
-                    </div>
-                  </motion.div>
-                ))}
-              </div>
+                  <div className={`${stat.color} w-12 h-12 rounded-xl flex items-center justify-center text-white mb-4`}>
+                    <stat.icon size={24} />
+                  </div>
+                  <h3 className="text-gray-600 text-sm mb-1">{stat.title}</h3>
+                  <div className="flex items-baseline">
+                    <p className="text-2xl font-bold text-gray-900">{stat.value}</p>
+                    {stat.detail && (
+                      <span className="ml-2 text-sm text-gray-600">{stat.detail}</span>
+                    )}
+                  </div>
+                </motion.div>
+              ))}
             </div>
-          </div>
 
-          {/* Notifications */}
-          <div className="lg:col-span-1">
-            <div className="bg-white rounded-2xl shadow-lg p-6">
-              <div className="flex items-center justify-between mb-6">
-                <h2 className="text-xl font-bold text-gray-900">Notifications</h2>
-                <motion.button
-                  className="text-blue-600 font-medium flex items-center"
-                  whileHover={{ x: 5 }}
-                >
-                  View All
-                  <ChevronRight className="w-4 h-4 ml-1" />
-                </motion.button>
+            {/* Main Content */}
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+              {/* Open Orders */}
+              <div className="lg:col-span-2">
+                <div className="bg-white rounded-2xl shadow-lg p-6">
+                  <h2 className="text-xl font-bold text-gray-900 mb-6">Open Orders</h2>
+                  {openOrders.length === 0 ? (
+                    <p className="text-gray-600">No orders on their way right now</p>
+                  ) : (
+                    <div className="space-y-4">
+                      {openOrders.map((order) => (
+                        <motion.div
+                          key={order.id}
+                          className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 p-4 bg-gray-50 rounded-xl"
+                          whileHover={{ scale: 1.02 }}
+                        >
+                          <div>
+                            <div className="flex items-center gap-3 mb-1">
+                              <span className="font-medium text-gray-900">{order.order_number}</span>
+                              <span className={`px-2 py-1 rounded-full text-xs font-medium ${getOrderStatusColor(order.status)}`}>
+                                {getOrderStatusLabel(order.status)}
+                              </span>
+                            </div>
+                            <span className="text-sm text-gray-600">{currency.format(Number(order.total_amount))}</span>
+                          </div>
+                          <div className="sm:text-right">
+                            <div className="text-sm text-gray-600">Pickup: {slotLabel(order.pickup_slot)}</div>
+                            <div className="text-sm text-gray-600">Delivery: {slotLabel(order.delivery_slot)}</div>
+                          </div>
+                        </motion.div>
+                      ))}
+                    </div>
+                  )}
+                </div>
               </div>
-              <div className="space-y-4">
-                {notifications.map((notification) => (
-                  <motion.div
-                    key={notification.id}
-                    className="p-4 bg-gray-50 rounded-xl"
-                    whileHover={{ scale: 1.02 }}
-                  >
-                    <div className="flex items-start justify-between mb-1">
-                      <h3 className="font-medium text-gray-900">{notification.title}</h3>
-                      <span className="text-xs text-gray-500">{notification.time}</span>
+
+              {/* Notifications */}
+              <div className="lg:col-span-1">
+                <div className="bg-white rounded-2xl shadow-lg p-6">
+                  <h2 className="text-xl font-bold text-gray-900 mb-6">Notifications</h2>
+                  {notifications.length === 0 ? (
+                    <p className="text-gray-600">Nothing new</p>
+                  ) : (
+                    <div className="space-y-4">
+                      {notifications.map((notification) => (
+                        <motion.button
+                          key={notification.id}
+                          onClick={() => notification.link && navigate(notification.link)}
+                          className={`w-full text-left p-4 rounded-xl ${notification.read_at ? 'bg-gray-50' : 'bg-blue-50'}`}
+                          whileHover={{ scale: 1.02 }}
+                        >
+                          <div className="flex items-start justify-between gap-2 mb-1">
+                            <h3 className="font-medium text-gray-900">{notification.title}</h3>
+                            <span className="text-xs text-gray-500 whitespace-nowrap">
+                              {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                            </span>
+                          </div>
+                          {notification.body && (
+                            <p className="text-sm text-gray-600">{notification.body}</p>
+                          )}
+                        </motion.button>
+                      ))}
                     </div>
-                    <p className="text-sm text-gray-600">{notification.message}</p>
-                  </motion.div>
-                ))}
+                  )}
+                </div>
               </div>
             </div>
-          </div>
-        </div>
+          </>
+        )}
 
         {/* Quick Actions */}
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6 mt-8">
-          {[
-            { icon: FileText, title: 'View Reports', link: '/business/reports' },
-            { icon: CreditCard, title: 'Billing & Invoices', link: '/business/billing' },
-            { icon: Users, title: 'Team Management', link: '/business/team' },
-            { icon: Settings, title: 'Account Settings', link: '/business/settings' }
-          ].map((action) => (
+          {quickActions.map((action) => (
             <motion.button
               key={action.title}
               onClick={() => navigate(action.link)}
@@ -275,4 +326,4 @@ const BusinessDashboard: React.FC = () => {
   );
 };
 
-export default BusinessDashboard;
\ No newline at end of file
+export default BusinessDashboard;
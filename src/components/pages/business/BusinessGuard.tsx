@@ -0,0 +1,76 @@
+import React from 'react';
+import { Navigate, Link, useLocation } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { Loader, Building2, ShieldOff } from 'lucide-react';
+import { useAuth } from '../../../contexts/AuthContext';
+import { useOrganization } from '../../../contexts/OrganizationContext';
+import type { OrganizationRole } from '../../../lib/organizations';
+
+interface BusinessGuardProps {
+  children: React.ReactNode;
+  roles?: OrganizationRole[];
+}
+
+// Keeps the business portal to members of an active organisation; the
+// organisation functions and RLS check the same roles on the data itself
+const BusinessGuard: React.FC<BusinessGuardProps> = ({ children, roles }) => {
+  const location = useLocation();
+  const { user } = useAuth();
+  const { membership, loading } = useOrganization();
+
+  if (loading) {
+    return (
+      <div className="min-h-screen pt-24 pb-12 flex justify-center">
+        <Loader className="w-8 h-8 text-blue-600 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/login" replace state={{ returnTo: location.pathname + location.search }} />;
+  }
+
+  if (!membership) {
+    return (
+      <div className="min-h-screen pt-24 pb-12 px-4 sm:px-6 lg:px-8 bg-gradient-to-b from-gray-50 to-white">
+        <div className="max-w-xl mx-auto text-center bg-white rounded-2xl shadow-lg p-8">
+          <Building2 className="w-12 h-12 text-blue-600 mx-auto mb-4" />
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">No business account yet</h1>
+          <p className="text-gray-600 mb-6">
+            Register your business, or ask your company to invite you using this email address.
+          </p>
+          <Link to="/business/register">
+            <motion.span
+              className="inline-block px-6 py-3 bg-blue-600 text-white rounded-xl"
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+            >
+              Register Your Business
+            </motion.span>
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  if (roles && !roles.includes(membership.role)) {
+    return (
+      <div className="min-h-screen pt-24 pb-12 px-4 flex items-center justify-center">
+        <div className="text-center max-w-md">
+          <ShieldOff className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">No access</h1>
+          <p className="text-gray-600 mb-6">
+            Your role in {membership.organizations?.name ?? 'this organisation'} does not include this page. Ask an owner or admin if you need it.
+          </p>
+          <Link to="/business/dashboard" className="text-blue-600 hover:text-blue-700 font-medium">
+            Back to the dashboard
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+};
+
+export default BusinessGuard;
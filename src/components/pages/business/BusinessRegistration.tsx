@@ -70,6 +70,15 @@ const BusinessRegistration: React.FC = () => {
 
       if (dbError) throw dbError;
 
+      // The inquiry is saved; a failed notification only shows up in the logs
+      const { error: notifyError } = await supabase.functions.invoke('business-registration', {
+        body: { registration: formData }
+      });
+
+      if (notifyError) {
+        console.error('Error notifying sales:', notifyError);
+      }
+
       // Navigate to success page
       navigate('/business/success', { 
         state: { 
@@ -1,103 +1,361 @@
-import React, { useState } from 'react';
-import { motion, AnimatePresence } from 'framer-motion';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { motion } from 'framer-motion';
 import { useNavigate } from 'react-router-dom';
-import { FileText, Download, Calendar, ArrowLeft, Filter, Search, TrendingUp, Package, DollarSign } from 'lucide-react';
-
-interface Report {
-  id: string;
-  name: string;
-  type: string;
-  date: string;
-  size: string;
-  status: 'ready' | 'generating' | 'failed';
+import { format, addDays, parseISO, startOfDay, startOfMonth, startOfYear, subMonths } from 'date-fns';
+import { Download, ArrowLeft, TrendingUp, Package, Clock, FileSpreadsheet, Loader } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import { useOrganization } from '../../../contexts/OrganizationContext';
+import { supabase } from '../../../lib/supabase';
+import { downloadCsv, downloadXlsx } from '../../../lib/reports';
+import type { ReportTable } from '../../../lib/reports';
+import { formatQuantity } from '../../../lib/weighing';
+import OrganizationSwitcher from './OrganizationSwitcher';
+
+interface MonthlySpend {
+  month: string;
+  order_count: number;
+  net_amount: number;
+  vat_amount: number;
+  total_amount: number;
+}
+
+interface CategorySpend {
+  category_name: string;
+  item_count: number;
+  // Weighed kilos of the bags in the category
+  weight_kg: number;
+  net_amount: number;
+}
+
+interface MemberSpend {
+  user_id: string;
+  email: string | null;
+  first_name: string | null;
+  last_name: string | null;
+  department: string | null;
+  order_count: number;
+  total_amount: number;
+}
+
+interface CostCentreSpend {
+  cost_centre: string | null;
+  order_count: number;
+  total_amount: number;
+}
+
+interface DeliveryPerformance {
+  delivered_count: number;
+  on_time_count: number;
 }
 
+const currency = new Intl.NumberFormat('nl-NL', { style: 'currency', currency: 'EUR' });
+
+const presets = [
+  { id: 'month', label: 'This month', from: () => startOfMonth(new Date()) },
+  { id: 'quarter', label: 'Last 3 months', from: () => startOfMonth(subMonths(new Date(), 2)) },
+  { id: 'year', label: 'This year', from: () => startOfYear(new Date()) }
+];
+
+const memberName = (member: MemberSpend) =>
+  [member.first_name, member.last_name].filter(Boolean).join(' ') || member.email || 'Former member';
+
+const MonthlyChart: React.FC<{ months: MonthlySpend[] }> = ({ months }) => {
+  const maxTotal = Math.max(1, ...months.map(month => month.total_amount));
+
+  return (
+    <div>
+      <div className="flex items-end h-48 gap-2">
+        {months.map(month => (
+          <div key={month.month} className="flex-1 h-full flex flex-col justify-end group relative">
+            <div
+              className="bg-blue-600 rounded-t group-hover:bg-blue-700 transition-colors"
+              style={{ height: `${(month.total_amount / maxTotal) * 100}%`, minHeight: month.order_count > 0 ? 2 : 0 }}
+            />
+            <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 hidden group-hover:block whitespace-nowrap bg-gray-900 text-white text-xs rounded-lg px-2 py-1 z-10">
+              {format(parseISO(month.month), 'MMMM yyyy')} · {month.order_count} orders · {currency.format(month.total_amount)}
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-2 mt-2">
+        {months.map(month => (
+          <span key={month.month} className="flex-1 text-center text-xs text-gray-500">
+            {format(parseISO(month.month), 'MMM')}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const BarList: React.FC<{ rows: { label: string; detail: string; value: number }[] }> = ({ rows }) => {
+  const total = rows.reduce((sum, row) => sum + row.value, 0);
+
+  if (rows.length === 0) {
+    return <p className="text-sm text-gray-500">No orders in this period</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {rows.map(row => (
+        <div key={row.label}>
+          <div className="flex justify-between text-sm mb-1">
+            <span className="text-gray-900">{row.label}</span>
+            <span className="text-gray-600">{row.detail}</span>
+          </div>
+          <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-blue-600 rounded-full"
+              style={{ width: `${total > 0 ? (row.value / total) * 100 : 0}%` }}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
 const BusinessReports: React.FC = () => {
   const navigate = useNavigate();
-  const [searchTerm, setSearchTerm] = useState('');
-  const [showFilters, setShowFilters] = useState(false);
-  const [activeFilter, setActiveFilter] = useState('all');
+  const { membership } = useOrganization();
+  const [range, setRange] = useState(() => ({
+    from: format(startOfMonth(subMonths(new Date(), 2)), 'yyyy-MM-dd'),
+    to: format(new Date(), 'yyyy-MM-dd')
+  }));
+  const [monthly, setMonthly] = useState<MonthlySpend[]>([]);
+  const [categories, setCategories] = useState<CategorySpend[]>([]);
+  const [members, setMembers] = useState<MemberSpend[]>([]);
+  const [costCentres, setCostCentres] = useState<CostCentreSpend[]>([]);
+  const [delivery, setDelivery] = useState<DeliveryPerformance>({ delivered_count: 0, on_time_count: 0 });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  const organizationId = membership?.organization_id;
+
+  const fetchReports = useCallback(async () => {
+    if (!organizationId || !range.from || !range.to || range.from > range.to) return;
+
+    try {
+      setLoading(true);
+      setError(null);
 
-  const reports: Report[] = [
+      // Date inputs are in local time, the end day is inclusive
+      const params = {
+        p_organization_id: organizationId,
+        p_from: startOfDay(parseISO(range.from)).toISOString(),
+        p_to: addDays(startOfDay(parseISO(range.to)), 1).toISOString()
+      };
+
+      const [
+        { data: monthlyData, error: monthlyError },
+        { data: categoryData, error: categoryError },
+        { data: memberData, error: memberError },
+        { data: costCentreData, error: costCentreError },
+        { data: deliveryData, error: deliveryError }
+      ] = await Promise.all([
+        supabase.rpc('get_organization_monthly_spend', params),
+        supabase.rpc('get_organization_category_breakdown', params),
+        supabase.rpc('get_organization_member_spend', params),
+        supabase.rpc('get_organization_cost_centre_spend', params),
+        supabase.rpc('get_organization_delivery_performance', params)
+      ]);
+
+      if (monthlyError) throw monthlyError;
+      if (categoryError) throw categoryError;
+      if (memberError) throw memberError;
+      if (costCentreError) throw costCentreError;
+      if (deliveryError) throw deliveryError;
+
+      // Postgres numerics arrive as strings
+      setMonthly(((monthlyData || []) as unknown as MonthlySpend[]).map(row => ({
+        ...row,
+        order_count: Number(row.order_count),
+        net_amount: Number(row.net_amount),
+        vat_amount: Number(row.vat_amount),
+        total_amount: Number(row.total_amount)
+      })));
+      setCategories(((categoryData || []) as unknown as CategorySpend[]).map(row => ({
+        ...row,
+        item_count: Number(row.item_count),
+        weight_kg: Number(row.weight_kg),
+        net_amount: Number(row.net_amount)
+      })));
+      setMembers(((memberData || []) as unknown as MemberSpend[]).map(row => ({
+        ...row,
+        order_count: Number(row.order_count),
+        total_amount: Number(row.total_amount)
+      })));
+      setCostCentres(((costCentreData || []) as unknown as CostCentreSpend[]).map(row => ({
+        ...row,
+        order_count: Number(row.order_count),
+        total_amount: Number(row.total_amount)
+      })));
+
+      const performance = ((deliveryData || []) as unknown as DeliveryPerformance[])[0];
+      setDelivery({
+        delivered_count: Number(performance?.delivered_count ?? 0),
+        on_time_count: Number(performance?.on_time_count ?? 0)
+      });
+    } catch (err) {
+      console.error('Error fetching reports:', err);
+      setError('Failed to load your reports');
+    } finally {
+      setLoading(false);
+    }
+  }, [organizationId, range]);
+
+  useEffect(() => {
+    fetchReports();
+  }, [fetchReports]);
+
+  const totalSpend = monthly.reduce((sum, month) => sum + month.total_amount, 0);
+  const orderCount = monthly.reduce((sum, month) => sum + month.order_count, 0);
+  const onTimeRate = delivery.delivered_count > 0 ? delivery.on_time_count / delivery.delivered_count : null;
+
+  const stats: { title: string; value: string; icon: LucideIcon; color: string; lightColor: string }[] = [
     {
-      id: 'REP-2024-001',
-      name: 'Monthly Activity Report',
-      type: 'activity',
-      date: 'Mar 1, 2024',
-      size: '2.4 MB',
-      status: 'ready'
+      title: 'Total Spend',
+      value: currency.format(totalSpend),
+      icon: TrendingUp,
+      color: 'bg-blue-600',
+      lightColor: 'bg-blue-50'
     },
     {
-      id: 'REP-2024-002',
-      name: 'Financial Summary',
-      type: 'financial',
-      date: 'Mar 1, 2024',
-      size: '1.8 MB',
-      status: 'ready'
+      title: 'Orders',
+      value: orderCount.toLocaleString('nl-NL'),
+      icon: Package,
+      color: 'bg-green-600',
+      lightColor: 'bg-green-50'
     },
     {
-      id: 'REP-2024-003',
-      name: 'Usage Analytics',
-      type: 'analytics',
-      date: 'Mar 15, 2024',
-      size: '3.2 MB',
-      status: 'generating'
+      title: 'Average Order',
+      value: currency.format(orderCount > 0 ? totalSpend / orderCount : 0),
+      icon: FileSpreadsheet,
+      color: 'bg-purple-600',
+      lightColor: 'bg-purple-50'
+    },
+    {
+      title: 'On-time Delivery',
+      value: onTimeRate === null ? '—' : `${(onTimeRate * 100).toFixed(1)}%`,
+      icon: Clock,
+      color: 'bg-amber-600',
+      lightColor: 'bg-amber-50'
     }
   ];
 
-  const stats = [
+  const tables = useMemo<ReportTable[]>(() => [
     {
-      title: "Total Orders",
-      value: "486",
-      change: "+12%",
-      icon: Package,
-      color: "bg-blue-600",
-      lightColor: "bg-blue-50"
+      id: 'monthly-spend',
+      title: 'Spend per month',
+      columns: [
+        { label: 'Month' },
+        { label: 'Orders', type: 'number' },
+        { label: 'Excl. VAT', type: 'currency' },
+        { label: 'VAT', type: 'currency' },
+        { label: 'Total', type: 'currency' }
+      ],
+      rows: monthly.map(month => [
+        format(parseISO(month.month), 'yyyy-MM'),
+        month.order_count,
+        month.net_amount,
+        month.vat_amount,
+        month.total_amount
+      ])
     },
     {
-      title: "Revenue",
-      value: "€24,486",
-      change: "+8%",
-      icon: DollarSign,
-      color: "bg-green-600",
-      lightColor: "bg-green-50"
+      id: 'categories',
+      title: 'Items per category',
+      columns: [
+        { label: 'Category' },
+        { label: 'Items', type: 'number' },
+        { label: 'Weight (kg)', type: 'decimal' },
+        { label: 'Excl. VAT', type: 'currency' }
+      ],
+      rows: categories.map(category => [
+        category.category_name,
+        category.item_count,
+        category.weight_kg,
+        category.net_amount
+      ])
     },
     {
-      title: "Growth",
-      value: "18%",
-      change: "+2%",
-      icon: TrendingUp,
-      color: "bg-purple-600",
-      lightColor: "bg-purple-50"
+      id: 'team-members',
+      title: 'Spend per team member',
+      columns: [
+        { label: 'Name' },
+        { label: 'Email' },
+        { label: 'Department' },
+        { label: 'Orders', type: 'number' },
+        { label: 'Total', type: 'currency' }
+      ],
+      rows: members.map(member => [
+        memberName(member),
+        member.email,
+        member.department,
+        member.order_count,
+        member.total_amount
+      ])
+    },
+    {
+      id: 'cost-centres',
+      title: 'Spend per cost centre',
+      columns: [
+        { label: 'Cost centre' },
+        { label: 'Orders', type: 'number' },
+        { label: 'Total', type: 'currency' }
+      ],
+      rows: costCentres.map(centre => [centre.cost_centre ?? 'Unassigned', centre.order_count, centre.total_amount])
+    },
+    {
+      id: 'delivery',
+      title: 'Delivery performance',
+      columns: [
+        { label: 'Delivered orders', type: 'number' },
+        { label: 'On time', type: 'number' },
+        { label: 'On-time rate', type: 'percent' }
+      ],
+      rows: [[delivery.delivered_count, delivery.on_time_count, onTimeRate]]
     }
-  ];
+  ], [monthly, categories, members, costCentres, delivery, onTimeRate]);
+
+  const fileName = (suffix: string, extension: string) =>
+    `${membership?.organizations?.name ?? 'eazyy'} ${suffix} ${range.from} to ${range.to}.${extension}`;
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'ready':
-        return 'bg-green-100 text-green-700';
-      case 'generating':
-        return 'bg-yellow-100 text-yellow-700';
-      case 'failed':
-        return 'bg-red-100 text-red-700';
-      default:
-        return 'bg-gray-100 text-gray-700';
+  const exportCsv = (tableId: string) => {
+    const table = tables.find(candidate => candidate.id === tableId);
+    if (table) downloadCsv(table, fileName(table.title.toLowerCase(), 'csv'));
+  };
+
+  const exportXlsx = async () => {
+    try {
+      setExporting(true);
+      await downloadXlsx(tables, fileName('report', 'xlsx'));
+    } catch (err) {
+      console.error('Error exporting report:', err);
+      setError('Failed to export the report');
+    } finally {
+      setExporting(false);
     }
   };
 
-  const filteredReports = reports.filter(report => {
-    const matchesSearch = 
-      report.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      report.type.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesFilter = activeFilter === 'all' || report.type === activeFilter;
-    return matchesSearch && matchesFilter;
-  });
+  const csvButton = (tableId: string) => (
+    <button
+      onClick={() => exportCsv(tableId)}
+      className="flex items-center text-sm text-blue-600 hover:text-blue-700"
+    >
+      <Download className="w-4 h-4 mr-1" />
+      CSV
+    </button>
+  );
+
+  if (!membership) return null;
 
   return (
     <div className="min-h-screen pt-24 pb-12 px-4 sm:px-6 lg:px-8 bg-gradient-to-b from-gray-50 to-white">
       <div className="max-w-7xl mx-auto">
         {/* Header */}
-        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-8">
+        <div className="flex flex-col lg:flex-row justify-between items-start lg:items-center gap-4 mb-8">
           <div>
             <div className="flex items-center gap-4">
               <motion.button
@@ -112,131 +370,190 @@ const BusinessReports: React.FC = () => {
               </h1>
             </div>
             <p className="text-gray-600 mt-2">
-              View and download your business reports
+              Orders of {membership.organizations?.name ?? 'your organisation'} that are paid or billed on invoice
             </p>
           </div>
-        </div>
 
-        {/* Stats Grid */}
-        <div className="grid grid-cols-1 sm:grid-cols-3 gap-6 mb-8">
-          {stats.map((stat) => (
-            <motion.div
-              key={stat.title}
-              className={`${stat.lightColor} rounded-2xl p-6`}
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              whileHover={{ scale: 1.02 }}
-            >
-              <div className="flex items-center justify-between mb-4">
-                <div className={`${stat.color} w-12 h-12 rounded-xl flex items-center justify-center text-white`}>
-                  <stat.icon size={24} />
-                </div>
-                <span className="text-sm font-medium text-green-600">
-                  {stat.change}
-                </span>
-              </div>
-              <h3 className="text-gray-600 text-sm mb-1">{stat.title}</h3>
-              <p className="text-2xl font-bold text-gray-900">{stat.value}</p>
-            </motion.div>
-          ))}
-        </div>
-
-        {/* Search and Filters */}
-        <div className="bg-white rounded-2xl shadow-lg p-6 mb-8">
-          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6">
-            <div className="relative w-full sm:w-auto mb-4 sm:mb-0">
-              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
-              <input
-                type="text"
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-                placeholder="Search reports..."
-                className="w-full sm:w-80 pl-10 pr-4 py-2 rounded-xl border border-gray-200 focus:border-blue-500 focus:ring focus:ring-blue-200"
-              />
-            </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <OrganizationSwitcher />
+            {presets.map(preset => (
+              <button
+                key={preset.id}
+                onClick={() => setRange({
+                  from: format(preset.from(), 'yyyy-MM-dd'),
+                  to: format(new Date(), 'yyyy-MM-dd')
+                })}
+                className="px-3 py-2 rounded-xl border border-gray-300 text-sm text-gray-700 hover:bg-gray-50"
+              >
+                {preset.label}
+              </button>
+            ))}
+            <input
+              type="date"
+              value={range.from}
+              max={range.to}
+              onChange={(e) => setRange(prev => ({ ...prev, from: e.target.value }))}
+              className="px-2 py-2 rounded-xl border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200"
+              aria-label="From"
+            />
+            <input
+              type="date"
+              value={range.to}
+              min={range.from}
+              onChange={(e) => setRange(prev => ({ ...prev, to: e.target.value }))}
+              className="px-2 py-2 rounded-xl border border-gray-300 focus:border-blue-500 focus:ring focus:ring-blue-200"
+              aria-label="Until"
+            />
             <motion.button
-              onClick={() => setShowFilters(!showFilters)}
-              className="flex items-center px-4 py-2 bg-gray-100 text-gray-700 rounded-xl"
+              onClick={exportXlsx}
+              disabled={exporting || loading}
+              className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-xl disabled:bg-gray-400"
               whileHover={{ scale: 1.05 }}
               whileTap={{ scale: 0.95 }}
             >
-              <Filter className="w-5 h-5 mr-2" />
-              Filters
+              <FileSpreadsheet className="w-5 h-5 mr-2" />
+              {exporting ? 'Exporting...' : 'Export XLSX'}
             </motion.button>
           </div>
+        </div>
 
-          <AnimatePresence>
-            {showFilters && (
-              <motion.div
-                initial={{ height: 0, opacity: 0 }}
-                animate={{ height: 'auto', opacity: 1 }}
-                exit={{ height: 0, opacity: 0 }}
-                className="border-t border-gray-100 pt-4"
-              >
-                <div className="flex flex-wrap gap-2">
-                  {['all', 'activity', 'financial', 'analytics'].map((filter) => (
-                    <motion.button
-                      key={filter}
-                      onClick={() => setActiveFilter(filter)}
-                      className={`px-4 py-2 rounded-xl capitalize ${
-                        activeFilter === filter
-                          ? 'bg-blue-600 text-white'
-                          : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-                      }`}
-                      whileHover={{ scale: 1.05 }}
-                      whileTap={{ scale: 0.95 }}
-                    >
-                      {filter}
-                    </motion.button>
-                  ))}
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 text-red-700 rounded-xl">{error}</div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader className="w-8 h-8 text-blue-600 animate-spin" />
+          </div>
+        ) : (
+          <>
+            {/* Stats Grid */}
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+              {stats.map((stat, index) => (
+                <motion.div
+                  key={stat.title}
+                  className={`${stat.lightColor} rounded-2xl p-6`}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ duration: 0.4, delay: index * 0.1 }}
+                >
+                  <div className={`${stat.color} w-12 h-12 rounded-xl flex items-center justify-center text-white mb-4`}>
+                    <stat.icon size={24} />
+                  </div>
+                  <h3 className="text-gray-600 text-sm mb-1">{stat.title}</h3>
+                  <p className="text-2xl font-bold text-gray-900">{stat.value}</p>
+                </motion.div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
+              <div className="lg:col-span-2 bg-white rounded-2xl shadow-lg p-6">
+                <div className="flex justify-between items-center mb-6">
+                  <h2 className="font-semibold text-gray-900">Spend per Month</h2>
+                  {csvButton('monthly-spend')}
                 </div>
-              </motion.div>
-            )}
-          </AnimatePresence>
-        </div>
+                <MonthlyChart months={monthly} />
+              </div>
 
-        {/* Reports List */}
-        <div className="space-y-4">
-          {filteredReports.map((report) => (
-            <motion.div
-              key={report.id}
-              className="bg-white rounded-xl shadow-lg p-6"
-              whileHover={{ scale: 1.01 }}
-            >
-              <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between">
-                <div className="flex items-center mb-4 sm:mb-0">
-                  <div className="w-12 h-12 bg-blue-100 rounded-xl flex items-center justify-center">
-                    <FileText className="w-6 h-6 text-blue-600" />
+              <div className="bg-white rounded-2xl shadow-lg p-6">
+                <div className="flex justify-between items-center mb-6">
+                  <h2 className="font-semibold text-gray-900">Items per Category</h2>
+                  {csvButton('categories')}
+                </div>
+                <BarList
+                  rows={categories.map(category => ({
+                    label: category.category_name,
+                    detail: [
+                      category.item_count,
+                      category.weight_kg > 0 ? formatQuantity(category.weight_kg, 'kg') : null,
+                      currency.format(category.net_amount)
+                    ].filter(part => part !== null).join(' · '),
+                    value: category.net_amount
+                  }))}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <div className="lg:col-span-2 bg-white rounded-2xl shadow-lg p-6">
+                <div className="flex justify-between items-center mb-6">
+                  <h2 className="font-semibold text-gray-900">Spend per Team Member</h2>
+                  {csvButton('team-members')}
+                </div>
+                {members.length === 0 ? (
+                  <p className="text-sm text-gray-500">No orders in this period</p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-left text-sm">
+                      <thead>
+                        <tr className="border-b border-gray-200 text-gray-600">
+                          <th className="py-2 pr-4 font-medium">Member</th>
+                          <th className="py-2 pr-4 font-medium">Department</th>
+                          <th className="py-2 pr-4 font-medium text-right">Orders</th>
+                          <th className="py-2 font-medium text-right">Total</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {members.map(member => (
+                          <tr key={member.user_id} className="border-b border-gray-100">
+                            <td className="py-2 pr-4">
+                              <div className="text-gray-900">{memberName(member)}</div>
+                              {member.email && <div className="text-xs text-gray-500">{member.email}</div>}
+                            </td>
+                            <td className="py-2 pr-4 text-gray-600">{member.department ?? '—'}</td>
+                            <td className="py-2 pr-4 text-right text-gray-600">{member.order_count}</td>
+                            <td className="py-2 text-right text-gray-900">{currency.format(member.total_amount)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
                   </div>
-                  <div className="ml-4">
-                    <div className="flex items-center">
-                      <h3 className="text-lg font-semibold text-gray-900">{report.name}</h3>
-                      <span className={`ml-3 px-2 py-1 rounded-full text-xs font-medium capitalize ${getStatusColor(report.status)}`}>
-                        {report.status}
-                      </span>
-                    </div>
-                    <div className="flex items-center text-sm text-gray-600">
-                      <Calendar className="w-4 h-4 mr-2" />
-                      {report.date} • {report.size}
-                    </div>
+                )}
+              </div>
+
+              <div className="space-y-6">
+                <div className="bg-white rounded-2xl shadow-lg p-6">
+                  <div className="flex justify-between items-center mb-6">
+                    <h2 className="font-semibold text-gray-900">Spend per Cost Centre</h2>
+                    {csvButton('cost-centres')}
                   </div>
+                  <BarList
+                    rows={costCentres.map(centre => ({
+                      label: centre.cost_centre ?? 'Unassigned',
+                      detail: `${centre.order_count} · ${currency.format(centre.total_amount)}`,
+                      value: centre.total_amount
+                    }))}
+                  />
+                </div>
+
+                <div className="bg-white rounded-2xl shadow-lg p-6">
+                  <div className="flex justify-between items-center mb-4">
+                    <h2 className="font-semibold text-gray-900">Delivery Performance</h2>
+                    {csvButton('delivery')}
+                  </div>
+                  {delivery.delivered_count === 0 ? (
+                    <p className="text-sm text-gray-500">No deliveries in this period</p>
+                  ) : (
+                    <>
+                      <p className="text-sm text-gray-600 mb-2">
+                        {delivery.on_time_count} of {delivery.delivered_count} orders delivered within their delivery slot
+                      </p>
+                      <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                        <div
+                          className="h-full bg-green-600 rounded-full"
+                          style={{ width: `${(onTimeRate ?? 0) * 100}%` }}
+                        />
+                      </div>
+                    </>
+                  )}
                 </div>
-                <motion.button
-                  className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-xl"
-                  whileHover={{ scale: 1.05 }}
-                  whileTap={{ scale: 0.95 }}
-                  disabled={report.status !== 'ready'}
-                >
-                  <Download className="w-5 h-5 mr-2" />
-                  Download
-                </motion.button>
               </div>
-            </motion.div>
-          ))}
-        </div>
+            </div>
+          </>
+        )}
       </div>
     </div>
   );
 };
 
-export default BusinessReports;
\ No newline at end of file
+export default BusinessReports;
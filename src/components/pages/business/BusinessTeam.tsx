@@ -1,54 +1,151 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useNavigate } from 'react-router-dom';
-import { Users, UserPlus, Mail, Phone, Building2, ArrowLeft, Search, Filter, Trash2, Edit, Shield } from 'lucide-react';
-
-interface TeamMember {
-  id: string;
-  name: string;
-  email: string;
-  phone: string;
-  role: string;
-  department: string;
-  status: 'active' | 'pending' | 'inactive';
-}
+import { Users, UserPlus, Mail, Phone, ArrowLeft, Search, Filter, Trash2, Edit, UserX, UserCheck, Loader } from 'lucide-react';
+import { useAuth } from '../../../contexts/AuthContext';
+import { useOrganization } from '../../../contexts/OrganizationContext';
+import { supabase } from '../../../lib/supabase';
+import { ORGANIZATION_ROLES, canManageMembers, canAssignRole } from '../../../lib/organizations';
+import type { OrganizationRole, OrganizationMember, OrganizationInvitation } from '../../../lib/organizations';
+import OrganizationSwitcher from './OrganizationSwitcher';
+
+const roleLabel = (role: OrganizationRole) =>
+  ORGANIZATION_ROLES.find(option => option.id === role)?.label ?? role;
 
 const BusinessTeam: React.FC = () => {
   const navigate = useNavigate();
+  const { user } = useAuth();
+  const { membership, refreshMemberships } = useOrganization();
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [invitations, setInvitations] = useState<OrganizationInvitation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [showFilters, setShowFilters] = useState(false);
   const [activeFilter, setActiveFilter] = useState('all');
   const [showAddMember, setShowAddMember] = useState(false);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<OrganizationRole>('orderer');
+  const [inviteDepartment, setInviteDepartment] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editRole, setEditRole] = useState<OrganizationRole>('orderer');
+  const [editDepartment, setEditDepartment] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const userId = user?.id;
+  const organizationId = membership?.organization_id;
+  const role = membership?.role ?? null;
+  const canManage = canManageMembers(role);
+
+  const fetchTeam = useCallback(async () => {
+    if (!organizationId) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      const { data: memberRows, error: membersError } = await supabase.rpc('list_organization_members', {
+        p_organization_id: organizationId
+      });
+
+      if (membersError) throw membersError;
+      setMembers((memberRows || []) as unknown as OrganizationMember[]);
+
+      // Only owners and admins can read invitations
+      if (canManageMembers(role)) {
+        const { data: invitationRows, error: invitationsError } = await supabase
+          .from('organization_invitations')
+          .select('id, email, role, department, created_at, expires_at')
+          .match({ organization_id: organizationId })
+          .is('accepted_at', null)
+          .order('created_at', { ascending: false });
+
+        if (invitationsError) throw invitationsError;
+        setInvitations((invitationRows || []) as unknown as OrganizationInvitation[]);
+      } else {
+        setInvitations([]);
+      }
+    } catch (err) {
+      console.error('Error fetching team:', err);
+      setError('Failed to load your team');
+    } finally {
+      setLoading(false);
+    }
+  }, [organizationId, role]);
+
+  useEffect(() => {
+    fetchTeam();
+  }, [fetchTeam]);
+
+  // Every change goes through a database function that enforces the role rules
+  const runAction = async (action: () => PromiseLike<{ error: { message: string } | null }>) => {
+    try {
+      setSaving(true);
+      setError(null);
+
+      const { error: actionError } = await action();
+
+      if (actionError) {
+        setError(actionError.message);
+        return false;
+      }
+
+      // The caller's own role may have changed as well
+      await Promise.all([fetchTeam(), refreshMemberships()]);
+      return true;
+    } catch (err) {
+      console.error('Error updating team:', err);
+      setError('Failed to update your team');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!organizationId) return;
 
-  const teamMembers: TeamMember[] = [
-    {
-      id: '1',
-      name: 'Sarah Johnson',
-      email: 'sarah@example.com',
-      phone: '+31 6 1234 5678',
-      role: 'Manager',
-      department: 'Operations',
-      status: 'active'
-    },
-    {
-      id: '2',
-      name: 'Michael Chen',
-      email: 'michael@example.com',
-      phone: '+31 6 2345 6789',
-      role: 'Staff',
-      department: 'Housekeeping',
-      status: 'active'
-    },
-    {
-      id: '3',
-      name: 'Emma Rodriguez',
-      email: 'emma@example.com',
-      phone: '+31 6 3456 7890',
-      role: 'Staff',
-      department: 'Front Desk',
-      status: 'pending'
+    const invited = await runAction(() => supabase.rpc('invite_organization_member', {
+      p_organization_id: organizationId,
+      p_email: inviteEmail,
+      p_role: inviteRole,
+      p_department: inviteDepartment || null
+    }));
+
+    if (invited) {
+      setInviteEmail('');
+      setInviteDepartment('');
+      setShowAddMember(false);
     }
-  ];
+  };
+
+  const startEditing = (member: OrganizationMember) => {
+    setEditingId(member.id);
+    setEditRole(member.role);
+    setEditDepartment(member.department ?? '');
+  };
+
+  const handleSaveMember = async (member: OrganizationMember) => {
+    const saved = await runAction(() => supabase.rpc('update_organization_member', {
+      p_member_id: member.id,
+      p_role: editRole,
+      p_department: editDepartment || null
+    }));
+
+    if (saved) setEditingId(null);
+  };
+
+  const handleToggleActive = (member: OrganizationMember) =>
+    runAction(() => supabase.rpc('set_organization_member_active', {
+      p_member_id: member.id,
+      p_active: member.status !== 'active'
+    }));
+
+  const handleRevoke = (invitation: OrganizationInvitation) =>
+    runAction(() => supabase.rpc('revoke_organization_invitation', {
+      p_invitation_id: invitation.id
+    }));
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -63,15 +160,37 @@ const BusinessTeam: React.FC = () => {
     }
   };
 
-  const filteredMembers = teamMembers.filter(member => {
-    const matchesSearch = 
-      member.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      member.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      member.department.toLowerCase().includes(searchTerm.toLowerCase());
+  const search = searchTerm.toLowerCase();
+
+  const filteredMembers = members.filter(member => {
+    const name = [member.first_name, member.last_name].filter(Boolean).join(' ');
+    const matchesSearch =
+      name.toLowerCase().includes(search) ||
+      member.email.toLowerCase().includes(search) ||
+      (member.department ?? '').toLowerCase().includes(search);
     const matchesFilter = activeFilter === 'all' || member.status === activeFilter;
     return matchesSearch && matchesFilter;
   });
 
+  const filteredInvitations = invitations.filter(invitation => {
+    const matchesSearch =
+      invitation.email.toLowerCase().includes(search) ||
+      (invitation.department ?? '').toLowerCase().includes(search);
+    return matchesSearch && (activeFilter === 'all' || activeFilter === 'pending');
+  });
+
+  const assignableRoles = ORGANIZATION_ROLES.filter(option => canAssignRole(role, option.id));
+
+  if (!membership) return null;
+
+  if (loading && members.length === 0) {
+    return (
+      <div className="min-h-screen pt-24 pb-12 flex justify-center">
+        <Loader className="w-8 h-8 text-blue-600 animate-spin" />
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen pt-24 pb-12 px-4 sm:px-6 lg:px-8 bg-gradient-to-b from-gray-50 to-white">
       <div className="max-w-7xl mx-auto">
@@ -91,20 +210,92 @@ const BusinessTeam: React.FC = () => {
               </h1>
             </div>
             <p className="text-gray-600 mt-2">
-              Manage your team members and their permissions
+              Manage who orders laundry for {membership.organizations?.name ?? 'your organisation'}
             </p>
           </div>
-          <motion.button
-            onClick={() => setShowAddMember(true)}
-            className="mt-4 sm:mt-0 flex items-center px-4 py-2 bg-blue-600 text-white rounded-xl"
-            whileHover={{ scale: 1.05 }}
-            whileTap={{ scale: 0.95 }}
-          >
-            <UserPlus className="w-5 h-5 mr-2" />
-            Add Team Member
-          </motion.button>
+          <div className="flex flex-wrap items-center gap-3 mt-4 sm:mt-0">
+            <OrganizationSwitcher />
+            {canManage && (
+              <motion.button
+                onClick={() => setShowAddMember(!showAddMember)}
+                className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-xl"
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+              >
+                <UserPlus className="w-5 h-5 mr-2" />
+                Add Team Member
+              </motion.button>
+            )}
+          </div>
         </div>
 
+        {error && (
+          <div className="p-4 bg-red-50 text-red-700 rounded-xl mb-8">{error}</div>
+        )}
+
+        <AnimatePresence>
+          {showAddMember && canManage && (
+            <motion.form
+              onSubmit={handleInvite}
+              initial={{ height: 0, opacity: 0 }}
+              animate={{ height: 'auto', opacity: 1 }}
+              exit={{ height: 0, opacity: 0 }}
+              className="bg-white rounded-2xl shadow-lg p-6 mb-8 overflow-hidden"
+            >
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">Invite a Team Member</h2>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <input
+                  type="email"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                  placeholder="colleague@company.com"
+                  required
+                  className="px-4 py-2 rounded-xl border border-gray-200 focus:border-blue-500 focus:ring focus:ring-blue-200"
+                />
+                <select
+                  value={inviteRole}
+                  onChange={(e) => setInviteRole(e.target.value as OrganizationRole)}
+                  className="px-4 py-2 rounded-xl border border-gray-200 focus:border-blue-500 focus:ring focus:ring-blue-200"
+                >
+                  {assignableRoles.map(option => (
+                    <option key={option.id} value={option.id}>
+                      {option.label} – {option.description}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={inviteDepartment}
+                  onChange={(e) => setInviteDepartment(e.target.value)}
+                  placeholder="Department (optional)"
+                  className="px-4 py-2 rounded-xl border border-gray-200 focus:border-blue-500 focus:ring focus:ring-blue-200"
+                />
+              </div>
+              <p className="text-sm text-gray-500 mt-3">
+                They join the next time they sign in with this email address.
+              </p>
+              <div className="flex gap-3 mt-4">
+                <motion.button
+                  type="submit"
+                  disabled={saving}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-xl disabled:opacity-50"
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                >
+                  Send Invitation
+                </motion.button>
+                <button
+                  type="button"
+                  onClick={() => setShowAddMember(false)}
+                  className="px-4 py-2 bg-gray-100 text-gray-700 rounded-xl"
+                >
+                  Cancel
+                </button>
+              </div>
+            </motion.form>
+          )}
+        </AnimatePresence>
+
         {/* Search and Filters */}
         <div className="bg-white rounded-2xl shadow-lg p-6 mb-8">
           <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6">
@@ -161,55 +352,151 @@ const BusinessTeam: React.FC = () => {
 
         {/* Team Members List */}
         <div className="space-y-4">
-          {filteredMembers.map((member) => (
+          {filteredMembers.length === 0 && filteredInvitations.length === 0 && (
+            <div className="text-center py-12 text-gray-600">No team members match this search</div>
+          )}
+
+          {filteredMembers.map((member) => {
+            const name = [member.first_name, member.last_name].filter(Boolean).join(' ') || member.email;
+            const canChange = canManage && member.user_id !== userId && (member.role !== 'owner' || role === 'owner');
+
+            return (
+              <motion.div
+                key={member.id}
+                className="bg-white rounded-xl shadow-lg p-6"
+                whileHover={{ scale: 1.01 }}
+              >
+                <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between">
+                  <div className="flex items-center mb-4 sm:mb-0">
+                    <div className="w-12 h-12 bg-blue-100 rounded-xl flex items-center justify-center">
+                      <Users className="w-6 h-6 text-blue-600" />
+                    </div>
+                    <div className="ml-4">
+                      <div className="flex items-center">
+                        <h3 className="text-lg font-semibold text-gray-900">{name}</h3>
+                        <span className={`ml-3 px-2 py-1 rounded-full text-xs font-medium capitalize ${getStatusColor(member.status)}`}>
+                          {member.status}
+                        </span>
+                      </div>
+                      {editingId === member.id ? (
+                        <div className="flex flex-wrap gap-2 mt-2">
+                          <select
+                            value={editRole}
+                            onChange={(e) => setEditRole(e.target.value as OrganizationRole)}
+                            className="px-3 py-1 rounded-lg border border-gray-200"
+                          >
+                            {assignableRoles.map(option => (
+                              <option key={option.id} value={option.id}>{option.label}</option>
+                            ))}
+                          </select>
+                          <input
+                            type="text"
+                            value={editDepartment}
+                            onChange={(e) => setEditDepartment(e.target.value)}
+                            placeholder="Department"
+                            className="px-3 py-1 rounded-lg border border-gray-200"
+                          />
+                          <button
+                            onClick={() => handleSaveMember(member)}
+                            disabled={saving}
+                            className="px-3 py-1 bg-blue-600 text-white rounded-lg disabled:opacity-50"
+                          >
+                            Save
+                          </button>
+                          <button
+                            onClick={() => setEditingId(null)}
+                            className="px-3 py-1 bg-gray-100 text-gray-700 rounded-lg"
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                      ) : (
+                        <p className="text-gray-600">
+                          {roleLabel(member.role)}
+                          {member.department && ` • ${member.department}`}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-4">
+                    <div className="text-sm text-gray-600">
+                      <div className="flex items-center mb-1">
+                        <Mail className="w-4 h-4 mr-2" />
+                        {member.email}
+                      </div>
+                      {member.phone && (
+                        <div className="flex items-center">
+                          <Phone className="w-4 h-4 mr-2" />
+                          {member.phone}
+                        </div>
+                      )}
+                    </div>
+                    {canChange && (
+                      <div className="flex items-center space-x-2">
+                        <motion.button
+                          onClick={() => startEditing(member)}
+                          className="p-2 text-gray-400 hover:text-gray-600"
+                          whileHover={{ scale: 1.1 }}
+                          whileTap={{ scale: 0.9 }}
+                          aria-label="Edit member"
+                        >
+                          <Edit className="w-5 h-5" />
+                        </motion.button>
+                        <motion.button
+                          onClick={() => handleToggleActive(member)}
+                          disabled={saving}
+                          className={`p-2 text-gray-400 ${member.status === 'active' ? 'hover:text-red-600' : 'hover:text-green-600'}`}
+                          whileHover={{ scale: 1.1 }}
+                          whileTap={{ scale: 0.9 }}
+                          aria-label={member.status === 'active' ? 'Deactivate member' : 'Reactivate member'}
+                        >
+                          {member.status === 'active' ? <UserX className="w-5 h-5" /> : <UserCheck className="w-5 h-5" />}
+                        </motion.button>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              </motion.div>
+            );
+          })}
+
+          {filteredInvitations.map((invitation) => (
             <motion.div
-              key={member.id}
+              key={invitation.id}
               className="bg-white rounded-xl shadow-lg p-6"
               whileHover={{ scale: 1.01 }}
             >
               <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between">
                 <div className="flex items-center mb-4 sm:mb-0">
-                  <div className="w-12 h-12 bg-blue-100 rounded-xl flex items-center justify-center">
-                    <Users className="w-6 h-6 text-blue-600" />
+                  <div className="w-12 h-12 bg-yellow-50 rounded-xl flex items-center justify-center">
+                    <Mail className="w-6 h-6 text-yellow-600" />
                   </div>
                   <div className="ml-4">
                     <div className="flex items-center">
-                      <h3 className="text-lg font-semibold text-gray-900">{member.name}</h3>
-                      <span className={`ml-3 px-2 py-1 rounded-full text-xs font-medium capitalize ${getStatusColor(member.status)}`}>
-                        {member.status}
+                      <h3 className="text-lg font-semibold text-gray-900">{invitation.email}</h3>
+                      <span className={`ml-3 px-2 py-1 rounded-full text-xs font-medium ${getStatusColor('pending')}`}>
+                        pending
                       </span>
                     </div>
-                    <p className="text-gray-600">{member.role} • {member.department}</p>
-                  </div>
-                </div>
-                <div className="flex items-center space-x-4">
-                  <div className="text-sm text-gray-600">
-                    <div className="flex items-center mb-1">
-                      <Mail className="w-4 h-4 mr-2" />
-                      {member.email}
-                    </div>
-                    <div className="flex items-center">
-                      <Phone className="w-4 h-4 mr-2" />
-                      {member.phone}
-                    </div>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <motion.button
-                      className="p-2 text-gray-400 hover:text-gray-600"
-                      whileHover={{ scale: 1.1 }}
-                      whileTap={{ scale: 0.9 }}
-                    >
-                      <Edit className="w-5 h-5" />
-                    </motion.button>
-                    <motion.button
-                      className="p-2 text-gray-400 hover:text-red-600"
-                      whileHover={{ scale: 1.1 }}
-                      whileTap={{ scale: 0.9 }}
-                    >
-                      <Trash2 className="w-5 h-5" />
-                    </motion.button>
+                    <p className="text-gray-600">
+                      {roleLabel(invitation.role)}
+                      {invitation.department && ` • ${invitation.department}`}
+                      {' • '}expires {new Date(invitation.expires_at).toLocaleDateString()}
+                    </p>
                   </div>
                 </div>
+                {canAssignRole(role, invitation.role) && (
+                  <motion.button
+                    onClick={() => handleRevoke(invitation)}
+                    disabled={saving}
+                    className="p-2 text-gray-400 hover:text-red-600"
+                    whileHover={{ scale: 1.1 }}
+                    whileTap={{ scale: 0.9 }}
+                    aria-label="Revoke invitation"
+                  >
+                    <Trash2 className="w-5 h-5" />
+                  </motion.button>
+                )}
               </div>
             </motion.div>
           ))}
@@ -219,4 +506,4 @@ const BusinessTeam: React.FC = () => {
   );
 };
 
-export default BusinessTeam;
\ No newline at end of file
+export default BusinessTeam;
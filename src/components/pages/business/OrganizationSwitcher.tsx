@@ -0,0 +1,34 @@
+import React from 'react';
+import { Building2 } from 'lucide-react';
+import { useOrganization } from '../../../contexts/OrganizationContext';
+import { ORGANIZATION_ROLES } from '../../../lib/organizations';
+
+// Only shown to people who work for more than one organisation
+const OrganizationSwitcher: React.FC = () => {
+  const { memberships, membership, switchOrganization } = useOrganization();
+
+  if (memberships.length < 2 || !membership) return null;
+
+  const roleLabel = (role: string) =>
+    ORGANIZATION_ROLES.find(option => option.id === role)?.label ?? role;
+
+  return (
+    <label className="flex items-center gap-2 px-3 py-2 rounded-xl border border-gray-300 bg-white">
+      <Building2 className="w-5 h-5 text-gray-400" />
+      <span className="sr-only">Organisation</span>
+      <select
+        value={membership.organization_id}
+        onChange={(e) => switchOrganization(e.target.value)}
+        className="bg-transparent text-gray-900 focus:outline-none"
+      >
+        {memberships.map(row => (
+          <option key={row.organization_id} value={row.organization_id}>
+            {row.organizations?.name ?? 'Organisation'} ({roleLabel(row.role)})
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default OrganizationSwitcher;
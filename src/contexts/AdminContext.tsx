@@ -0,0 +1,80 @@
+import React, { createContext, useContext, useEffect, useState, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { adminHasPermission } from '../lib/adminPermissions';
+import type { AdminPermission, AdminUser } from '../lib/adminPermissions';
+import { useAuth } from './AuthContext';
+
+interface AdminContextType {
+  admin: AdminUser | null;
+  loading: boolean;
+  isSuperAdmin: boolean;
+  can: (permission: AdminPermission) => boolean;
+  refreshAdmin: () => Promise<void>;
+}
+
+const AdminContext = createContext<AdminContextType | undefined>(undefined);
+
+export const AdminProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user, loading: authLoading } = useAuth();
+  const [admin, setAdmin] = useState<AdminUser | null>(null);
+  // The user the admin record was loaded for, so a fresh sign-in counts as loading
+  const [loadedFor, setLoadedFor] = useState<string | null>(null);
+
+  const userId = user?.id ?? null;
+
+  const refreshAdmin = useCallback(async () => {
+    if (!userId) {
+      setAdmin(null);
+      setLoadedFor(null);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('admin_users')
+        .select('id, auth_id, role, permissions')
+        .match({ auth_id: userId })
+        .maybeSingle();
+
+      if (error) throw error;
+
+      setAdmin((data as unknown as AdminUser | null) ?? null);
+    } catch (error) {
+      console.error('Error fetching admin user:', error);
+      setAdmin(null);
+    } finally {
+      setLoadedFor(userId);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    refreshAdmin();
+  }, [refreshAdmin]);
+
+  const can = useCallback(
+    (permission: AdminPermission) => adminHasPermission(admin, permission),
+    [admin]
+  );
+
+  const value = {
+    admin,
+    loading: authLoading || (!!userId && loadedFor !== userId),
+    isSuperAdmin: admin?.role === 'super_admin',
+    can,
+    refreshAdmin
+  };
+
+  return (
+    <AdminContext.Provider value={value}>
+      {children}
+    </AdminContext.Provider>
+  );
+};
+
+export const useAdmin = () => {
+  const context = useContext(AdminContext);
+  if (context === undefined) {
+    throw new Error('useAdmin must be used within an AdminProvider');
+  }
+  return context;
+};
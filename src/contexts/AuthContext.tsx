@@ -27,17 +27,13 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   useEffect(() => {
     mounted.current = true;
 
-    // Clear any existing auth data on mount
-    localStorage.removeItem('eazyy.auth.token');
-    localStorage.removeItem('supabase.auth.token');
-    localStorage.removeItem('returnTo');
-    localStorage.removeItem('orderData');
-    
-    // Sign out on mount to ensure clean state
-    supabase.auth.signOut().then(() => {
+    // Restore the stored session so a reload keeps the customer and their draft order
+    supabase.auth.getSession().then(({ data: { session } }) => {
       if (mounted.current) {
-        setUser(null);
-        setProfile(null);
+        setUser(session?.user ?? null);
+        if (session?.user) {
+          fetchProfile(session.user.id);
+        }
         setLoading(false);
       }
     });
@@ -47,6 +43,9 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       if (mounted.current) {
         if (session?.user) {
           setUser(session.user);
+          if (event === 'SIGNED_IN') {
+            acceptOrganizationInvitations();
+          }
           await fetchProfile(session.user.id);
         } else {
           setUser(null);
@@ -68,6 +67,15 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     };
   }, []);
 
+  // Business invitations are matched on email, so joining only takes a sign in
+  const acceptOrganizationInvitations = async () => {
+    const { error } = await supabase.rpc('accept_organization_invitations');
+
+    if (error) {
+      console.error('Error accepting organisation invitations:', error);
+    }
+  };
+
   const fetchProfile = async (userId: string) => {
     try {
       console.log('Fetching profile for user:', userId);
@@ -93,12 +101,6 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   const signIn = async (email: string, password: string) => {
     try {
-      // Clear any existing auth data
-      localStorage.removeItem('eazyy.auth.token');
-      localStorage.removeItem('supabase.auth.token');
-      localStorage.removeItem('returnTo');
-      localStorage.removeItem('orderData');
-      
       const { error } = await supabase.auth.signInWithPassword({ 
         email, 
         password
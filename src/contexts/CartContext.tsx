@@ -0,0 +1,283 @@
+import React, { createContext, useContext, useEffect, useState, useRef } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './AuthContext';
+import type { StructuredAddress } from '../lib/address';
+import type { PickupPlanFrequency } from '../lib/pickupPlans';
+import type { PricingUnit } from '../lib/weighing';
+import type { CarpetDimensions } from '../lib/carpets';
+
+export interface CartItem {
+  id: string;
+  name: string;
+  price: number | null;
+  quantity: number;
+  // Set for lines that come from an accepted custom price quote
+  quote_id?: string;
+  // For kg items the price is per kilo and the quantity an estimated weight
+  pricing_unit?: PricingUnit;
+  // Every carpet is its own line: the key is unique, item_id names the
+  // carpet type and price is the price of the whole piece
+  item_id?: string;
+  dimensions?: CarpetDimensions;
+}
+
+export interface CartAddress extends StructuredAddress {
+  id?: string;
+}
+
+export interface CartSchedule {
+  pickup_slot_id: string;
+  delivery_slot_id: string;
+  express: boolean;
+  pickup_date: string;
+  delivery_date: string;
+  pickup_option: string;
+  delivery_option: string;
+  special_instructions?: string;
+  // Turns the order into a recurring pickup plan once it is placed
+  repeat?: PickupPlanFrequency | null;
+}
+
+export interface Cart {
+  service: string | null;
+  items: { [key: string]: CartItem };
+  pickup_address: CartAddress | null;
+  delivery_address: CartAddress | null;
+  schedule: CartSchedule | null;
+  // Pending order created from this draft, reused until the draft changes
+  order_id: string | null;
+  // The order of an earlier version of the draft, cancelled by checkout
+  // before it creates the next one
+  abandoned_order_id?: string | null;
+}
+
+interface CartContextType {
+  cart: Cart;
+  loading: boolean;
+  setItemQuantity: (service: string, item: Omit<CartItem, 'quantity'>, quantity: number) => void;
+  addQuote: (service: string, quote: { id: string; name: string; price: number }) => void;
+  addCarpet: (service: string, carpet: { item_id: string; name: string; price: number; dimensions: CarpetDimensions }) => void;
+  setAddresses: (pickupAddress: CartAddress, deliveryAddress: CartAddress) => void;
+  setSchedule: (schedule: CartSchedule) => void;
+  setOrderId: (orderId: string) => void;
+  clearCart: () => void;
+}
+
+const GUEST_CART_KEY = 'eazyy.cart';
+const SAVE_DELAY = 500;
+
+const emptyCart: Cart = {
+  service: null,
+  items: {},
+  pickup_address: null,
+  delivery_address: null,
+  schedule: null,
+  order_id: null
+};
+
+const hasItems = (cart: Cart) => Object.keys(cart.items).length > 0;
+
+// Any change to the contents invalidates a previously created order
+const detachOrder = (cart: Cart) => ({
+  order_id: null,
+  abandoned_order_id: cart.order_id ?? cart.abandoned_order_id ?? null
+});
+
+const normalizeCart = (data: unknown): Cart => {
+  if (!data || typeof data !== 'object') return emptyCart;
+  return { ...emptyCart, ...(data as Partial<Cart>) };
+};
+
+const readGuestCart = (): Cart => {
+  try {
+    const stored = localStorage.getItem(GUEST_CART_KEY);
+    return stored ? normalizeCart(JSON.parse(stored)) : emptyCart;
+  } catch {
+    return emptyCart;
+  }
+};
+
+// The guest draft is what the customer was working on right before signing
+// in, so it wins over the stored draft wherever the two disagree
+const mergeCarts = (saved: Cart, guest: Cart): Cart => {
+  if (!hasItems(guest)) return saved;
+  if (saved.service !== guest.service) return { ...guest, ...detachOrder(saved) };
+
+  return {
+    service: guest.service,
+    items: { ...saved.items, ...guest.items },
+    pickup_address: guest.pickup_address ?? saved.pickup_address,
+    delivery_address: guest.delivery_address ?? saved.delivery_address,
+    schedule: guest.schedule ?? saved.schedule,
+    ...detachOrder(saved)
+  };
+};
+
+const CartContext = createContext<CartContextType | undefined>(undefined);
+
+export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user, loading: authLoading } = useAuth();
+  const userId = user?.id;
+  const [cart, setCart] = useState<Cart>(emptyCart);
+  const [loading, setLoading] = useState(true);
+  // Whose draft is currently loaded: a user id, 'guest', or null while loading
+  const owner = useRef<string | null>(null);
+
+  // Load the draft whenever the signed-in user changes
+  useEffect(() => {
+    if (authLoading) return;
+
+    let cancelled = false;
+    owner.current = null;
+    setLoading(true);
+
+    const loadCart = async () => {
+      const guestCart = readGuestCart();
+
+      if (!userId) {
+        if (!cancelled) {
+          setCart(guestCart);
+          owner.current = 'guest';
+          setLoading(false);
+        }
+        return;
+      }
+
+      try {
+        const { data, error } = await supabase
+          .from('draft_orders')
+          .select('data')
+          .match({ user_id: userId })
+          .maybeSingle();
+
+        if (error) throw error;
+        if (cancelled) return;
+
+        const draft = data as { data: unknown } | null;
+        const merged = mergeCarts(normalizeCart(draft?.data), guestCart);
+        localStorage.removeItem(GUEST_CART_KEY);
+        setCart(merged);
+      } catch (error) {
+        console.error('Error loading draft order:', error);
+        if (!cancelled) setCart(guestCart);
+      } finally {
+        if (!cancelled) {
+          owner.current = userId;
+          setLoading(false);
+        }
+      }
+    };
+
+    loadCart();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, authLoading]);
+
+  // Persist every change: guests to local storage, customers to draft_orders
+  useEffect(() => {
+    if (loading || !owner.current) return;
+
+    if (owner.current === 'guest') {
+      localStorage.setItem(GUEST_CART_KEY, JSON.stringify(cart));
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      const { error } = await supabase.rpc('save_draft_order', { p_data: cart });
+
+      if (error) {
+        console.error('Error saving draft order:', error);
+      }
+    }, SAVE_DELAY);
+
+    return () => clearTimeout(timeout);
+  }, [cart, loading]);
+
+  const updateCart = (changes: Partial<Cart>) => {
+    setCart(prev => ({ ...prev, ...changes, ...detachOrder(prev) }));
+  };
+
+  const setItemQuantity = (service: string, item: Omit<CartItem, 'quantity'>, quantity: number) => {
+    setCart(prev => {
+      // A draft covers a single service; switching service starts a new item list
+      const items = prev.service === service ? { ...prev.items } : {};
+
+      if (quantity > 0) {
+        items[item.id] = { id: item.id, name: item.name, price: item.price, pricing_unit: item.pricing_unit, quantity };
+      } else {
+        delete items[item.id];
+      }
+
+      return { ...prev, service, items, ...detachOrder(prev) };
+    });
+  };
+
+  const addQuote = (service: string, quote: { id: string; name: string; price: number }) => {
+    setCart(prev => {
+      const items = prev.service === service ? { ...prev.items } : {};
+
+      // A quote is priced for exactly one item
+      items[quote.id] = { id: quote.id, name: quote.name, price: quote.price, quantity: 1, quote_id: quote.id };
+
+      return { ...prev, service, items, ...detachOrder(prev) };
+    });
+  };
+
+  const addCarpet = (
+    service: string,
+    carpet: { item_id: string; name: string; price: number; dimensions: CarpetDimensions }
+  ) => {
+    setCart(prev => {
+      const items = prev.service === service ? { ...prev.items } : {};
+      const id = crypto.randomUUID();
+
+      items[id] = { id, quantity: 1, pricing_unit: 'm2', ...carpet };
+
+      return { ...prev, service, items, ...detachOrder(prev) };
+    });
+  };
+
+  const setAddresses = (pickupAddress: CartAddress, deliveryAddress: CartAddress) => {
+    updateCart({ pickup_address: pickupAddress, delivery_address: deliveryAddress });
+  };
+
+  const setSchedule = (schedule: CartSchedule) => {
+    updateCart({ schedule });
+  };
+
+  const setOrderId = (orderId: string) => {
+    setCart(prev => ({ ...prev, order_id: orderId, abandoned_order_id: null }));
+  };
+
+  const clearCart = () => {
+    setCart(emptyCart);
+  };
+
+  const value = {
+    cart,
+    loading,
+    setItemQuantity,
+    addQuote,
+    addCarpet,
+    setAddresses,
+    setSchedule,
+    setOrderId,
+    clearCart
+  };
+
+  return (
+    <CartContext.Provider value={value}>
+      {children}
+    </CartContext.Provider>
+  );
+};
+
+export const useCart = () => {
+  const context = useContext(CartContext);
+  if (context === undefined) {
+    throw new Error('useCart must be used within a CartProvider');
+  }
+  return context;
+};
@@ -0,0 +1,98 @@
+import React, { createContext, useContext, useEffect, useState, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { canOrder } from '../lib/organizations';
+import type { OrganizationMembership } from '../lib/organizations';
+import { useAuth } from './AuthContext';
+
+interface OrganizationContextType {
+  memberships: OrganizationMembership[];
+  membership: OrganizationMembership | null;
+  orderingOrganizationId: string | null;
+  loading: boolean;
+  switchOrganization: (organizationId: string) => void;
+  refreshMemberships: () => Promise<void>;
+}
+
+const OrganizationContext = createContext<OrganizationContextType | undefined>(undefined);
+
+// Remembers the organisation a member of several companies last worked in
+const ACTIVE_ORGANIZATION_KEY = 'activeOrganizationId';
+
+export const OrganizationProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user, loading: authLoading } = useAuth();
+  const [memberships, setMemberships] = useState<OrganizationMembership[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(() => localStorage.getItem(ACTIVE_ORGANIZATION_KEY));
+  // The user the memberships were loaded for, so a fresh sign-in counts as loading
+  const [loadedFor, setLoadedFor] = useState<string | null>(null);
+
+  const userId = user?.id ?? null;
+
+  const refreshMemberships = useCallback(async () => {
+    if (!userId) {
+      setMemberships([]);
+      setLoadedFor(null);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('organization_members')
+        .select('organization_id, role, department, organizations(id, name, billing_email, vat_number, billing_address, status)')
+        .match({ user_id: userId, status: 'active' })
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      // Suspended organisations keep their members but cannot be worked in
+      setMemberships(((data || []) as unknown as OrganizationMembership[])
+        .filter(row => row.organizations?.status === 'active'));
+    } catch (error) {
+      console.error('Error fetching organisations:', error);
+      setMemberships([]);
+    } finally {
+      setLoadedFor(userId);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    refreshMemberships();
+  }, [refreshMemberships]);
+
+  const switchOrganization = useCallback((organizationId: string) => {
+    localStorage.setItem(ACTIVE_ORGANIZATION_KEY, organizationId);
+    setActiveId(organizationId);
+  }, []);
+
+  const membership = memberships.find(row => row.organization_id === activeId) ?? memberships[0] ?? null;
+
+  // New orders are billed to the active organisation when the member may
+  // order for it, otherwise to the only one they may order for; the same
+  // organisation decides which prices the order screens show
+  const orderable = memberships.filter(row => canOrder(row.role));
+  const orderingOrganizationId = membership && canOrder(membership.role)
+    ? membership.organization_id
+    : orderable.length === 1 ? orderable[0].organization_id : null;
+
+  const value = {
+    memberships,
+    membership,
+    orderingOrganizationId,
+    loading: authLoading || (!!userId && loadedFor !== userId),
+    switchOrganization,
+    refreshMemberships
+  };
+
+  return (
+    <OrganizationContext.Provider value={value}>
+      {children}
+    </OrganizationContext.Provider>
+  );
+};
+
+export const useOrganization = () => {
+  const context = useContext(OrganizationContext);
+  if (context === undefined) {
+    throw new Error('useOrganization must be used within an OrganizationProvider');
+  }
+  return context;
+};
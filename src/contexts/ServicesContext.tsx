@@ -1,7 +1,8 @@
-import React, { createContext, useContext, useEffect, useState, useRef } from 'react';
+import React, { createContext, useContext, useEffect, useState, useRef, useMemo } from 'react';
 import { supabase } from '../lib/supabase';
 import type { Service, Category, Item } from '../lib/supabase';
 import type { RealtimeChannel } from '@supabase/supabase-js';
+import { useOrganization } from './OrganizationContext';
 
 interface ServicesContextType {
   services: Service[];
@@ -11,6 +12,8 @@ interface ServicesContextType {
   error: string | null;
   getServiceCategories: (serviceId: string) => Category[];
   getCategoryItems: (categoryId: string) => Item[];
+  getServiceItems: (serviceId: string) => Item[];
+  getFromPrice: (serviceId: string) => number | null;
 }
 
 const ServicesContext = createContext<ServicesContextType | undefined>(undefined);
@@ -18,11 +21,13 @@ const ServicesContext = createContext<ServicesContextType | undefined>(undefined
 export const ServicesProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [services, setServices] = useState<Service[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
-  const [items, setItems] = useState<Item[]>([]);
+  const [catalogItems, setCatalogItems] = useState<Item[]>([]);
+  const [contractPrices, setContractPrices] = useState<{ [itemId: string]: number }>({});
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const mounted = useRef(false);
   const channelRef = useRef<RealtimeChannel | null>(null);
+  const { orderingOrganizationId } = useOrganization();
 
   useEffect(() => {
     mounted.current = true;
@@ -62,7 +67,7 @@ export const ServicesProvider: React.FC<{ children: React.ReactNode }> = ({ chil
       if (mounted.current) {
         setServices(servicesData || []);
         setCategories(categoriesData || []);
-        setItems(itemsData || []);
+        setCatalogItems(itemsData || []);
       }
     } catch (err) {
       console.error('❌ Error fetching data:', err);
@@ -118,7 +123,7 @@ export const ServicesProvider: React.FC<{ children: React.ReactNode }> = ({ chil
           const { data } = await supabase.from('items').select('*').order('sequence');
           if (mounted.current && data) {
             console.log('Updated items:', data);
-            setItems(data);
+            setCatalogItems(data);
           }
         }
       )
@@ -127,40 +132,71 @@ export const ServicesProvider: React.FC<{ children: React.ReactNode }> = ({ chil
       });
   };
 
+  // Business customers see the prices of their price list; create_order
+  // charges the same effective prices
+  useEffect(() => {
+    if (!orderingOrganizationId) {
+      setContractPrices({});
+      return;
+    }
+
+    const fetchContractPrices = async () => {
+      const { data, error: pricesError } = await supabase.rpc('get_item_prices', {
+        p_organization_id: orderingOrganizationId
+      });
+
+      if (pricesError) {
+        console.error('Error fetching contract prices:', pricesError);
+        setContractPrices({});
+        return;
+      }
+
+      setContractPrices(Object.fromEntries(
+        ((data || []) as unknown as { item_id: string; price: number }[])
+          .map(row => [row.item_id, Number(row.price)])
+      ));
+    };
+
+    fetchContractPrices();
+  }, [orderingOrganizationId, catalogItems]);
+
+  const items = useMemo(
+    () => catalogItems.map(item => (item.id in contractPrices ? { ...item, price: contractPrices[item.id] } : item)),
+    [catalogItems, contractPrices]
+  );
+
   const getServiceCategories = (serviceIdentifier: string): Category[] => {
-    console.log('Getting categories for service:', serviceIdentifier);
     const service = services.find(s => s.service_identifier === serviceIdentifier);
     if (!service) return [];
 
-    // Get all categories that have items assigned to this service
-    const serviceItems = items.filter(item => {
-      const itemCategories = categories.filter(cat => cat.id === item.category_id);
-      return itemCategories.some(cat => {
-        // Check if the category belongs to this service based on service_identifier
-        const categoryService = services.find(s => 
-          s.service_identifier === serviceIdentifier && 
-          cat.service_id === s.id
-        );
-        return !!categoryService;
-      });
-    });
-
-    const categoryIds = [...new Set(serviceItems.map(item => item.category_id))];
-    const availableCategories = categories.filter(category => categoryIds.includes(category.id));
-    
-    console.log('Available categories:', availableCategories);
-    return availableCategories;
+    // Only show categories that have something to order
+    return categories.filter(category =>
+      category.service_id === service.id &&
+      category.status !== false &&
+      items.some(item => item.category_id === category.id && item.status === true)
+    );
   };
 
   const getCategoryItems = (categoryId: string): Item[] => {
-    console.log('Getting items for category:', categoryId);
-    const categoryItems = items.filter(item => 
+    return items.filter(item => 
       item.category_id === categoryId && 
       item.status === true
     ).sort((a, b) => a.sequence - b.sequence);
-    
-    console.log('Category items:', categoryItems);
-    return categoryItems;
+  };
+
+  const getServiceItems = (serviceIdentifier: string): Item[] =>
+    getServiceCategories(serviceIdentifier).flatMap(category => getCategoryItems(category.id));
+
+  // Cheapest fixed price the customer can order, so price changes show up everywhere
+  const getFromPrice = (serviceIdentifier: string): number | null => {
+    const prices = getServiceItems(serviceIdentifier)
+      .filter(item => !item.is_custom_price && item.price !== null)
+      .map(item => Number(item.price));
+
+    if (prices.length > 0) return Math.min(...prices);
+
+    const service = services.find(s => s.service_identifier === serviceIdentifier);
+    return service?.price_starts_at != null ? Number(service.price_starts_at) : null;
   };
 
   const value = {
@@ -170,7 +206,9 @@ export const ServicesProvider: React.FC<{ children: React.ReactNode }> = ({ chil
     loading,
     error,
     getServiceCategories,
-    getCategoryItems
+    getCategoryItems,
+    getServiceItems,
+    getFromPrice
   };
 
   return (
@@ -0,0 +1,45 @@
+export interface StructuredAddress {
+  street: string;
+  house_number?: string | null;
+  house_number_addition?: string | null;
+  city: string;
+  postal_code: string;
+}
+
+export interface GeocodedAddress {
+  street: string;
+  house_number: string;
+  city: string;
+  postal_code: string;
+  latitude: number;
+  longitude: number;
+  place_id: string;
+}
+
+// Same layout as format_address() in the database
+export const formatAddress = (address: StructuredAddress) => {
+  const number = [address.house_number, address.house_number_addition]
+    .filter(Boolean)
+    .join('-');
+  const street = [address.street, number].filter(Boolean).join(' ');
+
+  return `${street}, ${address.city} ${address.postal_code}`;
+};
+
+export const parseGeocodeResult = (
+  result: google.maps.GeocoderResult,
+  location: { lat: number; lng: number }
+): GeocodedAddress => {
+  const component = (type: string) =>
+    result.address_components.find(c => c.types.includes(type))?.long_name ?? '';
+
+  return {
+    street: component('route'),
+    house_number: component('street_number'),
+    city: component('locality') || component('postal_town'),
+    postal_code: component('postal_code'),
+    latitude: location.lat,
+    longitude: location.lng,
+    place_id: result.place_id
+  };
+};
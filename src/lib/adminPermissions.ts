@@ -0,0 +1,39 @@
+export type AdminRole = 'admin' | 'super_admin';
+
+export type AdminPermission =
+  | 'orders.read'
+  | 'orders.write'
+  | 'quotes.read'
+  | 'quotes.write'
+  | 'users.read'
+  | 'users.write'
+  | 'businesses.read'
+  | 'businesses.write'
+  | 'reports.read'
+  | 'billing.read'
+  | 'billing.write';
+
+export interface AdminUser {
+  id: string;
+  auth_id: string;
+  role: AdminRole;
+  permissions: { [permission: string]: boolean };
+}
+
+export const ADMIN_PERMISSIONS: { id: AdminPermission; label: string }[] = [
+  { id: 'orders.read', label: 'View orders' },
+  { id: 'orders.write', label: 'Update order status' },
+  { id: 'quotes.read', label: 'View quotes' },
+  { id: 'quotes.write', label: 'Price quotes' },
+  { id: 'users.read', label: 'View customers' },
+  { id: 'users.write', label: 'Manage customers' },
+  { id: 'businesses.read', label: 'View businesses' },
+  { id: 'businesses.write', label: 'Manage businesses' },
+  { id: 'reports.read', label: 'View reports' },
+  { id: 'billing.read', label: 'View billing' },
+  { id: 'billing.write', label: 'Manage billing' }
+];
+
+// Mirrors has_permission() in the database, which has the final say
+export const adminHasPermission = (admin: AdminUser | null, permission: AdminPermission) =>
+  !!admin && (admin.role === 'super_admin' || admin.permissions[permission] === true);
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { carpetArea, carpetPrice, formatDimensions, isValidCarpetSide, MAX_CARPET_SIDE, MIN_CARPET_SIDE } from './carpets';
+
+describe('isValidCarpetSide', () => {
+  it('accepts both limits', () => {
+    expect(isValidCarpetSide(MIN_CARPET_SIDE)).toBe(true);
+    expect(isValidCarpetSide(MAX_CARPET_SIDE)).toBe(true);
+  });
+
+  it('refuses sides just outside the limits', () => {
+    expect(isValidCarpetSide(0.29)).toBe(false);
+    expect(isValidCarpetSide(10.01)).toBe(false);
+  });
+
+  it('refuses a side that is not a number', () => {
+    expect(isValidCarpetSide(Number.NaN)).toBe(false);
+  });
+});
+
+describe('carpetArea', () => {
+  it('rounds the area to two decimals', () => {
+    expect(carpetArea(1.333, 2.5)).toBe(3.33);
+    expect(carpetArea(2, 3)).toBe(6);
+  });
+
+  it('rounds half a hundredth up like the database', () => {
+    expect(carpetArea(1.5, 0.35)).toBe(0.53);
+    expect(carpetArea(2.05, 0.5)).toBe(1.03);
+  });
+});
+
+describe('carpetPrice', () => {
+  it('adds the material surcharge to the rate', () => {
+    expect(carpetPrice(6, 12.5, 2)).toBe(87);
+  });
+
+  it('rounds the line to cents', () => {
+    expect(carpetPrice(3.33, 12.95, 0)).toBe(43.12);
+    expect(carpetPrice(0.5, 10.05, 0)).toBe(5.03);
+  });
+});
+
+describe('formatDimensions', () => {
+  it('shows both sides with two decimals and the material', () => {
+    expect(formatDimensions({ length_m: 2, width_m: 1.5, material_id: 'wool', material: 'Wool' }))
+      .toBe('2.00 × 1.50 m, Wool');
+  });
+});
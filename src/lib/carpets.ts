@@ -0,0 +1,33 @@
+export interface CarpetMaterial {
+  id: string;
+  name: string;
+  description: string | null;
+  // Added to the rate per m² of the carpet type, excl. VAT
+  surcharge_per_m2: number;
+}
+
+// Stored on the cart line and on order_items.dimensions
+export interface CarpetDimensions {
+  length_m: number;
+  width_m: number;
+  material_id: string;
+  material: string;
+}
+
+// create_order accepts carpets between these sizes on each side, in metres
+export const MIN_CARPET_SIDE = 0.3;
+export const MAX_CARPET_SIDE = 10;
+
+export const isValidCarpetSide = (side: number) => side >= MIN_CARPET_SIDE && side <= MAX_CARPET_SIDE;
+
+// Rounded like create_order rounds the area and the line. Products such as
+// 1.5 × 0.35 land just below the half cent in floating point, so the cents
+// are first cut to a ten-thousandth before rounding half up.
+const roundCents = (value: number) => Math.round(Number((value * 100).toFixed(4))) / 100;
+
+export const carpetArea = (length: number, width: number) => roundCents(length * width);
+
+export const carpetPrice = (area: number, rate: number, surcharge: number) => roundCents(area * (rate + surcharge));
+
+export const formatDimensions = (dimensions: CarpetDimensions) =>
+  `${Number(dimensions.length_m).toFixed(2)} × ${Number(dimensions.width_m).toFixed(2)} m, ${dimensions.material}`;
@@ -0,0 +1,57 @@
+import { describe, it, expect, vi } from 'vitest';
+import { roundVat, vatBreakdown } from './invoices';
+import type { InvoiceLine } from './invoices';
+
+// The helpers under test never reach the client
+vi.mock('./supabase', () => ({ supabase: {} }));
+
+const line = (net_amount: number, vat_rate = 0.21): InvoiceLine => ({
+  id: `${net_amount}-${vat_rate}`,
+  invoice_id: 'invoice',
+  order_number: null,
+  delivered_on: null,
+  description: 'Shirt',
+  quantity: 1,
+  unit_price: net_amount,
+  vat_rate,
+  net_amount
+});
+
+describe('roundVat', () => {
+  it('rounds half cents up', () => {
+    expect(roundVat(2.5, 0.21)).toBe(0.53);
+    expect(roundVat(12.5, 0.09)).toBe(1.13);
+  });
+
+  it('rounds below half a cent down', () => {
+    expect(roundVat(0.02, 0.21)).toBe(0);
+    expect(roundVat(10.02, 0.21)).toBe(2.1);
+  });
+});
+
+describe('vatBreakdown', () => {
+  it('rounds VAT once per rate, not per line', () => {
+    // 0.0042 per line would round to nothing three times
+    expect(vatBreakdown([line(0.02), line(0.02), line(0.02)])).toEqual([{ rate: 0.21, net: 0.06, vat: 0.01 }]);
+  });
+
+  it('keeps every rate apart', () => {
+    const breakdown = vatBreakdown([line(10, 0.21), line(20, 0.09), line(5, 0.21), line(4, 0)]);
+
+    expect(breakdown).toEqual([
+      { rate: 0.21, net: 15, vat: 3.15 },
+      { rate: 0.09, net: 20, vat: 1.8 },
+      { rate: 0, net: 4, vat: 0 }
+    ]);
+  });
+
+  it('reads amounts that arrive as numeric strings', () => {
+    const fromDatabase = { ...line(0), vat_rate: '0.21', net_amount: '2.50' } as unknown as InvoiceLine;
+
+    expect(vatBreakdown([fromDatabase])).toEqual([{ rate: 0.21, net: 2.5, vat: 0.53 }]);
+  });
+
+  it('is empty for an invoice without lines', () => {
+    expect(vatBreakdown([])).toEqual([]);
+  });
+});
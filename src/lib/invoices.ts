@@ -0,0 +1,76 @@
+import { supabase } from './supabase';
+
+export type InvoiceStatus = 'open' | 'overdue' | 'paid';
+
+export interface Invoice {
+  id: string;
+  invoice_number: string;
+  organization_id: string;
+  period_start: string;
+  period_end: string;
+  issue_date: string;
+  due_date: string;
+  customer_name: string;
+  subtotal: number;
+  vat_amount: number;
+  total_amount: number;
+  status: InvoiceStatus;
+  payment_method: string | null;
+  transaction_id: string | null;
+  paid_at: string | null;
+}
+
+export interface InvoiceLine {
+  id: string;
+  invoice_id: string;
+  order_number: string | null;
+  delivered_on: string | null;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  vat_rate: number;
+  net_amount: number;
+}
+
+export const INVOICE_STATUSES: { id: InvoiceStatus; label: string; className: string }[] = [
+  { id: 'open', label: 'Open', className: 'bg-yellow-100 text-yellow-700' },
+  { id: 'overdue', label: 'Overdue', className: 'bg-red-100 text-red-700' },
+  { id: 'paid', label: 'Paid', className: 'bg-green-100 text-green-700' }
+];
+
+// net × rate is a float: 2.50 × 0.21 comes out just below 0.525. Trimming it
+// to a ten-thousandth of a cent first rounds half cents up, like the
+// database rounds vat_amount
+export const roundVat = (net: number, rate: number) => Math.round(Number((net * rate * 100).toFixed(4))) / 100;
+
+// Same grouping as the invoice PDF: VAT is rounded once per rate
+export const vatBreakdown = (lines: InvoiceLine[]) => {
+  const rates = new Map<number, number>();
+  lines.forEach(line => {
+    const rate = Number(line.vat_rate);
+    rates.set(rate, (rates.get(rate) ?? 0) + Number(line.net_amount));
+  });
+
+  return Array.from(rates, ([rate, net]) => ({
+    rate,
+    net,
+    vat: roundVat(net, rate)
+  }));
+};
+
+export const downloadInvoicePdf = async (invoice: Pick<Invoice, 'id' | 'invoice_number'>) => {
+  const { data, error } = await supabase.functions.invoke('invoice-pdf', {
+    body: { invoiceId: invoice.id }
+  });
+
+  if (error) throw error;
+  if (!data?.content) throw new Error('No invoice received');
+
+  const bytes = Uint8Array.from(atob(data.content), char => char.charCodeAt(0));
+  const url = URL.createObjectURL(new Blob([bytes], { type: 'application/pdf' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = data.filename ?? `${invoice.invoice_number}.pdf`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
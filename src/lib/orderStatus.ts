@@ -0,0 +1,59 @@
+export type OrderStatus =
+  | 'pending'
+  | 'confirmed'
+  | 'picked_up'
+  | 'processing'
+  | 'ready'
+  | 'delivered'
+  | 'cancelled';
+
+export const ORDER_STATUSES: OrderStatus[] = [
+  'pending',
+  'confirmed',
+  'picked_up',
+  'processing',
+  'ready',
+  'delivered',
+  'cancelled'
+];
+
+export const orderStatusLabels: { [status in OrderStatus]: string } = {
+  pending: 'Pending',
+  confirmed: 'Confirmed',
+  picked_up: 'Picked Up',
+  processing: 'Processing',
+  ready: 'Ready',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled'
+};
+
+const orderStatusColors: { [status in OrderStatus]: string } = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  confirmed: 'bg-sky-100 text-sky-800',
+  picked_up: 'bg-indigo-100 text-indigo-800',
+  processing: 'bg-blue-100 text-blue-800',
+  ready: 'bg-purple-100 text-purple-800',
+  delivered: 'bg-green-100 text-green-800',
+  cancelled: 'bg-red-100 text-red-800'
+};
+
+// Mirrors transition_order_status() in the database, which has the final say
+const nextStatuses: { [status in OrderStatus]: OrderStatus[] } = {
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['picked_up', 'cancelled'],
+  picked_up: ['processing', 'cancelled'],
+  processing: ['ready', 'cancelled'],
+  ready: ['delivered', 'cancelled'],
+  delivered: [],
+  cancelled: []
+};
+
+export const getOrderStatusLabel = (status: string) =>
+  orderStatusLabels[status as OrderStatus] ?? status;
+
+export const getOrderStatusColor = (status: string) =>
+  orderStatusColors[status as OrderStatus] ?? 'bg-gray-100 text-gray-800';
+
+// Unpaid orders are confirmed by their payment, not by hand
+export const getNextOrderStatuses = (status: string, placed = true): OrderStatus[] =>
+  (nextStatuses[status as OrderStatus] ?? []).filter(next => placed || next !== 'confirmed');
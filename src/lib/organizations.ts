@@ -0,0 +1,57 @@
+export type OrganizationRole = 'owner' | 'admin' | 'orderer' | 'viewer';
+
+export interface Organization {
+  id: string;
+  name: string;
+  billing_email: string | null;
+  vat_number: string | null;
+  billing_address: string | null;
+  status: 'active' | 'suspended';
+}
+
+// The signed-in user's own membership, with the organisation it belongs to
+export interface OrganizationMembership {
+  organization_id: string;
+  role: OrganizationRole;
+  department: string | null;
+  organizations: Organization | null;
+}
+
+export interface OrganizationMember {
+  id: string;
+  user_id: string;
+  email: string;
+  first_name: string | null;
+  last_name: string | null;
+  phone: string | null;
+  role: OrganizationRole;
+  department: string | null;
+  status: 'active' | 'inactive';
+  created_at: string;
+}
+
+export interface OrganizationInvitation {
+  id: string;
+  email: string;
+  role: OrganizationRole;
+  department: string | null;
+  created_at: string;
+  expires_at: string;
+}
+
+export const ORGANIZATION_ROLES: { id: OrganizationRole; label: string; description: string }[] = [
+  { id: 'owner', label: 'Owner', description: 'Full access, including billing and owners' },
+  { id: 'admin', label: 'Admin', description: 'Manages members and billing, sees all orders' },
+  { id: 'orderer', label: 'Orderer', description: 'Places orders for the organisation' },
+  { id: 'viewer', label: 'Viewer', description: 'Sees all orders, cannot order' }
+];
+
+// Mirrors the checks in the organisation functions, which have the final say
+export const canManageMembers = (role: OrganizationRole | null) => role === 'owner' || role === 'admin';
+
+export const canManageBilling = (role: OrganizationRole | null) => role === 'owner' || role === 'admin';
+
+export const canOrder = (role: OrganizationRole | null) => role === 'owner' || role === 'admin' || role === 'orderer';
+
+export const canAssignRole = (role: OrganizationRole | null, target: OrganizationRole) =>
+  canManageMembers(role) && (target !== 'owner' || role === 'owner');
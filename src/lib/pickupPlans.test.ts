@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatPickupDate,
+  formatPickupWindow,
+  nextPickupOnWeekday,
+  pickupAfterSkip,
+  pickupPlanInterval
+} from './pickupPlans';
+
+describe('formatPickupWindow', () => {
+  it('shows the hour the window lasts', () => {
+    expect(formatPickupWindow('17:00:00')).toBe('17:00–18:00');
+    expect(formatPickupWindow('21:00')).toBe('21:00–22:00');
+  });
+
+  it('pads early hours and keeps the minutes', () => {
+    expect(formatPickupWindow('09:30:00')).toBe('09:30–10:30');
+  });
+});
+
+describe('formatPickupDate', () => {
+  it('reads the date as a local day', () => {
+    expect(formatPickupDate('2025-04-07')).toBe('Monday, Apr 7');
+  });
+});
+
+describe('pickupAfterSkip', () => {
+  it('moves a weekly pickup one week ahead', () => {
+    expect(pickupPlanInterval('weekly')).toBe(7);
+    expect(pickupAfterSkip('2025-04-07', 'weekly')).toBe('2025-04-14');
+  });
+
+  it('moves a bi-weekly pickup two weeks ahead', () => {
+    expect(pickupPlanInterval('biweekly')).toBe(14);
+    expect(pickupAfterSkip('2025-04-07', 'biweekly')).toBe('2025-04-21');
+  });
+
+  it('crosses month and year ends', () => {
+    expect(pickupAfterSkip('2025-04-28', 'weekly')).toBe('2025-05-05');
+    expect(pickupAfterSkip('2025-12-22', 'biweekly')).toBe('2026-01-05');
+  });
+
+  it('keeps the weekday across the change to summer time', () => {
+    expect(pickupAfterSkip('2025-03-27', 'weekly')).toBe('2025-04-03');
+    expect(formatPickupDate(pickupAfterSkip('2025-03-27', 'weekly'))).toBe('Thursday, Apr 3');
+  });
+});
+
+describe('nextPickupOnWeekday', () => {
+  // Monday evening
+  const today = new Date(2025, 3, 7, 20, 0);
+
+  it('picks up tomorrow when that is the weekday', () => {
+    expect(nextPickupOnWeekday(2, today)).toBe('2025-04-08');
+  });
+
+  it('waits a week when the weekday is today', () => {
+    expect(nextPickupOnWeekday(1, today)).toBe('2025-04-14');
+  });
+
+  it('finds the Sunday of the same week', () => {
+    expect(nextPickupOnWeekday(7, today)).toBe('2025-04-13');
+  });
+
+  it('waits until the next week on Sunday', () => {
+    expect(nextPickupOnWeekday(7, new Date(2025, 3, 13, 9, 0))).toBe('2025-04-20');
+    expect(nextPickupOnWeekday(1, new Date(2025, 3, 13, 9, 0))).toBe('2025-04-14');
+  });
+});
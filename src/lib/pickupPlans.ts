@@ -0,0 +1,77 @@
+import { addDays, format, getISODay, parseISO } from 'date-fns';
+
+export type PickupPlanFrequency = 'weekly' | 'biweekly';
+
+export type PickupPlanStatus = 'pending' | 'active' | 'paused' | 'cancelled';
+
+export interface PickupPlanItem {
+  item_id: string;
+  quantity: number;
+}
+
+export interface PickupPlan {
+  id: string;
+  organization_id: string | null;
+  service_identifier: string;
+  frequency: PickupPlanFrequency;
+  // ISO weekday, 1 is Monday
+  weekday: number;
+  // Start of the pickup window as HH:mm:ss, Amsterdam time
+  pickup_time: string;
+  items: PickupPlanItem[];
+  express: boolean;
+  on_account: boolean;
+  status: PickupPlanStatus;
+  next_pickup_on: string;
+  last_error: string | null;
+  created_at: string;
+}
+
+// The order generated for the coming pickup, until it is picked up
+export interface UpcomingPlanOrder {
+  id: string;
+  order_number: string;
+  pickup_plan_id: string;
+  payment_status: string;
+  pickup_slot: { starts_at: string } | null;
+}
+
+export const PICKUP_PLAN_FREQUENCIES: { id: PickupPlanFrequency; label: string }[] = [
+  { id: 'weekly', label: 'Every week' },
+  { id: 'biweekly', label: 'Every 2 weeks' }
+];
+
+export const PICKUP_PLAN_STATUSES: { id: PickupPlanStatus; label: string; className: string }[] = [
+  { id: 'pending', label: 'Starts after payment', className: 'bg-yellow-100 text-yellow-700' },
+  { id: 'active', label: 'Active', className: 'bg-green-100 text-green-700' },
+  { id: 'paused', label: 'Paused', className: 'bg-gray-100 text-gray-700' },
+  { id: 'cancelled', label: 'Cancelled', className: 'bg-red-100 text-red-700' }
+];
+
+export const WEEKDAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+// Pickup windows are generated every hour from 17:00 to 22:00
+export const PICKUP_PLAN_TIMES = ['17:00', '18:00', '19:00', '20:00', '21:00'];
+
+// Days between two pickups, like pickup_plan_interval
+export const pickupPlanInterval = (frequency: PickupPlanFrequency) => (frequency === 'biweekly' ? 14 : 7);
+
+// Pickup windows last an hour
+export const formatPickupWindow = (pickupTime: string) => {
+  const [hours, minutes] = pickupTime.split(':').map(Number);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${pad(hours)}:${pad(minutes)}–${pad(hours + 1)}:${pad(minutes)}`;
+};
+
+// next_pickup_on is a date without a time, read as a local day
+export const formatPickupDate = (pickupOn: string) => format(parseISO(pickupOn), 'EEEE, MMM d');
+
+// The pickup that takes its place when the next one is skipped, like skip_next_pickup
+export const pickupAfterSkip = (nextPickupOn: string, frequency: PickupPlanFrequency) =>
+  format(addDays(parseISO(nextPickupOn), pickupPlanInterval(frequency)), 'yyyy-MM-dd');
+
+// The first date on the weekday after today, like next_plan_pickup_on when a plan is resumed
+export const nextPickupOnWeekday = (weekday: number, today: Date) => {
+  const tomorrow = addDays(today, 1);
+  return format(addDays(tomorrow, (weekday - getISODay(tomorrow) + 7) % 7), 'yyyy-MM-dd');
+};
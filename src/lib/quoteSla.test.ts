@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { getQuoteSla, getQuoteStatus } from './quoteSla';
+
+const respondBy = '2025-04-01T12:00:00.000Z';
+const at = (iso: string) => new Date(iso);
+
+describe('getQuoteSla', () => {
+  it('shows hours and minutes left', () => {
+    expect(getQuoteSla(respondBy, at('2025-04-01T10:15:00.000Z'))).toEqual({
+      overdue: false,
+      label: '1h 45m left',
+      color: 'bg-green-100 text-green-800'
+    });
+  });
+
+  it('turns amber in the last half hour', () => {
+    expect(getQuoteSla(respondBy, at('2025-04-01T11:30:00.000Z')).color).toBe('bg-green-100 text-green-800');
+    expect(getQuoteSla(respondBy, at('2025-04-01T11:30:01.000Z')).color).toBe('bg-amber-100 text-amber-800');
+  });
+
+  it('does not round time left up', () => {
+    expect(getQuoteSla(respondBy, at('2025-04-01T11:58:30.000Z')).label).toBe('1m left');
+  });
+
+  it('is still on time at the deadline', () => {
+    expect(getQuoteSla(respondBy, at(respondBy))).toMatchObject({ overdue: false, label: '0m left' });
+  });
+
+  it('is overdue within the first minute past the deadline', () => {
+    expect(getQuoteSla(respondBy, at('2025-04-01T12:00:30.000Z'))).toEqual({
+      overdue: true,
+      label: 'Overdue by 1m',
+      color: 'bg-red-100 text-red-800'
+    });
+  });
+
+  it('shows long overdue quotes in hours', () => {
+    expect(getQuoteSla(respondBy, at('2025-04-02T14:05:00.000Z')).label).toBe('Overdue by 26h 5m');
+  });
+});
+
+describe('getQuoteStatus', () => {
+  const expiresAt = '2025-04-06T21:59:59.999Z';
+
+  it('keeps a quote open until its expiry', () => {
+    expect(getQuoteStatus({ status: 'quoted', expires_at: expiresAt }, at('2025-04-06T21:59:59.998Z'))).toBe('quoted');
+  });
+
+  it('expires quoted and accepted quotes from the expiry moment on', () => {
+    expect(getQuoteStatus({ status: 'quoted', expires_at: expiresAt }, at(expiresAt))).toBe('expired');
+    expect(getQuoteStatus({ status: 'accepted', expires_at: expiresAt }, at('2025-04-07T08:00:00.000Z'))).toBe('expired');
+  });
+
+  it('keeps an accepted quote that was ordered', () => {
+    expect(getQuoteStatus({ status: 'accepted', expires_at: expiresAt }, at('2025-04-07T08:00:00.000Z'), true)).toBe('accepted');
+  });
+
+  it('leaves pending and declined quotes alone', () => {
+    const later = at('2025-05-01T00:00:00.000Z');
+    expect(getQuoteStatus({ status: 'pending', expires_at: expiresAt }, later)).toBe('pending');
+    expect(getQuoteStatus({ status: 'declined', expires_at: expiresAt }, later)).toBe('declined');
+  });
+
+  it('never expires a quote without an expiry date', () => {
+    expect(getQuoteStatus({ status: 'accepted', expires_at: null }, at('2030-01-01T00:00:00.000Z'))).toBe('accepted');
+  });
+});
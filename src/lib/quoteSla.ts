@@ -0,0 +1,41 @@
+import { differenceInSeconds } from 'date-fns';
+
+const formatMinutes = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return hours > 0 ? `${hours}h ${rest}m` : `${rest}m`;
+};
+
+// Time left on the promise to reply to a quote request
+// Overdue from the first second past the deadline; partial minutes count
+// towards being late, never towards time left
+export const getQuoteSla = (respondBy: string, now: Date) => {
+  const seconds = differenceInSeconds(new Date(respondBy), now);
+
+  if (seconds < 0) {
+    return { overdue: true, label: `Overdue by ${formatMinutes(Math.ceil(-seconds / 60))}`, color: 'bg-red-100 text-red-800' };
+  }
+
+  const minutes = Math.floor(seconds / 60);
+
+  return {
+    overdue: false,
+    label: `${formatMinutes(minutes)} left`,
+    color: minutes < 30 ? 'bg-amber-100 text-amber-800' : 'bg-green-100 text-green-800'
+  };
+};
+
+type QuoteStatus = 'pending' | 'quoted' | 'accepted' | 'declined' | 'expired';
+
+// Quotes past their expiry are locked even before the database catches up.
+// An accepted quote that was ordered stays accepted, as in expire_quotes.
+export const getQuoteStatus = (
+  quote: { status: QuoteStatus; expires_at: string | null },
+  now: Date,
+  ordered = false
+): QuoteStatus =>
+  (quote.status === 'quoted' || (quote.status === 'accepted' && !ordered)) &&
+  quote.expires_at !== null &&
+  new Date(quote.expires_at) <= now
+    ? 'expired'
+    : quote.status;
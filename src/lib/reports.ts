@@ -0,0 +1,72 @@
+import writeXlsxFile from 'write-excel-file';
+import type { SheetData } from 'write-excel-file';
+
+export type ReportValue = string | number | null;
+
+export interface ReportColumn {
+  label: string;
+  type?: 'text' | 'number' | 'decimal' | 'currency' | 'percent';
+}
+
+// One table per report; the same table feeds the screen, CSV and XLSX
+export interface ReportTable {
+  id: string;
+  title: string;
+  columns: ReportColumn[];
+  rows: ReportValue[][];
+}
+
+const saveBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const csvCell = (value: ReportValue) => {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const downloadCsv = (table: ReportTable, fileName: string) => {
+  const lines = [
+    table.columns.map(column => csvCell(column.label)),
+    ...table.rows.map(row => row.map(csvCell))
+  ].map(cells => cells.join(','));
+
+  // The byte order mark makes Excel read the file as UTF-8
+  saveBlob(new Blob(['\uFEFF', lines.join('\r\n')], { type: 'text/csv;charset=utf-8' }), fileName);
+};
+
+const xlsxFormats = {
+  text: undefined,
+  number: '#,##0',
+  decimal: '#,##0.00',
+  currency: '€#,##0.00',
+  percent: '0.0%'
+};
+
+// Sheet names are limited to 31 characters and some punctuation
+const sheetName = (title: string) => title.replace(/[\\/?*[\]:]/g, ' ').slice(0, 31);
+
+export const downloadXlsx = async (tables: ReportTable[], fileName: string) => {
+  const sheets: SheetData[] = tables.map(table => [
+    table.columns.map(column => ({ value: column.label, fontWeight: 'bold' as const })),
+    ...table.rows.map(row => row.map((value, index) => {
+      const type = table.columns[index]?.type ?? 'text';
+      if (value === null) return null;
+      return typeof value === 'number'
+        ? { value, type: Number, format: xlsxFormats[type] }
+        : { value: String(value), type: String };
+    }))
+  ]);
+
+  await writeXlsxFile(sheets, {
+    sheets: tables.map(table => sheetName(table.title)),
+    columns: tables.map(table => table.columns.map(column => ({ width: column.type === 'text' || !column.type ? 28 : 14 }))),
+    fileName
+  });
+};
@@ -0,0 +1,14 @@
+import { Package, Shirt, Wind, Scissors, Layers } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+
+// services.icon holds one of these names
+const serviceIcons: { [name: string]: LucideIcon } = {
+  package: Package,
+  shirt: Shirt,
+  wind: Wind,
+  scissors: Scissors,
+  layers: Layers
+};
+
+export const getServiceIcon = (name: string | null | undefined): LucideIcon =>
+  (name && serviceIcons[name]) || Package;
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { formatQuantity, settlementLabel } from './weighing';
+import type { OrderSettlement } from './weighing';
+
+const settlement = (overrides: Partial<OrderSettlement>): OrderSettlement => ({
+  id: 'settlement-1',
+  kind: 'top_up',
+  amount: 4.5,
+  status: 'open',
+  ...overrides
+});
+
+describe('formatQuantity', () => {
+  it('shows weights with a decimal comma and at most two decimals', () => {
+    expect(formatQuantity(4.2, 'kg')).toBe('4,2 kg');
+    expect(formatQuantity(3.456, 'kg')).toBe('3,46 kg');
+    expect(formatQuantity(5, 'kg')).toBe('5 kg');
+  });
+
+  it('shows carpet areas in square metres', () => {
+    expect(formatQuantity(3.33, 'm2')).toBe('3,33 m²');
+  });
+
+  it('accepts numeric strings from the database', () => {
+    expect(formatQuantity('2.50' as unknown as number, 'kg')).toBe('2,5 kg');
+  });
+
+  it('shows item counts as a multiplier', () => {
+    expect(formatQuantity(3, 'item')).toBe('3×');
+    expect(formatQuantity(1, undefined)).toBe('1×');
+  });
+});
+
+describe('settlementLabel', () => {
+  it('describes an open and a paid top-up', () => {
+    expect(settlementLabel(settlement({}))).toBe('€4.50 top-up due');
+    expect(settlementLabel(settlement({ status: 'paid' }))).toBe('€4.50 top-up paid');
+  });
+
+  it('treats a failed top-up as still due', () => {
+    expect(settlementLabel(settlement({ status: 'failed' }))).toBe('€4.50 top-up due');
+  });
+
+  it('describes a pending and a completed refund', () => {
+    expect(settlementLabel(settlement({ kind: 'refund', amount: 1.2 }))).toBe('€1.20 refund in progress');
+    expect(settlementLabel(settlement({ kind: 'refund', amount: 1.2, status: 'refunded' }))).toBe('€1.20 refunded');
+  });
+
+  it('rounds the amount to cents', () => {
+    expect(settlementLabel(settlement({ amount: 0.125 }))).toBe('€0.13 top-up due');
+  });
+});
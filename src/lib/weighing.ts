@@ -0,0 +1,32 @@
+export type PricingUnit = 'item' | 'kg' | 'm2';
+
+export type SettlementKind = 'top_up' | 'refund';
+
+export type SettlementStatus = 'open' | 'paid' | 'refunding' | 'refunded' | 'failed';
+
+// The difference between the estimated and the weighed amount of a paid order
+export interface OrderSettlement {
+  id: string;
+  kind: SettlementKind;
+  amount: number;
+  status: SettlementStatus;
+  failure_reason?: string | null;
+}
+
+// Weights and carpet areas are stored with two decimals, item counts are whole numbers
+export const formatQuantity = (quantity: number, unit: PricingUnit | undefined) => {
+  const measured = Number(quantity).toLocaleString('nl-NL', { maximumFractionDigits: 2 });
+
+  if (unit === 'kg') return `${measured} kg`;
+  if (unit === 'm2') return `${measured} m²`;
+  return `${quantity}×`;
+};
+
+export const settlementLabel = (settlement: OrderSettlement) => {
+  const amount = `€${Number(settlement.amount).toFixed(2)}`;
+
+  if (settlement.kind === 'refund') {
+    return settlement.status === 'refunded' ? `${amount} refunded` : `${amount} refund in progress`;
+  }
+  return settlement.status === 'paid' ? `${amount} top-up paid` : `${amount} top-up due`;
+};
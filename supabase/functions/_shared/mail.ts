@@ -0,0 +1,80 @@
+// Outgoing mail goes through a transport picked with MAIL_TRANSPORT, so
+// functions never talk to a provider directly. `test` is the default: it
+// keeps messages in memory and logs them, which is what local development and
+// `supabase functions serve` use. sendMail resolves to false when the test
+// transport handled the message, so callers never report it as sent.
+
+export interface MailMessage {
+  to: string | string[]
+  subject: string
+  text: string
+  html?: string
+  replyTo?: string
+}
+
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>
+}
+
+// Messages sent through the test transport, newest last
+export const outbox: (MailMessage & { from: string })[] = []
+
+const testTransport: MailTransport = {
+  send(message) {
+    outbox.push(message)
+    console.log(`[mail] to=${[message.to].flat().join(',')} subject="${message.subject}"\n${message.text}`)
+    return Promise.resolve()
+  },
+}
+
+const resendTransport: MailTransport = {
+  async send(message) {
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${Deno.env.get('RESEND_API_KEY') ?? ''}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        from: message.from,
+        to: [message.to].flat(),
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+        reply_to: message.replyTo,
+      }),
+    })
+
+    if (!response.ok) {
+      throw new Error(`Mail provider responded with ${response.status}: ${await response.text()}`)
+    }
+  },
+}
+
+const transports: Record<string, MailTransport> = {
+  test: testTransport,
+  resend: resendTransport,
+}
+
+export const registerMailTransport = (name: string, transport: MailTransport) => {
+  transports[name] = transport
+}
+
+export const sendMail = async (message: MailMessage) => {
+  const name = Deno.env.get('MAIL_TRANSPORT') ?? 'test'
+  const transport = transports[name]
+  if (!transport) {
+    throw new Error(`Unknown mail transport ${name}`)
+  }
+
+  await transport.send({
+    ...message,
+    from: Deno.env.get('MAIL_FROM') ?? 'Eazyy <noreply@eazyy.app>',
+  })
+
+  if (name === 'test') {
+    console.warn('[mail] MAIL_TRANSPORT is not set to a provider, the message was only logged')
+    return false
+  }
+  return true
+}
@@ -0,0 +1,36 @@
+import { createMollieClient, PaymentMethod } from 'npm:@mollie/api-client@3.7.0'
+
+export const mollieClient = createMollieClient({
+  apiKey: Deno.env.get('MOLLIE_API_KEY') ?? '',
+})
+
+// Orders store the payment method as credit_card/ideal/bancontact
+export const toMollieMethod = (method?: string) => {
+  switch (method) {
+    case 'credit_card':
+      return PaymentMethod.creditcard
+    case 'ideal':
+      return PaymentMethod.ideal
+    case 'bancontact':
+      return PaymentMethod.bancontact
+    default:
+      return undefined
+  }
+}
+
+export const fromMollieMethod = (method?: string | null) => {
+  switch (method) {
+    case PaymentMethod.creditcard:
+      return 'credit_card'
+    case PaymentMethod.ideal:
+    case PaymentMethod.bancontact:
+      return method
+    default:
+      return null
+  }
+}
+
+export const toMollieAmount = (amount: number) => ({
+  currency: 'EUR',
+  value: amount.toFixed(2),
+})
@@ -0,0 +1,98 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts'
+
+// Account actions on customers that need the auth admin API. The caller's
+// permission is checked with their own token; every action is written to
+// admin_audit_log.
+const BLOCK_DURATION = '876000h'
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } } }
+    )
+
+    const { data: { user } } = await supabaseClient.auth.getUser()
+    if (!user) {
+      return jsonResponse({ error: 'Not authenticated' }, 401)
+    }
+
+    const { data: allowed, error: permissionError } = await supabaseClient.rpc('has_permission', {
+      p_permission: 'users.write',
+    })
+    if (permissionError) throw permissionError
+    if (!allowed) {
+      return jsonResponse({ error: 'You do not have permission to manage customers' }, 403)
+    }
+
+    const { action, userId, reason } = await req.json()
+    if (!userId) {
+      throw new Error('Missing user id')
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const { data: { user: customer }, error: customerError } = await supabaseAdmin.auth.admin.getUserById(userId)
+    if (customerError || !customer) {
+      return jsonResponse({ error: 'Customer not found' }, 404)
+    }
+
+    const { data: customerAdmin } = await supabaseAdmin
+      .from('admin_users')
+      .select('id')
+      .eq('auth_id', userId)
+      .maybeSingle()
+    if (customerAdmin) {
+      return jsonResponse({ error: 'Admin accounts are managed from Settings' }, 400)
+    }
+
+    switch (action) {
+      case 'block':
+      case 'unblock': {
+        const { error } = await supabaseAdmin.auth.admin.updateUserById(userId, {
+          ban_duration: action === 'block' ? BLOCK_DURATION : 'none',
+        })
+        if (error) throw error
+        break
+      }
+      case 'reset_password': {
+        if (!customer.email) {
+          return jsonResponse({ error: 'This customer has no email address' }, 400)
+        }
+        const siteUrl = Deno.env.get('SITE_URL') ?? req.headers.get('origin') ?? ''
+        const { error } = await supabaseAdmin.auth.resetPasswordForEmail(customer.email, {
+          redirectTo: `${siteUrl}/reset-password`,
+        })
+        if (error) throw error
+        break
+      }
+      default:
+        return jsonResponse({ error: 'Unknown action' }, 400)
+    }
+
+    const { error: auditError } = await supabaseAdmin
+      .from('admin_audit_log')
+      .insert({
+        actor_id: user.id,
+        action,
+        target_user_id: userId,
+        details: reason ? { reason } : {},
+      })
+    if (auditError) throw auditError
+
+    return jsonResponse({ success: true })
+  } catch (error) {
+    console.error('Admin user action error:', error)
+    return jsonResponse({ error: error.message ?? 'Action failed' }, 400)
+  }
+})
@@ -0,0 +1,75 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts'
+import { sendMail } from '../_shared/mail.ts'
+
+// Approves a business inquiry with the caller's token, so the permission
+// check and the onboarding happen in approve_business_inquiry(), then sends
+// the contact their invitation.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } } }
+    )
+
+    const { data: { user } } = await supabaseClient.auth.getUser()
+    if (!user) {
+      return jsonResponse({ error: 'Not authenticated' }, 401)
+    }
+
+    const { inquiryId } = await req.json()
+    if (!inquiryId) {
+      throw new Error('Missing inquiry id')
+    }
+
+    const { data: organization, error: approveError } = await supabaseClient.rpc('approve_business_inquiry', {
+      p_inquiry_id: inquiryId,
+    })
+    if (approveError) {
+      return jsonResponse({ error: approveError.message }, 400)
+    }
+
+    const { data: inquiry, error: inquiryError } = await supabaseClient
+      .from('business_inquiries')
+      .select('contact_name, email')
+      .eq('id', inquiryId)
+      .single()
+    if (inquiryError) throw inquiryError
+
+    const siteUrl = Deno.env.get('SITE_URL') ?? req.headers.get('origin') ?? ''
+
+    // The approval stands even if the mail fails; the team can resend by hand
+    let mailSent = false
+    try {
+      mailSent = await sendMail({
+        to: inquiry.email,
+        subject: `Your Eazyy business account for ${organization.name} is ready`,
+        text: `
+Hi ${inquiry.contact_name},
+
+Welcome to Eazyy for Business! We have set up ${organization.name} with you as its owner.
+
+Sign in or create an account with this email address (${inquiry.email}) to get started:
+${siteUrl}/login
+
+From the Team page you can invite colleagues to order laundry for your organisation.
+
+The Eazyy team
+`.trim(),
+      })
+    } catch (mailError) {
+      console.error('Business approval mail error:', mailError)
+    }
+
+    return jsonResponse({ organization, mailSent })
+  } catch (error) {
+    console.error('Business approval error:', error)
+    return jsonResponse({ error: error.message ?? 'Approval failed' }, 400)
+  }
+})
@@ -1,58 +1,44 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-}
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts'
+import { sendMail } from '../_shared/mail.ts'
 
+// Tells the sales team about a new business registration. The inquiry itself
+// is stored by the client; a failure here does not undo it.
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders })
   }
 
   try {
-    const supabaseClient = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_ANON_KEY') ?? ''
-    )
-
     const { registration } = await req.json()
+    if (!registration?.companyName || !registration?.email) {
+      throw new Error('Missing registration details')
+    }
+
+    await sendMail({
+      to: Deno.env.get('SALES_EMAIL') ?? 'sales@eazyy.app',
+      replyTo: registration.email,
+      subject: `New business registration: ${registration.companyName}`,
+      text: `
+New Business Registration:
+
+Company: ${registration.companyName}
+Business Type: ${registration.businessType}
+Contact: ${registration.firstName} ${registration.lastName}
+Email: ${registration.email}
+Phone: ${registration.phone}
+
+Service Requirements:
+Frequency: ${registration.serviceFrequency}
 
-    // Send email using your preferred email service
-    const emailContent = `
-      New Business Registration:
-      
-      Company: ${registration.companyName}
-      Business Type: ${registration.businessType}
-      Contact: ${registration.firstName} ${registration.lastName}
-      Email: ${registration.email}
-      Phone: ${registration.phone}
-      
-      Service Requirements:
-      Frequency: ${registration.serviceFrequency}
-      
-      Additional Information:
-      ${registration.description}
-    `
+Additional Information:
+${registration.description}
+`.trim(),
+    })
 
-    // Here you would integrate with your email service
-    // For example using SendGrid, AWS SES, etc.
-    
-    return new Response(
-      JSON.stringify({ success: true }),
-      { 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 200,
-      }
-    )
+    return jsonResponse({ success: true })
   } catch (error) {
-    return new Response(
-      JSON.stringify({ error: error.message }),
-      { 
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 400,
-      }
-    )
+    console.error('Business registration mail error:', error)
+    return jsonResponse({ error: error.message }, 400)
   }
-})
\ No newline at end of file
+})
@@ -0,0 +1,81 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts'
+import { mollieClient, toMollieAmount, toMollieMethod } from '../_shared/mollie.ts'
+
+// Creates a Mollie payment for an open invoice of the caller's organisation.
+// Like order payments, the amount comes from the stored invoice and the
+// status is only written by the mollie-webhook function.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? ''
+    const supabaseClient = createClient(
+      supabaseUrl,
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } } }
+    )
+
+    const { data: { user } } = await supabaseClient.auth.getUser()
+    if (!user) {
+      return jsonResponse({ error: 'Not authenticated' }, 401)
+    }
+
+    const { invoiceId, method } = await req.json()
+    if (!invoiceId) {
+      throw new Error('Missing invoice id')
+    }
+
+    // RLS limits this to invoices of the caller's organisations
+    const { data: invoice, error: invoiceError } = await supabaseClient
+      .from('invoices')
+      .select('id, invoice_number, organization_id, customer_name, billing_email, total_amount, status')
+      .eq('id', invoiceId)
+      .single()
+
+    if (invoiceError || !invoice) {
+      return jsonResponse({ error: 'Invoice not found' }, 404)
+    }
+
+    const { data: role, error: roleError } = await supabaseClient.rpc('organization_role', {
+      p_organization_id: invoice.organization_id,
+    })
+    if (roleError) throw roleError
+
+    if (role !== 'owner' && role !== 'admin') {
+      return jsonResponse({ error: 'Only owners and admins can pay invoices' }, 403)
+    }
+
+    if (invoice.status === 'paid') {
+      return jsonResponse({ error: 'Invoice has already been paid' }, 409)
+    }
+
+    const siteUrl = Deno.env.get('SITE_URL') ?? req.headers.get('origin') ?? ''
+
+    const payment = await mollieClient.payments.create({
+      amount: toMollieAmount(Number(invoice.total_amount)),
+      description: `Eazyy invoice ${invoice.invoice_number}`,
+      redirectUrl: `${siteUrl}/business/billing?invoice=${encodeURIComponent(invoice.invoice_number)}`,
+      webhookUrl: `${supabaseUrl}/functions/v1/mollie-webhook`,
+      method: toMollieMethod(method),
+      locale: 'nl_NL',
+      metadata: {
+        invoice_id: invoice.id,
+        invoice_number: invoice.invoice_number,
+        customer_name: invoice.customer_name,
+        email: invoice.billing_email,
+      },
+    })
+
+    return jsonResponse({
+      id: payment.id,
+      checkoutUrl: payment.getCheckoutUrl(),
+    })
+  } catch (error) {
+    console.error('Invoice payment creation error:', error)
+    return jsonResponse({ error: error.message ?? 'Payment creation failed' }, 400)
+  }
+})
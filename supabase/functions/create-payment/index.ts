@@ -0,0 +1,127 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts'
+import { mollieClient, toMollieAmount, toMollieMethod } from '../_shared/mollie.ts'
+
+// Creates a Mollie payment for one of the caller's orders. The amount always
+// comes from the stored order, never from the request. Order and payment
+// status are only written by the mollie-webhook function; this function only
+// records which attempt is the latest. A paid order that weighed more than
+// estimated is charged its open top-up instead.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? ''
+    const supabaseClient = createClient(
+      supabaseUrl,
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } } }
+    )
+
+    const { data: { user } } = await supabaseClient.auth.getUser()
+    if (!user) {
+      return jsonResponse({ error: 'Not authenticated' }, 401)
+    }
+
+    const { orderId, method } = await req.json()
+    if (!orderId) {
+      throw new Error('Missing order id')
+    }
+
+    // RLS limits this to the caller's own orders
+    const { data: order, error: orderError } = await supabaseClient
+      .from('orders')
+      .select('id, order_number, customer_name, email, total_amount, status, payment_status, payment_method')
+      .eq('id', orderId)
+      .single()
+
+    if (orderError || !order) {
+      return jsonResponse({ error: 'Order not found' }, 404)
+    }
+
+    if (order.payment_method === 'invoice') {
+      return jsonResponse({ error: 'Order is billed on the monthly invoice' }, 409)
+    }
+
+    // A cancelled order no longer holds its pickup and delivery slots
+    if (order.status === 'cancelled') {
+      return jsonResponse({ error: 'Order has been cancelled' }, 409)
+    }
+
+    const siteUrl = Deno.env.get('SITE_URL') ?? req.headers.get('origin') ?? ''
+
+    if (order.payment_status === 'paid') {
+      const { data: topUp } = await supabaseClient
+        .from('order_settlements')
+        .select('id, amount')
+        .eq('order_id', order.id)
+        .eq('kind', 'top_up')
+        .eq('status', 'open')
+        .maybeSingle()
+
+      if (!topUp) {
+        return jsonResponse({ error: 'Order has already been paid' }, 409)
+      }
+
+      const topUpPayment = await mollieClient.payments.create({
+        amount: toMollieAmount(Number(topUp.amount)),
+        description: `Eazyy order ${order.order_number} weight adjustment`,
+        redirectUrl: `${siteUrl}/account/orders`,
+        webhookUrl: `${supabaseUrl}/functions/v1/mollie-webhook`,
+        method: toMollieMethod(method),
+        locale: 'nl_NL',
+        metadata: {
+          order_id: order.id,
+          settlement_id: topUp.id,
+          order_number: order.order_number,
+        },
+      })
+
+      return jsonResponse({
+        id: topUpPayment.id,
+        checkoutUrl: topUpPayment.getCheckoutUrl(),
+      })
+    }
+
+    const payment = await mollieClient.payments.create({
+      amount: toMollieAmount(Number(order.total_amount)),
+      description: `Eazyy order ${order.order_number}`,
+      redirectUrl: `${siteUrl}/order/success?order=${encodeURIComponent(order.order_number)}`,
+      webhookUrl: `${supabaseUrl}/functions/v1/mollie-webhook`,
+      method: toMollieMethod(method),
+      locale: 'nl_NL',
+      metadata: {
+        order_id: order.id,
+        order_number: order.order_number,
+        customer_name: order.customer_name,
+        email: order.email,
+      },
+    })
+
+    // The webhook ignores failures of older attempts, so an attempt that
+    // expires cannot cancel the order while this one is open, and
+    // cancel_unpaid_orders waits two hours from the latest attempt
+    const supabaseAdmin = createClient(
+      supabaseUrl,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const { error: attemptError } = await supabaseAdmin
+      .from('orders')
+      .update({ transaction_id: payment.id, payment_started_at: new Date().toISOString() })
+      .eq('id', order.id)
+      .eq('payment_status', 'pending')
+    if (attemptError) throw attemptError
+
+    return jsonResponse({
+      id: payment.id,
+      checkoutUrl: payment.getCheckoutUrl(),
+    })
+  } catch (error) {
+    console.error('Payment creation error:', error)
+    return jsonResponse({ error: error.message ?? 'Payment creation failed' }, 400)
+  }
+})
@@ -0,0 +1,279 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { encode } from 'https://deno.land/std@0.168.0/encoding/base64.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'npm:pdf-lib@1.17.1'
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts'
+
+// Renders an invoice as PDF. The invoice is read with the caller's token, so
+// RLS decides who may download it. The PDF goes back base64-encoded in JSON
+// because functions.invoke() only hands binary bodies over as octet-stream.
+interface Supplier {
+  company_name: string
+  address: string | null
+  kvk_number: string | null
+  vat_number: string | null
+  iban: string | null
+  email: string | null
+}
+
+interface Invoice {
+  invoice_number: string
+  issue_date: string
+  due_date: string
+  period_start: string
+  period_end: string
+  supplier: Supplier
+  customer_name: string
+  customer_address: string | null
+  customer_vat_number: string | null
+  subtotal: number
+  total_amount: number
+  status: string
+  paid_at: string | null
+}
+
+interface InvoiceLine {
+  order_number: string | null
+  delivered_on: string | null
+  description: string
+  quantity: number
+  unit_price: number
+  vat_rate: number
+  net_amount: number
+}
+
+const PAGE_WIDTH = 595.28
+const PAGE_HEIGHT = 841.89
+const MARGIN = 50
+const GREY = rgb(0.4, 0.4, 0.4)
+
+const money = (amount: number) => `€${Number(amount).toFixed(2)}`
+
+// Dates are stored as yyyy-mm-dd; Dutch invoices read dd-mm-yyyy
+const day = (date: string | null) => (date ? date.slice(0, 10).split('-').reverse().join('-') : '')
+
+// Half cents round up like the database rounds vat_amount, despite float
+// products such as 2.50 × 0.21 landing just below 0.525
+const vatAmount = (net: number, rate: number) => Math.round(Number((net * rate * 100).toFixed(4))) / 100
+
+const percent = (rate: number) => `${Math.round(Number(rate) * 100)}%`
+
+// The standard PDF fonts only cover WinAnsi
+const clean = (text: string | null | undefined) =>
+  (text ?? '').replace(/[^\n\x20-\x7E\xA0-\xFF€]/g, '?')
+
+const fit = (text: string, font: PDFFont, size: number, width: number) => {
+  let fitted = clean(text)
+  if (font.widthOfTextAtSize(fitted, size) <= width) return fitted
+  while (fitted && font.widthOfTextAtSize(`${fitted}...`, size) > width) {
+    fitted = fitted.slice(0, -1)
+  }
+  return `${fitted}...`
+}
+
+const renderInvoice = async (invoice: Invoice, lines: InvoiceLine[]) => {
+  const pdf = await PDFDocument.create()
+  const font = await pdf.embedFont(StandardFonts.Helvetica)
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold)
+  const supplier = invoice.supplier
+
+  pdf.setTitle(`Invoice ${invoice.invoice_number}`)
+  pdf.setAuthor(supplier.company_name)
+
+  let page: PDFPage = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+  let y = PAGE_HEIGHT - MARGIN
+
+  const text = (value: string, x: number, options: { size?: number; bold?: boolean; color?: ReturnType<typeof rgb>; right?: boolean } = {}) => {
+    const size = options.size ?? 9
+    const face = options.bold ? bold : font
+    const content = clean(value)
+    const left = options.right ? x - face.widthOfTextAtSize(content, size) : x
+    page.drawText(content, { x: left, y, size, font: face, color: options.color })
+  }
+
+  const block = (rows: (string | null | undefined)[], x: number, options: { right?: boolean } = {}) => {
+    const top = y
+    for (const row of rows.flatMap(row => clean(row).split('\n')).filter(Boolean)) {
+      text(row, x, options)
+      y -= 12
+    }
+    const bottom = y
+    y = top
+    return bottom
+  }
+
+  // Header: title on the left, supplier details on the right
+  text('INVOICE', MARGIN, { size: 20, bold: true })
+  text(supplier.company_name, PAGE_WIDTH - MARGIN, { size: 12, bold: true, right: true })
+  y -= 30
+
+  const supplierBottom = block([
+    supplier.address,
+    supplier.email,
+    supplier.kvk_number && `KvK: ${supplier.kvk_number}`,
+    supplier.vat_number && `VAT: ${supplier.vat_number}`,
+    supplier.iban && `IBAN: ${supplier.iban}`,
+  ], PAGE_WIDTH - MARGIN, { right: true })
+
+  text('Bill to', MARGIN, { bold: true })
+  y -= 14
+  const customerBottom = block([
+    invoice.customer_name,
+    invoice.customer_address,
+    invoice.customer_vat_number && `VAT: ${invoice.customer_vat_number}`,
+  ], MARGIN)
+
+  y = Math.min(supplierBottom, customerBottom) - 16
+
+  const details: [string, string][] = [
+    ['Invoice number', invoice.invoice_number],
+    ['Invoice date', day(invoice.issue_date)],
+    ['Due date', day(invoice.due_date)],
+    ['Period', `${day(invoice.period_start)} to ${day(invoice.period_end)}`],
+  ]
+  for (const [label, value] of details) {
+    text(label, MARGIN, { color: GREY })
+    text(value, MARGIN + 100)
+    y -= 12
+  }
+  y -= 16
+
+  // Line table
+  const columns = {
+    date: MARGIN,
+    order: MARGIN + 60,
+    description: MARGIN + 150,
+    quantity: MARGIN + 345,
+    price: MARGIN + 405,
+    vat: MARGIN + 440,
+    amount: PAGE_WIDTH - MARGIN,
+  }
+
+  const tableHeader = () => {
+    text('Delivered', columns.date, { bold: true })
+    text('Order', columns.order, { bold: true })
+    text('Description', columns.description, { bold: true })
+    text('Qty', columns.quantity, { bold: true, right: true })
+    text('Price', columns.price, { bold: true, right: true })
+    text('VAT', columns.vat, { bold: true })
+    text('Amount', columns.amount, { bold: true, right: true })
+    y -= 6
+    page.drawLine({
+      start: { x: MARGIN, y },
+      end: { x: PAGE_WIDTH - MARGIN, y },
+      thickness: 0.5,
+      color: GREY,
+    })
+    y -= 12
+  }
+
+  tableHeader()
+
+  for (const line of lines) {
+    if (y < MARGIN + 40) {
+      page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+      y = PAGE_HEIGHT - MARGIN
+      tableHeader()
+    }
+
+    text(day(line.delivered_on), columns.date)
+    text(line.order_number ?? '', columns.order)
+    text(fit(line.description, font, 9, columns.quantity - columns.description - 30), columns.description)
+    text(String(line.quantity), columns.quantity, { right: true })
+    text(money(line.unit_price), columns.price, { right: true })
+    text(percent(line.vat_rate), columns.vat)
+    text(money(line.net_amount), columns.amount, { right: true })
+    y -= 14
+  }
+
+  // Totals with the VAT broken down per rate
+  const rates = new Map<number, number>()
+  for (const line of lines) {
+    const rate = Number(line.vat_rate)
+    rates.set(rate, (rates.get(rate) ?? 0) + Number(line.net_amount))
+  }
+
+  if (y < MARGIN + 60 + rates.size * 14) {
+    page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+    y = PAGE_HEIGHT - MARGIN
+  }
+
+  y -= 10
+  const labelX = columns.price - 60
+  text('Subtotal excl. VAT', labelX)
+  text(money(invoice.subtotal), columns.amount, { right: true })
+  y -= 14
+  for (const [rate, net] of rates) {
+    text(`VAT ${percent(rate)} over ${money(net)}`, labelX)
+    text(money(vatAmount(net, rate)), columns.amount, { right: true })
+    y -= 14
+  }
+  text('Total', labelX, { size: 11, bold: true })
+  text(money(invoice.total_amount), columns.amount, { size: 11, bold: true, right: true })
+  y -= 30
+
+  if (invoice.status === 'paid') {
+    text(`Paid on ${day(invoice.paid_at)}. Thank you!`, MARGIN)
+  } else {
+    text(
+      `Please pay ${money(invoice.total_amount)} before ${day(invoice.due_date)}` +
+        (supplier.iban ? ` to ${supplier.iban} (${supplier.company_name})` : '') +
+        `, quoting ${invoice.invoice_number}.`,
+      MARGIN
+    )
+  }
+
+  return pdf.save()
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } } }
+    )
+
+    const { data: { user } } = await supabaseClient.auth.getUser()
+    if (!user) {
+      return jsonResponse({ error: 'Not authenticated' }, 401)
+    }
+
+    const { invoiceId } = await req.json()
+    if (!invoiceId) {
+      throw new Error('Missing invoice id')
+    }
+
+    const { data: invoice, error: invoiceError } = await supabaseClient
+      .from('invoices')
+      .select('*')
+      .eq('id', invoiceId)
+      .single()
+
+    if (invoiceError || !invoice) {
+      return jsonResponse({ error: 'Invoice not found' }, 404)
+    }
+
+    const { data: lines, error: linesError } = await supabaseClient
+      .from('invoice_lines')
+      .select('order_number, delivered_on, description, quantity, unit_price, vat_rate, net_amount')
+      .eq('invoice_id', invoiceId)
+      .order('position')
+
+    if (linesError) throw linesError
+
+    const pdf = await renderInvoice(invoice, lines ?? [])
+
+    return jsonResponse({
+      filename: `${invoice.invoice_number}.pdf`,
+      content: encode(pdf),
+    })
+  } catch (error) {
+    console.error('Invoice PDF error:', error)
+    return jsonResponse({ error: error.message ?? 'Could not render the invoice' }, 400)
+  }
+})
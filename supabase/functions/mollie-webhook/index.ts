@@ -0,0 +1,217 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { fromMollieMethod, mollieClient, toMollieAmount } from '../_shared/mollie.ts'
+
+// Mollie only sends the payment id, so every status change is verified by
+// fetching the payment from Mollie before the order or invoice is updated.
+const orderStatusFor = (paymentStatus: string) => {
+  switch (paymentStatus) {
+    case 'paid':
+      return { payment_status: 'paid', status: 'confirmed' }
+    case 'failed':
+    case 'canceled':
+    case 'expired':
+      return { payment_status: 'failed', status: 'cancelled' }
+    default:
+      return null
+  }
+}
+
+// Invoice payments only ever settle an invoice; a failed attempt leaves it
+// open so the customer can try again
+const settleInvoice = async (
+  supabaseAdmin: ReturnType<typeof createClient>,
+  invoiceId: string,
+  payment: Awaited<ReturnType<typeof mollieClient.payments.get>>
+) => {
+  if (payment.status !== 'paid') return
+
+  const { data: invoice, error: invoiceError } = await supabaseAdmin
+    .from('invoices')
+    .select('id, total_amount')
+    .eq('id', invoiceId)
+    .single()
+
+  if (invoiceError || !invoice) {
+    console.error('Webhook for unknown invoice:', invoiceId, payment.id)
+    return
+  }
+
+  if (payment.amount.value !== toMollieAmount(Number(invoice.total_amount)).value) {
+    console.error('Payment amount does not match invoice total:', invoiceId, payment.id)
+    return
+  }
+
+  const { error: settleError } = await supabaseAdmin.rpc('settle_invoice', {
+    p_invoice_id: invoice.id,
+    p_payment_method: fromMollieMethod(payment.method),
+    p_transaction_id: payment.id,
+  })
+
+  if (settleError) throw settleError
+}
+
+// A weight top-up only ever settles its settlement; the order itself was
+// paid before. A failed attempt leaves it open so the customer can retry.
+const settleTopUp = async (
+  supabaseAdmin: ReturnType<typeof createClient>,
+  settlementId: string,
+  payment: Awaited<ReturnType<typeof mollieClient.payments.get>>
+) => {
+  if (payment.status !== 'paid') return
+
+  const { data: settlement, error: settlementError } = await supabaseAdmin
+    .from('order_settlements')
+    .select('id, amount, status')
+    .eq('id', settlementId)
+    .single()
+
+  if (settlementError || !settlement) {
+    console.error('Webhook for unknown settlement:', settlementId, payment.id)
+    return
+  }
+
+  if (settlement.status === 'paid') return
+
+  if (payment.amount.value !== toMollieAmount(Number(settlement.amount)).value) {
+    console.error('Payment amount does not match top-up:', settlementId, payment.id)
+    return
+  }
+
+  const { error: updateError } = await supabaseAdmin
+    .from('order_settlements')
+    .update({
+      status: 'paid',
+      transaction_id: payment.id,
+      settled_at: new Date().toISOString(),
+    })
+    .eq('id', settlement.id)
+
+  if (updateError) throw updateError
+}
+
+serve(async (req) => {
+  if (req.method !== 'POST') {
+    return new Response('Method not allowed', { status: 405 })
+  }
+
+  try {
+    const form = await req.formData()
+    const paymentId = form.get('id')
+    if (typeof paymentId !== 'string' || !paymentId) {
+      return new Response('Missing payment id', { status: 400 })
+    }
+
+    const payment = await mollieClient.payments.get(paymentId)
+    const metadata = payment.metadata as { order_id?: string; invoice_id?: string; settlement_id?: string } | null
+    const orderId = metadata?.order_id
+    const update = orderStatusFor(payment.status)
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    if (metadata?.invoice_id) {
+      await settleInvoice(supabaseAdmin, metadata.invoice_id, payment)
+      return new Response(null, { status: 200 })
+    }
+
+    if (metadata?.settlement_id) {
+      await settleTopUp(supabaseAdmin, metadata.settlement_id, payment)
+      return new Response(null, { status: 200 })
+    }
+
+    // Mollie expects a 200 for payments we don't act on, otherwise it keeps retrying
+    if (!orderId || !update) {
+      return new Response(null, { status: 200 })
+    }
+
+    const { data: order, error: orderError } = await supabaseAdmin
+      .from('orders')
+      .select('id, order_number, status, total_amount, payment_status, transaction_id')
+      .eq('id', orderId)
+      .single()
+
+    if (orderError || !order) {
+      console.error('Webhook for unknown order:', orderId, paymentId)
+      return new Response(null, { status: 200 })
+    }
+
+    // Never let a stale attempt overwrite a payment that already succeeded
+    if (order.payment_status === 'paid' && order.transaction_id !== payment.id) {
+      return new Response(null, { status: 200 })
+    }
+
+    // create-payment records the latest attempt. An older checkout that
+    // fails or expires must not cancel the order while a newer one is open.
+    if (
+      update.payment_status !== 'paid' &&
+      order.transaction_id &&
+      order.transaction_id !== payment.id
+    ) {
+      return new Response(null, { status: 200 })
+    }
+
+    // A cancelled order already gave its slots back, so a late payment is
+    // refunded instead of confirming an order nobody has capacity for
+    if (update.payment_status === 'paid' && order.status === 'cancelled') {
+      if (order.payment_status === 'refunded' && order.transaction_id === payment.id) {
+        return new Response(null, { status: 200 })
+      }
+
+      if (payment.amountRefunded?.value !== payment.amount.value) {
+        await mollieClient.paymentRefunds.create({
+          paymentId: payment.id,
+          amount: payment.amount,
+          description: `Eazyy order ${order.order_number} was cancelled`,
+          idempotencyKey: `cancelled-order-${payment.id}`,
+        })
+      }
+
+      const { error: refundedError } = await supabaseAdmin
+        .from('orders')
+        .update({
+          payment_status: 'refunded',
+          transaction_id: payment.id,
+          payment_method: fromMollieMethod(payment.method),
+        })
+        .eq('id', order.id)
+
+      if (refundedError) throw refundedError
+      return new Response(null, { status: 200 })
+    }
+
+    // Mollie repeats notifications; a repeat must not pull an order that ops
+    // already moved along back to its first status
+    if (order.payment_status === update.payment_status && order.transaction_id === payment.id) {
+      return new Response(null, { status: 200 })
+    }
+
+    if (payment.amount.value !== toMollieAmount(Number(order.total_amount)).value) {
+      console.error('Payment amount does not match order total:', orderId, paymentId)
+      return new Response(null, { status: 200 })
+    }
+
+    // Only a pending order is confirmed or cancelled by its payment; once ops
+    // moved it along, the payment no longer decides its status
+    const { status, ...paymentUpdate } = update
+
+    const { error: updateError } = await supabaseAdmin
+      .from('orders')
+      .update({
+        ...paymentUpdate,
+        ...(order.status === 'pending' ? { status } : {}),
+        transaction_id: payment.id,
+        payment_method: fromMollieMethod(payment.method),
+      })
+      .eq('id', order.id)
+
+    if (updateError) throw updateError
+
+    return new Response(null, { status: 200 })
+  } catch (error) {
+    console.error('Mollie webhook error:', error)
+    return new Response('Webhook processing failed', { status: 500 })
+  }
+})
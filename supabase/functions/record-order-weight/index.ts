@@ -0,0 +1,125 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts'
+import { mollieClient, toMollieAmount } from '../_shared/mollie.ts'
+
+// Records the weighed bags of an order with the caller's own token, so
+// record_order_weights checks their permission. When the order was paid too
+// much the difference is refunded on its Mollie payment straight away; a
+// call without weights retries a refund that failed before. The settlement
+// is claimed before Mollie is called, and the refund carries an idempotency
+// key, so a double click or a retry never refunds twice.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } } }
+    )
+
+    const { data: { user } } = await supabaseClient.auth.getUser()
+    if (!user) {
+      return jsonResponse({ error: 'Not authenticated' }, 401)
+    }
+
+    const { data: allowed, error: permissionError } = await supabaseClient.rpc('has_permission', {
+      p_permission: 'orders.write',
+    })
+    if (permissionError) throw permissionError
+    if (!allowed) {
+      return jsonResponse({ error: 'You do not have permission to weigh orders' }, 403)
+    }
+
+    const { orderId, weights } = await req.json()
+    if (!orderId) {
+      throw new Error('Missing order id')
+    }
+
+    if (weights) {
+      const { error: weighError } = await supabaseClient.rpc('record_order_weights', {
+        p_order_id: orderId,
+        p_weights: weights,
+      })
+      if (weighError) {
+        return jsonResponse({ error: weighError.message }, 400)
+      }
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const { data: settlement, error: settlementError } = await supabaseAdmin
+      .from('order_settlements')
+      .select('id, kind, amount, status, orders(order_number, transaction_id)')
+      .eq('order_id', orderId)
+      .maybeSingle()
+    if (settlementError) throw settlementError
+
+    if (!settlement || settlement.kind !== 'refund' || settlement.status === 'refunded') {
+      return jsonResponse({ settlement })
+    }
+
+    const order = settlement.orders as { order_number: string; transaction_id: string | null } | null
+    if (!order?.transaction_id) {
+      return jsonResponse({ error: 'The order has no Mollie payment to refund' }, 409)
+    }
+
+    // A claim that is still `refunding` after a few minutes belongs to a call
+    // that stopped after Mollie answered; the idempotency key returns its refund
+    const staleClaim = new Date(Date.now() - 5 * 60 * 1000).toISOString()
+    const { data: claimed, error: claimError } = await supabaseAdmin
+      .from('order_settlements')
+      .update({ status: 'refunding', failure_reason: null })
+      .eq('id', settlement.id)
+      .or(`status.in.(open,failed),and(status.eq.refunding,updated_at.lt.${staleClaim})`)
+      .select('id')
+      .maybeSingle()
+    if (claimError) throw claimError
+
+    if (!claimed) {
+      return jsonResponse({ error: 'The refund is already being processed' }, 409)
+    }
+
+    try {
+      const refund = await mollieClient.paymentRefunds.create({
+        paymentId: order.transaction_id,
+        amount: toMollieAmount(Number(settlement.amount)),
+        description: `Eazyy order ${order.order_number} weight adjustment`,
+        idempotencyKey: `settlement-refund-${settlement.id}`,
+      })
+
+      const { data: refunded, error: refundedError } = await supabaseAdmin
+        .from('order_settlements')
+        .update({
+          status: 'refunded',
+          transaction_id: refund.id,
+          failure_reason: null,
+          settled_at: new Date().toISOString(),
+        })
+        .eq('id', settlement.id)
+        .select('id, kind, amount, status')
+        .single()
+      if (refundedError) throw refundedError
+
+      return jsonResponse({ settlement: refunded })
+    } catch (error) {
+      // The weights are kept; staff retry the refund from the order
+      console.error('Refund failed:', orderId, error)
+      await supabaseAdmin
+        .from('order_settlements')
+        .update({ status: 'failed', failure_reason: error.message ?? 'Refund failed' })
+        .eq('id', settlement.id)
+
+      return jsonResponse({ error: `The refund failed: ${error.message ?? 'unknown error'}` }, 502)
+    }
+  } catch (error) {
+    console.error('Record weight error:', error)
+    return jsonResponse({ error: error.message ?? 'Recording the weight failed' }, 400)
+  }
+})
@@ -0,0 +1,61 @@
+/*
+  # Payment Fields Only Writable by the Payment Webhook
+
+  1. Changes
+    - Add trigger that stops customers from setting `payment_status`,
+      `transaction_id` or `status` on their own orders
+    - New orders created by customers always start as pending/unpaid
+    - Add orders to the realtime publication so the success page can follow
+      the payment status
+
+  2. Security
+    - Only the service role (used by the `mollie-webhook` function) and
+      database functions may change payment and order status
+*/
+
+CREATE OR REPLACE FUNCTION protect_order_payment_fields()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Service role and SECURITY DEFINER functions are trusted
+  IF current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.status := 'pending';
+    NEW.payment_status := 'pending';
+    NEW.transaction_id := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.payment_status IS DISTINCT FROM OLD.payment_status
+    OR NEW.transaction_id IS DISTINCT FROM OLD.transaction_id
+  THEN
+    RAISE EXCEPTION 'Order status and payment fields cannot be changed directly'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_order_payment_fields ON orders;
+
+CREATE TRIGGER protect_order_payment_fields
+  BEFORE INSERT OR UPDATE ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_order_payment_fields();
+
+-- Let the success page follow payment status changes
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'orders'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE orders;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_orders_transaction_id ON orders(transaction_id);
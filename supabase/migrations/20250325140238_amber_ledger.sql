@@ -0,0 +1,157 @@
+/*
+  # Server-side Order Creation
+
+  1. Changes
+    - Add `create_order(p_order jsonb)` function that reads current prices from
+      `items`, computes VAT and fees and inserts the order with its lines in a
+      single transaction
+    - Returns the persisted order row
+
+  2. Security
+    - Customers can no longer insert into `orders`/`order_items` or update
+      their orders directly; `create_order` is the only way in
+    - Function runs as SECURITY DEFINER and always uses `auth.uid()` as owner
+*/
+
+-- Orders are only created through create_order
+DROP POLICY IF EXISTS "orders_insert_own_20250320" ON orders;
+DROP POLICY IF EXISTS "orders_update_own_20250320" ON orders;
+DROP POLICY IF EXISTS "order_items_insert_own_20250320" ON order_items;
+
+CREATE OR REPLACE FUNCTION create_order(p_order jsonb)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_vat_rate constant numeric := 0.21;
+  v_shipping_fee constant numeric := 0;
+  v_user_id uuid := auth.uid();
+  v_customer_name text;
+  v_email text;
+  v_phone text;
+  v_line jsonb;
+  v_item items;
+  v_quantity integer;
+  v_lines jsonb := '[]'::jsonb;
+  v_subtotal numeric(10,2) := 0;
+  v_tax numeric(10,2);
+  v_order orders;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF jsonb_typeof(p_order->'items') IS DISTINCT FROM 'array'
+    OR jsonb_array_length(p_order->'items') = 0
+  THEN
+    RAISE EXCEPTION 'An order needs at least one item';
+  END IF;
+
+  -- Customer details come from the account, not from the request
+  SELECT
+    nullif(trim(concat_ws(' ',
+      coalesce(p.first_name, u.raw_user_meta_data->>'first_name'),
+      coalesce(p.last_name, u.raw_user_meta_data->>'last_name')
+    )), ''),
+    u.email,
+    coalesce(p.phone, u.raw_user_meta_data->>'phone')
+  INTO v_customer_name, v_email, v_phone
+  FROM auth.users u
+  LEFT JOIN profiles p ON p.id = u.id
+  WHERE u.id = v_user_id;
+
+  -- Price every line from the catalog before anything is written
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_order->'items')
+  LOOP
+    v_quantity := (v_line->>'quantity')::integer;
+    IF v_quantity IS NULL OR v_quantity < 1 OR v_quantity > 100 THEN
+      RAISE EXCEPTION 'Invalid quantity for item %', v_line->>'item_id';
+    END IF;
+
+    SELECT * INTO v_item
+    FROM items
+    WHERE id = (v_line->>'item_id')::uuid
+      AND status = true
+      AND is_custom_price = false
+      AND price IS NOT NULL;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item % is not available', v_line->>'item_id';
+    END IF;
+
+    v_lines := v_lines || jsonb_build_object(
+      'product_id', v_item.id,
+      'product_name', v_item.name,
+      'quantity', v_quantity,
+      'unit_price', v_item.price,
+      'subtotal', v_item.price * v_quantity
+    );
+
+    v_subtotal := v_subtotal + v_item.price * v_quantity;
+  END LOOP;
+
+  v_tax := round(v_subtotal * v_vat_rate, 2);
+
+  INSERT INTO orders (
+    order_number,
+    user_id,
+    customer_name,
+    email,
+    phone,
+    shipping_address,
+    shipping_method,
+    estimated_delivery,
+    special_instructions,
+    subtotal,
+    tax,
+    shipping_fee,
+    total_amount,
+    status,
+    payment_status
+  ) VALUES (
+    p_order->>'order_number',
+    v_user_id,
+    coalesce(v_customer_name, v_email),
+    v_email,
+    v_phone,
+    p_order->>'delivery_address',
+    p_order->>'delivery_option',
+    (p_order->>'delivery_date')::timestamptz,
+    nullif(p_order->>'special_instructions', ''),
+    v_subtotal,
+    v_tax,
+    v_shipping_fee,
+    v_subtotal + v_tax + v_shipping_fee,
+    'pending',
+    'pending'
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (
+    order_id,
+    product_id,
+    product_name,
+    quantity,
+    unit_price,
+    subtotal
+  )
+  SELECT
+    v_order.id,
+    (line->>'product_id')::uuid,
+    line->>'product_name',
+    (line->>'quantity')::integer,
+    (line->>'unit_price')::numeric,
+    (line->>'subtotal')::numeric
+  FROM jsonb_array_elements(v_lines) AS line;
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION create_order(jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_order(jsonb) TO authenticated;
+
+COMMENT ON FUNCTION create_order(jsonb) IS 'Creates an order and its lines with prices, VAT and totals computed from the items table';
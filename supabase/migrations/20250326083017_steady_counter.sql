@@ -0,0 +1,222 @@
+/*
+  # Database-generated Order Numbers
+
+  1. New Tables
+    - `order_number_settings` (single row)
+      - `prefix` (text) - prepended to every order number, e.g. `EZY`
+      - `padding` (integer) - number of digits of the yearly counter
+
+  2. Changes
+    - Add `next_order_number()` backed by one sequence per calendar year,
+      producing numbers like `EZY2025-000001` that are unique and sort in
+      order of creation
+    - Use it as the default for `orders.order_number`
+    - `create_order` no longer accepts an order number from the client
+
+  3. Security
+    - Settings are readable by everyone and only writable by the service role
+*/
+
+CREATE TABLE IF NOT EXISTS order_number_settings (
+  id boolean PRIMARY KEY DEFAULT true,
+  prefix text NOT NULL DEFAULT 'EZY',
+  padding integer NOT NULL DEFAULT 6,
+  updated_at timestamptz DEFAULT now(),
+
+  CONSTRAINT single_row CHECK (id),
+  CONSTRAINT valid_prefix CHECK (prefix ~ '^[A-Z0-9]{1,8}$'),
+  CONSTRAINT valid_padding CHECK (padding BETWEEN 4 AND 6)
+);
+
+INSERT INTO order_number_settings (id) VALUES (true)
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE order_number_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "order_number_settings_read_public_20250326"
+  ON order_number_settings
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "order_number_settings_service_role_20250326"
+  ON order_number_settings
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE TRIGGER order_number_settings_updated_at
+  BEFORE UPDATE ON order_number_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_updated_at();
+
+-- Numbers restart every year, so each year gets its own sequence
+CREATE OR REPLACE FUNCTION next_order_number()
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_year text := to_char(now() AT TIME ZONE 'Europe/Amsterdam', 'YYYY');
+  v_sequence text := 'order_number_seq_' || v_year;
+  v_settings order_number_settings;
+  v_number text;
+BEGIN
+  SELECT * INTO v_settings FROM order_number_settings WHERE id;
+
+  IF to_regclass(v_sequence) IS NULL THEN
+    -- Two first orders of the year must not both try to create the sequence
+    PERFORM pg_advisory_xact_lock(hashtext('next_order_number'));
+    EXECUTE format('CREATE SEQUENCE IF NOT EXISTS %I', v_sequence);
+  END IF;
+
+  v_number := nextval(v_sequence)::text;
+
+  -- lpad cuts longer strings, so a year with more orders than the padding
+  -- holds gets longer numbers instead of repeating earlier ones
+  RETURN coalesce(v_settings.prefix, 'EZY')
+    || v_year
+    || '-'
+    || lpad(v_number, greatest(coalesce(v_settings.padding, 6), length(v_number)), '0');
+END;
+$$;
+
+ALTER TABLE orders
+  ALTER COLUMN order_number SET DEFAULT next_order_number();
+
+CREATE OR REPLACE FUNCTION create_order(p_order jsonb)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_vat_rate constant numeric := 0.21;
+  v_shipping_fee constant numeric := 0;
+  v_user_id uuid := auth.uid();
+  v_customer_name text;
+  v_email text;
+  v_phone text;
+  v_line jsonb;
+  v_item items;
+  v_quantity integer;
+  v_lines jsonb := '[]'::jsonb;
+  v_subtotal numeric(10,2) := 0;
+  v_tax numeric(10,2);
+  v_order orders;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF jsonb_typeof(p_order->'items') IS DISTINCT FROM 'array'
+    OR jsonb_array_length(p_order->'items') = 0
+  THEN
+    RAISE EXCEPTION 'An order needs at least one item';
+  END IF;
+
+  -- Customer details come from the account, not from the request
+  SELECT
+    nullif(trim(concat_ws(' ',
+      coalesce(p.first_name, u.raw_user_meta_data->>'first_name'),
+      coalesce(p.last_name, u.raw_user_meta_data->>'last_name')
+    )), ''),
+    u.email,
+    coalesce(p.phone, u.raw_user_meta_data->>'phone')
+  INTO v_customer_name, v_email, v_phone
+  FROM auth.users u
+  LEFT JOIN profiles p ON p.id = u.id
+  WHERE u.id = v_user_id;
+
+  -- Price every line from the catalog before anything is written
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_order->'items')
+  LOOP
+    v_quantity := (v_line->>'quantity')::integer;
+    IF v_quantity IS NULL OR v_quantity < 1 OR v_quantity > 100 THEN
+      RAISE EXCEPTION 'Invalid quantity for item %', v_line->>'item_id';
+    END IF;
+
+    SELECT * INTO v_item
+    FROM items
+    WHERE id = (v_line->>'item_id')::uuid
+      AND status = true
+      AND is_custom_price = false
+      AND price IS NOT NULL;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item % is not available', v_line->>'item_id';
+    END IF;
+
+    v_lines := v_lines || jsonb_build_object(
+      'product_id', v_item.id,
+      'product_name', v_item.name,
+      'quantity', v_quantity,
+      'unit_price', v_item.price,
+      'subtotal', v_item.price * v_quantity
+    );
+
+    v_subtotal := v_subtotal + v_item.price * v_quantity;
+  END LOOP;
+
+  v_tax := round(v_subtotal * v_vat_rate, 2);
+
+  -- order_number is filled in by the next_order_number() column default
+  INSERT INTO orders (
+    user_id,
+    customer_name,
+    email,
+    phone,
+    shipping_address,
+    shipping_method,
+    estimated_delivery,
+    special_instructions,
+    subtotal,
+    tax,
+    shipping_fee,
+    total_amount,
+    status,
+    payment_status
+  ) VALUES (
+    v_user_id,
+    coalesce(v_customer_name, v_email),
+    v_email,
+    v_phone,
+    p_order->>'delivery_address',
+    p_order->>'delivery_option',
+    (p_order->>'delivery_date')::timestamptz,
+    nullif(p_order->>'special_instructions', ''),
+    v_subtotal,
+    v_tax,
+    v_shipping_fee,
+    v_subtotal + v_tax + v_shipping_fee,
+    'pending',
+    'pending'
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (
+    order_id,
+    product_id,
+    product_name,
+    quantity,
+    unit_price,
+    subtotal
+  )
+  SELECT
+    v_order.id,
+    (line->>'product_id')::uuid,
+    line->>'product_name',
+    (line->>'quantity')::integer,
+    (line->>'unit_price')::numeric,
+    (line->>'subtotal')::numeric
+  FROM jsonb_array_elements(v_lines) AS line;
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION create_order(jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_order(jsonb) TO authenticated;
@@ -0,0 +1,82 @@
+/*
+  # Draft Orders
+
+  1. Changes
+    - Add `draft_orders` table holding the order wizard state (service, items,
+      address and schedule) of signed-in customers as a single jsonb document
+    - One draft per customer so the cart follows them across devices
+    - Add `save_draft_order(p_data jsonb)` to upsert the caller's draft
+    - Add `cancel_abandoned_order(p_order_id uuid)`. Checkout creates an
+      order from the draft; once the draft changes that order is replaced by
+      a new one, and the old one is cancelled if it was never paid
+
+  2. Security
+    - Enable RLS on `draft_orders`
+    - Customers can only read and write their own draft
+    - Service role has full access
+*/
+
+CREATE TABLE IF NOT EXISTS draft_orders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  data jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE draft_orders ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "draft_orders_manage_own_20250326" ON draft_orders;
+DROP POLICY IF EXISTS "draft_orders_service_role_20250326" ON draft_orders;
+
+CREATE POLICY "draft_orders_manage_own_20250326"
+  ON draft_orders
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "draft_orders_service_role_20250326"
+  ON draft_orders
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+DROP TRIGGER IF EXISTS draft_orders_updated_at ON draft_orders;
+
+CREATE TRIGGER draft_orders_updated_at
+  BEFORE UPDATE ON draft_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_updated_at();
+
+CREATE OR REPLACE FUNCTION save_draft_order(p_data jsonb)
+RETURNS void
+LANGUAGE sql
+SET search_path = public
+AS $$
+  INSERT INTO draft_orders (user_id, data)
+  VALUES (auth.uid(), p_data)
+  ON CONFLICT (user_id) DO UPDATE SET data = EXCLUDED.data;
+$$;
+
+-- Only the caller's own unpaid orders, and never one billed on account
+CREATE OR REPLACE FUNCTION cancel_abandoned_order(p_order_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE orders
+  SET status = 'cancelled'
+  WHERE id = p_order_id
+    AND user_id = auth.uid()
+    AND status = 'pending'
+    AND payment_status = 'pending'
+    AND payment_method IS DISTINCT FROM 'invoice';
+$$;
+
+REVOKE ALL ON FUNCTION save_draft_order(jsonb) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION cancel_abandoned_order(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION save_draft_order(jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_abandoned_order(uuid) TO authenticated;
@@ -0,0 +1,545 @@
+/*
+  # Pickup and Delivery Slots
+
+  1. New Tables
+    - `delivery_slots`
+      - `kind` (text) - `pickup` or `delivery`
+      - `starts_at`, `ends_at` (timestamptz) - the time window
+      - `cutoff_at` (timestamptz) - last moment the slot can be booked
+      - `postal_prefix` (text, nullable) - limits the slot to postal codes
+        starting with this prefix, null for every area
+      - `service_identifier` (text, nullable) - limits the slot to one
+        service, null for every service
+    - `slot_capacity`
+      - One row per driver working a slot with the number of stops they can
+        take (`capacity`) and the number already booked (`booked`)
+    - `slot_bookings`
+      - Links an order to the driver capacity it reserved
+
+  2. Changes
+    - `orders` gets `pickup_slot_id` and `delivery_slot_id`, and
+      `payment_started_at`, set by the `create-payment` function when a
+      Mollie checkout is opened. Customers cannot change it
+    - Add `get_available_slots(p_postal_code, p_service)` returning the open
+      windows for an address and service, including full ones
+    - Add `generate_delivery_slots()` creating the standard evening windows
+      for the coming two weeks, run daily by pg_cron
+    - `create_order` requires a pickup and a delivery slot and reserves
+      capacity for both in the same transaction as the order
+    - Cancelling an order releases its reserved capacity
+    - Add `cancel_unpaid_orders()`, run by pg_cron every 15 minutes. Orders
+      that are still unpaid two hours after they were created and after
+      their latest checkout was opened are cancelled, so abandoned checkouts
+      give their capacity back while an open checkout can still be paid
+
+  3. Security
+    - Slots are readable by everyone, capacity and bookings only through the
+      functions above and by the service role
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+CREATE TABLE IF NOT EXISTS delivery_slots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  kind text NOT NULL,
+  starts_at timestamptz NOT NULL,
+  ends_at timestamptz NOT NULL,
+  cutoff_at timestamptz NOT NULL,
+  postal_prefix text,
+  service_identifier text REFERENCES services(service_identifier) ON DELETE CASCADE,
+  status boolean DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+
+  CONSTRAINT valid_kind CHECK (kind IN ('pickup', 'delivery')),
+  CONSTRAINT valid_window CHECK (ends_at > starts_at),
+  CONSTRAINT valid_cutoff CHECK (cutoff_at <= starts_at),
+  CONSTRAINT valid_postal_prefix CHECK (postal_prefix ~ '^[0-9]{1,4}[A-Z]{0,2}$')
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_delivery_slots_unique
+  ON delivery_slots (kind, starts_at, coalesce(postal_prefix, ''), coalesce(service_identifier, ''));
+
+CREATE INDEX IF NOT EXISTS idx_delivery_slots_starts_at ON delivery_slots(starts_at);
+
+CREATE TABLE IF NOT EXISTS slot_capacity (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  slot_id uuid NOT NULL REFERENCES delivery_slots(id) ON DELETE CASCADE,
+  driver_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  driver_name text NOT NULL,
+  capacity integer NOT NULL,
+  booked integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+
+  CONSTRAINT valid_capacity CHECK (capacity >= 0),
+  CONSTRAINT valid_booked CHECK (booked >= 0 AND booked <= capacity),
+  CONSTRAINT unique_slot_driver UNIQUE (slot_id, driver_name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_slot_capacity_slot_id ON slot_capacity(slot_id);
+
+CREATE TABLE IF NOT EXISTS slot_bookings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  slot_capacity_id uuid NOT NULL REFERENCES slot_capacity(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+
+  CONSTRAINT unique_order_capacity UNIQUE (order_id, slot_capacity_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_slot_bookings_order_id ON slot_bookings(order_id);
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS pickup_slot_id uuid REFERENCES delivery_slots(id),
+  ADD COLUMN IF NOT EXISTS delivery_slot_id uuid REFERENCES delivery_slots(id),
+  ADD COLUMN IF NOT EXISTS payment_started_at timestamptz;
+
+-- The start of the latest checkout keeps an unpaid order alive, so only the
+-- payment functions may set it
+CREATE OR REPLACE FUNCTION protect_order_payment_fields()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Service role and SECURITY DEFINER functions are trusted
+  IF current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.status := 'pending';
+    NEW.payment_status := 'pending';
+    NEW.transaction_id := NULL;
+    NEW.payment_started_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.payment_status IS DISTINCT FROM OLD.payment_status
+    OR NEW.transaction_id IS DISTINCT FROM OLD.transaction_id
+    OR NEW.payment_started_at IS DISTINCT FROM OLD.payment_started_at
+  THEN
+    RAISE EXCEPTION 'Order status and payment fields cannot be changed directly'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+ALTER TABLE delivery_slots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE slot_capacity ENABLE ROW LEVEL SECURITY;
+ALTER TABLE slot_bookings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "delivery_slots_read_public_20250327"
+  ON delivery_slots
+  FOR SELECT
+  TO public
+  USING (status = true);
+
+CREATE POLICY "delivery_slots_service_role_20250327"
+  ON delivery_slots
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "slot_capacity_service_role_20250327"
+  ON slot_capacity
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "slot_bookings_service_role_20250327"
+  ON slot_bookings
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE TRIGGER delivery_slots_updated_at
+  BEFORE UPDATE ON delivery_slots
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_updated_at();
+
+CREATE TRIGGER slot_capacity_updated_at
+  BEFORE UPDATE ON slot_capacity
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_updated_at();
+
+-- Open windows for an address and service; full slots are returned with
+-- is_full so the schedule can show them disabled
+CREATE OR REPLACE FUNCTION get_available_slots(p_postal_code text, p_service text)
+RETURNS TABLE (
+  id uuid,
+  kind text,
+  starts_at timestamptz,
+  ends_at timestamptz,
+  cutoff_at timestamptz,
+  capacity integer,
+  booked integer,
+  is_full boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    s.id,
+    s.kind,
+    s.starts_at,
+    s.ends_at,
+    s.cutoff_at,
+    coalesce(sum(c.capacity), 0)::integer,
+    coalesce(sum(c.booked), 0)::integer,
+    coalesce(sum(c.capacity - c.booked), 0) = 0
+  FROM delivery_slots s
+  LEFT JOIN slot_capacity c ON c.slot_id = s.id
+  WHERE s.status = true
+    AND s.cutoff_at > now()
+    AND (s.postal_prefix IS NULL
+      OR upper(replace(p_postal_code, ' ', '')) LIKE s.postal_prefix || '%')
+    AND (s.service_identifier IS NULL OR s.service_identifier = p_service)
+  GROUP BY s.id
+  ORDER BY s.starts_at, s.kind;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_available_slots(text, text) TO anon, authenticated;
+
+-- Takes one stop of capacity on the least busy driver of a slot. Only called
+-- from create_order, which runs in the same transaction as the order insert.
+CREATE OR REPLACE FUNCTION reserve_slot_capacity(
+  p_slot_id uuid,
+  p_kind text,
+  p_postal_code text,
+  p_service text
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_candidate_id uuid;
+  v_capacity_id uuid;
+BEGIN
+  PERFORM 1
+  FROM get_available_slots(p_postal_code, p_service) s
+  WHERE s.id = p_slot_id AND s.kind = p_kind;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'The selected % slot is no longer available', p_kind;
+  END IF;
+
+  -- The update waits for concurrent bookings of the same driver and checks
+  -- the capacity again afterwards; when that driver filled up meanwhile the
+  -- next one is tried
+  FOR v_candidate_id IN
+    SELECT c.id
+    FROM slot_capacity c
+    WHERE c.slot_id = p_slot_id
+      AND c.booked < c.capacity
+    ORDER BY c.booked, c.driver_name
+  LOOP
+    UPDATE slot_capacity
+    SET booked = booked + 1
+    WHERE id = v_candidate_id
+      AND booked < capacity
+    RETURNING id INTO v_capacity_id;
+
+    EXIT WHEN v_capacity_id IS NOT NULL;
+  END LOOP;
+
+  IF v_capacity_id IS NULL THEN
+    RAISE EXCEPTION 'The selected % slot is full', p_kind;
+  END IF;
+
+  RETURN v_capacity_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION reserve_slot_capacity(uuid, text, text, text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION release_order_slots()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE slot_capacity c
+  SET booked = c.booked - b.bookings
+  FROM (
+    SELECT slot_capacity_id, count(*)::integer AS bookings
+    FROM slot_bookings
+    WHERE order_id = NEW.id
+    GROUP BY slot_capacity_id
+  ) b
+  WHERE c.id = b.slot_capacity_id;
+
+  DELETE FROM slot_bookings WHERE order_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS release_order_slots ON orders;
+
+CREATE TRIGGER release_order_slots
+  AFTER UPDATE OF status ON orders
+  FOR EACH ROW
+  WHEN (NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled')
+  EXECUTE FUNCTION release_order_slots();
+
+-- Standard evening windows (17:00-22:00, Amsterdam time) for every area and
+-- service. Slots that already exist are left alone.
+CREATE OR REPLACE FUNCTION generate_delivery_slots(
+  p_days integer DEFAULT 14,
+  p_drivers text[] DEFAULT ARRAY['Driver 1', 'Driver 2'],
+  p_capacity integer DEFAULT 6
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_today date := (now() AT TIME ZONE 'Europe/Amsterdam')::date;
+  v_created integer;
+BEGIN
+  WITH windows AS (
+    SELECT
+      k.kind,
+      ((v_today + d) + make_interval(hours => h)) AT TIME ZONE 'Europe/Amsterdam' AS starts_at
+    FROM generate_series(0, p_days - 1) AS d
+    CROSS JOIN generate_series(17, 21) AS h
+    CROSS JOIN (VALUES ('pickup'), ('delivery')) AS k(kind)
+  ),
+  new_slots AS (
+    INSERT INTO delivery_slots (kind, starts_at, ends_at, cutoff_at)
+    SELECT kind, starts_at, starts_at + interval '1 hour', starts_at - interval '2 hours'
+    FROM windows
+    ON CONFLICT DO NOTHING
+    RETURNING id
+  ),
+  new_capacity AS (
+    INSERT INTO slot_capacity (slot_id, driver_name, capacity)
+    SELECT s.id, driver.name, p_capacity
+    FROM new_slots s
+    CROSS JOIN unnest(p_drivers) AS driver(name)
+    RETURNING slot_id
+  )
+  SELECT count(DISTINCT slot_id) INTO v_created FROM new_capacity;
+
+  RETURN v_created;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION generate_delivery_slots(integer, text[], integer) FROM PUBLIC, anon, authenticated;
+
+SELECT generate_delivery_slots();
+
+SELECT cron.schedule(
+  'generate-delivery-slots',
+  '0 1 * * *',
+  'SELECT generate_delivery_slots()'
+);
+
+-- Mollie checkouts expire well within two hours. Orders billed on account
+-- stay pending until they are invoiced, so they are left alone.
+CREATE OR REPLACE FUNCTION cancel_unpaid_orders()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_cancelled integer;
+BEGIN
+  UPDATE orders
+  SET status = 'cancelled'
+  WHERE status = 'pending'
+    AND payment_status = 'pending'
+    AND payment_method IS DISTINCT FROM 'invoice'
+    -- A Mollie checkout stays open for well under two hours
+    AND greatest(created_at, payment_started_at) < now() - interval '2 hours';
+  GET DIAGNOSTICS v_cancelled = ROW_COUNT;
+
+  RETURN v_cancelled;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION cancel_unpaid_orders() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'cancel-unpaid-orders',
+  '*/15 * * * *',
+  'SELECT cancel_unpaid_orders()'
+);
+
+CREATE OR REPLACE FUNCTION create_order(p_order jsonb)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_vat_rate constant numeric := 0.21;
+  v_shipping_fee constant numeric := 0;
+  v_user_id uuid := auth.uid();
+  v_customer_name text;
+  v_email text;
+  v_phone text;
+  v_line jsonb;
+  v_item items;
+  v_quantity integer;
+  v_lines jsonb := '[]'::jsonb;
+  v_subtotal numeric(10,2) := 0;
+  v_tax numeric(10,2);
+  v_pickup_slot delivery_slots;
+  v_delivery_slot delivery_slots;
+  v_pickup_capacity_id uuid;
+  v_delivery_capacity_id uuid;
+  v_order orders;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF jsonb_typeof(p_order->'items') IS DISTINCT FROM 'array'
+    OR jsonb_array_length(p_order->'items') = 0
+  THEN
+    RAISE EXCEPTION 'An order needs at least one item';
+  END IF;
+
+  -- Customer details come from the account, not from the request
+  SELECT
+    nullif(trim(concat_ws(' ',
+      coalesce(p.first_name, u.raw_user_meta_data->>'first_name'),
+      coalesce(p.last_name, u.raw_user_meta_data->>'last_name')
+    )), ''),
+    u.email,
+    coalesce(p.phone, u.raw_user_meta_data->>'phone')
+  INTO v_customer_name, v_email, v_phone
+  FROM auth.users u
+  LEFT JOIN profiles p ON p.id = u.id
+  WHERE u.id = v_user_id;
+
+  -- Price every line from the catalog before anything is written
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_order->'items')
+  LOOP
+    v_quantity := (v_line->>'quantity')::integer;
+    IF v_quantity IS NULL OR v_quantity < 1 OR v_quantity > 100 THEN
+      RAISE EXCEPTION 'Invalid quantity for item %', v_line->>'item_id';
+    END IF;
+
+    SELECT * INTO v_item
+    FROM items
+    WHERE id = (v_line->>'item_id')::uuid
+      AND status = true
+      AND is_custom_price = false
+      AND price IS NOT NULL;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item % is not available', v_line->>'item_id';
+    END IF;
+
+    v_lines := v_lines || jsonb_build_object(
+      'product_id', v_item.id,
+      'product_name', v_item.name,
+      'quantity', v_quantity,
+      'unit_price', v_item.price,
+      'subtotal', v_item.price * v_quantity
+    );
+
+    v_subtotal := v_subtotal + v_item.price * v_quantity;
+  END LOOP;
+
+  v_tax := round(v_subtotal * v_vat_rate, 2);
+
+  SELECT * INTO v_pickup_slot FROM delivery_slots WHERE id = (p_order->>'pickup_slot_id')::uuid;
+  SELECT * INTO v_delivery_slot FROM delivery_slots WHERE id = (p_order->>'delivery_slot_id')::uuid;
+
+  IF v_pickup_slot.id IS NULL OR v_delivery_slot.id IS NULL THEN
+    RAISE EXCEPTION 'Please select a pickup and a delivery slot';
+  END IF;
+
+  IF v_delivery_slot.starts_at < v_pickup_slot.ends_at THEN
+    RAISE EXCEPTION 'Delivery must be scheduled after pickup';
+  END IF;
+
+  v_pickup_capacity_id := reserve_slot_capacity(
+    v_pickup_slot.id, 'pickup', p_order->>'postal_code', p_order->>'service'
+  );
+  v_delivery_capacity_id := reserve_slot_capacity(
+    v_delivery_slot.id, 'delivery', p_order->>'postal_code', p_order->>'service'
+  );
+
+  -- order_number is filled in by the next_order_number() column default
+  INSERT INTO orders (
+    user_id,
+    customer_name,
+    email,
+    phone,
+    shipping_address,
+    shipping_method,
+    estimated_delivery,
+    pickup_slot_id,
+    delivery_slot_id,
+    special_instructions,
+    subtotal,
+    tax,
+    shipping_fee,
+    total_amount,
+    status,
+    payment_status
+  ) VALUES (
+    v_user_id,
+    coalesce(v_customer_name, v_email),
+    v_email,
+    v_phone,
+    p_order->>'delivery_address',
+    p_order->>'delivery_option',
+    v_delivery_slot.starts_at,
+    v_pickup_slot.id,
+    v_delivery_slot.id,
+    nullif(p_order->>'special_instructions', ''),
+    v_subtotal,
+    v_tax,
+    v_shipping_fee,
+    v_subtotal + v_tax + v_shipping_fee,
+    'pending',
+    'pending'
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (
+    order_id,
+    product_id,
+    product_name,
+    quantity,
+    unit_price,
+    subtotal
+  )
+  SELECT
+    v_order.id,
+    (line->>'product_id')::uuid,
+    line->>'product_name',
+    (line->>'quantity')::integer,
+    (line->>'unit_price')::numeric,
+    (line->>'subtotal')::numeric
+  FROM jsonb_array_elements(v_lines) AS line;
+
+  INSERT INTO slot_bookings (order_id, slot_capacity_id)
+  VALUES
+    (v_order.id, v_pickup_capacity_id),
+    (v_order.id, v_delivery_capacity_id);
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION create_order(jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_order(jsonb) TO authenticated;
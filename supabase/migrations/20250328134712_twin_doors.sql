@@ -0,0 +1,247 @@
+/*
+  # Separate Pickup Address
+
+  1. Changes
+    - `orders` gets `pickup_address`; `shipping_address` keeps holding the
+      delivery address
+    - Existing orders were picked up where they were delivered, so their
+      pickup address is backfilled from `shipping_address`
+    - `create_order` takes separate pickup and delivery addresses and postal
+      codes, checks both against the service areas and books each slot for
+      its own address
+
+  2. Security
+    - No changes
+*/
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS pickup_address text;
+
+UPDATE orders
+SET pickup_address = shipping_address
+WHERE pickup_address IS NULL;
+
+CREATE OR REPLACE FUNCTION create_order(p_order jsonb)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_vat_rate constant numeric := 0.21;
+  v_shipping_fee constant numeric := 0;
+  v_user_id uuid := auth.uid();
+  v_customer_name text;
+  v_email text;
+  v_phone text;
+  v_line jsonb;
+  v_item items;
+  v_quantity integer;
+  v_lines jsonb := '[]'::jsonb;
+  v_subtotal numeric(10,2) := 0;
+  v_tax numeric(10,2);
+  v_service services;
+  v_is_express boolean := coalesce((p_order->>'express')::boolean, false);
+  v_turnaround_hours integer;
+  v_express_surcharge numeric(10,2) := 0;
+  v_pickup_slot delivery_slots;
+  v_delivery_slot delivery_slots;
+  v_pickup_capacity_id uuid;
+  v_delivery_capacity_id uuid;
+  v_order orders;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF jsonb_typeof(p_order->'items') IS DISTINCT FROM 'array'
+    OR jsonb_array_length(p_order->'items') = 0
+  THEN
+    RAISE EXCEPTION 'An order needs at least one item';
+  END IF;
+
+  -- Customer details come from the account, not from the request
+  SELECT
+    nullif(trim(concat_ws(' ',
+      coalesce(p.first_name, u.raw_user_meta_data->>'first_name'),
+      coalesce(p.last_name, u.raw_user_meta_data->>'last_name')
+    )), ''),
+    u.email,
+    coalesce(p.phone, u.raw_user_meta_data->>'phone')
+  INTO v_customer_name, v_email, v_phone
+  FROM auth.users u
+  LEFT JOIN profiles p ON p.id = u.id
+  WHERE u.id = v_user_id;
+
+  -- Price every line from the catalog before anything is written
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_order->'items')
+  LOOP
+    v_quantity := (v_line->>'quantity')::integer;
+    IF v_quantity IS NULL OR v_quantity < 1 OR v_quantity > 100 THEN
+      RAISE EXCEPTION 'Invalid quantity for item %', v_line->>'item_id';
+    END IF;
+
+    SELECT * INTO v_item
+    FROM items
+    WHERE id = (v_line->>'item_id')::uuid
+      AND status = true
+      AND is_custom_price = false
+      AND price IS NOT NULL;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item % is not available', v_line->>'item_id';
+    END IF;
+
+    v_lines := v_lines || jsonb_build_object(
+      'product_id', v_item.id,
+      'product_name', v_item.name,
+      'quantity', v_quantity,
+      'unit_price', v_item.price,
+      'subtotal', v_item.price * v_quantity
+    );
+
+    v_subtotal := v_subtotal + v_item.price * v_quantity;
+  END LOOP;
+
+  SELECT * INTO v_service
+  FROM services
+  WHERE service_identifier = p_order->>'service'
+    AND status = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Service % is not available', p_order->>'service';
+  END IF;
+
+  -- Items must belong to the service they are ordered under, otherwise a
+  -- cart could borrow another service's turnaround or surcharge
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(v_lines) AS line
+    JOIN items i ON i.id = (line->>'product_id')::uuid
+    LEFT JOIN categories c ON c.id = i.category_id
+    WHERE line->>'quote_id' IS NULL
+      AND c.service_id IS DISTINCT FROM v_service.id
+  ) THEN
+    RAISE EXCEPTION 'Some items in this order do not belong to %', v_service.name;
+  END IF;
+
+  IF v_is_express THEN
+    IF v_service.express_turnaround_hours IS NULL THEN
+      RAISE EXCEPTION 'Express is not available for %', v_service.name;
+    END IF;
+
+    v_turnaround_hours := v_service.express_turnaround_hours;
+    v_express_surcharge := v_service.express_surcharge;
+  ELSE
+    v_turnaround_hours := v_service.turnaround_hours;
+  END IF;
+
+  -- VAT applies to the express surcharge as well
+  v_tax := round((v_subtotal + v_express_surcharge) * v_vat_rate, 2);
+
+  SELECT * INTO v_pickup_slot FROM delivery_slots WHERE id = (p_order->>'pickup_slot_id')::uuid;
+  SELECT * INTO v_delivery_slot FROM delivery_slots WHERE id = (p_order->>'delivery_slot_id')::uuid;
+
+  IF nullif(trim(p_order->>'pickup_address'), '') IS NULL
+    OR nullif(trim(p_order->>'delivery_address'), '') IS NULL
+  THEN
+    RAISE EXCEPTION 'An order needs a pickup and a delivery address';
+  END IF;
+
+  IF lookup_service_area(p_order->>'pickup_postal_code') IS NULL THEN
+    RAISE EXCEPTION 'We do not pick up at postal code % yet', p_order->>'pickup_postal_code';
+  END IF;
+
+  IF lookup_service_area(p_order->>'delivery_postal_code') IS NULL THEN
+    RAISE EXCEPTION 'We do not deliver to postal code % yet', p_order->>'delivery_postal_code';
+  END IF;
+
+  IF v_pickup_slot.id IS NULL OR v_delivery_slot.id IS NULL THEN
+    RAISE EXCEPTION 'Please select a pickup and a delivery slot';
+  END IF;
+
+  IF v_delivery_slot.starts_at < v_pickup_slot.ends_at + make_interval(hours => v_turnaround_hours) THEN
+    RAISE EXCEPTION '% needs at least % hours between pickup and delivery',
+      v_service.name, v_turnaround_hours;
+  END IF;
+
+  v_pickup_capacity_id := reserve_slot_capacity(
+    v_pickup_slot.id, 'pickup', p_order->>'pickup_postal_code', p_order->>'service'
+  );
+  v_delivery_capacity_id := reserve_slot_capacity(
+    v_delivery_slot.id, 'delivery', p_order->>'delivery_postal_code', p_order->>'service'
+  );
+
+  -- order_number is filled in by the next_order_number() column default
+  INSERT INTO orders (
+    user_id,
+    customer_name,
+    email,
+    phone,
+    pickup_address,
+    shipping_address,
+    shipping_method,
+    estimated_delivery,
+    pickup_slot_id,
+    delivery_slot_id,
+    is_express,
+    special_instructions,
+    subtotal,
+    express_surcharge,
+    tax,
+    shipping_fee,
+    total_amount,
+    status,
+    payment_status
+  ) VALUES (
+    v_user_id,
+    coalesce(v_customer_name, v_email),
+    v_email,
+    v_phone,
+    p_order->>'pickup_address',
+    p_order->>'delivery_address',
+    p_order->>'delivery_option',
+    v_delivery_slot.starts_at,
+    v_pickup_slot.id,
+    v_delivery_slot.id,
+    v_is_express,
+    nullif(p_order->>'special_instructions', ''),
+    v_subtotal,
+    v_express_surcharge,
+    v_tax,
+    v_shipping_fee,
+    v_subtotal + v_express_surcharge + v_tax + v_shipping_fee,
+    'pending',
+    'pending'
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (
+    order_id,
+    product_id,
+    product_name,
+    quantity,
+    unit_price,
+    subtotal
+  )
+  SELECT
+    v_order.id,
+    (line->>'product_id')::uuid,
+    line->>'product_name',
+    (line->>'quantity')::integer,
+    (line->>'unit_price')::numeric,
+    (line->>'subtotal')::numeric
+  FROM jsonb_array_elements(v_lines) AS line;
+
+  INSERT INTO slot_bookings (order_id, slot_capacity_id)
+  VALUES
+    (v_order.id, v_pickup_capacity_id),
+    (v_order.id, v_delivery_capacity_id);
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION create_order(jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_order(jsonb) TO authenticated;
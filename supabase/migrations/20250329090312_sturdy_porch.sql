@@ -0,0 +1,391 @@
+/*
+  # Structured Addresses
+
+  1. Changes
+    - `user_addresses` gets house number, addition, floor, door code,
+      coordinates, Google place id and courier instructions; `street` now
+      only holds the street name
+    - Existing addresses have their house number split off the street
+    - Add `format_address` and `address_details` to turn an address into the
+      display line and the jsonb snapshot stored on orders
+    - `orders` gets `pickup_details` and `delivery_details` so an order keeps
+      the address as it was when it was placed
+    - `create_order` takes `pickup_address_id` and `delivery_address_id` from
+      the customer's address book instead of free text and postal codes
+    - QR labels carry the structured pickup and delivery details
+    - Add `driver_route_stops` view listing every paid pickup and delivery
+      stop with its slot, driver and courier details
+
+  2. Security
+    - `driver_route_stops` exposes door codes, so only the service role can
+      read it
+    - Door codes are left out of the QR label data
+*/
+
+ALTER TABLE user_addresses
+  ADD COLUMN IF NOT EXISTS house_number text,
+  ADD COLUMN IF NOT EXISTS house_number_addition text,
+  ADD COLUMN IF NOT EXISTS floor text,
+  ADD COLUMN IF NOT EXISTS door_code text,
+  ADD COLUMN IF NOT EXISTS latitude double precision,
+  ADD COLUMN IF NOT EXISTS longitude double precision,
+  ADD COLUMN IF NOT EXISTS place_id text,
+  ADD COLUMN IF NOT EXISTS courier_instructions text;
+
+ALTER TABLE user_addresses
+  DROP CONSTRAINT IF EXISTS valid_coordinates;
+
+ALTER TABLE user_addresses
+  ADD CONSTRAINT valid_coordinates CHECK (
+    (latitude IS NULL AND longitude IS NULL)
+    OR (latitude BETWEEN -90 AND 90 AND longitude BETWEEN -180 AND 180)
+  );
+
+-- "Damrak 12-B" becomes street "Damrak", number "12", addition "B"
+UPDATE user_addresses a
+SET
+  street = parsed.parts[1],
+  house_number = parsed.parts[2],
+  house_number_addition = nullif(parsed.parts[3], '')
+FROM (
+  SELECT id, regexp_match(street, '^(.*\S)\s+(\d+)\s*-?\s*([A-Za-z0-9]*)$') AS parts
+  FROM user_addresses
+  WHERE house_number IS NULL
+) parsed
+WHERE a.id = parsed.id
+  AND parsed.parts IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION format_address(p_address user_addresses)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT concat_ws(', ',
+    concat_ws(' ',
+      p_address.street,
+      nullif(concat_ws('-', p_address.house_number, p_address.house_number_addition), '')
+    ),
+    concat_ws(' ', p_address.city, p_address.postal_code)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION address_details(p_address user_addresses)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT jsonb_strip_nulls(jsonb_build_object(
+    'address_id', p_address.id,
+    'street', p_address.street,
+    'house_number', p_address.house_number,
+    'house_number_addition', p_address.house_number_addition,
+    'postal_code', p_address.postal_code,
+    'city', p_address.city,
+    'floor', p_address.floor,
+    'door_code', p_address.door_code,
+    'latitude', p_address.latitude,
+    'longitude', p_address.longitude,
+    'courier_instructions', p_address.courier_instructions
+  ));
+$$;
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS pickup_details jsonb,
+  ADD COLUMN IF NOT EXISTS delivery_details jsonb;
+
+-- Labels travel with the bag through the whole facility, so door codes stay off them
+CREATE OR REPLACE FUNCTION generate_order_qr_data(order_row orders)
+RETURNS text
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN json_build_object(
+    'order_number', order_row.order_number,
+    'customer_name', order_row.customer_name,
+    'email', order_row.email,
+    'phone', order_row.phone,
+    'pickup_address', order_row.pickup_address,
+    'pickup_details', order_row.pickup_details - 'door_code',
+    'shipping_address', order_row.shipping_address,
+    'delivery_details', order_row.delivery_details - 'door_code',
+    'shipping_method', order_row.shipping_method,
+    'estimated_delivery', order_row.estimated_delivery,
+    'total_amount', order_row.total_amount,
+    'status', order_row.status,
+    'created_at', order_row.created_at
+  )::text;
+END;
+$$;
+
+CREATE OR REPLACE VIEW driver_route_stops AS
+SELECT
+  o.id AS order_id,
+  o.order_number,
+  s.kind,
+  s.id AS slot_id,
+  s.starts_at,
+  s.ends_at,
+  sc.driver_id,
+  sc.driver_name,
+  o.customer_name,
+  o.phone,
+  CASE s.kind WHEN 'pickup' THEN o.pickup_address ELSE o.shipping_address END AS address,
+  stop.details->>'postal_code' AS postal_code,
+  stop.details->>'floor' AS floor,
+  stop.details->>'door_code' AS door_code,
+  (stop.details->>'latitude')::double precision AS latitude,
+  (stop.details->>'longitude')::double precision AS longitude,
+  stop.details->>'courier_instructions' AS courier_instructions
+FROM orders o
+JOIN slot_bookings b ON b.order_id = o.id
+JOIN slot_capacity sc ON sc.id = b.slot_capacity_id
+JOIN delivery_slots s ON s.id = sc.slot_id
+CROSS JOIN LATERAL (
+  SELECT CASE s.kind WHEN 'pickup' THEN o.pickup_details ELSE o.delivery_details END AS details
+) stop
+WHERE o.payment_status = 'paid'
+  AND o.status <> 'cancelled';
+
+REVOKE ALL ON driver_route_stops FROM PUBLIC, anon, authenticated;
+GRANT SELECT ON driver_route_stops TO service_role;
+
+CREATE OR REPLACE FUNCTION create_order(p_order jsonb)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_vat_rate constant numeric := 0.21;
+  v_shipping_fee constant numeric := 0;
+  v_user_id uuid := auth.uid();
+  v_customer_name text;
+  v_email text;
+  v_phone text;
+  v_line jsonb;
+  v_item items;
+  v_quantity integer;
+  v_lines jsonb := '[]'::jsonb;
+  v_subtotal numeric(10,2) := 0;
+  v_tax numeric(10,2);
+  v_service services;
+  v_is_express boolean := coalesce((p_order->>'express')::boolean, false);
+  v_turnaround_hours integer;
+  v_express_surcharge numeric(10,2) := 0;
+  v_pickup_address user_addresses;
+  v_delivery_address user_addresses;
+  v_pickup_slot delivery_slots;
+  v_delivery_slot delivery_slots;
+  v_pickup_capacity_id uuid;
+  v_delivery_capacity_id uuid;
+  v_order orders;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF jsonb_typeof(p_order->'items') IS DISTINCT FROM 'array'
+    OR jsonb_array_length(p_order->'items') = 0
+  THEN
+    RAISE EXCEPTION 'An order needs at least one item';
+  END IF;
+
+  -- Customer details come from the account, not from the request
+  SELECT
+    nullif(trim(concat_ws(' ',
+      coalesce(p.first_name, u.raw_user_meta_data->>'first_name'),
+      coalesce(p.last_name, u.raw_user_meta_data->>'last_name')
+    )), ''),
+    u.email,
+    coalesce(p.phone, u.raw_user_meta_data->>'phone')
+  INTO v_customer_name, v_email, v_phone
+  FROM auth.users u
+  LEFT JOIN profiles p ON p.id = u.id
+  WHERE u.id = v_user_id;
+
+  -- Price every line from the catalog before anything is written
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_order->'items')
+  LOOP
+    v_quantity := (v_line->>'quantity')::integer;
+    IF v_quantity IS NULL OR v_quantity < 1 OR v_quantity > 100 THEN
+      RAISE EXCEPTION 'Invalid quantity for item %', v_line->>'item_id';
+    END IF;
+
+    SELECT * INTO v_item
+    FROM items
+    WHERE id = (v_line->>'item_id')::uuid
+      AND status = true
+      AND is_custom_price = false
+      AND price IS NOT NULL;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item % is not available', v_line->>'item_id';
+    END IF;
+
+    v_lines := v_lines || jsonb_build_object(
+      'product_id', v_item.id,
+      'product_name', v_item.name,
+      'quantity', v_quantity,
+      'unit_price', v_item.price,
+      'subtotal', v_item.price * v_quantity
+    );
+
+    v_subtotal := v_subtotal + v_item.price * v_quantity;
+  END LOOP;
+
+  SELECT * INTO v_service
+  FROM services
+  WHERE service_identifier = p_order->>'service'
+    AND status = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Service % is not available', p_order->>'service';
+  END IF;
+
+  -- Items must belong to the service they are ordered under, otherwise a
+  -- cart could borrow another service's turnaround or surcharge
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(v_lines) AS line
+    JOIN items i ON i.id = (line->>'product_id')::uuid
+    LEFT JOIN categories c ON c.id = i.category_id
+    WHERE line->>'quote_id' IS NULL
+      AND c.service_id IS DISTINCT FROM v_service.id
+  ) THEN
+    RAISE EXCEPTION 'Some items in this order do not belong to %', v_service.name;
+  END IF;
+
+  IF v_is_express THEN
+    IF v_service.express_turnaround_hours IS NULL THEN
+      RAISE EXCEPTION 'Express is not available for %', v_service.name;
+    END IF;
+
+    v_turnaround_hours := v_service.express_turnaround_hours;
+    v_express_surcharge := v_service.express_surcharge;
+  ELSE
+    v_turnaround_hours := v_service.turnaround_hours;
+  END IF;
+
+  -- VAT applies to the express surcharge as well
+  v_tax := round((v_subtotal + v_express_surcharge) * v_vat_rate, 2);
+
+  SELECT * INTO v_pickup_slot FROM delivery_slots WHERE id = (p_order->>'pickup_slot_id')::uuid;
+  SELECT * INTO v_delivery_slot FROM delivery_slots WHERE id = (p_order->>'delivery_slot_id')::uuid;
+
+  -- Addresses come from the customer's address book so drivers get the
+  -- structured details, never from free text in the request
+  SELECT * INTO v_pickup_address
+  FROM user_addresses
+  WHERE id = (p_order->>'pickup_address_id')::uuid
+    AND user_id = v_user_id;
+
+  SELECT * INTO v_delivery_address
+  FROM user_addresses
+  WHERE id = (p_order->>'delivery_address_id')::uuid
+    AND user_id = v_user_id;
+
+  IF v_pickup_address.id IS NULL OR v_delivery_address.id IS NULL THEN
+    RAISE EXCEPTION 'An order needs a pickup and a delivery address';
+  END IF;
+
+  IF lookup_service_area(v_pickup_address.postal_code) IS NULL THEN
+    RAISE EXCEPTION 'We do not pick up at postal code % yet', v_pickup_address.postal_code;
+  END IF;
+
+  IF lookup_service_area(v_delivery_address.postal_code) IS NULL THEN
+    RAISE EXCEPTION 'We do not deliver to postal code % yet', v_delivery_address.postal_code;
+  END IF;
+
+  IF v_pickup_slot.id IS NULL OR v_delivery_slot.id IS NULL THEN
+    RAISE EXCEPTION 'Please select a pickup and a delivery slot';
+  END IF;
+
+  IF v_delivery_slot.starts_at < v_pickup_slot.ends_at + make_interval(hours => v_turnaround_hours) THEN
+    RAISE EXCEPTION '% needs at least % hours between pickup and delivery',
+      v_service.name, v_turnaround_hours;
+  END IF;
+
+  v_pickup_capacity_id := reserve_slot_capacity(
+    v_pickup_slot.id, 'pickup', v_pickup_address.postal_code, p_order->>'service'
+  );
+  v_delivery_capacity_id := reserve_slot_capacity(
+    v_delivery_slot.id, 'delivery', v_delivery_address.postal_code, p_order->>'service'
+  );
+
+  -- order_number is filled in by the next_order_number() column default
+  INSERT INTO orders (
+    user_id,
+    customer_name,
+    email,
+    phone,
+    pickup_address,
+    pickup_details,
+    shipping_address,
+    delivery_details,
+    shipping_method,
+    estimated_delivery,
+    pickup_slot_id,
+    delivery_slot_id,
+    is_express,
+    special_instructions,
+    subtotal,
+    express_surcharge,
+    tax,
+    shipping_fee,
+    total_amount,
+    status,
+    payment_status
+  ) VALUES (
+    v_user_id,
+    coalesce(v_customer_name, v_email),
+    v_email,
+    v_phone,
+    format_address(v_pickup_address),
+    address_details(v_pickup_address),
+    format_address(v_delivery_address),
+    address_details(v_delivery_address),
+    p_order->>'delivery_option',
+    v_delivery_slot.starts_at,
+    v_pickup_slot.id,
+    v_delivery_slot.id,
+    v_is_express,
+    nullif(p_order->>'special_instructions', ''),
+    v_subtotal,
+    v_express_surcharge,
+    v_tax,
+    v_shipping_fee,
+    v_subtotal + v_express_surcharge + v_tax + v_shipping_fee,
+    'pending',
+    'pending'
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (
+    order_id,
+    product_id,
+    product_name,
+    quantity,
+    unit_price,
+    subtotal
+  )
+  SELECT
+    v_order.id,
+    (line->>'product_id')::uuid,
+    line->>'product_name',
+    (line->>'quantity')::integer,
+    (line->>'unit_price')::numeric,
+    (line->>'subtotal')::numeric
+  FROM jsonb_array_elements(v_lines) AS line;
+
+  INSERT INTO slot_bookings (order_id, slot_capacity_id)
+  VALUES
+    (v_order.id, v_pickup_capacity_id),
+    (v_order.id, v_delivery_capacity_id);
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION create_order(jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_order(jsonb) TO authenticated;
@@ -0,0 +1,37 @@
+/*
+  # Link Categories to Services
+
+  1. Changes
+    - Add `service_id` to `categories` so the catalog screens can list a
+      service's categories and items straight from the database
+    - Assign the existing categories to their services
+    - `price_starts_at` is only a fallback now: "from" prices are computed
+      from the cheapest active item of a service
+
+  2. Security
+    - No changes, the catalog stays publicly readable
+*/
+
+ALTER TABLE categories
+  ADD COLUMN IF NOT EXISTS service_id uuid REFERENCES services(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_categories_service_id ON categories(service_id);
+
+UPDATE categories c
+SET service_id = s.id
+FROM services s
+WHERE c.service_id IS NULL
+  AND s.service_identifier = CASE c.name
+    WHEN 'Mixed Items' THEN 'easy-bag'
+    WHEN 'Tops' THEN 'wash-iron'
+    WHEN 'Bottoms' THEN 'wash-iron'
+    WHEN 'Dresses' THEN 'wash-iron'
+    WHEN 'Outerwear' THEN 'wash-iron'
+    WHEN 'Formal Wear' THEN 'dry-cleaning'
+    WHEN 'Delicate Items' THEN 'dry-cleaning'
+    WHEN 'Special Care' THEN 'dry-cleaning'
+    WHEN 'Basic Repairs' THEN 'repairs'
+    WHEN 'Advanced Repairs' THEN 'repairs'
+  END;
+
+COMMENT ON COLUMN services.price_starts_at IS 'Shown as the "from" price only when the service has no fixed-price items';
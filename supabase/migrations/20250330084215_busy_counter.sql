@@ -0,0 +1,209 @@
+/*
+  # Order Status Workflow
+
+  1. New Tables
+    - `order_status_history`: every status change of an order, with who made
+      it and an optional note
+
+  2. Changes
+    - Order statuses follow the operations flow: pending → confirmed →
+      picked_up → processing → ready → delivered, or cancelled from any open
+      status; existing `shipped` orders become `ready`
+    - Add `is_admin()` for the admin console policies and functions
+    - Add `transition_order_status(p_order_id, p_status, p_note)` which only
+      allows the next step of the flow and is limited to admins. A pending
+      order is only confirmed once it is paid or placed on invoice
+    - Status changes are recorded by a trigger, so changes made by the payment
+      webhook show up in the history as well
+    - Admins can read all orders and order items
+
+  3. Security
+    - Enable RLS on `order_status_history`
+    - Admins read all history, customers the history of their own orders
+    - Service role has full access
+*/
+
+ALTER TABLE orders
+  DROP CONSTRAINT IF EXISTS valid_order_status;
+
+UPDATE orders
+SET status = 'ready'
+WHERE status = 'shipped';
+
+ALTER TABLE orders
+  ADD CONSTRAINT valid_order_status CHECK (
+    status IN ('pending', 'confirmed', 'picked_up', 'processing', 'ready', 'delivered', 'cancelled')
+  );
+
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM admin_users WHERE auth_id = auth.uid()
+  );
+$$;
+
+REVOKE ALL ON FUNCTION is_admin() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION is_admin() TO authenticated;
+
+CREATE TABLE IF NOT EXISTS order_status_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  from_status text,
+  to_status text NOT NULL,
+  changed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  note text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_status_history_order_id ON order_status_history(order_id);
+
+ALTER TABLE order_status_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "order_status_history_read_admin_20250330" ON order_status_history;
+DROP POLICY IF EXISTS "order_status_history_read_own_20250330" ON order_status_history;
+DROP POLICY IF EXISTS "order_status_history_service_role_20250330" ON order_status_history;
+
+CREATE POLICY "order_status_history_read_admin_20250330"
+  ON order_status_history
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "order_status_history_read_own_20250330"
+  ON order_status_history
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM orders
+    WHERE orders.id = order_status_history.order_id
+    AND orders.user_id = auth.uid()
+  ));
+
+CREATE POLICY "order_status_history_service_role_20250330"
+  ON order_status_history
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+DROP POLICY IF EXISTS "orders_read_admin_20250330" ON orders;
+DROP POLICY IF EXISTS "order_items_read_admin_20250330" ON order_items;
+
+CREATE POLICY "orders_read_admin_20250330"
+  ON orders
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE POLICY "order_items_read_admin_20250330"
+  ON order_items
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- The note of a transition is handed to the trigger through a transaction setting
+CREATE OR REPLACE FUNCTION record_order_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO order_status_history (order_id, from_status, to_status, changed_by, note)
+  VALUES (
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    NEW.status,
+    auth.uid(),
+    nullif(current_setting('eazyy.status_note', true), '')
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_order_status_change ON orders;
+DROP TRIGGER IF EXISTS record_order_status_insert ON orders;
+
+CREATE TRIGGER record_order_status_change
+  AFTER UPDATE OF status ON orders
+  FOR EACH ROW
+  WHEN (NEW.status IS DISTINCT FROM OLD.status)
+  EXECUTE FUNCTION record_order_status_change();
+
+CREATE TRIGGER record_order_status_insert
+  AFTER INSERT ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION record_order_status_change();
+
+CREATE OR REPLACE FUNCTION transition_order_status(
+  p_order_id uuid,
+  p_status text,
+  p_note text DEFAULT NULL
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders;
+  v_allowed text[];
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can change the order status'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id;
+  END IF;
+
+  v_allowed := CASE v_order.status
+    WHEN 'pending' THEN ARRAY['confirmed', 'cancelled']
+    WHEN 'confirmed' THEN ARRAY['picked_up', 'cancelled']
+    WHEN 'picked_up' THEN ARRAY['processing', 'cancelled']
+    WHEN 'processing' THEN ARRAY['ready', 'cancelled']
+    WHEN 'ready' THEN ARRAY['delivered', 'cancelled']
+    ELSE ARRAY[]::text[]
+  END;
+
+  IF NOT p_status = ANY(v_allowed) THEN
+    RAISE EXCEPTION 'An order cannot go from % to %', v_order.status, p_status;
+  END IF;
+
+  -- Only a paid order or one on invoice is confirmed, so unpaid orders never
+  -- reach the drivers
+  IF p_status = 'confirmed'
+    AND NOT (v_order.payment_status = 'paid' OR v_order.payment_method IS NOT DISTINCT FROM 'invoice')
+  THEN
+    RAISE EXCEPTION 'Order % has not been paid yet', v_order.order_number;
+  END IF;
+
+  PERFORM set_config('eazyy.status_note', coalesce(p_note, ''), true);
+
+  UPDATE orders
+  SET status = p_status
+  WHERE id = p_order_id
+  RETURNING * INTO v_order;
+
+  PERFORM set_config('eazyy.status_note', '', true);
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION transition_order_status(uuid, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION transition_order_status(uuid, text, text) TO authenticated;
+
+CREATE INDEX IF NOT EXISTS idx_orders_created_at ON orders(created_at);
@@ -0,0 +1,412 @@
+/*
+  # Admin Dashboard Metrics
+
+  1. Changes
+    - `orders` gets `service_identifier` so revenue can be split per service;
+      existing orders take the service of their items
+    - `create_order` stores the service of the order
+    - Add `get_dashboard_metrics(p_from, p_to)` with order count, active
+      customers, business partners and gross revenue for a period and for the
+      period of the same length right before it
+    - Add `get_daily_order_stats(p_from, p_to)` with orders and revenue per day
+    - Add `get_service_breakdown(p_from, p_to)` with orders and revenue per
+      service
+    - Only paid orders count towards the metrics; days are Amsterdam days
+
+  2. Security
+    - The metric functions are limited to admins
+*/
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS service_identifier text REFERENCES services(service_identifier) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_orders_service_identifier ON orders(service_identifier);
+
+UPDATE orders o
+SET service_identifier = item_service.service_identifier
+FROM (
+  SELECT DISTINCT ON (oi.order_id) oi.order_id, s.service_identifier
+  FROM order_items oi
+  JOIN items i ON i.id = oi.product_id
+  JOIN categories c ON c.id = i.category_id
+  JOIN services s ON s.id = c.service_id
+  ORDER BY oi.order_id, oi.created_at
+) item_service
+WHERE o.id = item_service.order_id
+  AND o.service_identifier IS NULL;
+
+CREATE OR REPLACE FUNCTION get_dashboard_metrics(p_from timestamptz, p_to timestamptz)
+RETURNS TABLE (
+  period text,
+  order_count bigint,
+  active_customers bigint,
+  business_partners bigint,
+  gross_revenue numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view dashboard metrics'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  WITH periods (period, starts_at, ends_at) AS (
+    VALUES
+      ('current', p_from, p_to),
+      ('previous', p_from - (p_to - p_from), p_from)
+  )
+  SELECT
+    p.period,
+    (
+      SELECT count(*)
+      FROM orders o
+      WHERE o.payment_status = 'paid'
+        AND o.created_at >= p.starts_at AND o.created_at < p.ends_at
+    ),
+    (
+      SELECT count(DISTINCT o.user_id)
+      FROM orders o
+      WHERE o.payment_status = 'paid'
+        AND o.created_at >= p.starts_at AND o.created_at < p.ends_at
+    ),
+    -- Partners are counted in total, as they stood at the end of the period
+    (
+      SELECT count(*)
+      FROM business_inquiries b
+      WHERE b.status = 'approved'
+        AND b.created_at < p.ends_at
+    ),
+    (
+      SELECT coalesce(sum(o.total_amount), 0)
+      FROM orders o
+      WHERE o.payment_status = 'paid'
+        AND o.created_at >= p.starts_at AND o.created_at < p.ends_at
+    )
+  FROM periods p;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_daily_order_stats(p_from timestamptz, p_to timestamptz)
+RETURNS TABLE (
+  day date,
+  order_count bigint,
+  revenue numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view dashboard metrics'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    d.day::date,
+    count(o.id),
+    coalesce(sum(o.total_amount), 0)
+  FROM generate_series(
+    (p_from AT TIME ZONE 'Europe/Amsterdam')::date,
+    ((p_to - interval '1 microsecond') AT TIME ZONE 'Europe/Amsterdam')::date,
+    interval '1 day'
+  ) AS d(day)
+  LEFT JOIN orders o
+    ON (o.created_at AT TIME ZONE 'Europe/Amsterdam')::date = d.day::date
+    AND o.payment_status = 'paid'
+    AND o.created_at >= p_from AND o.created_at < p_to
+  GROUP BY d.day
+  ORDER BY d.day;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_service_breakdown(p_from timestamptz, p_to timestamptz)
+RETURNS TABLE (
+  service_identifier text,
+  service_name text,
+  order_count bigint,
+  revenue numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view dashboard metrics'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    s.service_identifier::text,
+    s.name::text,
+    count(o.id),
+    coalesce(sum(o.total_amount), 0)
+  FROM services s
+  LEFT JOIN orders o
+    ON o.service_identifier = s.service_identifier
+    AND o.payment_status = 'paid'
+    AND o.created_at >= p_from AND o.created_at < p_to
+  GROUP BY s.service_identifier, s.name, s.sequence
+  ORDER BY s.sequence;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION get_dashboard_metrics(timestamptz, timestamptz) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION get_daily_order_stats(timestamptz, timestamptz) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION get_service_breakdown(timestamptz, timestamptz) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_dashboard_metrics(timestamptz, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_daily_order_stats(timestamptz, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_service_breakdown(timestamptz, timestamptz) TO authenticated;
+
+CREATE OR REPLACE FUNCTION create_order(p_order jsonb)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_vat_rate constant numeric := 0.21;
+  v_shipping_fee constant numeric := 0;
+  v_user_id uuid := auth.uid();
+  v_customer_name text;
+  v_email text;
+  v_phone text;
+  v_line jsonb;
+  v_item items;
+  v_quantity integer;
+  v_lines jsonb := '[]'::jsonb;
+  v_subtotal numeric(10,2) := 0;
+  v_tax numeric(10,2);
+  v_service services;
+  v_is_express boolean := coalesce((p_order->>'express')::boolean, false);
+  v_turnaround_hours integer;
+  v_express_surcharge numeric(10,2) := 0;
+  v_pickup_address user_addresses;
+  v_delivery_address user_addresses;
+  v_pickup_slot delivery_slots;
+  v_delivery_slot delivery_slots;
+  v_pickup_capacity_id uuid;
+  v_delivery_capacity_id uuid;
+  v_order orders;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF jsonb_typeof(p_order->'items') IS DISTINCT FROM 'array'
+    OR jsonb_array_length(p_order->'items') = 0
+  THEN
+    RAISE EXCEPTION 'An order needs at least one item';
+  END IF;
+
+  -- Customer details come from the account, not from the request
+  SELECT
+    nullif(trim(concat_ws(' ',
+      coalesce(p.first_name, u.raw_user_meta_data->>'first_name'),
+      coalesce(p.last_name, u.raw_user_meta_data->>'last_name')
+    )), ''),
+    u.email,
+    coalesce(p.phone, u.raw_user_meta_data->>'phone')
+  INTO v_customer_name, v_email, v_phone
+  FROM auth.users u
+  LEFT JOIN profiles p ON p.id = u.id
+  WHERE u.id = v_user_id;
+
+  -- Price every line from the catalog before anything is written
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_order->'items')
+  LOOP
+    v_quantity := (v_line->>'quantity')::integer;
+    IF v_quantity IS NULL OR v_quantity < 1 OR v_quantity > 100 THEN
+      RAISE EXCEPTION 'Invalid quantity for item %', v_line->>'item_id';
+    END IF;
+
+    SELECT * INTO v_item
+    FROM items
+    WHERE id = (v_line->>'item_id')::uuid
+      AND status = true
+      AND is_custom_price = false
+      AND price IS NOT NULL;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item % is not available', v_line->>'item_id';
+    END IF;
+
+    v_lines := v_lines || jsonb_build_object(
+      'product_id', v_item.id,
+      'product_name', v_item.name,
+      'quantity', v_quantity,
+      'unit_price', v_item.price,
+      'subtotal', v_item.price * v_quantity
+    );
+
+    v_subtotal := v_subtotal + v_item.price * v_quantity;
+  END LOOP;
+
+  SELECT * INTO v_service
+  FROM services
+  WHERE service_identifier = p_order->>'service'
+    AND status = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Service % is not available', p_order->>'service';
+  END IF;
+
+  -- Items must belong to the service they are ordered under, otherwise a
+  -- cart could borrow another service's turnaround or surcharge
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(v_lines) AS line
+    JOIN items i ON i.id = (line->>'product_id')::uuid
+    LEFT JOIN categories c ON c.id = i.category_id
+    WHERE line->>'quote_id' IS NULL
+      AND c.service_id IS DISTINCT FROM v_service.id
+  ) THEN
+    RAISE EXCEPTION 'Some items in this order do not belong to %', v_service.name;
+  END IF;
+
+  IF v_is_express THEN
+    IF v_service.express_turnaround_hours IS NULL THEN
+      RAISE EXCEPTION 'Express is not available for %', v_service.name;
+    END IF;
+
+    v_turnaround_hours := v_service.express_turnaround_hours;
+    v_express_surcharge := v_service.express_surcharge;
+  ELSE
+    v_turnaround_hours := v_service.turnaround_hours;
+  END IF;
+
+  -- VAT applies to the express surcharge as well
+  v_tax := round((v_subtotal + v_express_surcharge) * v_vat_rate, 2);
+
+  SELECT * INTO v_pickup_slot FROM delivery_slots WHERE id = (p_order->>'pickup_slot_id')::uuid;
+  SELECT * INTO v_delivery_slot FROM delivery_slots WHERE id = (p_order->>'delivery_slot_id')::uuid;
+
+  -- Addresses come from the customer's address book so drivers get the
+  -- structured details, never from free text in the request
+  SELECT * INTO v_pickup_address
+  FROM user_addresses
+  WHERE id = (p_order->>'pickup_address_id')::uuid
+    AND user_id = v_user_id;
+
+  SELECT * INTO v_delivery_address
+  FROM user_addresses
+  WHERE id = (p_order->>'delivery_address_id')::uuid
+    AND user_id = v_user_id;
+
+  IF v_pickup_address.id IS NULL OR v_delivery_address.id IS NULL THEN
+    RAISE EXCEPTION 'An order needs a pickup and a delivery address';
+  END IF;
+
+  IF lookup_service_area(v_pickup_address.postal_code) IS NULL THEN
+    RAISE EXCEPTION 'We do not pick up at postal code % yet', v_pickup_address.postal_code;
+  END IF;
+
+  IF lookup_service_area(v_delivery_address.postal_code) IS NULL THEN
+    RAISE EXCEPTION 'We do not deliver to postal code % yet', v_delivery_address.postal_code;
+  END IF;
+
+  IF v_pickup_slot.id IS NULL OR v_delivery_slot.id IS NULL THEN
+    RAISE EXCEPTION 'Please select a pickup and a delivery slot';
+  END IF;
+
+  IF v_delivery_slot.starts_at < v_pickup_slot.ends_at + make_interval(hours => v_turnaround_hours) THEN
+    RAISE EXCEPTION '% needs at least % hours between pickup and delivery',
+      v_service.name, v_turnaround_hours;
+  END IF;
+
+  v_pickup_capacity_id := reserve_slot_capacity(
+    v_pickup_slot.id, 'pickup', v_pickup_address.postal_code, p_order->>'service'
+  );
+  v_delivery_capacity_id := reserve_slot_capacity(
+    v_delivery_slot.id, 'delivery', v_delivery_address.postal_code, p_order->>'service'
+  );
+
+  -- order_number is filled in by the next_order_number() column default
+  INSERT INTO orders (
+    user_id,
+    service_identifier,
+    customer_name,
+    email,
+    phone,
+    pickup_address,
+    pickup_details,
+    shipping_address,
+    delivery_details,
+    shipping_method,
+    estimated_delivery,
+    pickup_slot_id,
+    delivery_slot_id,
+    is_express,
+    special_instructions,
+    subtotal,
+    express_surcharge,
+    tax,
+    shipping_fee,
+    total_amount,
+    status,
+    payment_status
+  ) VALUES (
+    v_user_id,
+    v_service.service_identifier,
+    coalesce(v_customer_name, v_email),
+    v_email,
+    v_phone,
+    format_address(v_pickup_address),
+    address_details(v_pickup_address),
+    format_address(v_delivery_address),
+    address_details(v_delivery_address),
+    p_order->>'delivery_option',
+    v_delivery_slot.starts_at,
+    v_pickup_slot.id,
+    v_delivery_slot.id,
+    v_is_express,
+    nullif(p_order->>'special_instructions', ''),
+    v_subtotal,
+    v_express_surcharge,
+    v_tax,
+    v_shipping_fee,
+    v_subtotal + v_express_surcharge + v_tax + v_shipping_fee,
+    'pending',
+    'pending'
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (
+    order_id,
+    product_id,
+    product_name,
+    quantity,
+    unit_price,
+    subtotal
+  )
+  SELECT
+    v_order.id,
+    (line->>'product_id')::uuid,
+    line->>'product_name',
+    (line->>'quantity')::integer,
+    (line->>'unit_price')::numeric,
+    (line->>'subtotal')::numeric
+  FROM jsonb_array_elements(v_lines) AS line;
+
+  INSERT INTO slot_bookings (order_id, slot_capacity_id)
+  VALUES
+    (v_order.id, v_pickup_capacity_id),
+    (v_order.id, v_delivery_capacity_id);
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION create_order(jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_order(jsonb) TO authenticated;
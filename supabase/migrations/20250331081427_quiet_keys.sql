@@ -0,0 +1,564 @@
+/*
+  # Admin Roles and Permissions
+
+  1. New Tables
+    - `admin_invitations`: pending invitations to the admin area, matched on
+      email the first time the invitee signs in at the admin login
+
+  2. Changes
+    - `admin_users.permissions` holds `"<area>.<action>": true` flags such as
+      `orders.write` and `billing.read`; the old `can_manage_*` flags are
+      converted
+    - Add `has_permission(p_permission)`; super admins have every permission
+    - Add `is_super_admin()`
+    - Admin read policies and `transition_order_status` check permissions
+      instead of admin membership alone
+    - The dashboard metrics RPCs need `billing.read`, as they report revenue
+    - Add `list_admin_users()`, `invite_admin(...)`, `accept_admin_invitation()`,
+      `update_admin_user(...)` and `remove_admin_user(...)` for the Settings tab
+    - The last super admin cannot be demoted or removed
+
+  3. Security
+    - Enable RLS on `admin_invitations`
+    - Admins read all admin users, super admins read invitations
+    - Only super admins can invite, change and remove admins
+    - Service role has full access
+*/
+
+UPDATE admin_users
+SET permissions = jsonb_strip_nulls(jsonb_build_object(
+  'orders.read', CASE WHEN (permissions->>'can_manage_orders')::boolean THEN true END,
+  'orders.write', CASE WHEN (permissions->>'can_manage_orders')::boolean THEN true END,
+  'users.read', CASE WHEN (permissions->>'can_manage_users')::boolean THEN true END,
+  'users.write', CASE WHEN (permissions->>'can_manage_users')::boolean THEN true END
+))
+WHERE permissions ?| ARRAY['can_manage_orders', 'can_manage_users', 'can_manage_settings'];
+
+ALTER TABLE admin_users
+  ALTER COLUMN permissions SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_admin_users_auth_id_unique ON admin_users(auth_id);
+
+CREATE OR REPLACE FUNCTION is_super_admin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM admin_users
+    WHERE auth_id = auth.uid()
+    AND role = 'super_admin'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION has_permission(p_permission text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM admin_users
+    WHERE auth_id = auth.uid()
+    AND (
+      role = 'super_admin'
+      OR coalesce((permissions->>p_permission)::boolean, false)
+    )
+  );
+$$;
+
+REVOKE ALL ON FUNCTION is_super_admin() FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION has_permission(text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION is_super_admin() TO authenticated;
+GRANT EXECUTE ON FUNCTION has_permission(text) TO authenticated;
+
+CREATE TABLE IF NOT EXISTS admin_invitations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  email text NOT NULL,
+  role text NOT NULL DEFAULT 'admin',
+  permissions jsonb NOT NULL DEFAULT '{}'::jsonb,
+  invited_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  expires_at timestamptz NOT NULL DEFAULT now() + interval '7 days',
+  accepted_at timestamptz,
+
+  CONSTRAINT valid_invitation_role CHECK (role IN ('admin', 'super_admin'))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_admin_invitations_pending_email
+  ON admin_invitations(lower(email))
+  WHERE accepted_at IS NULL;
+
+ALTER TABLE admin_invitations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "admin_invitations_read_super_admin_20250331" ON admin_invitations;
+DROP POLICY IF EXISTS "admin_invitations_service_role_20250331" ON admin_invitations;
+DROP POLICY IF EXISTS "admin_users_read_admin_20250331" ON admin_users;
+
+CREATE POLICY "admin_invitations_read_super_admin_20250331"
+  ON admin_invitations
+  FOR SELECT
+  TO authenticated
+  USING (is_super_admin());
+
+CREATE POLICY "admin_invitations_service_role_20250331"
+  ON admin_invitations
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "admin_users_read_admin_20250331"
+  ON admin_users
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+-- Reading orders is now a permission of its own
+DROP POLICY IF EXISTS "orders_read_admin_20250330" ON orders;
+DROP POLICY IF EXISTS "order_items_read_admin_20250330" ON order_items;
+DROP POLICY IF EXISTS "order_status_history_read_admin_20250330" ON order_status_history;
+
+CREATE POLICY "orders_read_admin_20250330"
+  ON orders
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('orders.read'));
+
+CREATE POLICY "order_items_read_admin_20250330"
+  ON order_items
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('orders.read'));
+
+CREATE POLICY "order_status_history_read_admin_20250330"
+  ON order_status_history
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('orders.read'));
+
+CREATE OR REPLACE FUNCTION transition_order_status(
+  p_order_id uuid,
+  p_status text,
+  p_note text DEFAULT NULL
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders;
+  v_allowed text[];
+BEGIN
+  IF NOT has_permission('orders.write') THEN
+    RAISE EXCEPTION 'You do not have permission to change the order status'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id;
+  END IF;
+
+  v_allowed := CASE v_order.status
+    WHEN 'pending' THEN ARRAY['confirmed', 'cancelled']
+    WHEN 'confirmed' THEN ARRAY['picked_up', 'cancelled']
+    WHEN 'picked_up' THEN ARRAY['processing', 'cancelled']
+    WHEN 'processing' THEN ARRAY['ready', 'cancelled']
+    WHEN 'ready' THEN ARRAY['delivered', 'cancelled']
+    ELSE ARRAY[]::text[]
+  END;
+
+  IF NOT p_status = ANY(v_allowed) THEN
+    RAISE EXCEPTION 'An order cannot go from % to %', v_order.status, p_status;
+  END IF;
+
+  -- Only a paid order or one on invoice is confirmed, so unpaid orders never
+  -- reach the drivers
+  IF p_status = 'confirmed'
+    AND NOT (v_order.payment_status = 'paid' OR v_order.payment_method IS NOT DISTINCT FROM 'invoice')
+  THEN
+    RAISE EXCEPTION 'Order % has not been paid yet', v_order.order_number;
+  END IF;
+
+  PERFORM set_config('eazyy.status_note', coalesce(p_note, ''), true);
+
+  UPDATE orders
+  SET status = p_status
+  WHERE id = p_order_id
+  RETURNING * INTO v_order;
+
+  PERFORM set_config('eazyy.status_note', '', true);
+
+  RETURN v_order;
+END;
+$$;
+
+-- Emails live in auth.users, which the client cannot read
+CREATE OR REPLACE FUNCTION list_admin_users()
+RETURNS TABLE (
+  id uuid,
+  auth_id uuid,
+  email text,
+  role text,
+  permissions jsonb,
+  created_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_super_admin() THEN
+    RAISE EXCEPTION 'Only super admins can manage admins'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT a.id, a.auth_id, u.email::text, a.role, a.permissions, a.created_at
+  FROM admin_users a
+  JOIN auth.users u ON u.id = a.auth_id
+  ORDER BY a.created_at;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION invite_admin(
+  p_email text,
+  p_role text,
+  p_permissions jsonb DEFAULT '{}'::jsonb
+)
+RETURNS admin_invitations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_email text := lower(trim(p_email));
+  v_invitation admin_invitations;
+BEGIN
+  IF NOT is_super_admin() THEN
+    RAISE EXCEPTION 'Only super admins can invite admins'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF v_email IS NULL OR v_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RAISE EXCEPTION 'Enter a valid email address';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM admin_users a
+    JOIN auth.users u ON u.id = a.auth_id
+    WHERE lower(u.email) = v_email
+  ) THEN
+    RAISE EXCEPTION '% is already an admin', v_email;
+  END IF;
+
+  -- A new invitation replaces an open one for the same address
+  DELETE FROM admin_invitations
+  WHERE lower(email) = v_email
+  AND accepted_at IS NULL;
+
+  INSERT INTO admin_invitations (email, role, permissions, invited_by)
+  VALUES (v_email, p_role, coalesce(p_permissions, '{}'::jsonb), auth.uid())
+  RETURNING * INTO v_invitation;
+
+  RETURN v_invitation;
+END;
+$$;
+
+-- Called after every admin login; does nothing without an open invitation
+CREATE OR REPLACE FUNCTION accept_admin_invitation()
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_invitation admin_invitations;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT i.* INTO v_invitation
+  FROM admin_invitations i
+  JOIN auth.users u ON lower(u.email) = lower(i.email)
+  WHERE u.id = v_user_id
+  AND u.email_confirmed_at IS NOT NULL
+  AND i.accepted_at IS NULL
+  AND i.expires_at > now()
+  FOR UPDATE OF i;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO admin_users (auth_id, role, permissions)
+  VALUES (v_user_id, v_invitation.role, v_invitation.permissions)
+  ON CONFLICT (auth_id) DO NOTHING;
+
+  UPDATE admin_invitations
+  SET accepted_at = now()
+  WHERE id = v_invitation.id;
+
+  RETURN true;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION update_admin_user(
+  p_admin_id uuid,
+  p_role text,
+  p_permissions jsonb
+)
+RETURNS admin_users
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_admin admin_users;
+BEGIN
+  IF NOT is_super_admin() THEN
+    RAISE EXCEPTION 'Only super admins can change admins'
+      USING ERRCODE = '42501';
+  END IF;
+
+  -- Lock the super admins so two demotions cannot both pass the check
+  PERFORM 1 FROM admin_users WHERE role = 'super_admin' FOR UPDATE;
+
+  SELECT * INTO v_admin
+  FROM admin_users
+  WHERE id = p_admin_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Admin % not found', p_admin_id;
+  END IF;
+
+  IF v_admin.role = 'super_admin'
+    AND p_role <> 'super_admin'
+    AND (SELECT count(*) FROM admin_users WHERE role = 'super_admin') = 1
+  THEN
+    RAISE EXCEPTION 'The last super admin cannot be demoted';
+  END IF;
+
+  UPDATE admin_users
+  SET role = p_role,
+      permissions = coalesce(p_permissions, '{}'::jsonb)
+  WHERE id = p_admin_id
+  RETURNING * INTO v_admin;
+
+  RETURN v_admin;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION remove_admin_user(p_admin_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_admin admin_users;
+BEGIN
+  IF NOT is_super_admin() THEN
+    RAISE EXCEPTION 'Only super admins can remove admins'
+      USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM 1 FROM admin_users WHERE role = 'super_admin' FOR UPDATE;
+
+  SELECT * INTO v_admin
+  FROM admin_users
+  WHERE id = p_admin_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Admin % not found', p_admin_id;
+  END IF;
+
+  IF v_admin.auth_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot remove yourself';
+  END IF;
+
+  IF v_admin.role = 'super_admin'
+    AND (SELECT count(*) FROM admin_users WHERE role = 'super_admin') = 1
+  THEN
+    RAISE EXCEPTION 'The last super admin cannot be removed';
+  END IF;
+
+  DELETE FROM admin_users WHERE id = p_admin_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION revoke_admin_invitation(p_invitation_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_super_admin() THEN
+    RAISE EXCEPTION 'Only super admins can revoke invitations'
+      USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM admin_invitations
+  WHERE id = p_invitation_id
+  AND accepted_at IS NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_dashboard_metrics(p_from timestamptz, p_to timestamptz)
+RETURNS TABLE (
+  period text,
+  order_count bigint,
+  active_customers bigint,
+  business_partners bigint,
+  gross_revenue numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_permission('billing.read') THEN
+    RAISE EXCEPTION 'You do not have permission to view revenue'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  WITH periods (period, starts_at, ends_at) AS (
+    VALUES
+      ('current', p_from, p_to),
+      ('previous', p_from - (p_to - p_from), p_from)
+  )
+  SELECT
+    p.period,
+    (
+      SELECT count(*)
+      FROM orders o
+      WHERE o.payment_status = 'paid'
+        AND o.created_at >= p.starts_at AND o.created_at < p.ends_at
+    ),
+    (
+      SELECT count(DISTINCT o.user_id)
+      FROM orders o
+      WHERE o.payment_status = 'paid'
+        AND o.created_at >= p.starts_at AND o.created_at < p.ends_at
+    ),
+    -- Partners are counted in total, as they stood at the end of the period
+    (
+      SELECT count(*)
+      FROM business_inquiries b
+      WHERE b.status = 'approved'
+        AND b.created_at < p.ends_at
+    ),
+    (
+      SELECT coalesce(sum(o.total_amount), 0)
+      FROM orders o
+      WHERE o.payment_status = 'paid'
+        AND o.created_at >= p.starts_at AND o.created_at < p.ends_at
+    )
+  FROM periods p;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_daily_order_stats(p_from timestamptz, p_to timestamptz)
+RETURNS TABLE (
+  day date,
+  order_count bigint,
+  revenue numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_permission('billing.read') THEN
+    RAISE EXCEPTION 'You do not have permission to view revenue'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    d.day::date,
+    count(o.id),
+    coalesce(sum(o.total_amount), 0)
+  FROM generate_series(
+    (p_from AT TIME ZONE 'Europe/Amsterdam')::date,
+    ((p_to - interval '1 microsecond') AT TIME ZONE 'Europe/Amsterdam')::date,
+    interval '1 day'
+  ) AS d(day)
+  LEFT JOIN orders o
+    ON (o.created_at AT TIME ZONE 'Europe/Amsterdam')::date = d.day::date
+    AND o.payment_status = 'paid'
+    AND o.created_at >= p_from AND o.created_at < p_to
+  GROUP BY d.day
+  ORDER BY d.day;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_service_breakdown(p_from timestamptz, p_to timestamptz)
+RETURNS TABLE (
+  service_identifier text,
+  service_name text,
+  order_count bigint,
+  revenue numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_permission('billing.read') THEN
+    RAISE EXCEPTION 'You do not have permission to view revenue'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    s.service_identifier::text,
+    s.name::text,
+    count(o.id),
+    coalesce(sum(o.total_amount), 0)
+  FROM services s
+  LEFT JOIN orders o
+    ON o.service_identifier = s.service_identifier
+    AND o.payment_status = 'paid'
+    AND o.created_at >= p_from AND o.created_at < p_to
+  GROUP BY s.service_identifier, s.name, s.sequence
+  ORDER BY s.sequence;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION list_admin_users() FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION invite_admin(text, text, jsonb) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION accept_admin_invitation() FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION update_admin_user(uuid, text, jsonb) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION remove_admin_user(uuid) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION revoke_admin_invitation(uuid) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION get_dashboard_metrics(timestamptz, timestamptz) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION get_daily_order_stats(timestamptz, timestamptz) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION get_service_breakdown(timestamptz, timestamptz) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION list_admin_users() TO authenticated;
+GRANT EXECUTE ON FUNCTION invite_admin(text, text, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION accept_admin_invitation() TO authenticated;
+GRANT EXECUTE ON FUNCTION update_admin_user(uuid, text, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION remove_admin_user(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION revoke_admin_invitation(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_dashboard_metrics(timestamptz, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_daily_order_stats(timestamptz, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_service_breakdown(timestamptz, timestamptz) TO authenticated;
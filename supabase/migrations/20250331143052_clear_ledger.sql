@@ -0,0 +1,382 @@
+/*
+  # Admin Customer Management
+
+  1. New Tables
+    - `customer_notes`: internal notes support keeps about a customer
+    - `admin_audit_log`: every action an admin takes on a customer account,
+      with the admin, the customer and the details of the action
+
+  2. Changes
+    - `profiles.merged_into` points a merged duplicate account at the account
+      it was merged into
+    - Add `search_customers(p_search, p_limit, p_offset)` matching name, email,
+      phone and postal code (profile or any saved address)
+    - Add `get_customer_details(p_user_id)` with profile, preferences, orders,
+      quotes, addresses, notes and audit entries of one customer
+    - Add `add_customer_note(p_user_id, p_body)`
+    - Add `merge_customers(p_source_id, p_target_id)` which moves orders,
+      addresses, quotes and waitlist entries to the target account and fills
+      the target profile's empty fields from the source
+    - Blocking and password resets go through the `admin-users` Edge Function,
+      which needs the auth admin API
+
+  3. Security
+    - Enable RLS on both tables
+    - Reading needs `users.read`, notes and merges need `users.write`
+    - Audit entries are only written by these functions and the service role
+*/
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS merged_into uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE TABLE IF NOT EXISTS customer_notes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  author_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  body text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+
+  CONSTRAINT note_not_empty CHECK (length(trim(body)) > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_notes_user_id ON customer_notes(user_id);
+
+CREATE TABLE IF NOT EXISTS admin_audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  actor_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  action text NOT NULL,
+  target_user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  details jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_target_user_id ON admin_audit_log(target_user_id);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_created_at ON admin_audit_log(created_at DESC);
+
+ALTER TABLE customer_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE admin_audit_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "customer_notes_read_admin_20250331" ON customer_notes;
+DROP POLICY IF EXISTS "customer_notes_service_role_20250331" ON customer_notes;
+DROP POLICY IF EXISTS "admin_audit_log_read_admin_20250331" ON admin_audit_log;
+DROP POLICY IF EXISTS "admin_audit_log_service_role_20250331" ON admin_audit_log;
+
+CREATE POLICY "customer_notes_read_admin_20250331"
+  ON customer_notes
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('users.read'));
+
+CREATE POLICY "customer_notes_service_role_20250331"
+  ON customer_notes
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "admin_audit_log_read_admin_20250331"
+  ON admin_audit_log
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('users.read'));
+
+CREATE POLICY "admin_audit_log_service_role_20250331"
+  ON admin_audit_log
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Only called from other functions, never granted to clients
+CREATE OR REPLACE FUNCTION log_admin_action(
+  p_action text,
+  p_target_user_id uuid,
+  p_details jsonb DEFAULT '{}'::jsonb
+)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO admin_audit_log (actor_id, action, target_user_id, details)
+  VALUES (auth.uid(), p_action, p_target_user_id, coalesce(p_details, '{}'::jsonb));
+$$;
+
+REVOKE ALL ON FUNCTION log_admin_action(text, uuid, jsonb) FROM PUBLIC, anon, authenticated;
+
+-- Emails live in auth.users, which the client cannot read
+CREATE OR REPLACE FUNCTION search_customers(
+  p_search text DEFAULT NULL,
+  p_limit integer DEFAULT 25,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  email text,
+  first_name text,
+  last_name text,
+  phone text,
+  postal_code text,
+  created_at timestamptz,
+  blocked boolean,
+  merged_into uuid,
+  order_count bigint,
+  last_order_at timestamptz,
+  total_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_pattern text := '%' || coalesce(trim(p_search), '') || '%';
+  -- Postal codes are stored with and without the space
+  v_postal_pattern text := '%' || upper(replace(coalesce(trim(p_search), ''), ' ', '')) || '%';
+BEGIN
+  IF NOT has_permission('users.read') THEN
+    RAISE EXCEPTION 'You do not have permission to view customers'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    u.id,
+    u.email::text,
+    p.first_name,
+    p.last_name,
+    p.phone,
+    p.postal_code,
+    u.created_at,
+    coalesce(u.banned_until > now(), false),
+    p.merged_into,
+    (SELECT count(*) FROM orders o WHERE o.user_id = u.id),
+    (SELECT max(o.created_at) FROM orders o WHERE o.user_id = u.id),
+    count(*) OVER ()
+  FROM auth.users u
+  LEFT JOIN profiles p ON p.id = u.id
+  WHERE NOT EXISTS (SELECT 1 FROM admin_users a WHERE a.auth_id = u.id)
+    AND (
+      coalesce(trim(p_search), '') = ''
+      OR u.email ILIKE v_pattern
+      OR concat_ws(' ', p.first_name, p.last_name) ILIKE v_pattern
+      OR p.phone ILIKE v_pattern
+      OR upper(replace(p.postal_code, ' ', '')) LIKE v_postal_pattern
+      OR EXISTS (
+        SELECT 1 FROM user_addresses ua
+        WHERE ua.user_id = u.id
+        AND upper(replace(ua.postal_code, ' ', '')) LIKE v_postal_pattern
+      )
+    )
+  ORDER BY u.created_at DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_customer_details(p_user_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_customer jsonb;
+BEGIN
+  IF NOT has_permission('users.read') THEN
+    RAISE EXCEPTION 'You do not have permission to view customers'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT jsonb_build_object(
+    'id', u.id,
+    'email', u.email,
+    'created_at', u.created_at,
+    'last_sign_in_at', u.last_sign_in_at,
+    'blocked', coalesce(u.banned_until > now(), false),
+    'first_name', p.first_name,
+    'last_name', p.last_name,
+    'phone', p.phone,
+    'postal_code', p.postal_code,
+    'preferences', coalesce(p.preferences, '{}'::jsonb),
+    'merged_into', p.merged_into
+  ) INTO v_customer
+  FROM auth.users u
+  LEFT JOIN profiles p ON p.id = u.id
+  WHERE u.id = p_user_id;
+
+  IF v_customer IS NULL THEN
+    RAISE EXCEPTION 'Customer % not found', p_user_id;
+  END IF;
+
+  RETURN v_customer || jsonb_build_object(
+    'orders', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', o.id,
+        'order_number', o.order_number,
+        'status', o.status,
+        'payment_status', o.payment_status,
+        'total_amount', o.total_amount,
+        'created_at', o.created_at,
+        'estimated_delivery', o.estimated_delivery
+      ) ORDER BY o.created_at DESC)
+      FROM orders o
+      WHERE o.user_id = p_user_id
+    ), '[]'::jsonb),
+    'quotes', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', q.id,
+        'item_name', q.item_name,
+        'status', q.status,
+        'suggested_price', q.suggested_price,
+        'created_at', q.created_at
+      ) ORDER BY q.created_at DESC)
+      FROM custom_price_quotes q
+      WHERE q.user_id = p_user_id
+    ), '[]'::jsonb),
+    'addresses', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', a.id,
+        'name', a.name,
+        'address', format_address(a),
+        'is_default', a.is_default
+      ) ORDER BY a.is_default DESC, a.created_at)
+      FROM user_addresses a
+      WHERE a.user_id = p_user_id
+    ), '[]'::jsonb),
+    'notes', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', n.id,
+        'body', n.body,
+        'author_email', author.email,
+        'created_at', n.created_at
+      ) ORDER BY n.created_at DESC)
+      FROM customer_notes n
+      LEFT JOIN auth.users author ON author.id = n.author_id
+      WHERE n.user_id = p_user_id
+    ), '[]'::jsonb),
+    'audit', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', l.id,
+        'action', l.action,
+        'details', l.details,
+        'actor_email', actor.email,
+        'created_at', l.created_at
+      ) ORDER BY l.created_at DESC)
+      FROM admin_audit_log l
+      LEFT JOIN auth.users actor ON actor.id = l.actor_id
+      WHERE l.target_user_id = p_user_id
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION add_customer_note(p_user_id uuid, p_body text)
+RETURNS customer_notes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_note customer_notes;
+BEGIN
+  IF NOT has_permission('users.write') THEN
+    RAISE EXCEPTION 'You do not have permission to manage customers'
+      USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO customer_notes (user_id, author_id, body)
+  VALUES (p_user_id, auth.uid(), trim(p_body))
+  RETURNING * INTO v_note;
+
+  PERFORM log_admin_action('note_added', p_user_id, jsonb_build_object('note_id', v_note.id));
+
+  RETURN v_note;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION merge_customers(p_source_id uuid, p_target_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_moved jsonb;
+  v_orders integer;
+  v_addresses integer;
+  v_quotes integer;
+BEGIN
+  IF NOT has_permission('users.write') THEN
+    RAISE EXCEPTION 'You do not have permission to manage customers'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF p_source_id = p_target_id THEN
+    RAISE EXCEPTION 'An account cannot be merged into itself';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM auth.users WHERE id = p_source_id)
+    OR NOT EXISTS (SELECT 1 FROM auth.users WHERE id = p_target_id)
+  THEN
+    RAISE EXCEPTION 'Both accounts must exist';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM profiles WHERE id = p_target_id AND merged_into IS NOT NULL) THEN
+    RAISE EXCEPTION 'The target account was itself merged into another account';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM admin_users WHERE auth_id IN (p_source_id, p_target_id)) THEN
+    RAISE EXCEPTION 'Admin accounts cannot be merged';
+  END IF;
+
+  UPDATE orders SET user_id = p_target_id WHERE user_id = p_source_id;
+  GET DIAGNOSTICS v_orders = ROW_COUNT;
+
+  -- The target keeps its own default address
+  UPDATE user_addresses
+  SET user_id = p_target_id, is_default = false
+  WHERE user_id = p_source_id;
+  GET DIAGNOSTICS v_addresses = ROW_COUNT;
+
+  UPDATE custom_price_quotes SET user_id = p_target_id WHERE user_id = p_source_id;
+  GET DIAGNOSTICS v_quotes = ROW_COUNT;
+
+  UPDATE service_area_waitlist SET user_id = p_target_id WHERE user_id = p_source_id;
+  UPDATE customer_notes SET user_id = p_target_id WHERE user_id = p_source_id;
+
+  DELETE FROM draft_orders WHERE user_id = p_source_id;
+
+  UPDATE profiles target
+  SET first_name = coalesce(target.first_name, source.first_name),
+      last_name = coalesce(target.last_name, source.last_name),
+      phone = coalesce(target.phone, source.phone),
+      address = coalesce(target.address, source.address),
+      city = coalesce(target.city, source.city),
+      postal_code = coalesce(target.postal_code, source.postal_code)
+  FROM profiles source
+  WHERE target.id = p_target_id
+  AND source.id = p_source_id;
+
+  UPDATE profiles SET merged_into = p_target_id WHERE id = p_source_id;
+
+  v_moved := jsonb_build_object(
+    'orders', v_orders,
+    'addresses', v_addresses,
+    'quotes', v_quotes
+  );
+
+  PERFORM log_admin_action('merged_away', p_source_id, v_moved || jsonb_build_object('target_id', p_target_id));
+  PERFORM log_admin_action('merged_into', p_target_id, v_moved || jsonb_build_object('source_id', p_source_id));
+END;
+$$;
+
+REVOKE ALL ON FUNCTION search_customers(text, integer, integer) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION get_customer_details(uuid) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION add_customer_note(uuid, text) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION merge_customers(uuid, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION search_customers(text, integer, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_customer_details(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION add_customer_note(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION merge_customers(uuid, uuid) TO authenticated;
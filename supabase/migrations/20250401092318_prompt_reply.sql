@@ -0,0 +1,286 @@
+/*
+  # Quote Pricing Workflow
+
+  1. New Tables
+    - `notifications`: in-app messages for customers, e.g. when a quote has
+      been priced
+
+  2. Changes
+    - `custom_price_quotes` gets `respond_by` (the 2 hour reply promise),
+      `quoted_at`, `quoted_by`, `expires_at` and `staff_note`
+    - Add `quote_price(p_quote_id, p_price, p_expires_at, p_note)` which moves
+      a pending quote to `quoted` and notifies the customer
+    - Add `mark_notifications_read(p_ids)`
+    - `merge_customers` moves notifications to the remaining account
+    - Customers can only create pending quotes without a price
+    - New `quotes.read` and `quotes.write` admin permissions
+
+  3. Security
+    - Enable RLS on `notifications`; customers read their own
+    - Admins with `quotes.read` read all quotes
+    - Admins read customer profiles, so lists can show customer names
+    - Service role has full access
+*/
+
+ALTER TABLE custom_price_quotes
+  ADD COLUMN IF NOT EXISTS respond_by timestamptz,
+  ADD COLUMN IF NOT EXISTS quoted_at timestamptz,
+  ADD COLUMN IF NOT EXISTS quoted_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS expires_at timestamptz,
+  ADD COLUMN IF NOT EXISTS staff_note text;
+
+UPDATE custom_price_quotes
+SET respond_by = created_at + interval '2 hours'
+WHERE respond_by IS NULL;
+
+ALTER TABLE custom_price_quotes
+  ALTER COLUMN respond_by SET DEFAULT now() + interval '2 hours',
+  ALTER COLUMN respond_by SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_custom_price_quotes_respond_by ON custom_price_quotes(respond_by);
+
+CREATE OR REPLACE FUNCTION protect_quote_pricing_fields()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Service role and SECURITY DEFINER functions are trusted
+  IF current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.status := 'pending';
+  NEW.suggested_price := NULL;
+  NEW.quoted_at := NULL;
+  NEW.quoted_by := NULL;
+  NEW.expires_at := NULL;
+  NEW.staff_note := NULL;
+  NEW.respond_by := now() + interval '2 hours';
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_quote_pricing_fields ON custom_price_quotes;
+
+CREATE TRIGGER protect_quote_pricing_fields
+  BEFORE INSERT ON custom_price_quotes
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_quote_pricing_fields();
+
+DROP POLICY IF EXISTS "quotes_read_admin_20250401" ON custom_price_quotes;
+DROP POLICY IF EXISTS "profiles_read_admin_20250401" ON profiles;
+
+CREATE POLICY "quotes_read_admin_20250401"
+  ON custom_price_quotes
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('quotes.read'));
+
+CREATE POLICY "profiles_read_admin_20250401"
+  ON profiles
+  FOR SELECT
+  TO authenticated
+  USING (is_admin());
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type text NOT NULL,
+  title text NOT NULL,
+  body text,
+  link text,
+  data jsonb NOT NULL DEFAULT '{}'::jsonb,
+  read_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_id ON notifications(user_id, created_at DESC);
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "notifications_read_own_20250401" ON notifications;
+DROP POLICY IF EXISTS "notifications_service_role_20250401" ON notifications;
+
+CREATE POLICY "notifications_read_own_20250401"
+  ON notifications
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "notifications_service_role_20250401"
+  ON notifications
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'notifications'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION mark_notifications_read(p_ids uuid[])
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE notifications
+  SET read_at = now()
+  WHERE id = ANY(p_ids)
+  AND user_id = auth.uid()
+  AND read_at IS NULL;
+$$;
+
+CREATE OR REPLACE FUNCTION quote_price(
+  p_quote_id uuid,
+  p_price numeric,
+  p_expires_at timestamptz,
+  p_note text DEFAULT NULL
+)
+RETURNS custom_price_quotes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quote custom_price_quotes;
+BEGIN
+  IF NOT has_permission('quotes.write') THEN
+    RAISE EXCEPTION 'You do not have permission to price quotes'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF p_price IS NULL OR p_price <= 0 THEN
+    RAISE EXCEPTION 'Enter a price above zero';
+  END IF;
+
+  IF p_expires_at IS NULL OR p_expires_at <= now() THEN
+    RAISE EXCEPTION 'The expiry must be in the future';
+  END IF;
+
+  SELECT * INTO v_quote
+  FROM custom_price_quotes
+  WHERE id = p_quote_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quote % not found', p_quote_id;
+  END IF;
+
+  IF v_quote.status <> 'pending' THEN
+    RAISE EXCEPTION 'This quote is already %', v_quote.status;
+  END IF;
+
+  UPDATE custom_price_quotes
+  SET status = 'quoted',
+      suggested_price = round(p_price, 2),
+      expires_at = p_expires_at,
+      staff_note = nullif(trim(p_note), ''),
+      quoted_at = now(),
+      quoted_by = auth.uid()
+  WHERE id = p_quote_id
+  RETURNING * INTO v_quote;
+
+  IF v_quote.user_id IS NOT NULL THEN
+    INSERT INTO notifications (user_id, type, title, body, link, data)
+    VALUES (
+      v_quote.user_id,
+      'quote_priced',
+      'Your quote is ready',
+      format('%s: €%s', v_quote.item_name, to_char(v_quote.suggested_price, 'FM999990.00')),
+      '/account/quotes',
+      jsonb_build_object('quote_id', v_quote.id)
+    );
+  END IF;
+
+  RETURN v_quote;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION merge_customers(p_source_id uuid, p_target_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_moved jsonb;
+  v_orders integer;
+  v_addresses integer;
+  v_quotes integer;
+BEGIN
+  IF NOT has_permission('users.write') THEN
+    RAISE EXCEPTION 'You do not have permission to manage customers'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF p_source_id = p_target_id THEN
+    RAISE EXCEPTION 'An account cannot be merged into itself';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM auth.users WHERE id = p_source_id)
+    OR NOT EXISTS (SELECT 1 FROM auth.users WHERE id = p_target_id)
+  THEN
+    RAISE EXCEPTION 'Both accounts must exist';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM profiles WHERE id = p_target_id AND merged_into IS NOT NULL) THEN
+    RAISE EXCEPTION 'The target account was itself merged into another account';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM admin_users WHERE auth_id IN (p_source_id, p_target_id)) THEN
+    RAISE EXCEPTION 'Admin accounts cannot be merged';
+  END IF;
+
+  UPDATE orders SET user_id = p_target_id WHERE user_id = p_source_id;
+  GET DIAGNOSTICS v_orders = ROW_COUNT;
+
+  -- The target keeps its own default address
+  UPDATE user_addresses
+  SET user_id = p_target_id, is_default = false
+  WHERE user_id = p_source_id;
+  GET DIAGNOSTICS v_addresses = ROW_COUNT;
+
+  UPDATE custom_price_quotes SET user_id = p_target_id WHERE user_id = p_source_id;
+  GET DIAGNOSTICS v_quotes = ROW_COUNT;
+
+  UPDATE service_area_waitlist SET user_id = p_target_id WHERE user_id = p_source_id;
+  UPDATE customer_notes SET user_id = p_target_id WHERE user_id = p_source_id;
+  UPDATE notifications SET user_id = p_target_id WHERE user_id = p_source_id;
+
+  DELETE FROM draft_orders WHERE user_id = p_source_id;
+
+  UPDATE profiles target
+  SET first_name = coalesce(target.first_name, source.first_name),
+      last_name = coalesce(target.last_name, source.last_name),
+      phone = coalesce(target.phone, source.phone),
+      address = coalesce(target.address, source.address),
+      city = coalesce(target.city, source.city),
+      postal_code = coalesce(target.postal_code, source.postal_code)
+  FROM profiles source
+  WHERE target.id = p_target_id
+  AND source.id = p_source_id;
+
+  UPDATE profiles SET merged_into = p_target_id WHERE id = p_source_id;
+
+  v_moved := jsonb_build_object(
+    'orders', v_orders,
+    'addresses', v_addresses,
+    'quotes', v_quotes
+  );
+
+  PERFORM log_admin_action('merged_away', p_source_id, v_moved || jsonb_build_object('target_id', p_target_id));
+  PERFORM log_admin_action('merged_into', p_target_id, v_moved || jsonb_build_object('source_id', p_source_id));
+END;
+$$;
+
+REVOKE ALL ON FUNCTION mark_notifications_read(uuid[]) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION quote_price(uuid, numeric, timestamptz, text) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION merge_customers(uuid, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION mark_notifications_read(uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION quote_price(uuid, numeric, timestamptz, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION merge_customers(uuid, uuid) TO authenticated;
@@ -0,0 +1,488 @@
+/*
+  # Accepting and Declining Quotes
+
+  1. Changes
+    - `custom_price_quotes` gets `service_identifier` (the service the item was
+      requested from), `accepted_at`, `declined_at`, `declined_reason` and a
+      new `expired` status
+    - `order_items` gets `quote_id` for lines that come from an accepted quote
+    - Add `accept_quote(p_quote_id)` and `decline_quote(p_quote_id, p_reason)`
+      for the customer who requested the quote
+    - Add `expire_quotes()` which locks quotes that were not ordered before
+      `expires_at`, run every 15 minutes by pg_cron
+    - `create_order` accepts `{ quote_id }` lines, priced at the quoted amount;
+      a quote can only be on one order that is not cancelled
+
+  2. Security
+    - Customers change their quotes only through the functions above
+*/
+
+ALTER TABLE custom_price_quotes
+  ADD COLUMN IF NOT EXISTS service_identifier text REFERENCES services(service_identifier) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS accepted_at timestamptz,
+  ADD COLUMN IF NOT EXISTS declined_at timestamptz,
+  ADD COLUMN IF NOT EXISTS declined_reason text;
+
+ALTER TABLE custom_price_quotes DROP CONSTRAINT IF EXISTS valid_status;
+ALTER TABLE custom_price_quotes
+  ADD CONSTRAINT valid_status CHECK (status IN ('pending', 'quoted', 'accepted', 'declined', 'expired'));
+
+ALTER TABLE order_items
+  ADD COLUMN IF NOT EXISTS quote_id uuid REFERENCES custom_price_quotes(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_order_items_quote_id ON order_items(quote_id);
+
+CREATE OR REPLACE FUNCTION protect_quote_pricing_fields()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Service role and SECURITY DEFINER functions are trusted
+  IF current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.status := 'pending';
+  NEW.suggested_price := NULL;
+  NEW.quoted_at := NULL;
+  NEW.quoted_by := NULL;
+  NEW.expires_at := NULL;
+  NEW.staff_note := NULL;
+  NEW.accepted_at := NULL;
+  NEW.declined_at := NULL;
+  NEW.declined_reason := NULL;
+  NEW.respond_by := now() + interval '2 hours';
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Whether the quote is part of an order that has been paid for
+CREATE OR REPLACE FUNCTION quote_is_ordered(p_quote_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    WHERE oi.quote_id = p_quote_id
+      AND o.payment_status = 'paid'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION expire_quotes()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  UPDATE custom_price_quotes
+  SET status = 'expired'
+  WHERE status IN ('quoted', 'accepted')
+    AND expires_at <= now()
+    AND NOT quote_is_ordered(id);
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION accept_quote(p_quote_id uuid)
+RETURNS custom_price_quotes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quote custom_price_quotes;
+BEGIN
+  SELECT * INTO v_quote
+  FROM custom_price_quotes
+  WHERE id = p_quote_id
+    AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quote % not found', p_quote_id;
+  END IF;
+
+  IF quote_is_ordered(p_quote_id) THEN
+    RAISE EXCEPTION 'This quote has already been ordered';
+  END IF;
+
+  -- Accepting again is harmless, e.g. after clearing the cart
+  IF v_quote.status = 'accepted' AND v_quote.expires_at > now() THEN
+    RETURN v_quote;
+  END IF;
+
+  -- expire_quotes() locks it on its next run
+  IF v_quote.status IN ('quoted', 'accepted') AND v_quote.expires_at <= now() THEN
+    RAISE EXCEPTION 'This quote expired on %',
+      to_char(v_quote.expires_at AT TIME ZONE 'Europe/Amsterdam', 'DD-MM-YYYY');
+  END IF;
+
+  IF v_quote.status <> 'quoted' THEN
+    RAISE EXCEPTION 'This quote is %', v_quote.status;
+  END IF;
+
+  UPDATE custom_price_quotes
+  SET status = 'accepted',
+      accepted_at = now()
+  WHERE id = p_quote_id
+  RETURNING * INTO v_quote;
+
+  RETURN v_quote;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION decline_quote(p_quote_id uuid, p_reason text)
+RETURNS custom_price_quotes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quote custom_price_quotes;
+BEGIN
+  IF nullif(trim(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'Please tell us why you are declining';
+  END IF;
+
+  SELECT * INTO v_quote
+  FROM custom_price_quotes
+  WHERE id = p_quote_id
+    AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quote % not found', p_quote_id;
+  END IF;
+
+  IF v_quote.status NOT IN ('quoted', 'accepted') OR quote_is_ordered(p_quote_id) THEN
+    RAISE EXCEPTION 'This quote can no longer be declined';
+  END IF;
+
+  UPDATE custom_price_quotes
+  SET status = 'declined',
+      declined_at = now(),
+      declined_reason = trim(p_reason)
+  WHERE id = p_quote_id
+  RETURNING * INTO v_quote;
+
+  RETURN v_quote;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION quote_is_ordered(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION expire_quotes() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION accept_quote(uuid) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION decline_quote(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION accept_quote(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION decline_quote(uuid, text) TO authenticated;
+
+SELECT expire_quotes();
+
+SELECT cron.schedule(
+  'expire-quotes',
+  '*/15 * * * *',
+  'SELECT expire_quotes()'
+);
+
+CREATE OR REPLACE FUNCTION create_order(p_order jsonb)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_vat_rate constant numeric := 0.21;
+  v_shipping_fee constant numeric := 0;
+  v_user_id uuid := auth.uid();
+  v_customer_name text;
+  v_email text;
+  v_phone text;
+  v_line jsonb;
+  v_item items;
+  v_quote custom_price_quotes;
+  v_unit_price numeric(10,2);
+  v_quantity integer;
+  v_lines jsonb := '[]'::jsonb;
+  v_subtotal numeric(10,2) := 0;
+  v_tax numeric(10,2);
+  v_service services;
+  v_is_express boolean := coalesce((p_order->>'express')::boolean, false);
+  v_turnaround_hours integer;
+  v_express_surcharge numeric(10,2) := 0;
+  v_pickup_address user_addresses;
+  v_delivery_address user_addresses;
+  v_pickup_slot delivery_slots;
+  v_delivery_slot delivery_slots;
+  v_pickup_capacity_id uuid;
+  v_delivery_capacity_id uuid;
+  v_order orders;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF jsonb_typeof(p_order->'items') IS DISTINCT FROM 'array'
+    OR jsonb_array_length(p_order->'items') = 0
+  THEN
+    RAISE EXCEPTION 'An order needs at least one item';
+  END IF;
+
+  -- Customer details come from the account, not from the request
+  SELECT
+    nullif(trim(concat_ws(' ',
+      coalesce(p.first_name, u.raw_user_meta_data->>'first_name'),
+      coalesce(p.last_name, u.raw_user_meta_data->>'last_name')
+    )), ''),
+    u.email,
+    coalesce(p.phone, u.raw_user_meta_data->>'phone')
+  INTO v_customer_name, v_email, v_phone
+  FROM auth.users u
+  LEFT JOIN profiles p ON p.id = u.id
+  WHERE u.id = v_user_id;
+
+  -- Price every line from the catalog before anything is written
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_order->'items')
+  LOOP
+    -- An accepted quote is a single line at the price staff quoted
+    IF v_line ? 'quote_id' THEN
+      SELECT * INTO v_quote
+      FROM custom_price_quotes
+      WHERE id = (v_line->>'quote_id')::uuid
+        AND user_id = v_user_id
+      FOR UPDATE;
+
+      IF NOT FOUND OR v_quote.status <> 'accepted' THEN
+        RAISE EXCEPTION 'Quote % has not been accepted', v_line->>'quote_id';
+      END IF;
+
+      IF v_quote.expires_at <= now() THEN
+        RAISE EXCEPTION 'The quote for % has expired', v_quote.item_name;
+      END IF;
+
+      IF quote_is_ordered(v_quote.id) THEN
+        RAISE EXCEPTION 'The quote for % has already been ordered', v_quote.item_name;
+      END IF;
+
+      -- Unpaid orders hold the quote too, so it cannot be paid twice; the
+      -- checkout cancels the customer's earlier draft before ordering again
+      IF EXISTS (
+        SELECT 1
+        FROM order_items oi
+        JOIN orders o ON o.id = oi.order_id
+        WHERE oi.quote_id = v_quote.id
+          AND o.status <> 'cancelled'
+      ) THEN
+        RAISE EXCEPTION 'The quote for % is already on another order', v_quote.item_name;
+      END IF;
+
+      -- Quoted prices include VAT, order lines are stored without it
+      v_unit_price := round(v_quote.suggested_price / (1 + v_vat_rate), 2);
+
+      v_lines := v_lines || jsonb_build_object(
+        'product_id', v_quote.id,
+        'product_name', v_quote.item_name,
+        'quote_id', v_quote.id,
+        'quantity', 1,
+        'unit_price', v_unit_price,
+        'subtotal', v_unit_price
+      );
+
+      v_subtotal := v_subtotal + v_unit_price;
+      CONTINUE;
+    END IF;
+
+    v_quantity := (v_line->>'quantity')::integer;
+    IF v_quantity IS NULL OR v_quantity < 1 OR v_quantity > 100 THEN
+      RAISE EXCEPTION 'Invalid quantity for item %', v_line->>'item_id';
+    END IF;
+
+    SELECT * INTO v_item
+    FROM items
+    WHERE id = (v_line->>'item_id')::uuid
+      AND status = true
+      AND is_custom_price = false
+      AND price IS NOT NULL;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item % is not available', v_line->>'item_id';
+    END IF;
+
+    v_lines := v_lines || jsonb_build_object(
+      'product_id', v_item.id,
+      'product_name', v_item.name,
+      'quantity', v_quantity,
+      'unit_price', v_item.price,
+      'subtotal', v_item.price * v_quantity
+    );
+
+    v_subtotal := v_subtotal + v_item.price * v_quantity;
+  END LOOP;
+
+  SELECT * INTO v_service
+  FROM services
+  WHERE service_identifier = p_order->>'service'
+    AND status = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Service % is not available', p_order->>'service';
+  END IF;
+
+  -- Items must belong to the service they are ordered under, otherwise a
+  -- cart could borrow another service's turnaround or surcharge
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(v_lines) AS line
+    JOIN items i ON i.id = (line->>'product_id')::uuid
+    LEFT JOIN categories c ON c.id = i.category_id
+    WHERE line->>'quote_id' IS NULL
+      AND c.service_id IS DISTINCT FROM v_service.id
+  ) THEN
+    RAISE EXCEPTION 'Some items in this order do not belong to %', v_service.name;
+  END IF;
+
+  IF v_is_express THEN
+    IF v_service.express_turnaround_hours IS NULL THEN
+      RAISE EXCEPTION 'Express is not available for %', v_service.name;
+    END IF;
+
+    v_turnaround_hours := v_service.express_turnaround_hours;
+    v_express_surcharge := v_service.express_surcharge;
+  ELSE
+    v_turnaround_hours := v_service.turnaround_hours;
+  END IF;
+
+  -- VAT applies to the express surcharge as well
+  v_tax := round((v_subtotal + v_express_surcharge) * v_vat_rate, 2);
+
+  SELECT * INTO v_pickup_slot FROM delivery_slots WHERE id = (p_order->>'pickup_slot_id')::uuid;
+  SELECT * INTO v_delivery_slot FROM delivery_slots WHERE id = (p_order->>'delivery_slot_id')::uuid;
+
+  -- Addresses come from the customer's address book so drivers get the
+  -- structured details, never from free text in the request
+  SELECT * INTO v_pickup_address
+  FROM user_addresses
+  WHERE id = (p_order->>'pickup_address_id')::uuid
+    AND user_id = v_user_id;
+
+  SELECT * INTO v_delivery_address
+  FROM user_addresses
+  WHERE id = (p_order->>'delivery_address_id')::uuid
+    AND user_id = v_user_id;
+
+  IF v_pickup_address.id IS NULL OR v_delivery_address.id IS NULL THEN
+    RAISE EXCEPTION 'An order needs a pickup and a delivery address';
+  END IF;
+
+  IF lookup_service_area(v_pickup_address.postal_code) IS NULL THEN
+    RAISE EXCEPTION 'We do not pick up at postal code % yet', v_pickup_address.postal_code;
+  END IF;
+
+  IF lookup_service_area(v_delivery_address.postal_code) IS NULL THEN
+    RAISE EXCEPTION 'We do not deliver to postal code % yet', v_delivery_address.postal_code;
+  END IF;
+
+  IF v_pickup_slot.id IS NULL OR v_delivery_slot.id IS NULL THEN
+    RAISE EXCEPTION 'Please select a pickup and a delivery slot';
+  END IF;
+
+  IF v_delivery_slot.starts_at < v_pickup_slot.ends_at + make_interval(hours => v_turnaround_hours) THEN
+    RAISE EXCEPTION '% needs at least % hours between pickup and delivery',
+      v_service.name, v_turnaround_hours;
+  END IF;
+
+  v_pickup_capacity_id := reserve_slot_capacity(
+    v_pickup_slot.id, 'pickup', v_pickup_address.postal_code, p_order->>'service'
+  );
+  v_delivery_capacity_id := reserve_slot_capacity(
+    v_delivery_slot.id, 'delivery', v_delivery_address.postal_code, p_order->>'service'
+  );
+
+  -- order_number is filled in by the next_order_number() column default
+  INSERT INTO orders (
+    user_id,
+    service_identifier,
+    customer_name,
+    email,
+    phone,
+    pickup_address,
+    pickup_details,
+    shipping_address,
+    delivery_details,
+    shipping_method,
+    estimated_delivery,
+    pickup_slot_id,
+    delivery_slot_id,
+    is_express,
+    special_instructions,
+    subtotal,
+    express_surcharge,
+    tax,
+    shipping_fee,
+    total_amount,
+    status,
+    payment_status
+  ) VALUES (
+    v_user_id,
+    v_service.service_identifier,
+    coalesce(v_customer_name, v_email),
+    v_email,
+    v_phone,
+    format_address(v_pickup_address),
+    address_details(v_pickup_address),
+    format_address(v_delivery_address),
+    address_details(v_delivery_address),
+    p_order->>'delivery_option',
+    v_delivery_slot.starts_at,
+    v_pickup_slot.id,
+    v_delivery_slot.id,
+    v_is_express,
+    nullif(p_order->>'special_instructions', ''),
+    v_subtotal,
+    v_express_surcharge,
+    v_tax,
+    v_shipping_fee,
+    v_subtotal + v_express_surcharge + v_tax + v_shipping_fee,
+    'pending',
+    'pending'
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (
+    order_id,
+    product_id,
+    product_name,
+    quote_id,
+    quantity,
+    unit_price,
+    subtotal
+  )
+  SELECT
+    v_order.id,
+    (line->>'product_id')::uuid,
+    line->>'product_name',
+    (line->>'quote_id')::uuid,
+    (line->>'quantity')::integer,
+    (line->>'unit_price')::numeric,
+    (line->>'subtotal')::numeric
+  FROM jsonb_array_elements(v_lines) AS line;
+
+  INSERT INTO slot_bookings (order_id, slot_capacity_id)
+  VALUES
+    (v_order.id, v_pickup_capacity_id),
+    (v_order.id, v_delivery_capacity_id);
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION create_order(jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_order(jsonb) TO authenticated;
@@ -0,0 +1,997 @@
+/*
+  # Business Organisations
+
+  1. New Tables
+    - `organizations`: business clients, optionally linked to the
+      `business_inquiries` row they came from
+    - `organization_members`: users in an organisation with a role of
+      `owner`, `admin`, `orderer` or `viewer` and an `active`/`inactive` status
+    - `organization_invitations`: pending invitations, matched on email the
+      next time the invitee signs in
+
+  2. Changes
+    - `orders` gets `organization_id`; `create_order` attributes orders of
+      members that may order to their organisation
+    - Add `organization_role(p_organization_id)` with the caller's role
+    - Add `create_organization(...)` for admins, which invites the owner
+    - Add `list_organization_members(...)`, `invite_organization_member(...)`,
+      `accept_organization_invitations()`, `update_organization_member(...)`,
+      `set_organization_member_active(...)` and
+      `revoke_organization_invitation(...)` for the business Team page
+    - Owners and admins manage members; only owners hand out the owner role
+      and an organisation always keeps one active owner
+    - `merge_customers` moves memberships, invitations and organisations the
+      merged account created to the remaining account
+
+  3. Security
+    - Enable RLS on the new tables
+    - Members read their organisation and its members, owners and admins its
+      invitations
+    - Owners, admins and viewers read all orders of their organisation
+    - Admins with `businesses.read` read all organisations
+    - Service role has full access
+*/
+
+CREATE TABLE IF NOT EXISTS organizations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  inquiry_id uuid REFERENCES business_inquiries(id) ON DELETE SET NULL,
+  billing_email text,
+  vat_number text,
+  status text NOT NULL DEFAULT 'active',
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+
+  CONSTRAINT valid_organization_status CHECK (status IN ('active', 'suspended'))
+);
+
+CREATE TABLE IF NOT EXISTS organization_members (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role text NOT NULL DEFAULT 'orderer',
+  department text,
+  status text NOT NULL DEFAULT 'active',
+  invited_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+
+  CONSTRAINT valid_member_role CHECK (role IN ('owner', 'admin', 'orderer', 'viewer')),
+  CONSTRAINT valid_member_status CHECK (status IN ('active', 'inactive')),
+  UNIQUE (organization_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_organization_members_user_id ON organization_members(user_id);
+
+CREATE TABLE IF NOT EXISTS organization_invitations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  email text NOT NULL,
+  role text NOT NULL DEFAULT 'orderer',
+  department text,
+  invited_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  expires_at timestamptz NOT NULL DEFAULT now() + interval '14 days',
+  accepted_at timestamptz,
+
+  CONSTRAINT valid_invitation_role CHECK (role IN ('owner', 'admin', 'orderer', 'viewer'))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_organization_invitations_pending_email
+  ON organization_invitations(organization_id, lower(email))
+  WHERE accepted_at IS NULL;
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES organizations(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_orders_organization_id ON orders(organization_id);
+
+-- Policies on the member table call this, so it must bypass RLS itself
+CREATE OR REPLACE FUNCTION organization_role(p_organization_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT m.role
+  FROM organization_members m
+  JOIN organizations o ON o.id = m.organization_id
+  WHERE m.organization_id = p_organization_id
+    AND m.user_id = auth.uid()
+    AND m.status = 'active'
+    AND o.status = 'active';
+$$;
+
+REVOKE ALL ON FUNCTION organization_role(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION organization_role(uuid) TO authenticated;
+
+ALTER TABLE organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organization_invitations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "organizations_read_member_20250402" ON organizations;
+DROP POLICY IF EXISTS "organizations_read_admin_20250402" ON organizations;
+DROP POLICY IF EXISTS "organizations_service_role_20250402" ON organizations;
+DROP POLICY IF EXISTS "organization_members_read_member_20250402" ON organization_members;
+DROP POLICY IF EXISTS "organization_members_read_own_20250402" ON organization_members;
+DROP POLICY IF EXISTS "organization_members_read_admin_20250402" ON organization_members;
+DROP POLICY IF EXISTS "organization_members_service_role_20250402" ON organization_members;
+DROP POLICY IF EXISTS "organization_invitations_read_manager_20250402" ON organization_invitations;
+DROP POLICY IF EXISTS "organization_invitations_read_admin_20250402" ON organization_invitations;
+DROP POLICY IF EXISTS "organization_invitations_service_role_20250402" ON organization_invitations;
+DROP POLICY IF EXISTS "orders_read_organization_20250402" ON orders;
+DROP POLICY IF EXISTS "order_items_read_organization_20250402" ON order_items;
+
+CREATE POLICY "organizations_read_member_20250402"
+  ON organizations
+  FOR SELECT
+  TO authenticated
+  USING (organization_role(id) IS NOT NULL);
+
+CREATE POLICY "organizations_read_admin_20250402"
+  ON organizations
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('businesses.read'));
+
+CREATE POLICY "organizations_service_role_20250402"
+  ON organizations
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "organization_members_read_member_20250402"
+  ON organization_members
+  FOR SELECT
+  TO authenticated
+  USING (organization_role(organization_id) IS NOT NULL);
+
+-- Inactive members still see their own membership
+CREATE POLICY "organization_members_read_own_20250402"
+  ON organization_members
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "organization_members_read_admin_20250402"
+  ON organization_members
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('businesses.read'));
+
+CREATE POLICY "organization_members_service_role_20250402"
+  ON organization_members
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "organization_invitations_read_manager_20250402"
+  ON organization_invitations
+  FOR SELECT
+  TO authenticated
+  USING (organization_role(organization_id) IN ('owner', 'admin'));
+
+CREATE POLICY "organization_invitations_read_admin_20250402"
+  ON organization_invitations
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('businesses.read'));
+
+CREATE POLICY "organization_invitations_service_role_20250402"
+  ON organization_invitations
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "orders_read_organization_20250402"
+  ON orders
+  FOR SELECT
+  TO authenticated
+  USING (
+    organization_id IS NOT NULL
+    AND organization_role(organization_id) IN ('owner', 'admin', 'viewer')
+  );
+
+CREATE POLICY "order_items_read_organization_20250402"
+  ON order_items
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders o
+      WHERE o.id = order_items.order_id
+        AND o.organization_id IS NOT NULL
+        AND organization_role(o.organization_id) IN ('owner', 'admin', 'viewer')
+    )
+  );
+
+CREATE OR REPLACE FUNCTION create_organization(
+  p_name text,
+  p_owner_email text,
+  p_inquiry_id uuid DEFAULT NULL
+)
+RETURNS organizations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_email text := lower(trim(p_owner_email));
+  v_organization organizations;
+BEGIN
+  IF NOT has_permission('businesses.write') THEN
+    RAISE EXCEPTION 'You do not have permission to create organisations'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF nullif(trim(p_name), '') IS NULL THEN
+    RAISE EXCEPTION 'An organisation needs a name';
+  END IF;
+
+  IF v_email IS NULL OR v_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RAISE EXCEPTION 'Enter a valid email address for the owner';
+  END IF;
+
+  INSERT INTO organizations (name, inquiry_id, billing_email, created_by)
+  VALUES (trim(p_name), p_inquiry_id, v_email, auth.uid())
+  RETURNING * INTO v_organization;
+
+  INSERT INTO organization_invitations (organization_id, email, role, invited_by)
+  VALUES (v_organization.id, v_email, 'owner', auth.uid());
+
+  RETURN v_organization;
+END;
+$$;
+
+-- Emails and names live outside the member table
+CREATE OR REPLACE FUNCTION list_organization_members(p_organization_id uuid)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  email text,
+  first_name text,
+  last_name text,
+  phone text,
+  role text,
+  department text,
+  status text,
+  created_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF organization_role(p_organization_id) IS NULL AND NOT has_permission('businesses.read') THEN
+    RAISE EXCEPTION 'You are not a member of this organisation'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    m.id,
+    m.user_id,
+    u.email::text,
+    coalesce(p.first_name, u.raw_user_meta_data->>'first_name'),
+    coalesce(p.last_name, u.raw_user_meta_data->>'last_name'),
+    coalesce(p.phone, u.raw_user_meta_data->>'phone'),
+    m.role,
+    m.department,
+    m.status,
+    m.created_at
+  FROM organization_members m
+  JOIN auth.users u ON u.id = m.user_id
+  LEFT JOIN profiles p ON p.id = m.user_id
+  WHERE m.organization_id = p_organization_id
+  ORDER BY m.status, m.created_at;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION invite_organization_member(
+  p_organization_id uuid,
+  p_email text,
+  p_role text,
+  p_department text DEFAULT NULL
+)
+RETURNS organization_invitations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_email text := lower(trim(p_email));
+  v_caller_role text := organization_role(p_organization_id);
+  v_invitation organization_invitations;
+BEGIN
+  IF coalesce(v_caller_role, '') NOT IN ('owner', 'admin') THEN
+    RAISE EXCEPTION 'Only owners and admins can invite members'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF p_role = 'owner' AND v_caller_role <> 'owner' THEN
+    RAISE EXCEPTION 'Only owners can invite owners'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF v_email IS NULL OR v_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RAISE EXCEPTION 'Enter a valid email address';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM organization_members m
+    JOIN auth.users u ON u.id = m.user_id
+    WHERE m.organization_id = p_organization_id
+      AND m.status = 'active'
+      AND lower(u.email) = v_email
+  ) THEN
+    RAISE EXCEPTION '% is already a member', v_email;
+  END IF;
+
+  -- A new invitation replaces an open one for the same address
+  DELETE FROM organization_invitations
+  WHERE organization_id = p_organization_id
+    AND lower(email) = v_email
+    AND accepted_at IS NULL;
+
+  INSERT INTO organization_invitations (organization_id, email, role, department, invited_by)
+  VALUES (p_organization_id, v_email, p_role, nullif(trim(p_department), ''), auth.uid())
+  RETURNING * INTO v_invitation;
+
+  RETURN v_invitation;
+END;
+$$;
+
+-- Called after every sign in; returns how many invitations were accepted
+CREATE OR REPLACE FUNCTION accept_organization_invitations()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_invitation organization_invitations;
+  v_count integer := 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated'
+      USING ERRCODE = '42501';
+  END IF;
+
+  FOR v_invitation IN
+    SELECT i.*
+    FROM organization_invitations i
+    JOIN auth.users u ON lower(u.email) = lower(i.email)
+    WHERE u.id = v_user_id
+      AND u.email_confirmed_at IS NOT NULL
+      AND i.accepted_at IS NULL
+      AND i.expires_at > now()
+    FOR UPDATE OF i
+  LOOP
+    -- Inviting a deactivated member again brings them back
+    INSERT INTO organization_members (organization_id, user_id, role, department, invited_by)
+    VALUES (
+      v_invitation.organization_id,
+      v_user_id,
+      v_invitation.role,
+      v_invitation.department,
+      v_invitation.invited_by
+    )
+    ON CONFLICT (organization_id, user_id) DO UPDATE
+    SET role = EXCLUDED.role,
+        department = coalesce(EXCLUDED.department, organization_members.department),
+        status = 'active',
+        updated_at = now();
+
+    UPDATE organization_invitations
+    SET accepted_at = now()
+    WHERE id = v_invitation.id;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Shared checks for changing someone else's membership
+CREATE OR REPLACE FUNCTION lock_organization_member(p_member_id uuid)
+RETURNS organization_members
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_member organization_members;
+  v_caller_role text;
+BEGIN
+  SELECT * INTO v_member
+  FROM organization_members
+  WHERE id = p_member_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Member % not found', p_member_id;
+  END IF;
+
+  v_caller_role := organization_role(v_member.organization_id);
+
+  IF coalesce(v_caller_role, '') NOT IN ('owner', 'admin') THEN
+    RAISE EXCEPTION 'Only owners and admins can manage members'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF v_member.role = 'owner' AND v_caller_role <> 'owner' THEN
+    RAISE EXCEPTION 'Only owners can change owners'
+      USING ERRCODE = '42501';
+  END IF;
+
+  -- Lock the owners so two changes cannot both pass the last owner check
+  PERFORM 1 FROM organization_members
+  WHERE organization_id = v_member.organization_id
+    AND role = 'owner'
+  FOR UPDATE;
+
+  RETURN v_member;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION is_last_organization_owner(p_member organization_members)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_member.role = 'owner'
+    AND p_member.status = 'active'
+    AND (
+      SELECT count(*) FROM organization_members
+      WHERE organization_id = p_member.organization_id
+        AND role = 'owner'
+        AND status = 'active'
+    ) = 1;
+$$;
+
+CREATE OR REPLACE FUNCTION update_organization_member(
+  p_member_id uuid,
+  p_role text,
+  p_department text DEFAULT NULL
+)
+RETURNS organization_members
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_member organization_members := lock_organization_member(p_member_id);
+BEGIN
+  IF p_role = 'owner' AND organization_role(v_member.organization_id) <> 'owner' THEN
+    RAISE EXCEPTION 'Only owners can make someone an owner'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF p_role <> 'owner' AND is_last_organization_owner(v_member) THEN
+    RAISE EXCEPTION 'The last owner cannot be given another role';
+  END IF;
+
+  UPDATE organization_members
+  SET role = p_role,
+      department = nullif(trim(p_department), ''),
+      updated_at = now()
+  WHERE id = p_member_id
+  RETURNING * INTO v_member;
+
+  RETURN v_member;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION set_organization_member_active(
+  p_member_id uuid,
+  p_active boolean
+)
+RETURNS organization_members
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_member organization_members := lock_organization_member(p_member_id);
+BEGIN
+  IF NOT p_active AND v_member.user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot deactivate yourself';
+  END IF;
+
+  IF NOT p_active AND is_last_organization_owner(v_member) THEN
+    RAISE EXCEPTION 'The last owner cannot be deactivated';
+  END IF;
+
+  UPDATE organization_members
+  SET status = CASE WHEN p_active THEN 'active' ELSE 'inactive' END,
+      updated_at = now()
+  WHERE id = p_member_id
+  RETURNING * INTO v_member;
+
+  RETURN v_member;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION revoke_organization_invitation(p_invitation_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invitation organization_invitations;
+  v_caller_role text;
+BEGIN
+  SELECT * INTO v_invitation
+  FROM organization_invitations
+  WHERE id = p_invitation_id
+    AND accepted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  v_caller_role := organization_role(v_invitation.organization_id);
+
+  IF coalesce(v_caller_role, '') NOT IN ('owner', 'admin')
+    OR (v_invitation.role = 'owner' AND v_caller_role <> 'owner')
+  THEN
+    RAISE EXCEPTION 'You cannot revoke this invitation'
+      USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM organization_invitations WHERE id = p_invitation_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION lock_organization_member(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION is_last_organization_owner(organization_members) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION create_organization(text, text, uuid) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION list_organization_members(uuid) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION invite_organization_member(uuid, text, text, text) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION accept_organization_invitations() FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION update_organization_member(uuid, text, text) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION set_organization_member_active(uuid, boolean) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION revoke_organization_invitation(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_organization(text, text, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION list_organization_members(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION invite_organization_member(uuid, text, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION accept_organization_invitations() TO authenticated;
+GRANT EXECUTE ON FUNCTION update_organization_member(uuid, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_organization_member_active(uuid, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION revoke_organization_invitation(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION create_order(p_order jsonb)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_vat_rate constant numeric := 0.21;
+  v_shipping_fee constant numeric := 0;
+  v_user_id uuid := auth.uid();
+  v_customer_name text;
+  v_email text;
+  v_phone text;
+  v_line jsonb;
+  v_item items;
+  v_quote custom_price_quotes;
+  v_unit_price numeric(10,2);
+  v_quantity integer;
+  v_lines jsonb := '[]'::jsonb;
+  v_subtotal numeric(10,2) := 0;
+  v_tax numeric(10,2);
+  v_service services;
+  v_is_express boolean := coalesce((p_order->>'express')::boolean, false);
+  v_turnaround_hours integer;
+  v_express_surcharge numeric(10,2) := 0;
+  v_pickup_address user_addresses;
+  v_delivery_address user_addresses;
+  v_pickup_slot delivery_slots;
+  v_delivery_slot delivery_slots;
+  v_pickup_capacity_id uuid;
+  v_delivery_capacity_id uuid;
+  v_organization_id uuid;
+  v_order orders;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF jsonb_typeof(p_order->'items') IS DISTINCT FROM 'array'
+    OR jsonb_array_length(p_order->'items') = 0
+  THEN
+    RAISE EXCEPTION 'An order needs at least one item';
+  END IF;
+
+  -- Customer details come from the account, not from the request
+  SELECT
+    nullif(trim(concat_ws(' ',
+      coalesce(p.first_name, u.raw_user_meta_data->>'first_name'),
+      coalesce(p.last_name, u.raw_user_meta_data->>'last_name')
+    )), ''),
+    u.email,
+    coalesce(p.phone, u.raw_user_meta_data->>'phone')
+  INTO v_customer_name, v_email, v_phone
+  FROM auth.users u
+  LEFT JOIN profiles p ON p.id = u.id
+  WHERE u.id = v_user_id;
+
+  -- Orders of business members are billed to their organisation. The client
+  -- names it, or sends null for a personal order; without either, a member
+  -- of exactly one organisation orders for that organisation.
+  IF p_order ? 'organization_id' THEN
+    v_organization_id := (p_order->>'organization_id')::uuid;
+
+    IF v_organization_id IS NOT NULL
+      AND coalesce(organization_role(v_organization_id), '') NOT IN ('owner', 'admin', 'orderer')
+    THEN
+      RAISE EXCEPTION 'You cannot order for this organisation'
+        USING ERRCODE = '42501';
+    END IF;
+  ELSE
+    SELECT CASE WHEN count(*) = 1 THEN (array_agg(m.organization_id))[1] END
+    INTO v_organization_id
+    FROM organization_members m
+    JOIN organizations o ON o.id = m.organization_id
+    WHERE m.user_id = v_user_id
+      AND m.status = 'active'
+      AND m.role IN ('owner', 'admin', 'orderer')
+      AND o.status = 'active';
+  END IF;
+
+  -- Price every line from the catalog before anything is written
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_order->'items')
+  LOOP
+    -- An accepted quote is a single line at the price staff quoted
+    IF v_line ? 'quote_id' THEN
+      SELECT * INTO v_quote
+      FROM custom_price_quotes
+      WHERE id = (v_line->>'quote_id')::uuid
+        AND user_id = v_user_id
+      FOR UPDATE;
+
+      IF NOT FOUND OR v_quote.status <> 'accepted' THEN
+        RAISE EXCEPTION 'Quote % has not been accepted', v_line->>'quote_id';
+      END IF;
+
+      IF v_quote.expires_at <= now() THEN
+        RAISE EXCEPTION 'The quote for % has expired', v_quote.item_name;
+      END IF;
+
+      IF quote_is_ordered(v_quote.id) THEN
+        RAISE EXCEPTION 'The quote for % has already been ordered', v_quote.item_name;
+      END IF;
+
+      -- Unpaid orders hold the quote too, so it cannot be paid twice; the
+      -- checkout cancels the customer's earlier draft before ordering again
+      IF EXISTS (
+        SELECT 1
+        FROM order_items oi
+        JOIN orders o ON o.id = oi.order_id
+        WHERE oi.quote_id = v_quote.id
+          AND o.status <> 'cancelled'
+      ) THEN
+        RAISE EXCEPTION 'The quote for % is already on another order', v_quote.item_name;
+      END IF;
+
+      -- Quoted prices include VAT, order lines are stored without it
+      v_unit_price := round(v_quote.suggested_price / (1 + v_vat_rate), 2);
+
+      v_lines := v_lines || jsonb_build_object(
+        'product_id', v_quote.id,
+        'product_name', v_quote.item_name,
+        'quote_id', v_quote.id,
+        'quantity', 1,
+        'unit_price', v_unit_price,
+        'subtotal', v_unit_price
+      );
+
+      v_subtotal := v_subtotal + v_unit_price;
+      CONTINUE;
+    END IF;
+
+    v_quantity := (v_line->>'quantity')::integer;
+    IF v_quantity IS NULL OR v_quantity < 1 OR v_quantity > 100 THEN
+      RAISE EXCEPTION 'Invalid quantity for item %', v_line->>'item_id';
+    END IF;
+
+    SELECT * INTO v_item
+    FROM items
+    WHERE id = (v_line->>'item_id')::uuid
+      AND status = true
+      AND is_custom_price = false
+      AND price IS NOT NULL;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item % is not available', v_line->>'item_id';
+    END IF;
+
+    v_lines := v_lines || jsonb_build_object(
+      'product_id', v_item.id,
+      'product_name', v_item.name,
+      'quantity', v_quantity,
+      'unit_price', v_item.price,
+      'subtotal', v_item.price * v_quantity
+    );
+
+    v_subtotal := v_subtotal + v_item.price * v_quantity;
+  END LOOP;
+
+  SELECT * INTO v_service
+  FROM services
+  WHERE service_identifier = p_order->>'service'
+    AND status = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Service % is not available', p_order->>'service';
+  END IF;
+
+  -- Items must belong to the service they are ordered under, otherwise a
+  -- cart could borrow another service's turnaround or surcharge
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(v_lines) AS line
+    JOIN items i ON i.id = (line->>'product_id')::uuid
+    LEFT JOIN categories c ON c.id = i.category_id
+    WHERE line->>'quote_id' IS NULL
+      AND c.service_id IS DISTINCT FROM v_service.id
+  ) THEN
+    RAISE EXCEPTION 'Some items in this order do not belong to %', v_service.name;
+  END IF;
+
+  IF v_is_express THEN
+    IF v_service.express_turnaround_hours IS NULL THEN
+      RAISE EXCEPTION 'Express is not available for %', v_service.name;
+    END IF;
+
+    v_turnaround_hours := v_service.express_turnaround_hours;
+    v_express_surcharge := v_service.express_surcharge;
+  ELSE
+    v_turnaround_hours := v_service.turnaround_hours;
+  END IF;
+
+  -- VAT applies to the express surcharge as well
+  v_tax := round((v_subtotal + v_express_surcharge) * v_vat_rate, 2);
+
+  SELECT * INTO v_pickup_slot FROM delivery_slots WHERE id = (p_order->>'pickup_slot_id')::uuid;
+  SELECT * INTO v_delivery_slot FROM delivery_slots WHERE id = (p_order->>'delivery_slot_id')::uuid;
+
+  -- Addresses come from the customer's address book so drivers get the
+  -- structured details, never from free text in the request
+  SELECT * INTO v_pickup_address
+  FROM user_addresses
+  WHERE id = (p_order->>'pickup_address_id')::uuid
+    AND user_id = v_user_id;
+
+  SELECT * INTO v_delivery_address
+  FROM user_addresses
+  WHERE id = (p_order->>'delivery_address_id')::uuid
+    AND user_id = v_user_id;
+
+  IF v_pickup_address.id IS NULL OR v_delivery_address.id IS NULL THEN
+    RAISE EXCEPTION 'An order needs a pickup and a delivery address';
+  END IF;
+
+  IF lookup_service_area(v_pickup_address.postal_code) IS NULL THEN
+    RAISE EXCEPTION 'We do not pick up at postal code % yet', v_pickup_address.postal_code;
+  END IF;
+
+  IF lookup_service_area(v_delivery_address.postal_code) IS NULL THEN
+    RAISE EXCEPTION 'We do not deliver to postal code % yet', v_delivery_address.postal_code;
+  END IF;
+
+  IF v_pickup_slot.id IS NULL OR v_delivery_slot.id IS NULL THEN
+    RAISE EXCEPTION 'Please select a pickup and a delivery slot';
+  END IF;
+
+  IF v_delivery_slot.starts_at < v_pickup_slot.ends_at + make_interval(hours => v_turnaround_hours) THEN
+    RAISE EXCEPTION '% needs at least % hours between pickup and delivery',
+      v_service.name, v_turnaround_hours;
+  END IF;
+
+  v_pickup_capacity_id := reserve_slot_capacity(
+    v_pickup_slot.id, 'pickup', v_pickup_address.postal_code, p_order->>'service'
+  );
+  v_delivery_capacity_id := reserve_slot_capacity(
+    v_delivery_slot.id, 'delivery', v_delivery_address.postal_code, p_order->>'service'
+  );
+
+  -- order_number is filled in by the next_order_number() column default
+  INSERT INTO orders (
+    user_id,
+    organization_id,
+    service_identifier,
+    customer_name,
+    email,
+    phone,
+    pickup_address,
+    pickup_details,
+    shipping_address,
+    delivery_details,
+    shipping_method,
+    estimated_delivery,
+    pickup_slot_id,
+    delivery_slot_id,
+    is_express,
+    special_instructions,
+    subtotal,
+    express_surcharge,
+    tax,
+    shipping_fee,
+    total_amount,
+    status,
+    payment_status
+  ) VALUES (
+    v_user_id,
+    v_organization_id,
+    v_service.service_identifier,
+    coalesce(v_customer_name, v_email),
+    v_email,
+    v_phone,
+    format_address(v_pickup_address),
+    address_details(v_pickup_address),
+    format_address(v_delivery_address),
+    address_details(v_delivery_address),
+    p_order->>'delivery_option',
+    v_delivery_slot.starts_at,
+    v_pickup_slot.id,
+    v_delivery_slot.id,
+    v_is_express,
+    nullif(p_order->>'special_instructions', ''),
+    v_subtotal,
+    v_express_surcharge,
+    v_tax,
+    v_shipping_fee,
+    v_subtotal + v_express_surcharge + v_tax + v_shipping_fee,
+    'pending',
+    'pending'
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (
+    order_id,
+    product_id,
+    product_name,
+    quote_id,
+    quantity,
+    unit_price,
+    subtotal
+  )
+  SELECT
+    v_order.id,
+    (line->>'product_id')::uuid,
+    line->>'product_name',
+    (line->>'quote_id')::uuid,
+    (line->>'quantity')::integer,
+    (line->>'unit_price')::numeric,
+    (line->>'subtotal')::numeric
+  FROM jsonb_array_elements(v_lines) AS line;
+
+  INSERT INTO slot_bookings (order_id, slot_capacity_id)
+  VALUES
+    (v_order.id, v_pickup_capacity_id),
+    (v_order.id, v_delivery_capacity_id);
+
+  RETURN v_order;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION merge_customers(p_source_id uuid, p_target_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_moved jsonb;
+  v_orders integer;
+  v_addresses integer;
+  v_quotes integer;
+BEGIN
+  IF NOT has_permission('users.write') THEN
+    RAISE EXCEPTION 'You do not have permission to manage customers'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF p_source_id = p_target_id THEN
+    RAISE EXCEPTION 'An account cannot be merged into itself';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM auth.users WHERE id = p_source_id)
+    OR NOT EXISTS (SELECT 1 FROM auth.users WHERE id = p_target_id)
+  THEN
+    RAISE EXCEPTION 'Both accounts must exist';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM profiles WHERE id = p_target_id AND merged_into IS NOT NULL) THEN
+    RAISE EXCEPTION 'The target account was itself merged into another account';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM admin_users WHERE auth_id IN (p_source_id, p_target_id)) THEN
+    RAISE EXCEPTION 'Admin accounts cannot be merged';
+  END IF;
+
+  UPDATE orders SET user_id = p_target_id WHERE user_id = p_source_id;
+  GET DIAGNOSTICS v_orders = ROW_COUNT;
+
+  -- The target keeps its own default address
+  UPDATE user_addresses
+  SET user_id = p_target_id, is_default = false
+  WHERE user_id = p_source_id;
+  GET DIAGNOSTICS v_addresses = ROW_COUNT;
+
+  UPDATE custom_price_quotes SET user_id = p_target_id WHERE user_id = p_source_id;
+  GET DIAGNOSTICS v_quotes = ROW_COUNT;
+
+  UPDATE service_area_waitlist SET user_id = p_target_id WHERE user_id = p_source_id;
+  UPDATE customer_notes SET user_id = p_target_id WHERE user_id = p_source_id;
+  UPDATE notifications SET user_id = p_target_id WHERE user_id = p_source_id;
+
+  -- Where both accounts belong to the same organisation the target keeps
+  -- the stronger role of the two, and stays active if either was
+  UPDATE organization_members target
+  SET role = CASE
+        WHEN array_position(ARRAY['owner', 'admin', 'orderer', 'viewer'], source.role)
+          < array_position(ARRAY['owner', 'admin', 'orderer', 'viewer'], target.role)
+        THEN source.role
+        ELSE target.role
+      END,
+      status = CASE WHEN source.status = 'active' THEN 'active' ELSE target.status END
+  FROM organization_members source
+  WHERE target.user_id = p_target_id
+    AND source.user_id = p_source_id
+    AND source.organization_id = target.organization_id;
+
+  DELETE FROM organization_members source
+  USING organization_members target
+  WHERE source.user_id = p_source_id
+    AND target.user_id = p_target_id
+    AND target.organization_id = source.organization_id;
+
+  UPDATE organization_members SET user_id = p_target_id WHERE user_id = p_source_id;
+  UPDATE organization_members SET invited_by = p_target_id WHERE invited_by = p_source_id;
+  UPDATE organization_invitations SET invited_by = p_target_id WHERE invited_by = p_source_id;
+  UPDATE organizations SET created_by = p_target_id WHERE created_by = p_source_id;
+
+  DELETE FROM draft_orders WHERE user_id = p_source_id;
+
+  UPDATE profiles target
+  SET first_name = coalesce(target.first_name, source.first_name),
+      last_name = coalesce(target.last_name, source.last_name),
+      phone = coalesce(target.phone, source.phone),
+      address = coalesce(target.address, source.address),
+      city = coalesce(target.city, source.city),
+      postal_code = coalesce(target.postal_code, source.postal_code)
+  FROM profiles source
+  WHERE target.id = p_target_id
+  AND source.id = p_source_id;
+
+  UPDATE profiles SET merged_into = p_target_id WHERE id = p_source_id;
+
+  v_moved := jsonb_build_object(
+    'orders', v_orders,
+    'addresses', v_addresses,
+    'quotes', v_quotes
+  );
+
+  PERFORM log_admin_action('merged_away', p_source_id, v_moved || jsonb_build_object('target_id', p_target_id));
+  PERFORM log_admin_action('merged_into', p_target_id, v_moved || jsonb_build_object('source_id', p_source_id));
+END;
+$$;
+
+REVOKE ALL ON FUNCTION create_order(jsonb) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION merge_customers(uuid, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_order(jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION merge_customers(uuid, uuid) TO authenticated;
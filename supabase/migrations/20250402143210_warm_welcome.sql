@@ -0,0 +1,301 @@
+/*
+  # Business Inquiry Pipeline
+
+  1. New Tables
+    - `price_lists`: negotiated business rates, for now a percentage discount
+      with optional validity dates
+
+  2. Changes
+    - `business_inquiries` statuses are `new`, `contacted`, `approved` and
+      `rejected`; `pending` inquiries become `new`
+    - `business_inquiries` gets `assigned_to` (the sales owner),
+      `admin_notes`, `organization_id`, `reviewed_by` and `status_changed_at`
+    - `organizations` gets `price_list_id`
+    - Add `list_sales_owners()`, `update_business_inquiry(...)`,
+      `create_price_list(...)` and `approve_business_inquiry(...)` for the
+      admin Businesses tab; approving creates the organisation, invites the
+      contact as its owner and sets the price list
+
+  3. Security
+    - Enable RLS on `price_lists`
+    - Admins with `businesses.read` read inquiries and price lists, members
+      read the price list of their organisation
+    - Service role has full access
+*/
+
+ALTER TABLE business_inquiries DROP CONSTRAINT IF EXISTS valid_status;
+
+UPDATE business_inquiries
+SET status = 'new'
+WHERE status = 'pending';
+
+ALTER TABLE business_inquiries
+  ADD CONSTRAINT valid_status CHECK (status IN ('new', 'contacted', 'approved', 'rejected')),
+  ALTER COLUMN status SET DEFAULT 'new',
+  ADD COLUMN IF NOT EXISTS assigned_to uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS admin_notes text,
+  ADD COLUMN IF NOT EXISTS organization_id uuid REFERENCES organizations(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS reviewed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS status_changed_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_business_inquiries_status ON business_inquiries(status, created_at DESC);
+
+-- Visitors cannot pick their own status or sales owner
+CREATE OR REPLACE FUNCTION protect_business_inquiry_fields()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF current_user NOT IN ('authenticated', 'anon') THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.status := 'new';
+  NEW.assigned_to := NULL;
+  NEW.admin_notes := NULL;
+  NEW.organization_id := NULL;
+  NEW.reviewed_by := NULL;
+  NEW.status_changed_at := NULL;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_business_inquiry_fields ON business_inquiries;
+
+CREATE TRIGGER protect_business_inquiry_fields
+  BEFORE INSERT ON business_inquiries
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_business_inquiry_fields();
+
+CREATE TABLE IF NOT EXISTS price_lists (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  discount_percent numeric(5,2) NOT NULL DEFAULT 0,
+  valid_from date,
+  valid_until date,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+
+  CONSTRAINT valid_discount CHECK (discount_percent >= 0 AND discount_percent <= 100),
+  CONSTRAINT valid_period CHECK (valid_until IS NULL OR valid_from IS NULL OR valid_until >= valid_from)
+);
+
+ALTER TABLE organizations
+  ADD COLUMN IF NOT EXISTS price_list_id uuid REFERENCES price_lists(id) ON DELETE SET NULL;
+
+ALTER TABLE price_lists ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "price_lists_read_admin_20250402" ON price_lists;
+DROP POLICY IF EXISTS "price_lists_read_member_20250402" ON price_lists;
+DROP POLICY IF EXISTS "price_lists_service_role_20250402" ON price_lists;
+DROP POLICY IF EXISTS "business_inquiries_read_admin_20250402" ON business_inquiries;
+
+CREATE POLICY "price_lists_read_admin_20250402"
+  ON price_lists
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('businesses.read') OR has_permission('billing.read'));
+
+CREATE POLICY "price_lists_read_member_20250402"
+  ON price_lists
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM organizations o
+      WHERE o.price_list_id = price_lists.id
+        AND organization_role(o.id) IS NOT NULL
+    )
+  );
+
+CREATE POLICY "price_lists_service_role_20250402"
+  ON price_lists
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "business_inquiries_read_admin_20250402"
+  ON business_inquiries
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('businesses.read'));
+
+-- Admins that inquiries can be assigned to, with their email
+CREATE OR REPLACE FUNCTION list_sales_owners()
+RETURNS TABLE (
+  auth_id uuid,
+  email text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_permission('businesses.read') THEN
+    RAISE EXCEPTION 'You do not have permission to view businesses'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT a.auth_id, u.email::text
+  FROM admin_users a
+  JOIN auth.users u ON u.id = a.auth_id
+  ORDER BY u.email;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION update_business_inquiry(
+  p_inquiry_id uuid,
+  p_status text,
+  p_assigned_to uuid,
+  p_notes text DEFAULT NULL
+)
+RETURNS business_inquiries
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_inquiry business_inquiries;
+BEGIN
+  IF NOT has_permission('businesses.write') THEN
+    RAISE EXCEPTION 'You do not have permission to manage businesses'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_inquiry
+  FROM business_inquiries
+  WHERE id = p_inquiry_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Inquiry % not found', p_inquiry_id;
+  END IF;
+
+  IF p_status <> v_inquiry.status THEN
+    IF v_inquiry.status = 'approved' THEN
+      RAISE EXCEPTION 'Approved inquiries already have an organisation';
+    END IF;
+
+    IF p_status = 'approved' THEN
+      RAISE EXCEPTION 'Use approve to onboard the business';
+    END IF;
+  END IF;
+
+  IF p_assigned_to IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM admin_users WHERE auth_id = p_assigned_to)
+  THEN
+    RAISE EXCEPTION 'Inquiries can only be assigned to admins';
+  END IF;
+
+  UPDATE business_inquiries
+  SET status = p_status,
+      assigned_to = p_assigned_to,
+      admin_notes = nullif(trim(p_notes), ''),
+      status_changed_at = CASE WHEN p_status <> v_inquiry.status THEN now() ELSE status_changed_at END,
+      reviewed_by = CASE WHEN p_status <> v_inquiry.status THEN auth.uid() ELSE reviewed_by END,
+      updated_at = now()
+  WHERE id = p_inquiry_id
+  RETURNING * INTO v_inquiry;
+
+  RETURN v_inquiry;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION create_price_list(
+  p_name text,
+  p_discount_percent numeric,
+  p_valid_from date DEFAULT NULL,
+  p_valid_until date DEFAULT NULL
+)
+RETURNS price_lists
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_price_list price_lists;
+BEGIN
+  IF NOT (has_permission('businesses.write') OR has_permission('billing.write')) THEN
+    RAISE EXCEPTION 'You do not have permission to create price lists'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF nullif(trim(p_name), '') IS NULL THEN
+    RAISE EXCEPTION 'A price list needs a name';
+  END IF;
+
+  INSERT INTO price_lists (name, discount_percent, valid_from, valid_until, created_by)
+  VALUES (trim(p_name), coalesce(p_discount_percent, 0), p_valid_from, p_valid_until, auth.uid())
+  RETURNING * INTO v_price_list;
+
+  RETURN v_price_list;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION approve_business_inquiry(
+  p_inquiry_id uuid,
+  p_price_list_id uuid DEFAULT NULL
+)
+RETURNS organizations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_inquiry business_inquiries;
+  v_organization organizations;
+BEGIN
+  IF NOT has_permission('businesses.write') THEN
+    RAISE EXCEPTION 'You do not have permission to approve businesses'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_inquiry
+  FROM business_inquiries
+  WHERE id = p_inquiry_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Inquiry % not found', p_inquiry_id;
+  END IF;
+
+  IF v_inquiry.status IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'This inquiry is already %', v_inquiry.status;
+  END IF;
+
+  IF p_price_list_id IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM price_lists WHERE id = p_price_list_id)
+  THEN
+    RAISE EXCEPTION 'Price list % not found', p_price_list_id;
+  END IF;
+
+  -- Creates the organisation and invites the contact as its owner
+  v_organization := create_organization(v_inquiry.company_name, v_inquiry.email, v_inquiry.id);
+
+  UPDATE organizations
+  SET price_list_id = p_price_list_id
+  WHERE id = v_organization.id
+  RETURNING * INTO v_organization;
+
+  UPDATE business_inquiries
+  SET status = 'approved',
+      organization_id = v_organization.id,
+      reviewed_by = auth.uid(),
+      status_changed_at = now(),
+      updated_at = now()
+  WHERE id = p_inquiry_id;
+
+  RETURN v_organization;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION list_sales_owners() FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION update_business_inquiry(uuid, text, uuid, text) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION create_price_list(text, numeric, date, date) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION approve_business_inquiry(uuid, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION list_sales_owners() TO authenticated;
+GRANT EXECUTE ON FUNCTION update_business_inquiry(uuid, text, uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_price_list(text, numeric, date, date) TO authenticated;
+GRANT EXECUTE ON FUNCTION approve_business_inquiry(uuid, uuid) TO authenticated;
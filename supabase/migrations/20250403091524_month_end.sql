@@ -0,0 +1,649 @@
+/*
+  # Monthly Business Invoices
+
+  1. New Tables
+    - `invoice_settings` (single row): invoice number prefix, payment term
+      and the supplier details printed on every invoice (name, address,
+      KvK number, VAT number, IBAN)
+    - `invoice_counters`: the last invoice number used per calendar year
+    - `invoices`: one invoice per organisation per month, with a snapshot of
+      the supplier and customer details, totals and payment status
+    - `invoice_lines`: the billed order lines, each with its order, delivery
+      date and VAT rate
+
+  2. Changes
+    - `orders` accepts `invoice` as payment method and gets `invoice_id`
+    - `organizations` gets `billing_address`
+    - Add `place_order_on_account(p_order_id)` so members who may order bill
+      an organisation order on the monthly invoice instead of paying upfront
+    - Add `generate_monthly_invoices(p_period_start)`, run by pg_cron on the
+      first of every month for the previous month's delivered orders
+    - Invoice numbers are gapless per year (`INV-2025-00001`): the counter
+      row is locked and only moves when the invoice is committed
+    - Add `mark_overdue_invoices()`, run daily by pg_cron
+    - Add `settle_invoice(...)` for the Mollie webhook and
+      `mark_invoice_paid(...)` for bank transfers booked by billing admins;
+      both mark the invoiced orders as paid
+    - Add `update_organization_billing(...)` for owners and admins
+    - Orders on account stay `pending` until their invoice is paid, so
+      `quote_is_ordered` and `driver_route_stops` treat an order as placed
+      once it is paid or billed on account
+
+  3. Security
+    - Enable RLS on the new tables
+    - Owners, admins and viewers read their organisation's invoices
+    - Admins with `billing.read` read all invoices
+    - Invoice settings are publicly readable, counters are service role only
+    - Service role has full access
+*/
+
+CREATE TABLE IF NOT EXISTS invoice_settings (
+  id boolean PRIMARY KEY DEFAULT true,
+  prefix text NOT NULL DEFAULT 'INV',
+  payment_term_days integer NOT NULL DEFAULT 30,
+  company_name text NOT NULL DEFAULT 'Eazyy B.V.',
+  address text,
+  kvk_number text,
+  vat_number text,
+  iban text,
+  email text,
+  updated_at timestamptz DEFAULT now(),
+
+  CONSTRAINT single_row CHECK (id),
+  CONSTRAINT valid_prefix CHECK (prefix ~ '^[A-Z0-9]{1,8}$'),
+  CONSTRAINT valid_payment_term CHECK (payment_term_days BETWEEN 0 AND 90)
+);
+
+INSERT INTO invoice_settings (id) VALUES (true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS invoice_counters (
+  year integer PRIMARY KEY,
+  last_number integer NOT NULL DEFAULT 0
+);
+
+-- Invoices must be kept for seven years, so an organisation with invoices
+-- cannot be deleted
+CREATE TABLE IF NOT EXISTS invoices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_number text UNIQUE NOT NULL,
+  organization_id uuid NOT NULL REFERENCES organizations(id) ON DELETE RESTRICT,
+  period_start date NOT NULL,
+  period_end date NOT NULL,
+  issue_date date NOT NULL,
+  due_date date NOT NULL,
+  supplier jsonb NOT NULL,
+  customer_name text NOT NULL,
+  customer_address text,
+  customer_vat_number text,
+  billing_email text,
+  subtotal numeric(10,2) NOT NULL DEFAULT 0,
+  vat_amount numeric(10,2) NOT NULL DEFAULT 0,
+  total_amount numeric(10,2) NOT NULL DEFAULT 0,
+  status text NOT NULL DEFAULT 'open',
+  payment_method text,
+  transaction_id text,
+  paid_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+
+  CONSTRAINT valid_invoice_status CHECK (status IN ('open', 'overdue', 'paid')),
+  CONSTRAINT valid_invoice_payment_method CHECK (
+    payment_method IN ('credit_card', 'ideal', 'bancontact', 'bank_transfer')
+  ),
+  UNIQUE (organization_id, period_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoices_organization_id ON invoices(organization_id, issue_date DESC);
+CREATE INDEX IF NOT EXISTS idx_invoices_status ON invoices(status);
+
+CREATE TABLE IF NOT EXISTS invoice_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id uuid NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  order_id uuid REFERENCES orders(id) ON DELETE SET NULL,
+  order_number text,
+  delivered_on date,
+  position integer NOT NULL,
+  description text NOT NULL,
+  quantity integer NOT NULL,
+  unit_price numeric(10,2) NOT NULL,
+  vat_rate numeric(5,4) NOT NULL,
+  net_amount numeric(10,2) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_lines_invoice_id ON invoice_lines(invoice_id, position);
+
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS valid_payment_method;
+
+ALTER TABLE orders
+  ADD CONSTRAINT valid_payment_method CHECK (
+    payment_method IN ('credit_card', 'ideal', 'bancontact', 'cash', 'invoice')
+  ),
+  ADD COLUMN IF NOT EXISTS invoice_id uuid REFERENCES invoices(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_orders_invoice_id ON orders(invoice_id);
+
+ALTER TABLE organizations
+  ADD COLUMN IF NOT EXISTS billing_address text;
+
+CREATE TRIGGER invoice_settings_updated_at
+  BEFORE UPDATE ON invoice_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_updated_at();
+
+CREATE TRIGGER invoices_updated_at
+  BEFORE UPDATE ON invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_updated_at();
+
+ALTER TABLE invoice_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoice_counters ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoice_lines ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "invoice_settings_read_public_20250403" ON invoice_settings;
+DROP POLICY IF EXISTS "invoice_settings_service_role_20250403" ON invoice_settings;
+DROP POLICY IF EXISTS "invoice_counters_service_role_20250403" ON invoice_counters;
+DROP POLICY IF EXISTS "invoices_read_organization_20250403" ON invoices;
+DROP POLICY IF EXISTS "invoices_read_admin_20250403" ON invoices;
+DROP POLICY IF EXISTS "invoices_service_role_20250403" ON invoices;
+DROP POLICY IF EXISTS "invoice_lines_read_organization_20250403" ON invoice_lines;
+DROP POLICY IF EXISTS "invoice_lines_read_admin_20250403" ON invoice_lines;
+DROP POLICY IF EXISTS "invoice_lines_service_role_20250403" ON invoice_lines;
+
+CREATE POLICY "invoice_settings_read_public_20250403"
+  ON invoice_settings
+  FOR SELECT
+  TO public
+  USING (true);
+
+CREATE POLICY "invoice_settings_service_role_20250403"
+  ON invoice_settings
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "invoice_counters_service_role_20250403"
+  ON invoice_counters
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "invoices_read_organization_20250403"
+  ON invoices
+  FOR SELECT
+  TO authenticated
+  USING (organization_role(organization_id) IN ('owner', 'admin', 'viewer'));
+
+CREATE POLICY "invoices_read_admin_20250403"
+  ON invoices
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('billing.read'));
+
+CREATE POLICY "invoices_service_role_20250403"
+  ON invoices
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "invoice_lines_read_organization_20250403"
+  ON invoice_lines
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM invoices i
+      WHERE i.id = invoice_lines.invoice_id
+        AND organization_role(i.organization_id) IN ('owner', 'admin', 'viewer')
+    )
+  );
+
+CREATE POLICY "invoice_lines_read_admin_20250403"
+  ON invoice_lines
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('billing.read'));
+
+CREATE POLICY "invoice_lines_service_role_20250403"
+  ON invoice_lines
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Dutch invoices need an unbroken series, which a sequence cannot promise:
+-- the counter row stays locked until the invoice using it commits
+CREATE OR REPLACE FUNCTION next_invoice_number(p_issue_date date)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_year integer := extract(year FROM p_issue_date)::integer;
+  v_number integer;
+  v_prefix text;
+BEGIN
+  SELECT prefix INTO v_prefix FROM invoice_settings WHERE id;
+
+  INSERT INTO invoice_counters (year, last_number)
+  VALUES (v_year, 1)
+  ON CONFLICT (year) DO UPDATE
+  SET last_number = invoice_counters.last_number + 1
+  RETURNING last_number INTO v_number;
+
+  RETURN coalesce(v_prefix, 'INV') || '-' || v_year || '-' || lpad(v_number::text, 5, '0');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION place_order_on_account(p_order_id uuid)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders;
+BEGIN
+  SELECT * INTO v_order
+  FROM orders
+  WHERE id = p_order_id
+    AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id;
+  END IF;
+
+  IF v_order.organization_id IS NULL
+    OR coalesce(organization_role(v_order.organization_id), '') NOT IN ('owner', 'admin', 'orderer')
+  THEN
+    RAISE EXCEPTION 'Only orders for your business account can be billed on invoice'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF v_order.payment_status <> 'pending' OR v_order.status <> 'pending' THEN
+    RAISE EXCEPTION 'This order can no longer be billed on invoice';
+  END IF;
+
+  UPDATE orders
+  SET payment_method = 'invoice',
+      status = 'confirmed'
+  WHERE id = p_order_id
+  RETURNING * INTO v_order;
+
+  RETURN v_order;
+END;
+$$;
+
+-- An accepted quote on an order billed on account is ordered as well
+CREATE OR REPLACE FUNCTION quote_is_ordered(p_quote_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM order_items oi
+    JOIN orders o ON o.id = oi.order_id
+    WHERE oi.quote_id = p_quote_id
+      AND (o.payment_status = 'paid' OR o.payment_method = 'invoice')
+  );
+$$;
+
+-- Drivers collect orders on account before they are invoiced
+CREATE OR REPLACE VIEW driver_route_stops AS
+SELECT
+  o.id AS order_id,
+  o.order_number,
+  s.kind,
+  s.id AS slot_id,
+  s.starts_at,
+  s.ends_at,
+  sc.driver_id,
+  sc.driver_name,
+  o.customer_name,
+  o.phone,
+  CASE s.kind WHEN 'pickup' THEN o.pickup_address ELSE o.shipping_address END AS address,
+  stop.details->>'postal_code' AS postal_code,
+  stop.details->>'floor' AS floor,
+  stop.details->>'door_code' AS door_code,
+  (stop.details->>'latitude')::double precision AS latitude,
+  (stop.details->>'longitude')::double precision AS longitude,
+  stop.details->>'courier_instructions' AS courier_instructions
+FROM orders o
+JOIN slot_bookings b ON b.order_id = o.id
+JOIN slot_capacity sc ON sc.id = b.slot_capacity_id
+JOIN delivery_slots s ON s.id = sc.slot_id
+CROSS JOIN LATERAL (
+  SELECT CASE s.kind WHEN 'pickup' THEN o.pickup_details ELSE o.delivery_details END AS details
+) stop
+WHERE (o.payment_status = 'paid' OR o.payment_method = 'invoice')
+  AND o.status <> 'cancelled';
+
+-- The status history is the only record of when an order was delivered
+CREATE OR REPLACE FUNCTION order_delivered_at(p_order_id uuid)
+RETURNS timestamptz
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT max(created_at)
+  FROM order_status_history
+  WHERE order_id = p_order_id
+    AND to_status = 'delivered';
+$$;
+
+-- Bills every organisation for the on-account orders delivered up to the end
+-- of the period, including stragglers from earlier months. An organisation
+-- gets at most one invoice per period, so running it twice is harmless.
+CREATE OR REPLACE FUNCTION generate_monthly_invoices(p_period_start date DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_today date := (now() AT TIME ZONE 'Europe/Amsterdam')::date;
+  v_period_start date := date_trunc('month', coalesce(p_period_start, v_today - interval '1 month'))::date;
+  v_period_end date := (v_period_start + interval '1 month' - interval '1 day')::date;
+  v_cutoff timestamptz := (v_period_end + 1)::timestamp AT TIME ZONE 'Europe/Amsterdam';
+  v_settings invoice_settings;
+  v_organization organizations;
+  v_invoice invoices;
+  v_count integer := 0;
+BEGIN
+  SELECT * INTO v_settings FROM invoice_settings WHERE id;
+
+  FOR v_organization IN
+    SELECT org.*
+    FROM organizations org
+    WHERE NOT EXISTS (
+        SELECT 1 FROM invoices i
+        WHERE i.organization_id = org.id
+          AND i.period_start = v_period_start
+      )
+      AND EXISTS (
+        SELECT 1 FROM orders o
+        WHERE o.organization_id = org.id
+          AND o.payment_method = 'invoice'
+          AND o.payment_status = 'pending'
+          AND o.status = 'delivered'
+          AND o.invoice_id IS NULL
+          AND order_delivered_at(o.id) < v_cutoff
+      )
+    ORDER BY org.name
+  LOOP
+    INSERT INTO invoices (
+      invoice_number,
+      organization_id,
+      period_start,
+      period_end,
+      issue_date,
+      due_date,
+      supplier,
+      customer_name,
+      customer_address,
+      customer_vat_number,
+      billing_email
+    )
+    VALUES (
+      next_invoice_number(v_today),
+      v_organization.id,
+      v_period_start,
+      v_period_end,
+      v_today,
+      v_today + v_settings.payment_term_days,
+      jsonb_build_object(
+        'company_name', v_settings.company_name,
+        'address', v_settings.address,
+        'kvk_number', v_settings.kvk_number,
+        'vat_number', v_settings.vat_number,
+        'iban', v_settings.iban,
+        'email', v_settings.email
+      ),
+      v_organization.name,
+      v_organization.billing_address,
+      v_organization.vat_number,
+      v_organization.billing_email
+    )
+    RETURNING * INTO v_invoice;
+
+    UPDATE orders o
+    SET invoice_id = v_invoice.id
+    WHERE o.organization_id = v_organization.id
+      AND o.payment_method = 'invoice'
+      AND o.payment_status = 'pending'
+      AND o.status = 'delivered'
+      AND o.invoice_id IS NULL
+      AND order_delivered_at(o.id) < v_cutoff;
+
+    -- Order lines are already priced excluding VAT, as are the express and
+    -- shipping fees
+    WITH billed AS (
+      SELECT
+        o.id,
+        o.order_number,
+        o.order_date,
+        o.express_surcharge,
+        o.shipping_fee,
+        (order_delivered_at(o.id) AT TIME ZONE 'Europe/Amsterdam')::date AS delivered_on
+      FROM orders o
+      WHERE o.invoice_id = v_invoice.id
+    ),
+    line AS (
+      SELECT b.*, 0 AS kind, oi.created_at AS sort_at, oi.product_name AS description,
+        oi.quantity, oi.unit_price, oi.subtotal AS net_amount
+      FROM billed b
+      JOIN order_items oi ON oi.order_id = b.id
+      UNION ALL
+      SELECT b.*, 1, NULL, 'Express service', 1, b.express_surcharge, b.express_surcharge
+      FROM billed b
+      WHERE b.express_surcharge > 0
+      UNION ALL
+      SELECT b.*, 2, NULL, 'Pickup and delivery', 1, b.shipping_fee, b.shipping_fee
+      FROM billed b
+      WHERE b.shipping_fee > 0
+    )
+    INSERT INTO invoice_lines (
+      invoice_id,
+      order_id,
+      order_number,
+      delivered_on,
+      position,
+      description,
+      quantity,
+      unit_price,
+      vat_rate,
+      net_amount
+    )
+    SELECT
+      v_invoice.id,
+      line.id,
+      line.order_number,
+      line.delivered_on,
+      row_number() OVER (ORDER BY line.order_date, line.order_number, line.kind, line.sort_at),
+      line.description,
+      line.quantity,
+      line.unit_price,
+      0.21,
+      line.net_amount
+    FROM line;
+
+    -- VAT is rounded once per rate over the whole invoice
+    UPDATE invoices
+    SET subtotal = totals.subtotal,
+        vat_amount = totals.vat_amount,
+        total_amount = totals.subtotal + totals.vat_amount
+    FROM (
+      SELECT
+        coalesce(sum(per_rate.net_amount), 0) AS subtotal,
+        coalesce(sum(round(per_rate.net_amount * per_rate.vat_rate, 2)), 0) AS vat_amount
+      FROM (
+        SELECT vat_rate, sum(net_amount) AS net_amount
+        FROM invoice_lines
+        WHERE invoice_id = v_invoice.id
+        GROUP BY vat_rate
+      ) per_rate
+    ) totals
+    WHERE invoices.id = v_invoice.id;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION mark_overdue_invoices()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  UPDATE invoices
+  SET status = 'overdue'
+  WHERE status = 'open'
+    AND due_date < (now() AT TIME ZONE 'Europe/Amsterdam')::date;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- Called by the Mollie webhook with the service role and by mark_invoice_paid()
+CREATE OR REPLACE FUNCTION settle_invoice(
+  p_invoice_id uuid,
+  p_payment_method text,
+  p_transaction_id text DEFAULT NULL
+)
+RETURNS invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice invoices;
+BEGIN
+  SELECT * INTO v_invoice
+  FROM invoices
+  WHERE id = p_invoice_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice % not found', p_invoice_id;
+  END IF;
+
+  -- A second payment for the same invoice is refunded by hand, not booked
+  IF v_invoice.status = 'paid' THEN
+    RETURN v_invoice;
+  END IF;
+
+  UPDATE invoices
+  SET status = 'paid',
+      payment_method = p_payment_method,
+      transaction_id = p_transaction_id,
+      paid_at = now()
+  WHERE id = p_invoice_id
+  RETURNING * INTO v_invoice;
+
+  UPDATE orders
+  SET payment_status = 'paid'
+  WHERE invoice_id = p_invoice_id;
+
+  RETURN v_invoice;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION mark_invoice_paid(
+  p_invoice_id uuid,
+  p_reference text DEFAULT NULL
+)
+RETURNS invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_permission('billing.write') THEN
+    RAISE EXCEPTION 'You do not have permission to book payments'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN settle_invoice(p_invoice_id, 'bank_transfer', nullif(trim(p_reference), ''));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION update_organization_billing(
+  p_organization_id uuid,
+  p_billing_email text,
+  p_vat_number text,
+  p_billing_address text
+)
+RETURNS organizations
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_email text := lower(trim(p_billing_email));
+  v_organization organizations;
+BEGIN
+  IF coalesce(organization_role(p_organization_id), '') NOT IN ('owner', 'admin') THEN
+    RAISE EXCEPTION 'Only owners and admins can change billing details'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF v_email IS NULL OR v_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RAISE EXCEPTION 'Enter a valid billing email address';
+  END IF;
+
+  UPDATE organizations
+  SET billing_email = v_email,
+      vat_number = nullif(upper(replace(trim(p_vat_number), ' ', '')), ''),
+      billing_address = nullif(trim(p_billing_address), ''),
+      updated_at = now()
+  WHERE id = p_organization_id
+  RETURNING * INTO v_organization;
+
+  RETURN v_organization;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION next_invoice_number(date) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION quote_is_ordered(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION order_delivered_at(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION generate_monthly_invoices(date) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION mark_overdue_invoices() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION settle_invoice(uuid, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION place_order_on_account(uuid) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION mark_invoice_paid(uuid, text) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION update_organization_billing(uuid, text, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION settle_invoice(uuid, text, text) TO service_role;
+GRANT EXECUTE ON FUNCTION place_order_on_account(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION mark_invoice_paid(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION update_organization_billing(uuid, text, text, text) TO authenticated;
+REVOKE ALL ON driver_route_stops FROM PUBLIC, anon, authenticated;
+GRANT SELECT ON driver_route_stops TO service_role;
+
+SELECT cron.schedule(
+  'generate-monthly-invoices',
+  '0 2 1 * *',
+  'SELECT generate_monthly_invoices()'
+);
+
+SELECT cron.schedule(
+  'mark-overdue-invoices',
+  '0 6 * * *',
+  'SELECT mark_overdue_invoices()'
+);
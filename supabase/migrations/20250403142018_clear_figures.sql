@@ -0,0 +1,267 @@
+/*
+  # Business Reports
+
+  1. Changes
+    - `orders` gets `cost_centre`, filled in from the orderer's department
+      when an organisation order is placed; existing organisation orders are
+      backfilled the same way
+    - Add report functions for the business Reports page, each for an
+      organisation and a period:
+      - `get_organization_monthly_spend(...)`: orders and spend per month
+      - `get_organization_category_breakdown(...)`: items and spend per
+        category, with quoted work as its own category
+      - `get_organization_member_spend(...)`: orders and spend per member
+      - `get_organization_cost_centre_spend(...)`: orders and spend per cost
+        centre
+      - `get_organization_delivery_performance(...)`: delivered orders and
+        how many arrived before the end of their delivery slot
+    - Orders count once they are paid or placed on the monthly invoice, and
+      until they are cancelled; months are Amsterdam months
+
+  2. Security
+    - The report functions are limited to owners, admins and viewers of the
+      organisation and to admins with `businesses.read`
+*/
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS cost_centre text;
+
+CREATE OR REPLACE FUNCTION set_order_cost_centre()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.organization_id IS NOT NULL AND NEW.cost_centre IS NULL THEN
+    SELECT m.department INTO NEW.cost_centre
+    FROM organization_members m
+    WHERE m.organization_id = NEW.organization_id
+      AND m.user_id = NEW.user_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_order_cost_centre ON orders;
+
+CREATE TRIGGER set_order_cost_centre
+  BEFORE INSERT ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION set_order_cost_centre();
+
+UPDATE orders o
+SET cost_centre = m.department
+FROM organization_members m
+WHERE m.organization_id = o.organization_id
+  AND m.user_id = o.user_id
+  AND o.cost_centre IS NULL;
+
+-- Shared by the report functions: the access check and the orders that count
+CREATE OR REPLACE FUNCTION organization_report_orders(
+  p_organization_id uuid,
+  p_from timestamptz,
+  p_to timestamptz
+)
+RETURNS SETOF orders
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF coalesce(organization_role(p_organization_id), '') NOT IN ('owner', 'admin', 'viewer')
+    AND NOT has_permission('businesses.read')
+  THEN
+    RAISE EXCEPTION 'You cannot view the reports of this organisation'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT *
+  FROM orders o
+  WHERE o.organization_id = p_organization_id
+    AND o.created_at >= p_from
+    AND o.created_at < p_to
+    AND o.status <> 'cancelled'
+    AND (o.payment_status = 'paid' OR o.payment_method = 'invoice');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_organization_monthly_spend(
+  p_organization_id uuid,
+  p_from timestamptz,
+  p_to timestamptz
+)
+RETURNS TABLE (
+  month date,
+  order_count bigint,
+  net_amount numeric,
+  vat_amount numeric,
+  total_amount numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH report_orders AS (
+    SELECT * FROM organization_report_orders(p_organization_id, p_from, p_to)
+  )
+  SELECT
+    m.month::date,
+    count(o.id),
+    coalesce(sum(o.subtotal + o.express_surcharge + o.shipping_fee), 0),
+    coalesce(sum(o.tax), 0),
+    coalesce(sum(o.total_amount), 0)
+  FROM generate_series(
+    date_trunc('month', p_from AT TIME ZONE 'Europe/Amsterdam'),
+    date_trunc('month', (p_to - interval '1 microsecond') AT TIME ZONE 'Europe/Amsterdam'),
+    interval '1 month'
+  ) AS m(month)
+  LEFT JOIN report_orders o
+    ON date_trunc('month', o.created_at AT TIME ZONE 'Europe/Amsterdam') = m.month
+  GROUP BY m.month
+  ORDER BY m.month;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_organization_category_breakdown(
+  p_organization_id uuid,
+  p_from timestamptz,
+  p_to timestamptz
+)
+RETURNS TABLE (
+  category_name text,
+  item_count bigint,
+  net_amount numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    coalesce(
+      c.name::text,
+      CASE WHEN oi.quote_id IS NOT NULL THEN 'Custom quotes' ELSE 'Other' END
+    ) AS category,
+    sum(oi.quantity)::bigint,
+    sum(oi.subtotal)
+  FROM organization_report_orders(p_organization_id, p_from, p_to) o
+  JOIN order_items oi ON oi.order_id = o.id
+  LEFT JOIN items i ON i.id = oi.product_id
+  LEFT JOIN categories c ON c.id = i.category_id
+  GROUP BY 1
+  ORDER BY 3 DESC;
+END;
+$$;
+
+-- Members who left keep their spend; their name comes from their account
+CREATE OR REPLACE FUNCTION get_organization_member_spend(
+  p_organization_id uuid,
+  p_from timestamptz,
+  p_to timestamptz
+)
+RETURNS TABLE (
+  user_id uuid,
+  email text,
+  first_name text,
+  last_name text,
+  department text,
+  order_count bigint,
+  total_amount numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    o.user_id,
+    u.email::text,
+    coalesce(p.first_name, u.raw_user_meta_data->>'first_name'),
+    coalesce(p.last_name, u.raw_user_meta_data->>'last_name'),
+    m.department,
+    count(o.id),
+    sum(o.total_amount)
+  FROM organization_report_orders(p_organization_id, p_from, p_to) o
+  LEFT JOIN auth.users u ON u.id = o.user_id
+  LEFT JOIN profiles p ON p.id = o.user_id
+  LEFT JOIN organization_members m
+    ON m.organization_id = p_organization_id
+    AND m.user_id = o.user_id
+  GROUP BY o.user_id, u.email, u.raw_user_meta_data, p.first_name, p.last_name, m.department
+  ORDER BY 7 DESC;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_organization_cost_centre_spend(
+  p_organization_id uuid,
+  p_from timestamptz,
+  p_to timestamptz
+)
+RETURNS TABLE (
+  cost_centre text,
+  order_count bigint,
+  total_amount numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    o.cost_centre,
+    count(o.id),
+    sum(o.total_amount)
+  FROM organization_report_orders(p_organization_id, p_from, p_to) o
+  GROUP BY o.cost_centre
+  ORDER BY 3 DESC;
+END;
+$$;
+
+-- An order is on time when it was delivered before its delivery slot closed
+CREATE OR REPLACE FUNCTION get_organization_delivery_performance(
+  p_organization_id uuid,
+  p_from timestamptz,
+  p_to timestamptz
+)
+RETURNS TABLE (
+  delivered_count bigint,
+  on_time_count bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    count(*),
+    count(*) FILTER (
+      WHERE order_delivered_at(o.id) <= coalesce(s.ends_at, o.estimated_delivery)
+    )
+  FROM organization_report_orders(p_organization_id, p_from, p_to) o
+  LEFT JOIN delivery_slots s ON s.id = o.delivery_slot_id
+  WHERE o.status = 'delivered';
+END;
+$$;
+
+REVOKE ALL ON FUNCTION organization_report_orders(uuid, timestamptz, timestamptz) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION get_organization_monthly_spend(uuid, timestamptz, timestamptz) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION get_organization_category_breakdown(uuid, timestamptz, timestamptz) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION get_organization_member_spend(uuid, timestamptz, timestamptz) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION get_organization_cost_centre_spend(uuid, timestamptz, timestamptz) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION get_organization_delivery_performance(uuid, timestamptz, timestamptz) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_organization_monthly_spend(uuid, timestamptz, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_organization_category_breakdown(uuid, timestamptz, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_organization_member_spend(uuid, timestamptz, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_organization_cost_centre_spend(uuid, timestamptz, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_organization_delivery_performance(uuid, timestamptz, timestamptz) TO authenticated;
@@ -0,0 +1,779 @@
+/*
+  # Recurring Pickup Plans
+
+  1. New Tables
+    - `pickup_plans`: a weekly or bi-weekly pickup a customer set up from an
+      order. It keeps the weekday and start time of the pickup window, the
+      addresses, the items with their quantities (bags count as items) and
+      the date of the next pickup. A plan is `pending` until its first order
+      is paid or placed on invoice, then `active`; customers can pause,
+      resume or cancel it
+
+  2. Changes
+    - `orders.pickup_plan_id` links generated orders to their plan
+    - Add `create_pickup_plan(...)`, called right after the first order is
+      created. It is activated by a trigger once that order is paid or
+      placed on invoice
+    - Add `set_pickup_plan_status(...)`, `skip_next_pickup(...)` and
+      `update_pickup_plan(...)` for the account pages. Skipping, pausing or
+      cancelling also cancels the order already generated for the next
+      pickup, unless it has been paid
+    - Add `generate_planned_orders()`, run daily after the slots are
+      generated. Pickups up to three days ahead become normal orders through
+      `create_order`, in the nearest free window of the plan's weekday. Plans
+      that were on invoice are placed on invoice again, other customers are
+      asked to pay the order. When no window is free the customer is told
+      and the plan moves on to the next pickup
+    - `cancel_unpaid_orders()` gives customers until 12 hours before the
+      cutoff of the pickup window to pay a generated order, but at least two
+      hours after it was generated or its latest checkout was opened. Unpaid ones are then cancelled so the windows are free again,
+      and the customer is told
+    - `merge_customers` moves pickup plans to the remaining account
+
+  3. Security
+    - Enable RLS on `pickup_plans`
+    - Customers read their own plans, staff with `orders.read` all plans
+    - Changes go through the functions above, which check the owner
+    - Service role has full access
+*/
+
+CREATE TABLE IF NOT EXISTS pickup_plans (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  organization_id uuid REFERENCES organizations(id) ON DELETE CASCADE,
+  source_order_id uuid UNIQUE REFERENCES orders(id) ON DELETE SET NULL,
+  service_identifier text NOT NULL REFERENCES services(service_identifier),
+  frequency text NOT NULL,
+  -- ISO weekday, 1 is Monday
+  weekday smallint NOT NULL,
+  -- Start of the pickup window, Amsterdam time
+  pickup_time time NOT NULL,
+  pickup_address_id uuid REFERENCES user_addresses(id) ON DELETE SET NULL,
+  delivery_address_id uuid REFERENCES user_addresses(id) ON DELETE SET NULL,
+  -- [{ item_id, quantity }]
+  items jsonb NOT NULL,
+  express boolean NOT NULL DEFAULT false,
+  delivery_option text,
+  special_instructions text,
+  on_account boolean NOT NULL DEFAULT false,
+  status text NOT NULL DEFAULT 'pending',
+  next_pickup_on date NOT NULL,
+  last_error text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+
+  CONSTRAINT valid_frequency CHECK (frequency IN ('weekly', 'biweekly')),
+  CONSTRAINT valid_weekday CHECK (weekday BETWEEN 1 AND 7),
+  CONSTRAINT valid_status CHECK (status IN ('pending', 'active', 'paused', 'cancelled')),
+  CONSTRAINT valid_items CHECK (jsonb_typeof(items) = 'array')
+);
+
+CREATE INDEX IF NOT EXISTS idx_pickup_plans_user_id ON pickup_plans(user_id);
+CREATE INDEX IF NOT EXISTS idx_pickup_plans_next_pickup_on ON pickup_plans(next_pickup_on)
+  WHERE status = 'active';
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS pickup_plan_id uuid REFERENCES pickup_plans(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_orders_pickup_plan_id ON orders(pickup_plan_id);
+
+CREATE TRIGGER pickup_plans_updated_at
+  BEFORE UPDATE ON pickup_plans
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_updated_at();
+
+ALTER TABLE pickup_plans ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "pickup_plans_read_own_20250404" ON pickup_plans;
+DROP POLICY IF EXISTS "pickup_plans_read_admin_20250404" ON pickup_plans;
+DROP POLICY IF EXISTS "pickup_plans_service_role_20250404" ON pickup_plans;
+
+CREATE POLICY "pickup_plans_read_own_20250404"
+  ON pickup_plans
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "pickup_plans_read_admin_20250404"
+  ON pickup_plans
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('orders.read'));
+
+CREATE POLICY "pickup_plans_service_role_20250404"
+  ON pickup_plans
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE OR REPLACE FUNCTION pickup_plan_interval(p_frequency text)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE WHEN p_frequency = 'biweekly' THEN 14 ELSE 7 END;
+$$;
+
+-- The first date on the weekday after today, for plans that are resumed or
+-- moved to another day
+CREATE OR REPLACE FUNCTION next_plan_pickup_on(p_weekday smallint)
+RETURNS date
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT d + ((p_weekday - extract(isodow FROM d)::integer + 7) % 7)
+  FROM (SELECT (now() AT TIME ZONE 'Europe/Amsterdam')::date + 1 AS d) AS tomorrow;
+$$;
+
+-- Repeats an order the caller just placed. Quoted lines are one-offs and
+-- are left out of the plan.
+CREATE OR REPLACE FUNCTION create_pickup_plan(
+  p_order_id uuid,
+  p_frequency text,
+  p_pickup_address_id uuid,
+  p_delivery_address_id uuid
+)
+RETURNS pickup_plans
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders;
+  v_pickup_slot delivery_slots;
+  v_pickup_starts timestamp;
+  v_items jsonb;
+  v_placed boolean;
+  v_plan pickup_plans;
+BEGIN
+  IF p_frequency NOT IN ('weekly', 'biweekly') THEN
+    RAISE EXCEPTION 'Pickups repeat every week or every two weeks';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM orders
+  WHERE id = p_order_id
+    AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id;
+  END IF;
+
+  IF v_order.status = 'cancelled' THEN
+    RAISE EXCEPTION 'A cancelled order cannot be repeated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM user_addresses WHERE id = p_pickup_address_id AND user_id = auth.uid()
+  ) OR NOT EXISTS (
+    SELECT 1 FROM user_addresses WHERE id = p_delivery_address_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'A pickup plan needs a pickup and a delivery address';
+  END IF;
+
+  SELECT coalesce(jsonb_agg(jsonb_build_object('item_id', product_id, 'quantity', quantity)), '[]'::jsonb)
+  INTO v_items
+  FROM order_items
+  WHERE order_id = v_order.id
+    AND quote_id IS NULL;
+
+  IF jsonb_array_length(v_items) = 0 THEN
+    RAISE EXCEPTION 'Only orders with catalog items can be repeated';
+  END IF;
+
+  SELECT * INTO v_pickup_slot FROM delivery_slots WHERE id = v_order.pickup_slot_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'The order has no pickup window to repeat';
+  END IF;
+
+  v_pickup_starts := v_pickup_slot.starts_at AT TIME ZONE 'Europe/Amsterdam';
+  v_placed := v_order.payment_status = 'paid' OR v_order.payment_method IS NOT DISTINCT FROM 'invoice';
+
+  INSERT INTO pickup_plans (
+    user_id,
+    organization_id,
+    source_order_id,
+    service_identifier,
+    frequency,
+    weekday,
+    pickup_time,
+    pickup_address_id,
+    delivery_address_id,
+    items,
+    express,
+    delivery_option,
+    special_instructions,
+    on_account,
+    status,
+    next_pickup_on
+  ) VALUES (
+    v_order.user_id,
+    v_order.organization_id,
+    v_order.id,
+    v_order.service_identifier,
+    p_frequency,
+    extract(isodow FROM v_pickup_starts)::smallint,
+    v_pickup_starts::time,
+    p_pickup_address_id,
+    p_delivery_address_id,
+    v_items,
+    v_order.is_express,
+    v_order.shipping_method,
+    v_order.special_instructions,
+    v_order.payment_method IS NOT DISTINCT FROM 'invoice',
+    CASE WHEN v_placed THEN 'active' ELSE 'pending' END,
+    v_pickup_starts::date + pickup_plan_interval(p_frequency)
+  )
+  -- A retried checkout changes the plan of the same order
+  ON CONFLICT (source_order_id) DO UPDATE
+  SET
+    frequency = EXCLUDED.frequency,
+    pickup_address_id = EXCLUDED.pickup_address_id,
+    delivery_address_id = EXCLUDED.delivery_address_id,
+    next_pickup_on = EXCLUDED.next_pickup_on
+  WHERE pickup_plans.status IN ('pending', 'active')
+  RETURNING * INTO v_plan;
+
+  RETURN v_plan;
+END;
+$$;
+
+-- A plan starts once its first order is paid or placed on invoice
+CREATE OR REPLACE FUNCTION activate_pickup_plan()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (NEW.payment_status = 'paid' OR NEW.payment_method IS NOT DISTINCT FROM 'invoice')
+    AND NOT (OLD.payment_status = 'paid' OR OLD.payment_method IS NOT DISTINCT FROM 'invoice')
+  THEN
+    UPDATE pickup_plans
+    SET status = 'active',
+        on_account = NEW.payment_method IS NOT DISTINCT FROM 'invoice'
+    WHERE source_order_id = NEW.id
+      AND status = 'pending';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS orders_activate_pickup_plan ON orders;
+
+CREATE TRIGGER orders_activate_pickup_plan
+  AFTER UPDATE OF payment_status, payment_method ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION activate_pickup_plan();
+
+-- The order generated for the coming pickup, until it is picked up
+CREATE OR REPLACE FUNCTION upcoming_plan_order(p_plan_id uuid)
+RETURNS orders
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT *
+  FROM orders
+  WHERE pickup_plan_id = p_plan_id
+    AND status IN ('pending', 'confirmed')
+  ORDER BY created_at DESC
+  LIMIT 1;
+$$;
+
+-- Pauses, resumes or cancels a plan. Pausing or cancelling also cancels the
+-- order generated for the next pickup; a paid one still takes place.
+CREATE OR REPLACE FUNCTION set_pickup_plan_status(p_plan_id uuid, p_status text)
+RETURNS pickup_plans
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_plan pickup_plans;
+BEGIN
+  IF p_status NOT IN ('active', 'paused', 'cancelled') THEN
+    RAISE EXCEPTION 'Invalid plan status %', p_status;
+  END IF;
+
+  SELECT * INTO v_plan
+  FROM pickup_plans
+  WHERE id = p_plan_id
+    AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pickup plan % not found', p_plan_id;
+  END IF;
+
+  IF v_plan.status = 'cancelled' THEN
+    RAISE EXCEPTION 'This pickup plan has been cancelled';
+  END IF;
+
+  IF v_plan.status = 'pending' AND p_status <> 'cancelled' THEN
+    RAISE EXCEPTION 'This pickup plan starts once its first order is paid';
+  END IF;
+
+  UPDATE pickup_plans
+  SET
+    status = p_status,
+    -- Pickups missed while paused are not made up for
+    next_pickup_on = CASE
+      WHEN v_plan.status = 'paused' AND p_status = 'active'
+        THEN next_plan_pickup_on(weekday)
+      ELSE next_pickup_on
+    END,
+    last_error = NULL
+  WHERE id = p_plan_id
+  RETURNING * INTO v_plan;
+
+  IF p_status IN ('paused', 'cancelled') THEN
+    UPDATE orders
+    SET status = 'cancelled'
+    WHERE id = (upcoming_plan_order(v_plan.id)).id
+      AND payment_status <> 'paid';
+  END IF;
+
+  RETURN v_plan;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION skip_next_pickup(p_plan_id uuid)
+RETURNS pickup_plans
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_plan pickup_plans;
+  v_order orders;
+BEGIN
+  SELECT * INTO v_plan
+  FROM pickup_plans
+  WHERE id = p_plan_id
+    AND user_id = auth.uid()
+    AND status IN ('pending', 'active', 'paused')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pickup plan % not found', p_plan_id;
+  END IF;
+
+  -- Once the next pickup is an order, next_pickup_on already points past it
+  v_order := upcoming_plan_order(v_plan.id);
+
+  IF v_order.id IS NOT NULL THEN
+    IF v_order.payment_status = 'paid' THEN
+      RAISE EXCEPTION 'Order #% for the next pickup has been paid already. Please contact us to cancel it', v_order.order_number;
+    END IF;
+
+    UPDATE orders SET status = 'cancelled' WHERE id = v_order.id;
+    RETURN v_plan;
+  END IF;
+
+  UPDATE pickup_plans
+  SET next_pickup_on = next_pickup_on + pickup_plan_interval(frequency)
+  WHERE id = v_plan.id
+  RETURNING * INTO v_plan;
+
+  RETURN v_plan;
+END;
+$$;
+
+-- Changes the pickup day, window or item quantities for future pickups;
+-- p_items is an array of { item_id, quantity } objects
+CREATE OR REPLACE FUNCTION update_pickup_plan(
+  p_plan_id uuid,
+  p_frequency text,
+  p_weekday smallint,
+  p_pickup_time time,
+  p_items jsonb
+)
+RETURNS pickup_plans
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_plan pickup_plans;
+BEGIN
+  IF p_frequency NOT IN ('weekly', 'biweekly') THEN
+    RAISE EXCEPTION 'Pickups repeat every week or every two weeks';
+  END IF;
+
+  IF p_weekday IS NULL OR p_weekday NOT BETWEEN 1 AND 7 OR p_pickup_time IS NULL THEN
+    RAISE EXCEPTION 'Choose a pickup day and time';
+  END IF;
+
+  IF jsonb_typeof(p_items) IS DISTINCT FROM 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'A pickup plan needs at least one item';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_items) AS line
+    WHERE (line->>'quantity')::integer IS NULL
+      OR (line->>'quantity')::integer NOT BETWEEN 1 AND 100
+  ) THEN
+    RAISE EXCEPTION 'Quantities must be between 1 and 100';
+  END IF;
+
+  SELECT * INTO v_plan
+  FROM pickup_plans
+  WHERE id = p_plan_id
+    AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pickup plan % not found', p_plan_id;
+  END IF;
+
+  IF v_plan.status = 'cancelled' THEN
+    RAISE EXCEPTION 'This pickup plan has been cancelled';
+  END IF;
+
+  UPDATE pickup_plans
+  SET
+    frequency = p_frequency,
+    weekday = p_weekday,
+    pickup_time = p_pickup_time,
+    items = (
+      SELECT jsonb_agg(jsonb_build_object(
+        'item_id', (line->>'item_id')::uuid,
+        'quantity', (line->>'quantity')::integer
+      ))
+      FROM jsonb_array_elements(p_items) AS line
+    ),
+    next_pickup_on = CASE
+      WHEN p_weekday <> v_plan.weekday THEN next_plan_pickup_on(p_weekday)
+      ELSE next_pickup_on
+    END
+  WHERE id = p_plan_id
+  RETURNING * INTO v_plan;
+
+  RETURN v_plan;
+END;
+$$;
+
+-- Turns the pickups of the coming days into orders. Each order is created
+-- through create_order as the customer, so it is priced, checked and
+-- reserved exactly like one placed in the app.
+CREATE OR REPLACE FUNCTION generate_planned_orders()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_lead_days constant integer := 3;
+  v_today date := (now() AT TIME ZONE 'Europe/Amsterdam')::date;
+  v_plan pickup_plans;
+  v_service services;
+  v_pickup_postal text;
+  v_delivery_postal text;
+  v_pickup_slot_id uuid;
+  v_pickup_ends_at timestamptz;
+  v_delivery_slot_id uuid;
+  v_order orders;
+  v_created integer := 0;
+BEGIN
+  FOR v_plan IN
+    SELECT *
+    FROM pickup_plans
+    WHERE status = 'active'
+      AND next_pickup_on <= v_today + v_lead_days
+    ORDER BY next_pickup_on
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    -- Pickups that were missed while the job did not run are dropped
+    WHILE v_plan.next_pickup_on <= v_today LOOP
+      v_plan.next_pickup_on := v_plan.next_pickup_on + pickup_plan_interval(v_plan.frequency);
+    END LOOP;
+
+    IF v_plan.next_pickup_on > v_today + v_lead_days THEN
+      UPDATE pickup_plans SET next_pickup_on = v_plan.next_pickup_on WHERE id = v_plan.id;
+      CONTINUE;
+    END IF;
+
+    BEGIN
+      SELECT postal_code INTO v_pickup_postal FROM user_addresses WHERE id = v_plan.pickup_address_id;
+      SELECT postal_code INTO v_delivery_postal FROM user_addresses WHERE id = v_plan.delivery_address_id;
+
+      IF v_pickup_postal IS NULL OR v_delivery_postal IS NULL THEN
+        RAISE EXCEPTION 'The pickup or delivery address of this plan was removed';
+      END IF;
+
+      SELECT * INTO v_service FROM services WHERE service_identifier = v_plan.service_identifier;
+
+      -- The plan's window, or the nearest free one on the same day
+      SELECT s.id, s.ends_at INTO v_pickup_slot_id, v_pickup_ends_at
+      FROM get_available_slots(v_pickup_postal, v_plan.service_identifier) s
+      WHERE s.kind = 'pickup'
+        AND NOT s.is_full
+        AND (s.starts_at AT TIME ZONE 'Europe/Amsterdam')::date = v_plan.next_pickup_on
+      ORDER BY abs(extract(epoch FROM (s.starts_at AT TIME ZONE 'Europe/Amsterdam')::time - v_plan.pickup_time)),
+        s.starts_at
+      LIMIT 1;
+
+      IF v_pickup_slot_id IS NULL THEN
+        RAISE EXCEPTION 'No pickup window is free on %', to_char(v_plan.next_pickup_on, 'DD-MM-YYYY');
+      END IF;
+
+      SELECT s.id INTO v_delivery_slot_id
+      FROM get_available_slots(v_delivery_postal, v_plan.service_identifier) s
+      WHERE s.kind = 'delivery'
+        AND NOT s.is_full
+        AND s.starts_at >= v_pickup_ends_at + make_interval(hours => CASE
+          WHEN v_plan.express THEN v_service.express_turnaround_hours
+          ELSE v_service.turnaround_hours
+        END)
+      ORDER BY s.starts_at
+      LIMIT 1;
+
+      IF v_delivery_slot_id IS NULL THEN
+        RAISE EXCEPTION 'No delivery window is free after the pickup on %', to_char(v_plan.next_pickup_on, 'DD-MM-YYYY');
+      END IF;
+
+      -- create_order and place_order_on_account act for auth.uid()
+      PERFORM set_config(
+        'request.jwt.claims',
+        jsonb_build_object('sub', v_plan.user_id, 'role', 'authenticated')::text,
+        true
+      );
+
+      v_order := create_order(jsonb_build_object(
+        'items', v_plan.items,
+        'service', v_plan.service_identifier,
+        'pickup_address_id', v_plan.pickup_address_id,
+        'delivery_address_id', v_plan.delivery_address_id,
+        'pickup_slot_id', v_pickup_slot_id,
+        'delivery_slot_id', v_delivery_slot_id,
+        'express', v_plan.express,
+        'delivery_option', v_plan.delivery_option,
+        'special_instructions', v_plan.special_instructions,
+        'organization_id', v_plan.organization_id
+      ));
+
+      IF v_plan.on_account THEN
+        v_order := place_order_on_account(v_order.id);
+      END IF;
+
+      UPDATE orders SET pickup_plan_id = v_plan.id WHERE id = v_order.id;
+      UPDATE pickup_plans SET last_error = NULL WHERE id = v_plan.id;
+
+      INSERT INTO notifications (user_id, type, title, body, link, data)
+      VALUES (
+        v_plan.user_id,
+        'pickup_planned',
+        CASE WHEN v_plan.on_account THEN 'Your pickup is scheduled' ELSE 'Your pickup is ready to pay' END,
+        CASE
+          WHEN v_plan.on_account THEN format('Order #%s will be picked up on %s', v_order.order_number, to_char(v_plan.next_pickup_on, 'DD-MM-YYYY'))
+          ELSE format('Pay order #%s to confirm the pickup on %s', v_order.order_number, to_char(v_plan.next_pickup_on, 'DD-MM-YYYY'))
+        END,
+        '/account/orders',
+        jsonb_build_object('order_id', v_order.id, 'pickup_plan_id', v_plan.id)
+      );
+
+      v_created := v_created + 1;
+    EXCEPTION WHEN OTHERS THEN
+      UPDATE pickup_plans SET last_error = SQLERRM WHERE id = v_plan.id;
+
+      INSERT INTO notifications (user_id, type, title, body, link, data)
+      VALUES (
+        v_plan.user_id,
+        'pickup_plan_failed',
+        'We could not schedule your pickup',
+        SQLERRM,
+        '/account/pickups',
+        jsonb_build_object('pickup_plan_id', v_plan.id)
+      );
+    END;
+
+    UPDATE pickup_plans
+    SET next_pickup_on = v_plan.next_pickup_on + pickup_plan_interval(v_plan.frequency)
+    WHERE id = v_plan.id;
+  END LOOP;
+
+  RETURN v_created;
+END;
+$$;
+
+-- Generated orders are created days ahead, so they are not held to the two
+-- hours of a checkout but must be paid before the pickup window closes
+CREATE OR REPLACE FUNCTION cancel_unpaid_orders()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_cancelled integer;
+BEGIN
+  WITH cancelled AS (
+    UPDATE orders o
+    SET status = 'cancelled'
+    WHERE o.status = 'pending'
+      AND o.payment_status = 'pending'
+      AND o.payment_method IS DISTINCT FROM 'invoice'
+      AND CASE
+        WHEN o.pickup_plan_id IS NULL THEN greatest(o.created_at, o.payment_started_at) < now() - interval '2 hours'
+        ELSE now() > greatest(
+          greatest(o.created_at, o.payment_started_at) + interval '2 hours',
+          (SELECT s.cutoff_at FROM delivery_slots s WHERE s.id = o.pickup_slot_id) - interval '12 hours'
+        )
+      END
+    RETURNING o.id, o.user_id, o.order_number, o.pickup_plan_id, o.pickup_slot_id
+  ),
+  notified AS (
+    INSERT INTO notifications (user_id, type, title, body, link, data)
+    SELECT
+      c.user_id,
+      'pickup_plan_unpaid',
+      'Your pickup was cancelled',
+      format(
+        'Order #%s was not paid in time, so the pickup on %s was cancelled',
+        c.order_number,
+        to_char(s.starts_at AT TIME ZONE 'Europe/Amsterdam', 'DD-MM-YYYY')
+      ),
+      '/account/pickups',
+      jsonb_build_object('order_id', c.id, 'pickup_plan_id', c.pickup_plan_id)
+    FROM cancelled c
+    JOIN delivery_slots s ON s.id = c.pickup_slot_id
+    WHERE c.pickup_plan_id IS NOT NULL
+  )
+  SELECT count(*) INTO v_cancelled FROM cancelled;
+
+  RETURN v_cancelled;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION merge_customers(p_source_id uuid, p_target_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_moved jsonb;
+  v_orders integer;
+  v_addresses integer;
+  v_quotes integer;
+BEGIN
+  IF NOT has_permission('users.write') THEN
+    RAISE EXCEPTION 'You do not have permission to manage customers'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF p_source_id = p_target_id THEN
+    RAISE EXCEPTION 'An account cannot be merged into itself';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM auth.users WHERE id = p_source_id)
+    OR NOT EXISTS (SELECT 1 FROM auth.users WHERE id = p_target_id)
+  THEN
+    RAISE EXCEPTION 'Both accounts must exist';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM profiles WHERE id = p_target_id AND merged_into IS NOT NULL) THEN
+    RAISE EXCEPTION 'The target account was itself merged into another account';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM admin_users WHERE auth_id IN (p_source_id, p_target_id)) THEN
+    RAISE EXCEPTION 'Admin accounts cannot be merged';
+  END IF;
+
+  UPDATE orders SET user_id = p_target_id WHERE user_id = p_source_id;
+  GET DIAGNOSTICS v_orders = ROW_COUNT;
+
+  -- The target keeps its own default address
+  UPDATE user_addresses
+  SET user_id = p_target_id, is_default = false
+  WHERE user_id = p_source_id;
+  GET DIAGNOSTICS v_addresses = ROW_COUNT;
+
+  UPDATE custom_price_quotes SET user_id = p_target_id WHERE user_id = p_source_id;
+  GET DIAGNOSTICS v_quotes = ROW_COUNT;
+
+  UPDATE service_area_waitlist SET user_id = p_target_id WHERE user_id = p_source_id;
+  UPDATE customer_notes SET user_id = p_target_id WHERE user_id = p_source_id;
+  UPDATE notifications SET user_id = p_target_id WHERE user_id = p_source_id;
+
+  -- Where both accounts belong to the same organisation the target keeps
+  -- the stronger role of the two, and stays active if either was
+  UPDATE organization_members target
+  SET role = CASE
+        WHEN array_position(ARRAY['owner', 'admin', 'orderer', 'viewer'], source.role)
+          < array_position(ARRAY['owner', 'admin', 'orderer', 'viewer'], target.role)
+        THEN source.role
+        ELSE target.role
+      END,
+      status = CASE WHEN source.status = 'active' THEN 'active' ELSE target.status END
+  FROM organization_members source
+  WHERE target.user_id = p_target_id
+    AND source.user_id = p_source_id
+    AND source.organization_id = target.organization_id;
+
+  DELETE FROM organization_members source
+  USING organization_members target
+  WHERE source.user_id = p_source_id
+    AND target.user_id = p_target_id
+    AND target.organization_id = source.organization_id;
+
+  UPDATE organization_members SET user_id = p_target_id WHERE user_id = p_source_id;
+  UPDATE organization_members SET invited_by = p_target_id WHERE invited_by = p_source_id;
+  UPDATE organization_invitations SET invited_by = p_target_id WHERE invited_by = p_source_id;
+  UPDATE organizations SET created_by = p_target_id WHERE created_by = p_source_id;
+
+  -- Plans keep running for the target, at the addresses moved above
+  UPDATE pickup_plans SET user_id = p_target_id WHERE user_id = p_source_id;
+
+  DELETE FROM draft_orders WHERE user_id = p_source_id;
+
+  UPDATE profiles target
+  SET first_name = coalesce(target.first_name, source.first_name),
+      last_name = coalesce(target.last_name, source.last_name),
+      phone = coalesce(target.phone, source.phone),
+      address = coalesce(target.address, source.address),
+      city = coalesce(target.city, source.city),
+      postal_code = coalesce(target.postal_code, source.postal_code)
+  FROM profiles source
+  WHERE target.id = p_target_id
+  AND source.id = p_source_id;
+
+  UPDATE profiles SET merged_into = p_target_id WHERE id = p_source_id;
+
+  v_moved := jsonb_build_object(
+    'orders', v_orders,
+    'addresses', v_addresses,
+    'quotes', v_quotes
+  );
+
+  PERFORM log_admin_action('merged_away', p_source_id, v_moved || jsonb_build_object('target_id', p_target_id));
+  PERFORM log_admin_action('merged_into', p_target_id, v_moved || jsonb_build_object('source_id', p_source_id));
+END;
+$$;
+
+REVOKE ALL ON FUNCTION create_pickup_plan(uuid, text, uuid, uuid) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION upcoming_plan_order(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION set_pickup_plan_status(uuid, text) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION skip_next_pickup(uuid) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION update_pickup_plan(uuid, text, smallint, time, jsonb) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION generate_planned_orders() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION cancel_unpaid_orders() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION merge_customers(uuid, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_pickup_plan(uuid, text, uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_pickup_plan_status(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION skip_next_pickup(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION update_pickup_plan(uuid, text, smallint, time, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION merge_customers(uuid, uuid) TO authenticated;
+
+-- After generate-delivery-slots, so the windows of the coming days exist
+SELECT cron.schedule(
+  'generate-planned-orders',
+  '30 1 * * *',
+  'SELECT generate_planned_orders()'
+);
@@ -0,0 +1,748 @@
+/*
+  # Weight-Based Bag Pricing
+
+  1. New Tables
+    - `order_settlements`: the difference between the estimated and the
+      weighed amount of a paid order. A `top_up` is paid by the customer
+      through Mollie, a `refund` is refunded on the original Mollie payment.
+      A refund is `refunding` while the request to Mollie runs, so it is
+      never sent twice at the same time
+
+  2. Changes
+    - `items.pricing_unit`: `item` or `kg`. The price of a kg item is per
+      kilo and its quantity is the weight
+    - The fixed Eazyy Bag sizes are replaced by a single bag priced per kilo
+    - `order_items.quantity` and `invoice_lines.quantity` hold weights, so
+      they become numeric
+    - `order_items` keeps the estimate from checkout in
+      `estimated_quantity` and `estimated_subtotal`; once weighed,
+      `quantity` and `subtotal` are the actual weight and amount
+    - `create_order` records the pricing unit and the estimate of kg lines
+    - `create_pickup_plan` repeats the estimated weight, not the weighed one
+    - `get_organization_category_breakdown` counts a bag as one item and
+      reports the weighed kilos separately in `weight_kg`
+    - Add `record_order_weights(p_order_id, p_weights)` for staff with
+      `orders.write`. It prices the weighed lines, updates the order
+      totals, opens a settlement for paid orders and tells the customer.
+      Orders on invoice are billed at the weighed amount, so they need no
+      settlement
+
+  3. Security
+    - Enable RLS on `order_settlements`
+    - Customers read the settlements of their own orders, staff with
+      `orders.read` all settlements
+    - Service role has full access; the Mollie functions settle through it
+*/
+
+ALTER TABLE items
+  ADD COLUMN IF NOT EXISTS pricing_unit text NOT NULL DEFAULT 'item';
+
+ALTER TABLE items
+  DROP CONSTRAINT IF EXISTS valid_pricing_unit,
+  ADD CONSTRAINT valid_pricing_unit CHECK (pricing_unit IN ('item', 'kg'));
+
+ALTER TABLE order_items
+  ALTER COLUMN quantity TYPE numeric(10,2),
+  ADD COLUMN IF NOT EXISTS pricing_unit text NOT NULL DEFAULT 'item',
+  ADD COLUMN IF NOT EXISTS estimated_quantity numeric(10,2),
+  ADD COLUMN IF NOT EXISTS estimated_subtotal numeric(10,2),
+  ADD COLUMN IF NOT EXISTS weighed_at timestamptz,
+  ADD COLUMN IF NOT EXISTS weighed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE invoice_lines
+  ALTER COLUMN quantity TYPE numeric(10,2);
+
+-- One bag priced per kilo instead of the fixed bag sizes
+INSERT INTO items (category_id, name, description, price, is_custom_price, is_popular, sequence, pricing_unit)
+SELECT c.id, 'Eazyy Bag', 'Washed, dried and folded. Charged by the weight we measure', 3.50, false, true, 0, 'kg'
+FROM categories c
+JOIN services s ON s.id = c.service_id
+WHERE s.service_identifier = 'easy-bag'
+  AND c.name = 'Mixed Items'
+  AND NOT EXISTS (SELECT 1 FROM items WHERE pricing_unit = 'kg' AND category_id = c.id)
+ORDER BY c.created_at
+LIMIT 1;
+
+UPDATE items i
+SET status = false
+FROM categories c
+JOIN services s ON s.id = c.service_id
+WHERE i.category_id = c.id
+  AND s.service_identifier = 'easy-bag'
+  AND i.pricing_unit = 'item'
+  AND i.name LIKE '%Bag (up to%';
+
+CREATE TABLE IF NOT EXISTS order_settlements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL UNIQUE REFERENCES orders(id) ON DELETE CASCADE,
+  kind text NOT NULL,
+  -- Including VAT, always positive
+  amount numeric(10,2) NOT NULL,
+  status text NOT NULL DEFAULT 'open',
+  -- The Mollie payment of a top-up or the Mollie refund
+  transaction_id text,
+  failure_reason text,
+  settled_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+
+  CONSTRAINT valid_kind CHECK (kind IN ('top_up', 'refund')),
+  CONSTRAINT valid_amount CHECK (amount > 0),
+  CONSTRAINT valid_status CHECK (status IN ('open', 'paid', 'refunding', 'refunded', 'failed'))
+);
+
+CREATE TRIGGER order_settlements_updated_at
+  BEFORE UPDATE ON order_settlements
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_updated_at();
+
+ALTER TABLE order_settlements ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "order_settlements_read_own_20250405" ON order_settlements;
+DROP POLICY IF EXISTS "order_settlements_read_admin_20250405" ON order_settlements;
+DROP POLICY IF EXISTS "order_settlements_service_role_20250405" ON order_settlements;
+
+CREATE POLICY "order_settlements_read_own_20250405"
+  ON order_settlements
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM orders o
+    WHERE o.id = order_settlements.order_id
+      AND o.user_id = auth.uid()
+  ));
+
+CREATE POLICY "order_settlements_read_admin_20250405"
+  ON order_settlements
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('orders.read'));
+
+CREATE POLICY "order_settlements_service_role_20250405"
+  ON order_settlements
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Prices the weighed kg lines of an order; p_weights is an array of
+-- { order_item_id, weight_kg } objects covering every kg line. Returns the
+-- settlement, or null when nothing is owed either way.
+CREATE OR REPLACE FUNCTION record_order_weights(p_order_id uuid, p_weights jsonb)
+RETURNS order_settlements
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_vat_rate constant numeric := 0.21;
+  v_order orders;
+  v_paid_total numeric(10,2);
+  v_subtotal numeric(10,2);
+  v_tax numeric(10,2);
+  v_weight numeric(10,2);
+  v_difference numeric(10,2);
+  v_settlement order_settlements;
+BEGIN
+  IF NOT has_permission('orders.write') THEN
+    RAISE EXCEPTION 'You do not have permission to weigh orders'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id;
+  END IF;
+
+  IF v_order.status NOT IN ('picked_up', 'processing') THEN
+    RAISE EXCEPTION 'Orders are weighed after pickup and before they are ready';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM order_items WHERE order_id = v_order.id AND pricing_unit = 'kg'
+  ) THEN
+    RAISE EXCEPTION 'This order has nothing that is priced by weight';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM order_items WHERE order_id = v_order.id AND weighed_at IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'The weight of this order has already been recorded';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM order_items oi
+    LEFT JOIN jsonb_array_elements(coalesce(p_weights, '[]'::jsonb)) AS line
+      ON (line->>'order_item_id')::uuid = oi.id
+    WHERE oi.order_id = v_order.id
+      AND oi.pricing_unit = 'kg'
+      AND ((line->>'weight_kg')::numeric IS NULL
+        OR (line->>'weight_kg')::numeric <= 0
+        OR (line->>'weight_kg')::numeric > 200)
+  ) THEN
+    RAISE EXCEPTION 'Enter a weight between 0 and 200 kg for every bag';
+  END IF;
+
+  v_paid_total := v_order.total_amount;
+
+  UPDATE order_items oi
+  SET quantity = round((line->>'weight_kg')::numeric, 2),
+      subtotal = round(oi.unit_price * round((line->>'weight_kg')::numeric, 2), 2),
+      weighed_at = now(),
+      weighed_by = auth.uid()
+  FROM jsonb_array_elements(p_weights) AS line
+  WHERE oi.id = (line->>'order_item_id')::uuid
+    AND oi.order_id = v_order.id
+    AND oi.pricing_unit = 'kg';
+
+  SELECT sum(subtotal) INTO v_subtotal FROM order_items WHERE order_id = v_order.id;
+  SELECT sum(quantity) INTO v_weight FROM order_items WHERE order_id = v_order.id AND pricing_unit = 'kg';
+
+  -- Same VAT calculation as create_order
+  v_tax := round((v_subtotal + v_order.express_surcharge) * v_vat_rate, 2);
+
+  UPDATE orders
+  SET subtotal = v_subtotal,
+      tax = v_tax,
+      total_amount = v_subtotal + express_surcharge + v_tax + shipping_fee
+  WHERE id = v_order.id
+  RETURNING * INTO v_order;
+
+  v_difference := v_order.total_amount - v_paid_total;
+
+  -- Unpaid orders are simply charged the new total, orders on invoice are
+  -- billed at it
+  IF v_order.payment_status = 'paid' AND v_difference <> 0 THEN
+    INSERT INTO order_settlements (order_id, kind, amount)
+    VALUES (
+      v_order.id,
+      CASE WHEN v_difference > 0 THEN 'top_up' ELSE 'refund' END,
+      abs(v_difference)
+    )
+    RETURNING * INTO v_settlement;
+  END IF;
+
+  INSERT INTO notifications (user_id, type, title, body, link, data)
+  VALUES (
+    v_order.user_id,
+    'order_weighed',
+    'Your laundry has been weighed',
+    CASE
+      WHEN v_settlement.kind = 'top_up' THEN
+        format('Order #%s weighs %s kg. Please pay the difference of €%s',
+          v_order.order_number, v_weight, to_char(v_settlement.amount, 'FM999990.00'))
+      WHEN v_settlement.kind = 'refund' THEN
+        format('Order #%s weighs %s kg. We are refunding €%s',
+          v_order.order_number, v_weight, to_char(v_settlement.amount, 'FM999990.00'))
+      ELSE
+        format('Order #%s weighs %s kg, the total is €%s',
+          v_order.order_number, v_weight, to_char(v_order.total_amount, 'FM999990.00'))
+    END,
+    '/account/orders',
+    jsonb_build_object('order_id', v_order.id, 'settlement_id', v_settlement.id)
+  );
+
+  RETURN v_settlement;
+END;
+$$;
+
+-- Repeats an order the caller just placed. Quoted lines are one-offs and
+-- are left out of the plan.
+CREATE OR REPLACE FUNCTION create_pickup_plan(
+  p_order_id uuid,
+  p_frequency text,
+  p_pickup_address_id uuid,
+  p_delivery_address_id uuid
+)
+RETURNS pickup_plans
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders;
+  v_pickup_slot delivery_slots;
+  v_pickup_starts timestamp;
+  v_items jsonb;
+  v_placed boolean;
+  v_plan pickup_plans;
+BEGIN
+  IF p_frequency NOT IN ('weekly', 'biweekly') THEN
+    RAISE EXCEPTION 'Pickups repeat every week or every two weeks';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM orders
+  WHERE id = p_order_id
+    AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id;
+  END IF;
+
+  IF v_order.status = 'cancelled' THEN
+    RAISE EXCEPTION 'A cancelled order cannot be repeated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM user_addresses WHERE id = p_pickup_address_id AND user_id = auth.uid()
+  ) OR NOT EXISTS (
+    SELECT 1 FROM user_addresses WHERE id = p_delivery_address_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'A pickup plan needs a pickup and a delivery address';
+  END IF;
+
+  -- Bags are repeated at the weight the customer estimated, not the one
+  -- measured at the facility
+  SELECT coalesce(jsonb_agg(jsonb_build_object(
+    'item_id', product_id,
+    'quantity', ceil(coalesce(estimated_quantity, quantity))::integer
+  )), '[]'::jsonb)
+  INTO v_items
+  FROM order_items
+  WHERE order_id = v_order.id
+    AND quote_id IS NULL;
+
+  IF jsonb_array_length(v_items) = 0 THEN
+    RAISE EXCEPTION 'Only orders with catalog items can be repeated';
+  END IF;
+
+  SELECT * INTO v_pickup_slot FROM delivery_slots WHERE id = v_order.pickup_slot_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'The order has no pickup window to repeat';
+  END IF;
+
+  v_pickup_starts := v_pickup_slot.starts_at AT TIME ZONE 'Europe/Amsterdam';
+  v_placed := v_order.payment_status = 'paid' OR v_order.payment_method IS NOT DISTINCT FROM 'invoice';
+
+  INSERT INTO pickup_plans (
+    user_id,
+    organization_id,
+    source_order_id,
+    service_identifier,
+    frequency,
+    weekday,
+    pickup_time,
+    pickup_address_id,
+    delivery_address_id,
+    items,
+    express,
+    delivery_option,
+    special_instructions,
+    on_account,
+    status,
+    next_pickup_on
+  ) VALUES (
+    v_order.user_id,
+    v_order.organization_id,
+    v_order.id,
+    v_order.service_identifier,
+    p_frequency,
+    extract(isodow FROM v_pickup_starts)::smallint,
+    v_pickup_starts::time,
+    p_pickup_address_id,
+    p_delivery_address_id,
+    v_items,
+    v_order.is_express,
+    v_order.shipping_method,
+    v_order.special_instructions,
+    v_order.payment_method IS NOT DISTINCT FROM 'invoice',
+    CASE WHEN v_placed THEN 'active' ELSE 'pending' END,
+    v_pickup_starts::date + pickup_plan_interval(p_frequency)
+  )
+  -- A retried checkout changes the plan of the same order
+  ON CONFLICT (source_order_id) DO UPDATE
+  SET
+    frequency = EXCLUDED.frequency,
+    pickup_address_id = EXCLUDED.pickup_address_id,
+    delivery_address_id = EXCLUDED.delivery_address_id,
+    next_pickup_on = EXCLUDED.next_pickup_on
+  WHERE pickup_plans.status IN ('pending', 'active')
+  RETURNING * INTO v_plan;
+
+  RETURN v_plan;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION create_order(p_order jsonb)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_vat_rate constant numeric := 0.21;
+  v_shipping_fee constant numeric := 0;
+  v_user_id uuid := auth.uid();
+  v_customer_name text;
+  v_email text;
+  v_phone text;
+  v_line jsonb;
+  v_item items;
+  v_quote custom_price_quotes;
+  v_unit_price numeric(10,2);
+  v_quantity integer;
+  v_lines jsonb := '[]'::jsonb;
+  v_subtotal numeric(10,2) := 0;
+  v_tax numeric(10,2);
+  v_service services;
+  v_is_express boolean := coalesce((p_order->>'express')::boolean, false);
+  v_turnaround_hours integer;
+  v_express_surcharge numeric(10,2) := 0;
+  v_pickup_address user_addresses;
+  v_delivery_address user_addresses;
+  v_pickup_slot delivery_slots;
+  v_delivery_slot delivery_slots;
+  v_pickup_capacity_id uuid;
+  v_delivery_capacity_id uuid;
+  v_organization_id uuid;
+  v_order orders;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF jsonb_typeof(p_order->'items') IS DISTINCT FROM 'array'
+    OR jsonb_array_length(p_order->'items') = 0
+  THEN
+    RAISE EXCEPTION 'An order needs at least one item';
+  END IF;
+
+  -- Customer details come from the account, not from the request
+  SELECT
+    nullif(trim(concat_ws(' ',
+      coalesce(p.first_name, u.raw_user_meta_data->>'first_name'),
+      coalesce(p.last_name, u.raw_user_meta_data->>'last_name')
+    )), ''),
+    u.email,
+    coalesce(p.phone, u.raw_user_meta_data->>'phone')
+  INTO v_customer_name, v_email, v_phone
+  FROM auth.users u
+  LEFT JOIN profiles p ON p.id = u.id
+  WHERE u.id = v_user_id;
+
+  -- Orders of business members are billed to their organisation. The client
+  -- names it, or sends null for a personal order; without either, a member
+  -- of exactly one organisation orders for that organisation.
+  IF p_order ? 'organization_id' THEN
+    v_organization_id := (p_order->>'organization_id')::uuid;
+
+    IF v_organization_id IS NOT NULL
+      AND coalesce(organization_role(v_organization_id), '') NOT IN ('owner', 'admin', 'orderer')
+    THEN
+      RAISE EXCEPTION 'You cannot order for this organisation'
+        USING ERRCODE = '42501';
+    END IF;
+  ELSE
+    SELECT CASE WHEN count(*) = 1 THEN (array_agg(m.organization_id))[1] END
+    INTO v_organization_id
+    FROM organization_members m
+    JOIN organizations o ON o.id = m.organization_id
+    WHERE m.user_id = v_user_id
+      AND m.status = 'active'
+      AND m.role IN ('owner', 'admin', 'orderer')
+      AND o.status = 'active';
+  END IF;
+
+  -- Price every line from the catalog before anything is written
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_order->'items')
+  LOOP
+    -- An accepted quote is a single line at the price staff quoted
+    IF v_line ? 'quote_id' THEN
+      SELECT * INTO v_quote
+      FROM custom_price_quotes
+      WHERE id = (v_line->>'quote_id')::uuid
+        AND user_id = v_user_id
+      FOR UPDATE;
+
+      IF NOT FOUND OR v_quote.status <> 'accepted' THEN
+        RAISE EXCEPTION 'Quote % has not been accepted', v_line->>'quote_id';
+      END IF;
+
+      IF v_quote.expires_at <= now() THEN
+        RAISE EXCEPTION 'The quote for % has expired', v_quote.item_name;
+      END IF;
+
+      IF quote_is_ordered(v_quote.id) THEN
+        RAISE EXCEPTION 'The quote for % has already been ordered', v_quote.item_name;
+      END IF;
+
+      -- Unpaid orders hold the quote too, so it cannot be paid twice; the
+      -- checkout cancels the customer's earlier draft before ordering again
+      IF EXISTS (
+        SELECT 1
+        FROM order_items oi
+        JOIN orders o ON o.id = oi.order_id
+        WHERE oi.quote_id = v_quote.id
+          AND o.status <> 'cancelled'
+      ) THEN
+        RAISE EXCEPTION 'The quote for % is already on another order', v_quote.item_name;
+      END IF;
+
+      -- Quoted prices include VAT, order lines are stored without it
+      v_unit_price := round(v_quote.suggested_price / (1 + v_vat_rate), 2);
+
+      v_lines := v_lines || jsonb_build_object(
+        'product_id', v_quote.id,
+        'product_name', v_quote.item_name,
+        'quote_id', v_quote.id,
+        'quantity', 1,
+        'unit_price', v_unit_price,
+        'subtotal', v_unit_price
+      );
+
+      v_subtotal := v_subtotal + v_unit_price;
+      CONTINUE;
+    END IF;
+
+    v_quantity := (v_line->>'quantity')::integer;
+    IF v_quantity IS NULL OR v_quantity < 1 OR v_quantity > 100 THEN
+      RAISE EXCEPTION 'Invalid quantity for item %', v_line->>'item_id';
+    END IF;
+
+    SELECT * INTO v_item
+    FROM items
+    WHERE id = (v_line->>'item_id')::uuid
+      AND status = true
+      AND is_custom_price = false
+      AND price IS NOT NULL;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item % is not available', v_line->>'item_id';
+    END IF;
+
+    -- Business orders are charged at the organisation's contract rate
+    v_unit_price := effective_item_price(v_item.id, v_organization_id);
+
+    -- The quantity of a kg item is the customer's estimate of its weight;
+    -- the line is settled once it has been weighed
+    v_lines := v_lines || jsonb_build_object(
+      'product_id', v_item.id,
+      'product_name', v_item.name,
+      'pricing_unit', v_item.pricing_unit,
+      'quantity', v_quantity,
+      'unit_price', v_unit_price,
+      'subtotal', v_unit_price * v_quantity
+    );
+
+    v_subtotal := v_subtotal + v_unit_price * v_quantity;
+  END LOOP;
+
+  SELECT * INTO v_service
+  FROM services
+  WHERE service_identifier = p_order->>'service'
+    AND status = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Service % is not available', p_order->>'service';
+  END IF;
+
+  -- Items must belong to the service they are ordered under, otherwise a
+  -- cart could borrow another service's turnaround or surcharge
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(v_lines) AS line
+    JOIN items i ON i.id = (line->>'product_id')::uuid
+    LEFT JOIN categories c ON c.id = i.category_id
+    WHERE line->>'quote_id' IS NULL
+      AND c.service_id IS DISTINCT FROM v_service.id
+  ) THEN
+    RAISE EXCEPTION 'Some items in this order do not belong to %', v_service.name;
+  END IF;
+
+  IF v_is_express THEN
+    IF v_service.express_turnaround_hours IS NULL THEN
+      RAISE EXCEPTION 'Express is not available for %', v_service.name;
+    END IF;
+
+    v_turnaround_hours := v_service.express_turnaround_hours;
+    v_express_surcharge := v_service.express_surcharge;
+  ELSE
+    v_turnaround_hours := v_service.turnaround_hours;
+  END IF;
+
+  -- VAT applies to the express surcharge as well
+  v_tax := round((v_subtotal + v_express_surcharge) * v_vat_rate, 2);
+
+  SELECT * INTO v_pickup_slot FROM delivery_slots WHERE id = (p_order->>'pickup_slot_id')::uuid;
+  SELECT * INTO v_delivery_slot FROM delivery_slots WHERE id = (p_order->>'delivery_slot_id')::uuid;
+
+  -- Addresses come from the customer's address book so drivers get the
+  -- structured details, never from free text in the request
+  SELECT * INTO v_pickup_address
+  FROM user_addresses
+  WHERE id = (p_order->>'pickup_address_id')::uuid
+    AND user_id = v_user_id;
+
+  SELECT * INTO v_delivery_address
+  FROM user_addresses
+  WHERE id = (p_order->>'delivery_address_id')::uuid
+    AND user_id = v_user_id;
+
+  IF v_pickup_address.id IS NULL OR v_delivery_address.id IS NULL THEN
+    RAISE EXCEPTION 'An order needs a pickup and a delivery address';
+  END IF;
+
+  IF lookup_service_area(v_pickup_address.postal_code) IS NULL THEN
+    RAISE EXCEPTION 'We do not pick up at postal code % yet', v_pickup_address.postal_code;
+  END IF;
+
+  IF lookup_service_area(v_delivery_address.postal_code) IS NULL THEN
+    RAISE EXCEPTION 'We do not deliver to postal code % yet', v_delivery_address.postal_code;
+  END IF;
+
+  IF v_pickup_slot.id IS NULL OR v_delivery_slot.id IS NULL THEN
+    RAISE EXCEPTION 'Please select a pickup and a delivery slot';
+  END IF;
+
+  IF v_delivery_slot.starts_at < v_pickup_slot.ends_at + make_interval(hours => v_turnaround_hours) THEN
+    RAISE EXCEPTION '% needs at least % hours between pickup and delivery',
+      v_service.name, v_turnaround_hours;
+  END IF;
+
+  v_pickup_capacity_id := reserve_slot_capacity(
+    v_pickup_slot.id, 'pickup', v_pickup_address.postal_code, p_order->>'service'
+  );
+  v_delivery_capacity_id := reserve_slot_capacity(
+    v_delivery_slot.id, 'delivery', v_delivery_address.postal_code, p_order->>'service'
+  );
+
+  -- order_number is filled in by the next_order_number() column default
+  INSERT INTO orders (
+    user_id,
+    organization_id,
+    service_identifier,
+    customer_name,
+    email,
+    phone,
+    pickup_address,
+    pickup_details,
+    shipping_address,
+    delivery_details,
+    shipping_method,
+    estimated_delivery,
+    pickup_slot_id,
+    delivery_slot_id,
+    is_express,
+    special_instructions,
+    subtotal,
+    express_surcharge,
+    tax,
+    shipping_fee,
+    total_amount,
+    status,
+    payment_status
+  ) VALUES (
+    v_user_id,
+    v_organization_id,
+    v_service.service_identifier,
+    coalesce(v_customer_name, v_email),
+    v_email,
+    v_phone,
+    format_address(v_pickup_address),
+    address_details(v_pickup_address),
+    format_address(v_delivery_address),
+    address_details(v_delivery_address),
+    p_order->>'delivery_option',
+    v_delivery_slot.starts_at,
+    v_pickup_slot.id,
+    v_delivery_slot.id,
+    v_is_express,
+    nullif(p_order->>'special_instructions', ''),
+    v_subtotal,
+    v_express_surcharge,
+    v_tax,
+    v_shipping_fee,
+    v_subtotal + v_express_surcharge + v_tax + v_shipping_fee,
+    'pending',
+    'pending'
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (
+    order_id,
+    product_id,
+    product_name,
+    quote_id,
+    pricing_unit,
+    quantity,
+    unit_price,
+    subtotal,
+    estimated_quantity,
+    estimated_subtotal
+  )
+  SELECT
+    v_order.id,
+    (line->>'product_id')::uuid,
+    line->>'product_name',
+    (line->>'quote_id')::uuid,
+    coalesce(line->>'pricing_unit', 'item'),
+    (line->>'quantity')::numeric,
+    (line->>'unit_price')::numeric,
+    (line->>'subtotal')::numeric,
+    CASE WHEN line->>'pricing_unit' = 'kg' THEN (line->>'quantity')::numeric END,
+    CASE WHEN line->>'pricing_unit' = 'kg' THEN (line->>'subtotal')::numeric END
+  FROM jsonb_array_elements(v_lines) AS line;
+
+  INSERT INTO slot_bookings (order_id, slot_capacity_id)
+  VALUES
+    (v_order.id, v_pickup_capacity_id),
+    (v_order.id, v_delivery_capacity_id);
+
+  RETURN v_order;
+END;
+$$;
+
+-- A bag is one item, whatever it weighs; its kilos are reported apart
+DROP FUNCTION IF EXISTS get_organization_category_breakdown(uuid, timestamptz, timestamptz);
+
+CREATE FUNCTION get_organization_category_breakdown(
+  p_organization_id uuid,
+  p_from timestamptz,
+  p_to timestamptz
+)
+RETURNS TABLE (
+  category_name text,
+  item_count bigint,
+  weight_kg numeric,
+  net_amount numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    coalesce(
+      c.name::text,
+      CASE WHEN oi.quote_id IS NOT NULL THEN 'Custom quotes' ELSE 'Other' END
+    ) AS category,
+    sum(CASE WHEN oi.pricing_unit = 'item' THEN oi.quantity ELSE 1 END)::bigint,
+    coalesce(sum(oi.quantity) FILTER (WHERE oi.pricing_unit = 'kg'), 0),
+    sum(oi.subtotal)
+  FROM organization_report_orders(p_organization_id, p_from, p_to) o
+  JOIN order_items oi ON oi.order_id = o.id
+  LEFT JOIN items i ON i.id = oi.product_id
+  LEFT JOIN categories c ON c.id = i.category_id
+  GROUP BY 1
+  ORDER BY 4 DESC;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION record_order_weights(uuid, jsonb) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION create_pickup_plan(uuid, text, uuid, uuid) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION create_order(jsonb) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION get_organization_category_breakdown(uuid, timestamptz, timestamptz) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION record_order_weights(uuid, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_pickup_plan(uuid, text, uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_order(jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_organization_category_breakdown(uuid, timestamptz, timestamptz) TO authenticated;
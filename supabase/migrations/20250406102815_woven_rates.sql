@@ -0,0 +1,631 @@
+/*
+  # Carpet Cleaning
+
+  1. New Tables
+    - `carpet_materials`: the materials a carpet can be made of, each with a
+      surcharge per m² (excl. VAT) on top of the rate of the carpet type
+
+  2. Changes
+    - `items.pricing_unit` accepts `m2`. The price of an m² item is the rate
+      per square metre of a carpet type
+    - Add the Carpet Cleaning service with its carpet types and materials
+    - `order_items.dimensions` keeps the length, width and material of a
+      carpet line; its quantity is the area in m²
+    - `create_order` prices carpet lines from their dimensions and material
+    - `create_pickup_plan` leaves carpets out of a plan
+
+  3. Security
+    - Enable RLS on `carpet_materials`
+    - Everyone reads the active materials, like the rest of the catalog
+    - Service role has full access
+*/
+
+ALTER TABLE items
+  DROP CONSTRAINT IF EXISTS valid_pricing_unit,
+  ADD CONSTRAINT valid_pricing_unit CHECK (pricing_unit IN ('item', 'kg', 'm2'));
+
+ALTER TABLE order_items
+  ADD COLUMN IF NOT EXISTS dimensions jsonb;
+
+CREATE TABLE IF NOT EXISTS carpet_materials (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE,
+  description text,
+  surcharge_per_m2 numeric(10,2) NOT NULL DEFAULT 0,
+  sequence integer NOT NULL DEFAULT 0,
+  status boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+
+  CONSTRAINT valid_surcharge CHECK (surcharge_per_m2 >= 0)
+);
+
+CREATE TRIGGER carpet_materials_updated_at
+  BEFORE UPDATE ON carpet_materials
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_updated_at();
+
+ALTER TABLE carpet_materials ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "carpet_materials_read_20250406" ON carpet_materials;
+DROP POLICY IF EXISTS "carpet_materials_service_role_20250406" ON carpet_materials;
+
+CREATE POLICY "carpet_materials_read_20250406"
+  ON carpet_materials
+  FOR SELECT
+  TO anon, authenticated
+  USING (status = true);
+
+CREATE POLICY "carpet_materials_service_role_20250406"
+  ON carpet_materials
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+INSERT INTO carpet_materials (name, description, surcharge_per_m2, sequence) VALUES
+  ('Synthetic', 'Polypropylene, polyester and nylon', 0, 1),
+  ('Cotton', 'Cotton and jute', 1.50, 2),
+  ('Wool', 'Wool and wool blends', 3.00, 3),
+  ('Viscose', 'Viscose and bamboo silk', 5.00, 4),
+  ('Silk', 'Pure silk', 9.00, 5)
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO services (
+  name,
+  description,
+  short_description,
+  icon,
+  price_starts_at,
+  price_unit,
+  features,
+  benefits,
+  service_identifier,
+  color_scheme,
+  sequence,
+  turnaround_hours
+) VALUES (
+  'Carpet Cleaning',
+  'Deep cleaning for rugs and carpets. We collect your carpet, wash it by hand or machine depending on its material, dry it in our drying room and bring it back fresh.',
+  'Deep cleaning for rugs and carpets, priced per m²',
+  'layers',
+  9.99,
+  'per m²',
+  ARRAY[
+    'Priced by the area of your carpet',
+    'Material-specific washing',
+    'Stain and odour treatment',
+    'Dried in our drying room'
+  ],
+  ARRAY[
+    'Instant price from your measurements',
+    'Safe for wool and silk',
+    'No heavy lifting'
+  ],
+  'carpet-cleaning',
+  '{"primary": "bg-rose-600", "secondary": "bg-rose-50"}'::jsonb,
+  5,
+  72
+)
+ON CONFLICT (service_identifier) DO NOTHING;
+
+INSERT INTO categories (service_id, name, description, icon, sequence)
+SELECT s.id, 'Carpets', 'Rugs and carpets', 'layers', 1
+FROM services s
+WHERE s.service_identifier = 'carpet-cleaning'
+  AND NOT EXISTS (SELECT 1 FROM categories c WHERE c.service_id = s.id);
+
+INSERT INTO items (category_id, name, description, price, is_custom_price, is_popular, sequence, pricing_unit)
+SELECT c.id, carpet.name, carpet.description, carpet.price, false, carpet.is_popular, carpet.sequence, 'm2'
+FROM categories c
+JOIN services s ON s.id = c.service_id
+CROSS JOIN (VALUES
+  ('Machine-made rug', 'Woven or tufted rugs', 12.99, true, 1),
+  ('Hand-knotted rug', 'Oriental, Persian and other hand-knotted rugs', 19.99, false, 2),
+  ('Carpet piece', 'Cut pieces of wall-to-wall carpet', 9.99, false, 3)
+) AS carpet(name, description, price, is_popular, sequence)
+WHERE s.service_identifier = 'carpet-cleaning'
+  AND c.name = 'Carpets'
+  AND NOT EXISTS (SELECT 1 FROM items i WHERE i.category_id = c.id AND i.pricing_unit = 'm2');
+
+CREATE OR REPLACE FUNCTION create_pickup_plan(
+  p_order_id uuid,
+  p_frequency text,
+  p_pickup_address_id uuid,
+  p_delivery_address_id uuid
+)
+RETURNS pickup_plans
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order orders;
+  v_pickup_slot delivery_slots;
+  v_pickup_starts timestamp;
+  v_items jsonb;
+  v_placed boolean;
+  v_plan pickup_plans;
+BEGIN
+  IF p_frequency NOT IN ('weekly', 'biweekly') THEN
+    RAISE EXCEPTION 'Pickups repeat every week or every two weeks';
+  END IF;
+
+  SELECT * INTO v_order
+  FROM orders
+  WHERE id = p_order_id
+    AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id;
+  END IF;
+
+  IF v_order.status = 'cancelled' THEN
+    RAISE EXCEPTION 'A cancelled order cannot be repeated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM user_addresses WHERE id = p_pickup_address_id AND user_id = auth.uid()
+  ) OR NOT EXISTS (
+    SELECT 1 FROM user_addresses WHERE id = p_delivery_address_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'A pickup plan needs a pickup and a delivery address';
+  END IF;
+
+  -- Bags are repeated at the weight the customer estimated, not the one
+  -- measured at the facility. Carpets are one-offs like quotes
+  SELECT coalesce(jsonb_agg(jsonb_build_object(
+    'item_id', product_id,
+    'quantity', ceil(coalesce(estimated_quantity, quantity))::integer
+  )), '[]'::jsonb)
+  INTO v_items
+  FROM order_items
+  WHERE order_id = v_order.id
+    AND quote_id IS NULL
+    AND pricing_unit <> 'm2';
+
+  IF jsonb_array_length(v_items) = 0 THEN
+    RAISE EXCEPTION 'Only orders with catalog items can be repeated';
+  END IF;
+
+  SELECT * INTO v_pickup_slot FROM delivery_slots WHERE id = v_order.pickup_slot_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'The order has no pickup window to repeat';
+  END IF;
+
+  v_pickup_starts := v_pickup_slot.starts_at AT TIME ZONE 'Europe/Amsterdam';
+  v_placed := v_order.payment_status = 'paid' OR v_order.payment_method IS NOT DISTINCT FROM 'invoice';
+
+  INSERT INTO pickup_plans (
+    user_id,
+    organization_id,
+    source_order_id,
+    service_identifier,
+    frequency,
+    weekday,
+    pickup_time,
+    pickup_address_id,
+    delivery_address_id,
+    items,
+    express,
+    delivery_option,
+    special_instructions,
+    on_account,
+    status,
+    next_pickup_on
+  ) VALUES (
+    v_order.user_id,
+    v_order.organization_id,
+    v_order.id,
+    v_order.service_identifier,
+    p_frequency,
+    extract(isodow FROM v_pickup_starts)::smallint,
+    v_pickup_starts::time,
+    p_pickup_address_id,
+    p_delivery_address_id,
+    v_items,
+    v_order.is_express,
+    v_order.shipping_method,
+    v_order.special_instructions,
+    v_order.payment_method IS NOT DISTINCT FROM 'invoice',
+    CASE WHEN v_placed THEN 'active' ELSE 'pending' END,
+    v_pickup_starts::date + pickup_plan_interval(p_frequency)
+  )
+  -- A retried checkout changes the plan of the same order
+  ON CONFLICT (source_order_id) DO UPDATE
+  SET
+    frequency = EXCLUDED.frequency,
+    pickup_address_id = EXCLUDED.pickup_address_id,
+    delivery_address_id = EXCLUDED.delivery_address_id,
+    next_pickup_on = EXCLUDED.next_pickup_on
+  WHERE pickup_plans.status IN ('pending', 'active')
+  RETURNING * INTO v_plan;
+
+  RETURN v_plan;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION create_order(p_order jsonb)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_vat_rate constant numeric := 0.21;
+  v_shipping_fee constant numeric := 0;
+  v_user_id uuid := auth.uid();
+  v_customer_name text;
+  v_email text;
+  v_phone text;
+  v_line jsonb;
+  v_item items;
+  v_quote custom_price_quotes;
+  v_unit_price numeric(10,2);
+  v_quantity integer;
+  v_material carpet_materials;
+  v_length numeric;
+  v_width numeric;
+  v_area numeric(10,2);
+  v_lines jsonb := '[]'::jsonb;
+  v_subtotal numeric(10,2) := 0;
+  v_tax numeric(10,2);
+  v_service services;
+  v_is_express boolean := coalesce((p_order->>'express')::boolean, false);
+  v_turnaround_hours integer;
+  v_express_surcharge numeric(10,2) := 0;
+  v_pickup_address user_addresses;
+  v_delivery_address user_addresses;
+  v_pickup_slot delivery_slots;
+  v_delivery_slot delivery_slots;
+  v_pickup_capacity_id uuid;
+  v_delivery_capacity_id uuid;
+  v_organization_id uuid;
+  v_order orders;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'You must be signed in to place an order'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF jsonb_typeof(p_order->'items') IS DISTINCT FROM 'array'
+    OR jsonb_array_length(p_order->'items') = 0
+  THEN
+    RAISE EXCEPTION 'An order needs at least one item';
+  END IF;
+
+  -- Customer details come from the account, not from the request
+  SELECT
+    nullif(trim(concat_ws(' ',
+      coalesce(p.first_name, u.raw_user_meta_data->>'first_name'),
+      coalesce(p.last_name, u.raw_user_meta_data->>'last_name')
+    )), ''),
+    u.email,
+    coalesce(p.phone, u.raw_user_meta_data->>'phone')
+  INTO v_customer_name, v_email, v_phone
+  FROM auth.users u
+  LEFT JOIN profiles p ON p.id = u.id
+  WHERE u.id = v_user_id;
+
+  -- Orders of business members are billed to their organisation. The client
+  -- names it, or sends null for a personal order; without either, a member
+  -- of exactly one organisation orders for that organisation.
+  IF p_order ? 'organization_id' THEN
+    v_organization_id := (p_order->>'organization_id')::uuid;
+
+    IF v_organization_id IS NOT NULL
+      AND coalesce(organization_role(v_organization_id), '') NOT IN ('owner', 'admin', 'orderer')
+    THEN
+      RAISE EXCEPTION 'You cannot order for this organisation'
+        USING ERRCODE = '42501';
+    END IF;
+  ELSE
+    SELECT CASE WHEN count(*) = 1 THEN (array_agg(m.organization_id))[1] END
+    INTO v_organization_id
+    FROM organization_members m
+    JOIN organizations o ON o.id = m.organization_id
+    WHERE m.user_id = v_user_id
+      AND m.status = 'active'
+      AND m.role IN ('owner', 'admin', 'orderer')
+      AND o.status = 'active';
+  END IF;
+
+  -- Price every line from the catalog before anything is written
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_order->'items')
+  LOOP
+    -- An accepted quote is a single line at the price staff quoted
+    IF v_line ? 'quote_id' THEN
+      SELECT * INTO v_quote
+      FROM custom_price_quotes
+      WHERE id = (v_line->>'quote_id')::uuid
+        AND user_id = v_user_id
+      FOR UPDATE;
+
+      IF NOT FOUND OR v_quote.status <> 'accepted' THEN
+        RAISE EXCEPTION 'Quote % has not been accepted', v_line->>'quote_id';
+      END IF;
+
+      IF v_quote.expires_at <= now() THEN
+        RAISE EXCEPTION 'The quote for % has expired', v_quote.item_name;
+      END IF;
+
+      IF quote_is_ordered(v_quote.id) THEN
+        RAISE EXCEPTION 'The quote for % has already been ordered', v_quote.item_name;
+      END IF;
+
+      -- Unpaid orders hold the quote too, so it cannot be paid twice; the
+      -- checkout cancels the customer's earlier draft before ordering again
+      IF EXISTS (
+        SELECT 1
+        FROM order_items oi
+        JOIN orders o ON o.id = oi.order_id
+        WHERE oi.quote_id = v_quote.id
+          AND o.status <> 'cancelled'
+      ) THEN
+        RAISE EXCEPTION 'The quote for % is already on another order', v_quote.item_name;
+      END IF;
+
+      -- Quoted prices include VAT, order lines are stored without it
+      v_unit_price := round(v_quote.suggested_price / (1 + v_vat_rate), 2);
+
+      v_lines := v_lines || jsonb_build_object(
+        'product_id', v_quote.id,
+        'product_name', v_quote.item_name,
+        'quote_id', v_quote.id,
+        'quantity', 1,
+        'unit_price', v_unit_price,
+        'subtotal', v_unit_price
+      );
+
+      v_subtotal := v_subtotal + v_unit_price;
+      CONTINUE;
+    END IF;
+
+    SELECT * INTO v_item
+    FROM items
+    WHERE id = (v_line->>'item_id')::uuid
+      AND status = true
+      AND is_custom_price = false
+      AND price IS NOT NULL;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item % is not available', v_line->>'item_id';
+    END IF;
+
+    -- Business orders are charged at the organisation's contract rate
+    v_unit_price := effective_item_price(v_item.id, v_organization_id);
+
+    -- A carpet is one line per piece, priced by its area at the rate of
+    -- its type plus the surcharge of its material
+    IF v_item.pricing_unit = 'm2' THEN
+      v_length := (v_line->>'length_m')::numeric;
+      v_width := (v_line->>'width_m')::numeric;
+
+      IF v_length IS NULL OR v_width IS NULL
+        OR least(v_length, v_width) < 0.3 OR greatest(v_length, v_width) > 10
+      THEN
+        RAISE EXCEPTION 'Carpets must measure between 0.3 and 10 metres on each side';
+      END IF;
+
+      SELECT * INTO v_material
+      FROM carpet_materials
+      WHERE id = (v_line->>'material_id')::uuid
+        AND status = true;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Please choose the material of your %', v_item.name;
+      END IF;
+
+      v_area := round(v_length * v_width, 2);
+      v_unit_price := v_unit_price + v_material.surcharge_per_m2;
+
+      v_lines := v_lines || jsonb_build_object(
+        'product_id', v_item.id,
+        'product_name', v_item.name,
+        'pricing_unit', v_item.pricing_unit,
+        'quantity', v_area,
+        'unit_price', v_unit_price,
+        'subtotal', round(v_unit_price * v_area, 2),
+        'dimensions', jsonb_build_object(
+          'length_m', round(v_length, 2),
+          'width_m', round(v_width, 2),
+          'material_id', v_material.id,
+          'material', v_material.name
+        )
+      );
+
+      v_subtotal := v_subtotal + round(v_unit_price * v_area, 2);
+      CONTINUE;
+    END IF;
+
+    v_quantity := (v_line->>'quantity')::integer;
+    IF v_quantity IS NULL OR v_quantity < 1 OR v_quantity > 100 THEN
+      RAISE EXCEPTION 'Invalid quantity for item %', v_line->>'item_id';
+    END IF;
+
+    -- The quantity of a kg item is the customer's estimate of its weight;
+    -- the line is settled once it has been weighed
+    v_lines := v_lines || jsonb_build_object(
+      'product_id', v_item.id,
+      'product_name', v_item.name,
+      'pricing_unit', v_item.pricing_unit,
+      'quantity', v_quantity,
+      'unit_price', v_unit_price,
+      'subtotal', v_unit_price * v_quantity
+    );
+
+    v_subtotal := v_subtotal + v_unit_price * v_quantity;
+  END LOOP;
+
+  SELECT * INTO v_service
+  FROM services
+  WHERE service_identifier = p_order->>'service'
+    AND status = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Service % is not available', p_order->>'service';
+  END IF;
+
+  -- Items must belong to the service they are ordered under, otherwise a
+  -- cart could borrow another service's turnaround or surcharge
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(v_lines) AS line
+    JOIN items i ON i.id = (line->>'product_id')::uuid
+    LEFT JOIN categories c ON c.id = i.category_id
+    WHERE line->>'quote_id' IS NULL
+      AND c.service_id IS DISTINCT FROM v_service.id
+  ) THEN
+    RAISE EXCEPTION 'Some items in this order do not belong to %', v_service.name;
+  END IF;
+
+  IF v_is_express THEN
+    IF v_service.express_turnaround_hours IS NULL THEN
+      RAISE EXCEPTION 'Express is not available for %', v_service.name;
+    END IF;
+
+    v_turnaround_hours := v_service.express_turnaround_hours;
+    v_express_surcharge := v_service.express_surcharge;
+  ELSE
+    v_turnaround_hours := v_service.turnaround_hours;
+  END IF;
+
+  -- VAT applies to the express surcharge as well
+  v_tax := round((v_subtotal + v_express_surcharge) * v_vat_rate, 2);
+
+  SELECT * INTO v_pickup_slot FROM delivery_slots WHERE id = (p_order->>'pickup_slot_id')::uuid;
+  SELECT * INTO v_delivery_slot FROM delivery_slots WHERE id = (p_order->>'delivery_slot_id')::uuid;
+
+  -- Addresses come from the customer's address book so drivers get the
+  -- structured details, never from free text in the request
+  SELECT * INTO v_pickup_address
+  FROM user_addresses
+  WHERE id = (p_order->>'pickup_address_id')::uuid
+    AND user_id = v_user_id;
+
+  SELECT * INTO v_delivery_address
+  FROM user_addresses
+  WHERE id = (p_order->>'delivery_address_id')::uuid
+    AND user_id = v_user_id;
+
+  IF v_pickup_address.id IS NULL OR v_delivery_address.id IS NULL THEN
+    RAISE EXCEPTION 'An order needs a pickup and a delivery address';
+  END IF;
+
+  IF lookup_service_area(v_pickup_address.postal_code) IS NULL THEN
+    RAISE EXCEPTION 'We do not pick up at postal code % yet', v_pickup_address.postal_code;
+  END IF;
+
+  IF lookup_service_area(v_delivery_address.postal_code) IS NULL THEN
+    RAISE EXCEPTION 'We do not deliver to postal code % yet', v_delivery_address.postal_code;
+  END IF;
+
+  IF v_pickup_slot.id IS NULL OR v_delivery_slot.id IS NULL THEN
+    RAISE EXCEPTION 'Please select a pickup and a delivery slot';
+  END IF;
+
+  IF v_delivery_slot.starts_at < v_pickup_slot.ends_at + make_interval(hours => v_turnaround_hours) THEN
+    RAISE EXCEPTION '% needs at least % hours between pickup and delivery',
+      v_service.name, v_turnaround_hours;
+  END IF;
+
+  v_pickup_capacity_id := reserve_slot_capacity(
+    v_pickup_slot.id, 'pickup', v_pickup_address.postal_code, p_order->>'service'
+  );
+  v_delivery_capacity_id := reserve_slot_capacity(
+    v_delivery_slot.id, 'delivery', v_delivery_address.postal_code, p_order->>'service'
+  );
+
+  -- order_number is filled in by the next_order_number() column default
+  INSERT INTO orders (
+    user_id,
+    organization_id,
+    service_identifier,
+    customer_name,
+    email,
+    phone,
+    pickup_address,
+    pickup_details,
+    shipping_address,
+    delivery_details,
+    shipping_method,
+    estimated_delivery,
+    pickup_slot_id,
+    delivery_slot_id,
+    is_express,
+    special_instructions,
+    subtotal,
+    express_surcharge,
+    tax,
+    shipping_fee,
+    total_amount,
+    status,
+    payment_status
+  ) VALUES (
+    v_user_id,
+    v_organization_id,
+    v_service.service_identifier,
+    coalesce(v_customer_name, v_email),
+    v_email,
+    v_phone,
+    format_address(v_pickup_address),
+    address_details(v_pickup_address),
+    format_address(v_delivery_address),
+    address_details(v_delivery_address),
+    p_order->>'delivery_option',
+    v_delivery_slot.starts_at,
+    v_pickup_slot.id,
+    v_delivery_slot.id,
+    v_is_express,
+    nullif(p_order->>'special_instructions', ''),
+    v_subtotal,
+    v_express_surcharge,
+    v_tax,
+    v_shipping_fee,
+    v_subtotal + v_express_surcharge + v_tax + v_shipping_fee,
+    'pending',
+    'pending'
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (
+    order_id,
+    product_id,
+    product_name,
+    quote_id,
+    pricing_unit,
+    quantity,
+    unit_price,
+    subtotal,
+    estimated_quantity,
+    estimated_subtotal,
+    dimensions
+  )
+  SELECT
+    v_order.id,
+    (line->>'product_id')::uuid,
+    line->>'product_name',
+    (line->>'quote_id')::uuid,
+    coalesce(line->>'pricing_unit', 'item'),
+    (line->>'quantity')::numeric,
+    (line->>'unit_price')::numeric,
+    (line->>'subtotal')::numeric,
+    CASE WHEN line->>'pricing_unit' = 'kg' THEN (line->>'quantity')::numeric END,
+    CASE WHEN line->>'pricing_unit' = 'kg' THEN (line->>'subtotal')::numeric END,
+    line->'dimensions'
+  FROM jsonb_array_elements(v_lines) AS line;
+
+  INSERT INTO slot_bookings (order_id, slot_capacity_id)
+  VALUES
+    (v_order.id, v_pickup_capacity_id),
+    (v_order.id, v_delivery_capacity_id);
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION create_pickup_plan(uuid, text, uuid, uuid) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION create_order(jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_pickup_plan(uuid, text, uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_order(jsonb) TO authenticated;